@@ -22,6 +22,10 @@ jest.mock('./pages/VerifyPage', () => {
   return () => <div data-testid="verify-page">Verify Page</div>;
 });
 
+jest.mock('./pages/CallbackPage', () => {
+  return () => <div data-testid="callback-page">Callback Page</div>;
+});
+
 test('renders app without crashing', () => {
   render(<App />);
   const layoutElement = screen.getByTestId('layout');
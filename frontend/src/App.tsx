@@ -4,9 +4,12 @@ import { ThemeProvider, createTheme } from '@mui/material/styles';
 import { CssBaseline } from '@mui/material';
 import Layout from './components/Layout/Layout';
 import ErrorBoundary from './components/Common/ErrorBoundary';
+import RequireAuth from './components/Auth/RequireAuth';
+import { AuthProvider } from './context/AuthContext';
 import HomePage from './pages/HomePage';
 import IssuePage from './pages/IssuePage';
 import VerifyPage from './pages/VerifyPage';
+import CallbackPage from './pages/CallbackPage';
 
 const theme = createTheme({
   palette: {
@@ -45,15 +48,18 @@ function App() {
     <ThemeProvider theme={theme}>
       <CssBaseline />
       <ErrorBoundary>
-        <Router>
-          <Layout>
-            <Routes>
-              <Route path="/" element={<HomePage />} />
-              <Route path="/issue" element={<IssuePage />} />
-              <Route path="/verify" element={<VerifyPage />} />
-            </Routes>
-          </Layout>
-        </Router>
+        <AuthProvider>
+          <Router>
+            <Layout>
+              <Routes>
+                <Route path="/" element={<HomePage />} />
+                <Route path="/issue" element={<RequireAuth><IssuePage /></RequireAuth>} />
+                <Route path="/verify" element={<RequireAuth><VerifyPage /></RequireAuth>} />
+                <Route path="/callback" element={<CallbackPage />} />
+              </Routes>
+            </Layout>
+          </Router>
+        </AuthProvider>
       </ErrorBoundary>
     </ThemeProvider>
   );
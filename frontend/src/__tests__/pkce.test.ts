@@ -0,0 +1,39 @@
+import { createHash } from 'crypto';
+import { createCodeChallenge, decodeJwtPayload, generateRandomString } from '../utils/pkce';
+
+const encodeSegment = (value: object) =>
+  btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+describe('PKCE Utils', () => {
+  describe('generateRandomString', () => {
+    it('should generate distinct URL-safe strings', () => {
+      const first = generateRandomString();
+      const second = generateRandomString();
+
+      expect(first).toMatch(/^[\w-]{43}$/);
+      expect(first).not.toBe(second);
+    });
+  });
+
+  describe('createCodeChallenge', () => {
+    it('should derive the S256 challenge as the base64url SHA-256 of the verifier', async () => {
+      const verifier = generateRandomString();
+
+      expect(await createCodeChallenge(verifier))
+        .toBe(createHash('sha256').update(verifier).digest('base64url'));
+    });
+  });
+
+  describe('decodeJwtPayload', () => {
+    it('should read the claims of a JWT', () => {
+      const token = `${encodeSegment({ alg: 'RS256' })}.${encodeSegment({ sub: 'user-1', name: 'Jane Doe' })}.signature`;
+
+      expect(decodeJwtPayload(token)).toEqual({ sub: 'user-1', name: 'Jane Doe' });
+    });
+
+    it('should return null for values that are not JWTs', () => {
+      expect(decodeJwtPayload('not-a-token')).toBeNull();
+      expect(decodeJwtPayload('a.%%%.c')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import axios from 'axios';
+import { AuthService } from '../../services/authService';
+
+jest.mock('axios', () => ({
+  get: jest.fn(),
+  post: jest.fn(),
+}));
+
+jest.mock('../../config/auth', () => ({
+  OIDC_CONFIG: {
+    ISSUER: 'https://idp.test/realms/kube-credential',
+    CLIENT_ID: 'kube-credential-frontend',
+    SCOPE: 'openid profile email',
+    REDIRECT_PATH: '/callback',
+  },
+}));
+
+// Mock OIDC provider endpoints
+const discovery = {
+  authorization_endpoint: 'https://idp.test/realms/kube-credential/protocol/openid-connect/auth',
+  token_endpoint: 'https://idp.test/realms/kube-credential/protocol/openid-connect/token',
+  end_session_endpoint: 'https://idp.test/realms/kube-credential/protocol/openid-connect/logout',
+};
+
+const encodeSegment = (value: object) =>
+  btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const createToken = (claims: object) => `${encodeSegment({ alg: 'RS256' })}.${encodeSegment(claims)}.signature`;
+
+describe('AuthService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    sessionStorage.clear();
+    (axios.get as jest.Mock).mockResolvedValue({ data: discovery });
+  });
+
+  const startLogin = async (returnTo = '/issue') => {
+    const url = new URL(await AuthService.createLoginUrl(returnTo));
+    return url.searchParams;
+  };
+
+  describe('createLoginUrl', () => {
+    it('should build an authorization code request with a PKCE challenge', async () => {
+      const params = await startLogin();
+
+      expect(axios.get).toHaveBeenCalledWith(
+        'https://idp.test/realms/kube-credential/.well-known/openid-configuration'
+      );
+      expect(params.get('response_type')).toBe('code');
+      expect(params.get('client_id')).toBe('kube-credential-frontend');
+      expect(params.get('redirect_uri')).toBe('http://localhost/callback');
+      expect(params.get('code_challenge_method')).toBe('S256');
+      expect(params.get('code_challenge')).toMatch(/^[\w-]{43}$/);
+      expect(params.get('state')).toBeTruthy();
+    });
+  });
+
+  describe('handleCallback', () => {
+    it('should exchange the code with the code verifier and store the session', async () => {
+      const params = await startLogin();
+      (axios.post as jest.Mock).mockResolvedValue({
+        data: {
+          access_token: createToken({ sub: 'user-1', roles: ['issuer'] }),
+          id_token: createToken({ sub: 'user-1', name: 'Jane Doe', email: 'jane@example.com', nonce: params.get('nonce') }),
+          expires_in: 300,
+        },
+      });
+
+      const returnTo = await AuthService.handleCallback(`?code=auth-code&state=${params.get('state')}`);
+
+      expect(returnTo).toBe('/issue');
+      const [url, body] = (axios.post as jest.Mock).mock.calls[0];
+      expect(url).toBe(discovery.token_endpoint);
+      expect(body.get('grant_type')).toBe('authorization_code');
+      expect(body.get('code')).toBe('auth-code');
+      expect(body.get('code_verifier')).toMatch(/^[\w-]{43}$/);
+
+      expect(AuthService.getUser()).toEqual({ sub: 'user-1', name: 'Jane Doe', email: 'jane@example.com' });
+      expect(AuthService.getAccessToken()).toBeTruthy();
+    });
+
+    it('should reject responses with a state that does not match the login', async () => {
+      await startLogin();
+
+      await expect(AuthService.handleCallback('?code=auth-code&state=forged'))
+        .rejects.toThrow('Invalid login response, please sign in again');
+      expect(axios.post).not.toHaveBeenCalled();
+    });
+
+    it('should report errors returned by the identity provider', async () => {
+      await startLogin();
+
+      await expect(AuthService.handleCallback('?error=access_denied&error_description=User%20cancelled'))
+        .rejects.toThrow('User cancelled');
+    });
+  });
+
+  describe('getSession', () => {
+    it('should drop expired sessions', () => {
+      sessionStorage.setItem('kube-credential.auth.session', JSON.stringify({
+        access_token: 'expired-token',
+        expires_at: Date.now() - 1000,
+        user: { sub: 'user-1', name: 'Jane Doe' },
+      }));
+
+      expect(AuthService.getAccessToken()).toBeNull();
+      expect(AuthService.getUser()).toBeNull();
+    });
+  });
+});
@@ -32,6 +32,8 @@ describe('CredentialService', () => {
         credential_type: 'certificate',
         expiry_date: '2025-01-01T00:00:00.000Z',
         signature: 'test-signature',
+        signature_algorithm: 'Ed25519',
+        kid: 'test-kid',
         worker_id: 'worker-1',
         created_at: '2024-01-01T00:00:00.000Z',
         updated_at: '2024-01-01T00:00:00.000Z'
@@ -90,6 +92,8 @@ describe('CredentialService', () => {
         credential_type: 'certificate',
         expiry_date: '2025-01-01T00:00:00.000Z',
         signature: 'test-signature',
+        signature_algorithm: 'Ed25519',
+        kid: 'test-kid',
         worker_id: 'worker-1',
         created_at: '2024-01-01T00:00:00.000Z',
         updated_at: '2024-01-01T00:00:00.000Z'
@@ -134,6 +138,8 @@ describe('CredentialService', () => {
         credential_type: 'certificate',
         expiry_date: '2025-01-01T00:00:00.000Z',
         signature: 'test-signature',
+        signature_algorithm: 'Ed25519',
+        kid: 'test-kid',
         worker_id: 'worker-1',
         created_at: '2024-01-01T00:00:00.000Z',
         updated_at: '2024-01-01T00:00:00.000Z'
@@ -155,6 +161,157 @@ describe('CredentialService', () => {
     });
   });
 
+  describe('verifyCredentialById', () => {
+    it('should verify an issued credential by its ID', async () => {
+      const mockVerificationResult = {
+        verification_id: 'verification-id',
+        credential_id: '550e8400-e29b-41d4-a716-446655440000',
+        is_valid: true,
+        is_expired: false,
+        verification_status: 'valid' as const,
+        verified_by: 'worker-1',
+        verified_at: '2024-01-01T00:00:00.000Z'
+      };
+
+      (verificationAPI.get as jest.Mock).mockResolvedValue({
+        data: { success: true, data: mockVerificationResult }
+      });
+
+      const result = await CredentialService.verifyCredentialById('550e8400-e29b-41d4-a716-446655440000');
+
+      expect(result).toEqual(mockVerificationResult);
+      expect(verificationAPI.get).toHaveBeenCalledWith(
+        '/api/verifications/check/550e8400-e29b-41d4-a716-446655440000'
+      );
+    });
+
+    it('should handle an invalid credential ID', async () => {
+      (verificationAPI.get as jest.Mock).mockRejectedValue({
+        response: { data: { success: false, message: 'Validation error: "credential_id" must be a valid GUID' } }
+      });
+
+      await expect(CredentialService.verifyCredentialById('not-an-id'))
+        .rejects.toThrow('Validation error: "credential_id" must be a valid GUID');
+    });
+  });
+
+  describe('QR codes and PDFs', () => {
+    it('should get a credential QR code as an image', async () => {
+      const image = new Blob(['<svg></svg>'], { type: 'image/svg+xml' });
+      (issuanceAPI.get as jest.Mock).mockResolvedValue({ data: image });
+
+      const result = await CredentialService.getCredentialQrCode('test-id', 'svg', 'jwt');
+
+      expect(result).toBe(image);
+      expect(issuanceAPI.get).toHaveBeenCalledWith('/api/credentials/test-id/qr', {
+        params: { format: 'svg', content: 'jwt' },
+        responseType: 'blob'
+      });
+    });
+
+    it('should report errors returned as a JSON blob', async () => {
+      (issuanceAPI.get as jest.Mock).mockRejectedValue({
+        response: { data: { text: async () => JSON.stringify({ success: false, message: 'Credential not found' }) } }
+      });
+
+      await expect(CredentialService.getCredentialQrCode('missing-id'))
+        .rejects.toThrow('Credential not found');
+    });
+
+    it('should get a credential as a PDF', async () => {
+      const pdf = new Blob(['%PDF-'], { type: 'application/pdf' });
+      (issuanceAPI.get as jest.Mock).mockResolvedValue({ data: pdf });
+
+      const result = await CredentialService.getCredentialPdf('test-id');
+
+      expect(result).toBe(pdf);
+      expect(issuanceAPI.get).toHaveBeenCalledWith('/api/credentials/test-id/pdf', { responseType: 'blob' });
+    });
+
+    it('should verify a credential read from a QR code as a JWT', async () => {
+      (verificationAPI.post as jest.Mock).mockResolvedValue({
+        data: { success: true, data: { credential_id: 'test-id', verification_status: 'valid' } }
+      });
+
+      const result = await CredentialService.verifyCredentialJwt('header.payload.signature');
+
+      expect(result.verification_status).toBe('valid');
+      expect(verificationAPI.post).toHaveBeenCalledWith(
+        '/api/verifications/jwt',
+        'header.payload.signature',
+        { headers: { 'Content-Type': 'application/jwt' } }
+      );
+    });
+  });
+
+  describe('getCredentialTypes', () => {
+    it('should return the credential types from the registry', async () => {
+      const credentialTypes = [
+        {
+          name: 'certificate',
+          display_name: 'Certificate',
+          default_validity_days: 365,
+          is_active: true,
+          created_at: '2024-01-01T00:00:00.000Z',
+          updated_at: '2024-01-01T00:00:00.000Z'
+        }
+      ];
+
+      (issuanceAPI.get as jest.Mock).mockResolvedValue({
+        data: {
+          success: true,
+          data: { credential_types: credentialTypes }
+        }
+      });
+
+      const result = await CredentialService.getCredentialTypes();
+
+      expect(result).toEqual(credentialTypes);
+      expect(issuanceAPI.get).toHaveBeenCalledWith('/api/credential-types');
+    });
+  });
+
+  describe('CSV import', () => {
+    const csv = 'Name,Type\nJohn Doe,certificate\n';
+    const columns = { holder_name: 'Name', credential_type: 'Type' };
+
+    it('should send a dry run and return the row results', async () => {
+      const preview = {
+        dry_run: true,
+        summary: { total: 1, valid: 1, conflicts: 0, invalid: 0 },
+        results: [{ row: 2, status: 'valid' }]
+      };
+
+      (issuanceAPI.post as jest.Mock).mockResolvedValue({ data: { success: true, data: preview } });
+
+      const result = await CredentialService.checkCsvImport(csv, columns);
+
+      expect(result).toEqual(preview);
+      expect(issuanceAPI.post).toHaveBeenCalledWith('/api/credentials/import', csv, expect.objectContaining({
+        params: { dry_run: true, columns },
+        headers: { 'Content-Type': 'text/csv' }
+      }));
+    });
+
+    it('should count the issued credentials in the results CSV', async () => {
+      const resultsCsv = 'row,status,credential_id\r\n2,created,id-1\r\n3,conflict,id-2\r\n';
+
+      (issuanceAPI.post as jest.Mock).mockResolvedValue({ data: resultsCsv });
+
+      const result = await CredentialService.importCsv(csv, columns);
+
+      expect(result).toEqual({ csv: resultsCsv, total: 2, created: 1 });
+    });
+
+    it('should report errors returned as JSON text', async () => {
+      (issuanceAPI.post as jest.Mock).mockRejectedValue({
+        response: { data: JSON.stringify({ success: false, message: 'Validation error: CSV has no column for: holder_name' }) }
+      });
+
+      await expect(CredentialService.importCsv(csv, columns)).rejects.toThrow('CSV has no column for: holder_name');
+    });
+  });
+
   describe('health checks', () => {
     it('should check issuance service health', async () => {
       const mockResponse = {
@@ -0,0 +1,60 @@
+import { SpanStatusCode } from '@opentelemetry/api';
+import { InMemorySpanExporter, SimpleSpanProcessor, WebTracerProvider } from '@opentelemetry/sdk-trace-web';
+import { AxiosHeaders, InternalAxiosRequestConfig } from 'axios';
+import { endRequestSpan, startRequestSpan } from '../config/tracing';
+
+describe('Tracing', () => {
+  const exporter = new InMemorySpanExporter();
+
+  const createConfig = (): InternalAxiosRequestConfig => ({
+    baseURL: 'http://localhost:3002',
+    url: '/api/verifications',
+    method: 'post',
+    headers: new AxiosHeaders(),
+  });
+
+  beforeAll(() => {
+    new WebTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] }).register();
+  });
+
+  afterEach(() => {
+    exporter.reset();
+  });
+
+  it('should send the trace context of the request span in the traceparent header', () => {
+    const config = startRequestSpan(createConfig());
+    endRequestSpan(config, 200);
+
+    const [span] = exporter.getFinishedSpans();
+    const { traceId, spanId } = span.spanContext();
+
+    expect(config.headers.get('traceparent')).toBe(`00-${traceId}-${spanId}-01`);
+    expect(span.name).toBe('POST');
+    expect(span.attributes).toMatchObject({
+      'http.request.method': 'POST',
+      'url.full': 'http://localhost:3002/api/verifications',
+      'http.response.status_code': 200,
+    });
+    expect(span.status.code).toBe(SpanStatusCode.UNSET);
+  });
+
+  it('should mark requests that failed or got no response as errors', () => {
+    endRequestSpan(startRequestSpan(createConfig()), 500);
+    endRequestSpan(startRequestSpan(createConfig()));
+
+    const spans = exporter.getFinishedSpans();
+
+    expect(spans).toHaveLength(2);
+    expect(spans.map(span => span.status.code)).toEqual([SpanStatusCode.ERROR, SpanStatusCode.ERROR]);
+    expect(spans[1].attributes['http.response.status_code']).toBeUndefined();
+  });
+
+  it('should end each span once', () => {
+    const config = startRequestSpan(createConfig());
+    endRequestSpan(config, 200);
+    endRequestSpan(config, 200);
+    endRequestSpan(undefined, 200);
+
+    expect(exporter.getFinishedSpans()).toHaveLength(1);
+  });
+});
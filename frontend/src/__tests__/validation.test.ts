@@ -3,7 +3,12 @@ import {
     formatDate,
     isValidJSON,
     getVerificationStatusColor,
-    getVerificationStatusMessage
+    getVerificationStatusMessage,
+    getCredentialTypeDisplayName,
+    parseAttributes,
+    readCsvHeader,
+    guessCsvColumn,
+    isValidCredentialId
   } from '../utils/validation';
   
   describe('Frontend Validation Utils', () => {
@@ -89,7 +94,10 @@ import {
       it('should return correct colors for different statuses', () => {
         expect(getVerificationStatusColor('valid')).toBe('success');
         expect(getVerificationStatusColor('expired')).toBe('warning');
+        expect(getVerificationStatusColor('superseded')).toBe('warning');
+        expect(getVerificationStatusColor('status_unavailable')).toBe('warning');
         expect(getVerificationStatusColor('invalid')).toBe('error');
+        expect(getVerificationStatusColor('revoked')).toBe('error');
         expect(getVerificationStatusColor('not_found')).toBe('error');
         expect(getVerificationStatusColor('signature_mismatch')).toBe('error');
         expect(getVerificationStatusColor('unknown')).toBe('info');
@@ -101,10 +109,74 @@ import {
         expect(getVerificationStatusMessage('valid')).toContain('valid and verified');
         expect(getVerificationStatusMessage('expired')).toContain('expired');
         expect(getVerificationStatusMessage('invalid')).toContain('invalid');
+        expect(getVerificationStatusMessage('revoked')).toContain('revoked');
+        expect(getVerificationStatusMessage('superseded')).toContain('superseded');
         expect(getVerificationStatusMessage('not_found')).toContain('not found');
         expect(getVerificationStatusMessage('signature_mismatch')).toContain('signature is invalid');
+        expect(getVerificationStatusMessage('status_unavailable')).toContain('could not be checked');
         expect(getVerificationStatusMessage('unknown')).toContain('Unknown');
       });
     });
+  
+    describe('getCredentialTypeDisplayName', () => {
+      it('should use the display name from the registry', () => {
+        const credentialTypes = [{
+          name: 'membership',
+          display_name: 'Club Membership',
+          default_validity_days: 30,
+          is_active: true,
+          attributes_schema: null,
+          created_at: '2024-01-01T00:00:00.000Z',
+          updated_at: '2024-01-01T00:00:00.000Z'
+        }];
+
+        expect(getCredentialTypeDisplayName('membership', credentialTypes)).toBe('Club Membership');
+      });
+
+      it('should fall back to a readable form of the type name', () => {
+        expect(getCredentialTypeDisplayName('certificate')).toBe('Certificate');
+        expect(getCredentialTypeDisplayName('training_record')).toBe('Training Record');
+      });
+    });
+  
+    describe('parseAttributes', () => {
+      it('should parse a JSON object', () => {
+        expect(parseAttributes('{ "class": "B" }')).toEqual({ attributes: { class: 'B' } });
+      });
+
+      it('should treat empty input as no attributes', () => {
+        expect(parseAttributes('  ')).toEqual({});
+      });
+
+      it('should reject invalid JSON and non-object values', () => {
+        expect(parseAttributes('{ class: B }').error).toContain('valid JSON');
+        expect(parseAttributes('["B"]').error).toContain('JSON object');
+      });
+    });
+
+    describe('readCsvHeader', () => {
+      it('should read quoted and unquoted column names from the first line', () => {
+        expect(readCsvHeader('\uFEFFFull Name,"Type, of credential",Expiry\r\nJohn Doe,certificate,\r\n'))
+          .toEqual(['Full Name', 'Type, of credential', 'Expiry']);
+      });
+    });
+
+    describe('guessCsvColumn', () => {
+      it('should match column names to import fields ignoring case and spaces', () => {
+        const headers = ['Holder Name', 'Credential_Type', 'Notes'];
+
+        expect(guessCsvColumn(headers, 'holder_name')).toBe('Holder Name');
+        expect(guessCsvColumn(headers, 'credential_type')).toBe('Credential_Type');
+        expect(guessCsvColumn(headers, 'expiry_date')).toBe('');
+      });
+    });
+
+    describe('isValidCredentialId', () => {
+      it('should accept UUIDs and reject anything else', () => {
+        expect(isValidCredentialId('550e8400-e29b-41d4-a716-446655440000')).toBe(true);
+        expect(isValidCredentialId(' 550E8400-E29B-41D4-A716-446655440000 ')).toBe(true);
+        expect(isValidCredentialId('550e8400')).toBe(false);
+        expect(isValidCredentialId('')).toBe(false);
+      });
+    });
   });
-  
\ No newline at end of file
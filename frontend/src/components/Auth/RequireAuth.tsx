@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { Typography, Box, Button, Card, CardContent } from '@mui/material';
+import { Lock as LockIcon, Login as LoginIcon } from '@mui/icons-material';
+import { useLocation } from 'react-router-dom';
+import { useAuth } from '../../context/AuthContext';
+import ErrorAlert from '../Common/ErrorAlert';
+
+interface RequireAuthProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Only render the page for signed-in users when OIDC login is enabled
+ */
+const RequireAuth: React.FC<RequireAuthProps> = ({ children }) => {
+  const { enabled, isAuthenticated, login } = useAuth();
+  const location = useLocation();
+  const [error, setError] = useState<string | null>(null);
+
+  if (!enabled || isAuthenticated) {
+    return <>{children}</>;
+  }
+
+  const handleLogin = async () => {
+    try {
+      await login(location.pathname);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <Box sx={{ maxWidth: 480, mx: 'auto', mt: 4 }}>
+      <Card elevation={3}>
+        <CardContent sx={{ textAlign: 'center', p: 4 }}>
+          <LockIcon color="primary" sx={{ fontSize: 48, mb: 2 }} />
+          <Typography variant="h5" gutterBottom>
+            Sign In Required
+          </Typography>
+          <Typography variant="body1" color="text.secondary" sx={{ mb: 3 }}>
+            Sign in with your organization account to continue.
+          </Typography>
+          {error && <ErrorAlert error={error} title="Sign In Failed" />}
+          <Button variant="contained" size="large" startIcon={<LoginIcon />} onClick={handleLogin}>
+            Sign In
+          </Button>
+        </CardContent>
+      </Card>
+    </Box>
+  );
+};
+
+export default RequireAuth;
@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Typography,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CardActions,
+  Divider,
+  ToggleButton,
+  ToggleButtonGroup
+} from '@mui/material';
+import { Download as DownloadIcon } from '@mui/icons-material';
+import { CredentialService } from '../../services/credentialService';
+import { QrCodeContent, QrCodeFormat } from '../../types';
+import LoadingSpinner from '../Common/LoadingSpinner';
+import ErrorAlert from '../Common/ErrorAlert';
+
+interface CredentialQrCodeProps {
+  credentialId: string;
+}
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const CredentialQrCode: React.FC<CredentialQrCodeProps> = ({ credentialId }) => {
+  const [content, setContent] = useState<QrCodeContent>('reference');
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let url: string | null = null;
+    let cancelled = false;
+
+    setImageUrl(null);
+    setError(null);
+
+    CredentialService.getCredentialQrCode(credentialId, 'png', content)
+      .then(image => {
+        if (!cancelled) {
+          url = URL.createObjectURL(image);
+          setImageUrl(url);
+        }
+      })
+      .catch((err: Error) => {
+        if (!cancelled) {
+          setError(err.message);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      if (url) {
+        URL.revokeObjectURL(url);
+      }
+    };
+  }, [credentialId, content]);
+
+  const handleDownload = async (format: QrCodeFormat) => {
+    try {
+      const image = await CredentialService.getCredentialQrCode(credentialId, format, content);
+      downloadBlob(image, `credential-${credentialId}.${format}`);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <Card elevation={3} sx={{ mb: 4 }}>
+      <CardContent>
+        <Typography variant="h6" gutterBottom>
+          QR Code
+        </Typography>
+        <Divider sx={{ mb: 2 }} />
+
+        <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 2 }}>
+          <ToggleButtonGroup
+            value={content}
+            exclusive
+            size="small"
+            onChange={(_e, value: QrCodeContent | null) => value && setContent(value)}
+          >
+            <ToggleButton value="reference">Reference</ToggleButton>
+            <ToggleButton value="jwt">Signed Token</ToggleButton>
+          </ToggleButtonGroup>
+
+          {error ? (
+            <ErrorAlert error={error} title="QR Code Unavailable" />
+          ) : imageUrl ? (
+            <img src={imageUrl} alt="Credential QR code" width={240} height={240} />
+          ) : (
+            <LoadingSpinner message="Generating QR code..." />
+          )}
+
+          <Typography variant="body2" color="text.secondary" textAlign="center">
+            {content === 'reference'
+              ? 'The verifier looks the credential up by its ID when this code is scanned.'
+              : 'Holds the whole credential as a signed token, so it can be checked against the issuer keys.'}
+          </Typography>
+        </Box>
+      </CardContent>
+
+      <CardActions sx={{ p: 3, pt: 0, justifyContent: 'center' }}>
+        <Button variant="outlined" startIcon={<DownloadIcon />} onClick={() => handleDownload('png')}>
+          Download PNG
+        </Button>
+        <Button variant="outlined" startIcon={<DownloadIcon />} onClick={() => handleDownload('svg')}>
+          Download SVG
+        </Button>
+      </CardActions>
+    </Card>
+  );
+};
+
+export default CredentialQrCode;
@@ -0,0 +1,256 @@
+import React, { useState } from 'react';
+import {
+  Typography,
+  Box,
+  Button,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Card,
+  CardContent,
+  CardActions,
+  Alert,
+  Chip,
+  Grid,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow
+} from '@mui/material';
+import {
+  UploadFile as UploadIcon,
+  FactCheck as CheckIcon,
+  Send as SendIcon,
+  Download as DownloadIcon
+} from '@mui/icons-material';
+import { CredentialService } from '../../services/credentialService';
+import { CsvColumnMapping, CsvImportField, CsvImportPreview, CsvImportReport } from '../../types';
+import { readCsvHeader, guessCsvColumn } from '../../utils/validation';
+import LoadingSpinner from '../Common/LoadingSpinner';
+import ErrorAlert from '../Common/ErrorAlert';
+
+const IMPORT_FIELDS: { field: CsvImportField; label: string; required: boolean }[] = [
+  { field: 'holder_name', label: 'Holder Name Column', required: true },
+  { field: 'credential_type', label: 'Credential Type Column', required: true },
+  { field: 'expiry_date', label: 'Expiry Date Column (Optional)', required: false }
+];
+
+const downloadCsv = (csv: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const CsvImportForm: React.FC = () => {
+  const [fileName, setFileName] = useState('');
+  const [csv, setCsv] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [columns, setColumns] = useState<CsvColumnMapping>({});
+  const [preview, setPreview] = useState<CsvImportPreview | null>(null);
+  const [report, setReport] = useState<CsvImportReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    const text = await file.text();
+    const fileHeaders = readCsvHeader(text);
+
+    setFileName(file.name);
+    setCsv(text);
+    setHeaders(fileHeaders);
+    setColumns(Object.fromEntries(IMPORT_FIELDS.map(({ field }) => [field, guessCsvColumn(fileHeaders, field)])));
+    setPreview(null);
+    setReport(null);
+    setError(null);
+  };
+
+  const handleColumnChange = (field: CsvImportField, value: string) => {
+    setColumns(prev => ({ ...prev, [field]: value }));
+    setPreview(null);
+  };
+
+  // Unmapped optional columns are left out, so the service skips them
+  const mappedColumns = (): CsvColumnMapping =>
+    Object.fromEntries(Object.entries(columns).filter(([, column]) => column));
+
+  const handleCheck = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setPreview(await CredentialService.checkCsvImport(csv, mappedColumns()));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await CredentialService.importCsv(csv, mappedColumns());
+      setReport(result);
+      setPreview(null);
+      downloadCsv(result.csv, `issued-${fileName}`);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const isMapped = IMPORT_FIELDS.every(({ field, required }) => !required || columns[field]);
+  const rowsWithProblems = preview?.results.filter(result => result.status !== 'valid') || [];
+
+  return (
+    <Card elevation={3}>
+      <CardContent sx={{ p: 4 }}>
+        {error && (
+          <ErrorAlert
+            error={error}
+            onRetry={() => setError(null)}
+            title="CSV Import Failed"
+          />
+        )}
+
+        <Button
+          variant="outlined"
+          component="label"
+          startIcon={<UploadIcon />}
+          disabled={isLoading}
+        >
+          {fileName || 'Choose CSV File'}
+          <input type="file" accept=".csv,text/csv" hidden onChange={handleFileChange} />
+        </Button>
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+          The first line must name the columns. Each further line issues one credential.
+        </Typography>
+
+        {headers.length > 0 && (
+          <Grid container spacing={3} sx={{ mt: 1 }}>
+            {IMPORT_FIELDS.map(({ field, label, required }) => (
+              <Grid key={field} size={{ xs: 12, sm: 4 }}>
+                <FormControl fullWidth required={required}>
+                  <InputLabel>{label}</InputLabel>
+                  <Select
+                    value={columns[field] || ''}
+                    label={label}
+                    onChange={(e) => handleColumnChange(field, e.target.value)}
+                    disabled={isLoading}
+                  >
+                    {!required && (
+                      <MenuItem value="">
+                        <em>None</em>
+                      </MenuItem>
+                    )}
+                    {headers.map(header => (
+                      <MenuItem key={header} value={header}>
+                        {header}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Grid>
+            ))}
+          </Grid>
+        )}
+
+        {preview && (
+          <Box sx={{ mt: 3 }}>
+            <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+              <Chip label={`${preview.summary.valid} ready to issue`} color="success" size="small" />
+              <Chip label={`${preview.summary.conflicts} already issued`} color="warning" size="small" />
+              <Chip label={`${preview.summary.invalid} invalid`} color="error" size="small" />
+            </Box>
+
+            {rowsWithProblems.length > 0 && (
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Row</TableCell>
+                    <TableCell>Status</TableCell>
+                    <TableCell>Problem</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {rowsWithProblems.map(result => (
+                    <TableRow key={result.row}>
+                      <TableCell>{result.row}</TableCell>
+                      <TableCell>{result.status}</TableCell>
+                      <TableCell>{result.errors?.join('; ')}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </Box>
+        )}
+
+        {report && (
+          <Alert
+            severity={report.created > 0 ? 'success' : 'warning'}
+            sx={{ mt: 3 }}
+            action={
+              <Button
+                color="inherit"
+                size="small"
+                startIcon={<DownloadIcon />}
+                onClick={() => downloadCsv(report.csv, `issued-${fileName}`)}
+              >
+                Download
+              </Button>
+            }
+          >
+            Issued {report.created} of {report.total} credentials. The results file lists the ID and signature of each issued credential.
+          </Alert>
+        )}
+      </CardContent>
+
+      <CardActions sx={{ p: 4, pt: 0, gap: 2 }}>
+        {isLoading ? (
+          <LoadingSpinner message="Processing CSV file..." />
+        ) : (
+          <>
+            <Button
+              variant="outlined"
+              size="large"
+              startIcon={<CheckIcon />}
+              onClick={handleCheck}
+              disabled={!csv || !isMapped}
+              fullWidth
+              sx={{ py: 1.5 }}
+            >
+              Check File
+            </Button>
+            <Button
+              variant="contained"
+              size="large"
+              startIcon={<SendIcon />}
+              onClick={handleImport}
+              disabled={!preview || preview.summary.valid === 0}
+              fullWidth
+              sx={{ py: 1.5 }}
+            >
+              Issue Credentials
+            </Button>
+          </>
+        )}
+      </CardActions>
+    </Card>
+  );
+};
+
+export default CsvImportForm;
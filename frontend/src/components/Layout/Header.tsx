@@ -6,21 +6,27 @@ import {
   Button,
   Box,
   IconButton,
+  Tooltip,
   useTheme,
   useMediaQuery
 } from '@mui/material';
 import { 
   Security as SecurityIcon,
   VerifiedUser as VerifiedIcon,
-  Assignment as AssignmentIcon
+  Assignment as AssignmentIcon,
+  AccountCircle as AccountIcon,
+  Login as LoginIcon,
+  Logout as LogoutIcon
 } from '@mui/icons-material';
 import { useNavigate, useLocation } from 'react-router-dom';
+import { useAuth } from '../../context/AuthContext';
 
 const Header: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const { enabled: authEnabled, user, login, logout } = useAuth();
 
   const isActive = (path: string) => location.pathname === path;
 
@@ -80,6 +86,36 @@ const Header: React.FC = () => {
             {isMobile ? 'Verify' : 'Verify Credential'}
           </Button>
         </Box>
+
+        {authEnabled && (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, ml: 2 }}>
+            {user ? (
+              <>
+                <Tooltip title={user.email || user.name}>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                    <AccountIcon />
+                    {!isMobile && <Typography variant="body2">{user.name}</Typography>}
+                  </Box>
+                </Tooltip>
+                <Button
+                  color="inherit"
+                  startIcon={!isMobile ? <LogoutIcon /> : undefined}
+                  onClick={() => logout()}
+                >
+                  Logout
+                </Button>
+              </>
+            ) : (
+              <Button
+                color="inherit"
+                startIcon={!isMobile ? <LoginIcon /> : undefined}
+                onClick={() => login(location.pathname).catch(error => console.error('❌ Login failed:', error))}
+              >
+                Login
+              </Button>
+            )}
+          </Box>
+        )}
       </Toolbar>
     </AppBar>
   );
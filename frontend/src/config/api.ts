@@ -1,4 +1,6 @@
-import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import axios, { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { AuthService } from '../services/authService';
+import { endRequestSpan, startRequestSpan } from './tracing';
 
 // API Configuration
 const API_CONFIG = {
@@ -7,6 +9,17 @@ const API_CONFIG = {
   TIMEOUT: 10000,
 };
 
+// The services are called with the access token of the signed-in user, the bundle holds no credentials
+const attachAccessToken = (config: InternalAxiosRequestConfig): InternalAxiosRequestConfig => {
+  const accessToken = AuthService.getAccessToken();
+
+  if (accessToken) {
+    config.headers.set('Authorization', `Bearer ${accessToken}`);
+  }
+
+  return config;
+};
+
 // Create axios instances for each service
 export const issuanceAPI: AxiosInstance = axios.create({
   baseURL: API_CONFIG.ISSUANCE_SERVICE_URL,
@@ -28,7 +41,7 @@ export const verificationAPI: AxiosInstance = axios.create({
 issuanceAPI.interceptors.request.use(
   (config) => {
     console.log(`🚀 Issuance API Request: ${config.method?.toUpperCase()} ${config.url}`);
-    return config;
+    return startRequestSpan(attachAccessToken(config));
   },
   (error) => {
     console.error('❌ Issuance API Request Error:', error);
@@ -39,7 +52,7 @@ issuanceAPI.interceptors.request.use(
 verificationAPI.interceptors.request.use(
   (config) => {
     console.log(`🚀 Verification API Request: ${config.method?.toUpperCase()} ${config.url}`);
-    return config;
+    return startRequestSpan(attachAccessToken(config));
   },
   (error) => {
     console.error('❌ Verification API Request Error:', error);
@@ -51,9 +64,11 @@ verificationAPI.interceptors.request.use(
 issuanceAPI.interceptors.response.use(
   (response: AxiosResponse) => {
     console.log(`✅ Issuance API Response: ${response.status} ${response.config.url}`);
+    endRequestSpan(response.config, response.status);
     return response;
   },
   (error) => {
+    endRequestSpan(error.config, error.response?.status);
     console.error('❌ Issuance API Response Error:', {
       url: error.config?.url,
       status: error.response?.status,
@@ -67,9 +82,11 @@ issuanceAPI.interceptors.response.use(
 verificationAPI.interceptors.response.use(
   (response: AxiosResponse) => {
     console.log(`✅ Verification API Response: ${response.status} ${response.config.url}`);
+    endRequestSpan(response.config, response.status);
     return response;
   },
   (error) => {
+    endRequestSpan(error.config, error.response?.status);
     console.error('❌ Verification API Response Error:', {
       url: error.config?.url,
       status: error.response?.status,
@@ -0,0 +1,7 @@
+// OIDC login, enabled when the issuer and client ID are set
+export const OIDC_CONFIG = {
+  ISSUER: (process.env.REACT_APP_OIDC_ISSUER || '').replace(/\/+$/, ''),
+  CLIENT_ID: process.env.REACT_APP_OIDC_CLIENT_ID || '',
+  SCOPE: process.env.REACT_APP_OIDC_SCOPE || 'openid profile email',
+  REDIRECT_PATH: '/callback',
+};
@@ -0,0 +1,84 @@
+import { Span, SpanKind, SpanStatusCode, context, propagation, trace } from '@opentelemetry/api';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import { BatchSpanProcessor, WebTracerProvider } from '@opentelemetry/sdk-trace-web';
+import {
+  ATTR_HTTP_REQUEST_METHOD,
+  ATTR_HTTP_RESPONSE_STATUS_CODE,
+  ATTR_SERVICE_NAME,
+  ATTR_URL_FULL,
+} from '@opentelemetry/semantic-conventions';
+import { InternalAxiosRequestConfig } from 'axios';
+
+// OTLP/HTTP trace export, enabled when the collector endpoint is set. The collector must allow the frontend origin in CORS.
+export const TRACING_CONFIG = {
+  OTLP_ENDPOINT: (process.env.REACT_APP_OTEL_EXPORTER_OTLP_ENDPOINT || '').replace(/\/+$/, ''),
+  SERVICE_NAME: 'frontend',
+};
+
+const tracer = trace.getTracer(TRACING_CONFIG.SERVICE_NAME);
+
+// Spans of the API requests in flight, ended by the response interceptors
+const requestSpans = new WeakMap<InternalAxiosRequestConfig, Span>();
+
+/**
+ * Register the tracer provider exporting to the collector. Without an endpoint
+ * spans are not recorded and no traceparent header is sent.
+ */
+export const initTracing = (): void => {
+  if (!TRACING_CONFIG.OTLP_ENDPOINT) {
+    return;
+  }
+
+  const provider = new WebTracerProvider({
+    resource: resourceFromAttributes({ [ATTR_SERVICE_NAME]: TRACING_CONFIG.SERVICE_NAME }),
+    spanProcessors: [
+      new BatchSpanProcessor(new OTLPTraceExporter({ url: `${TRACING_CONFIG.OTLP_ENDPOINT}/v1/traces` })),
+    ],
+  });
+  provider.register();
+};
+
+/**
+ * Start a client span for an API request and pass its trace context to the
+ * service in the W3C traceparent header
+ */
+export const startRequestSpan = (config: InternalAxiosRequestConfig): InternalAxiosRequestConfig => {
+  const method = (config.method || 'get').toUpperCase();
+  const span = tracer.startSpan(method, {
+    kind: SpanKind.CLIENT,
+    attributes: {
+      [ATTR_HTTP_REQUEST_METHOD]: method,
+      [ATTR_URL_FULL]: `${config.baseURL || ''}${config.url || ''}`,
+    },
+  });
+
+  propagation.inject(trace.setSpan(context.active(), span), config.headers, {
+    set: (headers, key, value) => headers.set(key, value),
+  });
+  requestSpans.set(config, span);
+
+  return config;
+};
+
+/**
+ * End the span of an API request with the response status, if there was a response
+ */
+export const endRequestSpan = (config: InternalAxiosRequestConfig | undefined, status?: number): void => {
+  const span = config && requestSpans.get(config);
+
+  if (!config || !span) {
+    return;
+  }
+
+  if (status !== undefined) {
+    span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, status);
+  }
+
+  if (status === undefined || status >= 400) {
+    span.setStatus({ code: SpanStatusCode.ERROR });
+  }
+
+  span.end();
+  requestSpans.delete(config);
+};
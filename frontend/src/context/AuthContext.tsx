@@ -0,0 +1,48 @@
+import React, { createContext, useCallback, useContext, useMemo, useState } from 'react';
+import { AuthService } from '../services/authService';
+import { AuthUser } from '../types';
+
+interface AuthContextValue {
+  enabled: boolean;
+  user: AuthUser | null;
+  isAuthenticated: boolean;
+  login: (returnTo?: string) => Promise<void>;
+  logout: () => Promise<void>;
+  completeLogin: (search: string) => Promise<string>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [user, setUser] = useState<AuthUser | null>(() => AuthService.getUser());
+
+  const completeLogin = useCallback(async (search: string) => {
+    const returnTo = await AuthService.handleCallback(search);
+    setUser(AuthService.getUser());
+    return returnTo;
+  }, []);
+
+  const logout = useCallback(async () => {
+    setUser(null);
+    await AuthService.logout();
+  }, []);
+
+  const value = useMemo<AuthContextValue>(() => ({
+    enabled: AuthService.isEnabled(),
+    user,
+    isAuthenticated: user !== null,
+    login: (returnTo?: string) => AuthService.login(returnTo),
+    logout,
+    completeLogin,
+  }), [user, logout, completeLogin]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export const useAuth = (): AuthContextValue => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
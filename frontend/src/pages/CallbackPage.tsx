@@ -0,0 +1,41 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Box, Button } from '@mui/material';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import LoadingSpinner from '../components/Common/LoadingSpinner';
+import ErrorAlert from '../components/Common/ErrorAlert';
+
+const CallbackPage: React.FC = () => {
+  const { completeLogin } = useAuth();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [error, setError] = useState<string | null>(null);
+  // The authorization code can only be exchanged once
+  const handled = useRef(false);
+
+  useEffect(() => {
+    if (handled.current) {
+      return;
+    }
+    handled.current = true;
+
+    completeLogin(location.search)
+      .then(returnTo => navigate(returnTo, { replace: true }))
+      .catch((err: Error) => setError(err.message));
+  }, [completeLogin, location.search, navigate]);
+
+  if (error) {
+    return (
+      <Box sx={{ maxWidth: 600, mx: 'auto' }}>
+        <ErrorAlert error={error} title="Sign In Failed" />
+        <Button variant="outlined" onClick={() => navigate('/')}>
+          Back to Home
+        </Button>
+      </Box>
+    );
+  }
+
+  return <LoadingSpinner message="Signing in..." />;
+};
+
+export default CallbackPage;
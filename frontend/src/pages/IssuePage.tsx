@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   Typography,
   Box,
@@ -14,24 +14,29 @@ import {
   Alert,
   Divider,
   Chip,
-  Grid
+  Grid,
+  Tabs,
+  Tab
 } from '@mui/material';
 import {
   Assignment as AssignmentIcon,
   Send as SendIcon,
   CheckCircle as CheckIcon,
-  ContentCopy as CopyIcon
+  ContentCopy as CopyIcon,
+  PictureAsPdf as PdfIcon
 } from '@mui/icons-material';
 import { CredentialService } from '../services/credentialService';
 import { CreateCredentialRequest, Credential, CredentialType, FormErrors } from '../types';
-import { validateCredentialForm, formatDate, getCredentialTypeDisplayName } from '../utils/validation';
+import { validateCredentialForm, parseAttributes, formatDate, getCredentialTypeDisplayName } from '../utils/validation';
 import LoadingSpinner from '../components/Common/LoadingSpinner';
 import ErrorAlert from '../components/Common/ErrorAlert';
+import CsvImportForm from '../components/Issue/CsvImportForm';
+import CredentialQrCode from '../components/Issue/CredentialQrCode';
 
 const IssuePage: React.FC = () => {
   const [formData, setFormData] = useState<CreateCredentialRequest>({
     holder_name: '',
-    credential_type: 'certificate' as CredentialType,
+    credential_type: '',
     expiry_date: ''
   });
   
@@ -40,14 +45,25 @@ const IssuePage: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [issuedCredential, setIssuedCredential] = useState<Credential | null>(null);
 
-  const credentialTypes: CredentialType[] = [
-    'certificate',
-    'license',
-    'badge',
-    'diploma',
-    'permit',
-    'qualification'
-  ];
+  const [credentialTypes, setCredentialTypes] = useState<CredentialType[]>([]);
+  const [attributesJson, setAttributesJson] = useState('');
+  const [tab, setTab] = useState<'single' | 'csv'>('single');
+
+  useEffect(() => {
+    loadCredentialTypes();
+  }, []);
+
+  const loadCredentialTypes = async () => {
+    try {
+      const types = await CredentialService.getCredentialTypes();
+      setCredentialTypes(types);
+      setFormData(prev => ({ ...prev, credential_type: prev.credential_type || types[0]?.name || '' }));
+    } catch (err: any) {
+      setError(`Could not load credential types: ${err.message}`);
+    }
+  };
+
+  const selectedType = credentialTypes.find(type => type.name === formData.credential_type);
 
   const handleInputChange = (field: keyof CreateCredentialRequest, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
@@ -63,6 +79,10 @@ const IssuePage: React.FC = () => {
     
     // Validate form
     const validationErrors = validateCredentialForm(formData);
+    const { attributes, error: attributesError } = parseAttributes(attributesJson);
+    if (attributesError) {
+      validationErrors.attributes = attributesError;
+    }
     if (Object.keys(validationErrors).length > 0) {
       setErrors(validationErrors);
       return;
@@ -73,15 +93,16 @@ const IssuePage: React.FC = () => {
     setErrors({});
 
     try {
-      const credential = await CredentialService.issueCredential(formData);
+      const credential = await CredentialService.issueCredential({ ...formData, attributes });
       setIssuedCredential(credential);
       
       // Reset form
       setFormData({
         holder_name: '',
-        credential_type: 'certificate',
+        credential_type: credentialTypes[0]?.name || '',
         expiry_date: ''
       });
+      setAttributesJson('');
     } catch (err: any) {
       setError(err.message);
     } finally {
@@ -95,6 +116,24 @@ const IssuePage: React.FC = () => {
     }
   };
 
+  const downloadCredentialPdf = async () => {
+    if (!issuedCredential) {
+      return;
+    }
+
+    try {
+      const pdf = await CredentialService.getCredentialPdf(issuedCredential.id);
+      const url = URL.createObjectURL(pdf);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `credential-${issuedCredential.id}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
   const resetForm = () => {
     setIssuedCredential(null);
     setError(null);
@@ -114,6 +153,14 @@ const IssuePage: React.FC = () => {
           </Typography>
         </Box>
 
+        {error && (
+          <ErrorAlert
+            error={error}
+            onRetry={() => setError(null)}
+            title="Download Failed"
+          />
+        )}
+
         <Card elevation={3} sx={{ mb: 4 }}>
           <CardContent>
             <Typography variant="h6" gutterBottom>
@@ -145,7 +192,7 @@ const IssuePage: React.FC = () => {
                   Credential Type
                 </Typography>
                 <Chip 
-                  label={getCredentialTypeDisplayName(issuedCredential.credential_type as CredentialType)}
+                  label={getCredentialTypeDisplayName(issuedCredential.credential_type, credentialTypes)}
                   color="primary"
                   size="small"
                   sx={{ mb: 2 }}
@@ -178,6 +225,19 @@ const IssuePage: React.FC = () => {
                   {formatDate(issuedCredential.expiry_date)}
                 </Typography>
               </Grid>
+
+              {issuedCredential.attributes && Object.keys(issuedCredential.attributes).length > 0 && (
+                <Grid size={12}>
+                  <Typography variant="body2" color="text.secondary">
+                    Attributes
+                  </Typography>
+                  {Object.entries(issuedCredential.attributes).map(([name, value]) => (
+                    <Typography key={name} variant="body1">
+                      <strong>{name}:</strong> {typeof value === 'object' ? JSON.stringify(value) : String(value)}
+                    </Typography>
+                  ))}
+                </Grid>
+              )}
             </Grid>
           </CardContent>
           
@@ -190,6 +250,14 @@ const IssuePage: React.FC = () => {
             >
               Copy JSON
             </Button>
+            <Button
+              variant="outlined"
+              startIcon={<PdfIcon />}
+              onClick={downloadCredentialPdf}
+              sx={{ mr: 2 }}
+            >
+              Download PDF
+            </Button>
             <Button
               variant="contained"
               onClick={resetForm}
@@ -199,10 +267,12 @@ const IssuePage: React.FC = () => {
           </CardActions>
         </Card>
 
+        <CredentialQrCode credentialId={issuedCredential.id} />
+
         <Alert severity="info">
           <Typography variant="body2">
             <strong>Important:</strong> Save this credential information securely. 
-            You can use this JSON data to verify the credential later.
+            You can use this JSON data or the QR code to verify the credential later.
           </Typography>
         </Alert>
       </Box>
@@ -221,96 +291,135 @@ const IssuePage: React.FC = () => {
         </Typography>
       </Box>
 
-      {error && (
-        <ErrorAlert 
-          error={error} 
-          onRetry={() => setError(null)}
-          title="Failed to Issue Credential"
-        />
-      )}
+      <Tabs value={tab} onChange={(_e, value) => setTab(value)} centered sx={{ mb: 3 }}>
+        <Tab label="Single Credential" value="single" />
+        <Tab label="CSV Import" value="csv" />
+      </Tabs>
 
-      <Card elevation={3}>
-        <form onSubmit={handleSubmit}>
-          <CardContent sx={{ p: 4 }}>
-            <Grid container spacing={3}>
-              <Grid size={{ xs: 12 }}>
-                <TextField
-                  fullWidth
-                  label="Holder Name"
-                  value={formData.holder_name}
-                  onChange={(e) => handleInputChange('holder_name', e.target.value)}
-                  error={!!errors.holder_name}
-                  helperText={errors.holder_name || 'Enter the full name of the credential holder'}
-                  required
-                  disabled={isLoading}
-                />
-              </Grid>
+      {tab === 'csv' ? (
+        <CsvImportForm />
+      ) : (
+        <>
+          {error && (
+            <ErrorAlert 
+              error={error} 
+              onRetry={() => setError(null)}
+              title="Failed to Issue Credential"
+            />
+          )}
 
-              <Grid size={{ xs: 12, sm: 6 }}>
-                <FormControl fullWidth error={!!errors.credential_type}>
-                  <InputLabel>Credential Type</InputLabel>
-                  <Select
-                    value={formData.credential_type}
-                    label="Credential Type"
-                    onChange={(e) => handleInputChange('credential_type', e.target.value)}
-                    required
-                    disabled={isLoading}
-                  >
-                    {credentialTypes.map((type) => (
-                      <MenuItem key={type} value={type}>
-                        {getCredentialTypeDisplayName(type)}
-                      </MenuItem>
-                    ))}
-                  </Select>
-                  {errors.credential_type && (
-                    <Typography variant="caption" color="error" sx={{ mt: 1, ml: 2 }}>
-                      {errors.credential_type}
-                    </Typography>
-                  )}
-                </FormControl>
-              </Grid>
+          <Card elevation={3}>
+            <form onSubmit={handleSubmit}>
+              <CardContent sx={{ p: 4 }}>
+                <Grid container spacing={3}>
+                  <Grid size={{ xs: 12 }}>
+                    <TextField
+                      fullWidth
+                      label="Holder Name"
+                      value={formData.holder_name}
+                      onChange={(e) => handleInputChange('holder_name', e.target.value)}
+                      error={!!errors.holder_name}
+                      helperText={errors.holder_name || 'Enter the full name of the credential holder'}
+                      required
+                      disabled={isLoading}
+                    />
+                  </Grid>
 
-              <Grid size={{ xs: 12, sm: 6 }}>
-                <TextField
-                  fullWidth
-                  type="date"
-                  label="Expiry Date (Optional)"
-                  value={formData.expiry_date}
-                  onChange={(e) => handleInputChange('expiry_date', e.target.value)}
-                  error={!!errors.expiry_date}
-                  helperText={errors.expiry_date || 'Leave empty for 1-year default expiry'}
-                  InputLabelProps={{ shrink: true }}
-                  disabled={isLoading}
-                />
-              </Grid>
-            </Grid>
-          </CardContent>
+                  <Grid size={{ xs: 12, sm: 6 }}>
+                    <FormControl fullWidth error={!!errors.credential_type}>
+                      <InputLabel>Credential Type</InputLabel>
+                      <Select
+                        value={formData.credential_type}
+                        label="Credential Type"
+                        onChange={(e) => handleInputChange('credential_type', e.target.value)}
+                        required
+                        disabled={isLoading}
+                      >
+                        {credentialTypes.map((type) => (
+                          <MenuItem key={type.name} value={type.name}>
+                            {type.display_name}
+                          </MenuItem>
+                        ))}
+                      </Select>
+                      {errors.credential_type && (
+                        <Typography variant="caption" color="error" sx={{ mt: 1, ml: 2 }}>
+                          {errors.credential_type}
+                        </Typography>
+                      )}
+                    </FormControl>
+                  </Grid>
 
-          <CardActions sx={{ p: 4, pt: 0 }}>
-            {isLoading ? (
-              <LoadingSpinner message="Issuing credential..." />
-            ) : (
-              <Button
-                type="submit"
-                variant="contained"
-                size="large"
-                startIcon={<SendIcon />}
-                fullWidth
-                sx={{ py: 1.5 }}
-              >
-                Issue Credential
-              </Button>
-            )}
-          </CardActions>
-        </form>
-      </Card>
+                  <Grid size={{ xs: 12, sm: 6 }}>
+                    <TextField
+                      fullWidth
+                      type="date"
+                      label="Expiry Date (Optional)"
+                      value={formData.expiry_date}
+                      onChange={(e) => handleInputChange('expiry_date', e.target.value)}
+                      error={!!errors.expiry_date}
+                      helperText={errors.expiry_date || `Leave empty for the ${selectedType?.default_validity_days ?? 365}-day default expiry`}
+                      InputLabelProps={{ shrink: true }}
+                      disabled={isLoading}
+                    />
+                  </Grid>
 
-      <Alert severity="info" sx={{ mt: 3 }}>
-        <Typography variant="body2">
-          <strong>Note:</strong> Each credential is uniquely signed and tracked. 
-          Duplicate credentials for the same holder and type will be rejected.
-        </Typography>
-      </Alert>
+                  {selectedType?.attributes_schema && (
+                    <Grid size={12}>
+                      <TextField
+                        fullWidth
+                        multiline
+                        minRows={4}
+                        label="Attributes (JSON)"
+                        placeholder='{ "license_number": "DL-123" }'
+                        value={attributesJson}
+                        onChange={(e) => {
+                          setAttributesJson(e.target.value);
+                          if (errors.attributes) {
+                            setErrors(prev => ({ ...prev, attributes: '' }));
+                          }
+                        }}
+                        error={!!errors.attributes}
+                        helperText={
+                          errors.attributes ||
+                          (selectedType.attributes_schema.required?.length
+                            ? `Required attributes: ${selectedType.attributes_schema.required.join(', ')}`
+                            : `Optional attributes for ${selectedType.display_name} credentials`)
+                        }
+                        disabled={isLoading}
+                        sx={{ fontFamily: 'monospace' }}
+                      />
+                    </Grid>
+                  )}
+                </Grid>
+              </CardContent>
+
+              <CardActions sx={{ p: 4, pt: 0 }}>
+                {isLoading ? (
+                  <LoadingSpinner message="Issuing credential..." />
+                ) : (
+                  <Button
+                    type="submit"
+                    variant="contained"
+                    size="large"
+                    startIcon={<SendIcon />}
+                    fullWidth
+                    sx={{ py: 1.5 }}
+                  >
+                    Issue Credential
+                  </Button>
+                )}
+              </CardActions>
+            </form>
+          </Card>
+
+          <Alert severity="info" sx={{ mt: 3 }}>
+            <Typography variant="body2">
+              <strong>Note:</strong> Each credential is uniquely signed and tracked. 
+              Duplicate credentials for the same holder and type will be rejected.
+            </Typography>
+          </Alert>
+        </>
+      )}
     </Box>
   );
 };
@@ -10,7 +10,9 @@ import {
   Alert,
   Divider,
   Chip,
-  Grid
+  Grid,
+  Tabs,
+  Tab
 } from '@mui/material';
 import {
   VerifiedUser as VerifiedIcon,
@@ -18,22 +20,31 @@ import {
   CheckCircle as CheckIcon,
   Cancel as CancelIcon,
   Warning as WarningIcon,
-  Error as ErrorIcon
+  Error as ErrorIcon,
+  Block as BlockIcon,
+  QrCodeScanner as QrCodeScannerIcon
 } from '@mui/icons-material';
 import { CredentialService } from '../services/credentialService';
-import { Credential, VerificationResult } from '../types';
+import { Credential, QrCodePayload, VerificationResult } from '../types';
 import { 
   formatDate, 
   isValidJSON, 
+  isValidCredentialId,
   getVerificationStatusColor, 
   getVerificationStatusMessage,
-  getCredentialTypeDisplayName 
+  getCredentialTypeDisplayName,
+  getRevocationReasonDisplayName
 } from '../utils/validation';
+import { decodeQrImage, parseQrPayload } from '../utils/qrCode';
 import LoadingSpinner from '../components/Common/LoadingSpinner';
 import ErrorAlert from '../components/Common/ErrorAlert';
 
 const VerifyPage: React.FC = () => {
+  const [mode, setMode] = useState<'json' | 'id' | 'qr'>('json');
   const [credentialJson, setCredentialJson] = useState('');
+  const [credentialId, setCredentialId] = useState('');
+  const [qrFileName, setQrFileName] = useState('');
+  const [qrPayload, setQrPayload] = useState<QrCodePayload | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [verificationResult, setVerificationResult] = useState<VerificationResult | null>(null);
@@ -48,8 +59,86 @@ const VerifyPage: React.FC = () => {
     }
   };
 
+  // Verify an issued credential, showing the stored credential alongside the result when there is one
+  const verifyIssuedCredential = async (verify: () => Promise<VerificationResult>) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await verify();
+      setVerificationResult(result);
+
+      if (result.verification_status !== 'not_found') {
+        setParsedCredential(await CredentialService.getCredential(result.credential_id).catch(() => null));
+      }
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleVerifyById = async () => {
+    const id = credentialId.trim();
+
+    if (!isValidCredentialId(id)) {
+      setError('Please enter a valid credential ID');
+      return;
+    }
+
+    await verifyIssuedCredential(() => CredentialService.verifyCredentialById(id));
+  };
+
+  const handleQrImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    setQrFileName(file.name);
+    setQrPayload(null);
+    setError(null);
+
+    try {
+      const text = await decodeQrImage(file);
+      const payload = text === null ? null : parseQrPayload(text);
+
+      if (!payload) {
+        setError(text === null
+          ? 'No QR code was found in the image'
+          : 'The QR code does not contain a credential');
+        return;
+      }
+
+      setQrPayload(payload);
+    } catch (err: any) {
+      setError(`Could not read the image: ${err.message}`);
+    }
+  };
+
+  const handleVerifyQrCode = async () => {
+    if (!qrPayload) {
+      setError('Please upload an image of a credential QR code');
+      return;
+    }
+
+    await verifyIssuedCredential(() => qrPayload.content === 'reference'
+      ? CredentialService.verifyCredentialById(qrPayload.credential_id)
+      : CredentialService.verifyCredentialJwt(qrPayload.jwt));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (mode === 'id') {
+      await handleVerifyById();
+      return;
+    }
+
+    if (mode === 'qr') {
+      await handleVerifyQrCode();
+      return;
+    }
     
     // Validate JSON format
     if (!credentialJson.trim()) {
@@ -67,7 +156,7 @@ const VerifyPage: React.FC = () => {
       credential = JSON.parse(credentialJson);
       
       // Basic validation of required fields
-      const requiredFields = ['id', 'holder_name', 'issuer', 'issued_date', 'credential_type', 'expiry_date', 'signature', 'worker_id'];
+      const requiredFields = ['id', 'holder_name', 'issuer', 'issued_date', 'credential_type', 'expiry_date', 'signature', 'signature_algorithm', 'kid', 'worker_id'];
       const missingFields = requiredFields.filter(field => !credential[field as keyof Credential]);
       
       if (missingFields.length > 0) {
@@ -96,6 +185,9 @@ const VerifyPage: React.FC = () => {
 
   const resetForm = () => {
     setCredentialJson('');
+    setCredentialId('');
+    setQrFileName('');
+    setQrPayload(null);
     setVerificationResult(null);
     setParsedCredential(null);
     setError(null);
@@ -106,7 +198,11 @@ const VerifyPage: React.FC = () => {
       case 'valid':
         return <CheckIcon sx={{ fontSize: 64, color: 'success.main' }} />;
       case 'expired':
+      case 'superseded':
+      case 'status_unavailable':
         return <WarningIcon sx={{ fontSize: 64, color: 'warning.main' }} />;
+      case 'revoked':
+        return <BlockIcon sx={{ fontSize: 64, color: 'error.main' }} />;
       case 'invalid':
       case 'not_found':
       case 'signature_mismatch':
@@ -124,7 +220,9 @@ const VerifyPage: React.FC = () => {
       "issued_date": "2024-01-15T10:30:00.000Z",
       "credential_type": "certificate",
       "expiry_date": "2025-01-15T10:30:00.000Z",
-      "signature": "sample-signature-hash",
+      "signature": "sample-signature",
+      "signature_algorithm": "Ed25519",
+      "kid": "sample-key-id",
       "worker_id": "worker-1",
       "created_at": "2024-01-15T10:30:00.000Z",
       "updated_at": "2024-01-15T10:30:00.000Z"
@@ -133,7 +231,7 @@ const VerifyPage: React.FC = () => {
     setCredentialJson(JSON.stringify(sampleCredential, null, 2));
   };
 
-  if (verificationResult && parsedCredential) {
+  if (verificationResult) {
     return (
       <Box>
         <Box sx={{ textAlign: 'center', mb: 4 }}>
@@ -149,68 +247,88 @@ const VerifyPage: React.FC = () => {
           />
         </Box>
 
+        {verificationResult.verification_status === 'revoked' && verificationResult.revocation_reason && (
+          <Alert severity="error" sx={{ mb: 4 }}>
+            <Typography variant="body2">
+              <strong>Revoked:</strong> {getRevocationReasonDisplayName(verificationResult.revocation_reason)}
+              {verificationResult.revoked_at && ` on ${formatDate(verificationResult.revoked_at)}`}
+            </Typography>
+          </Alert>
+        )}
+
+        {verificationResult.verification_status === 'superseded' && verificationResult.superseded_by && (
+          <Alert severity="warning" sx={{ mb: 4 }}>
+            <Typography variant="body2">
+              <strong>Superseded:</strong> replaced by credential {verificationResult.superseded_by}
+              {verificationResult.superseded_at && ` on ${formatDate(verificationResult.superseded_at)}`}
+            </Typography>
+          </Alert>
+        )}
+
         <Grid container spacing={3} sx={{ mb: 4 }}>
           {/* Credential Information */}
-          <Grid size={{ xs: 12, md: 6 }}>
-            <Card elevation={3}>
-              <CardContent>
-                <Typography variant="h6" gutterBottom>
-                  Credential Information
-                </Typography>
-                <Divider sx={{ mb: 2 }} />
-                
-                <Box sx={{ mb: 2 }}>
-                  <Typography variant="body2" color="text.secondary">
-                    Credential ID
-                  </Typography>
-                  <Typography variant="body1" fontWeight="bold">
-                    {parsedCredential.id}
+          {parsedCredential && (
+            <Grid size={{ xs: 12, md: 6 }}>
+              <Card elevation={3}>
+                <CardContent>
+                  <Typography variant="h6" gutterBottom>
+                    Credential Information
                   </Typography>
-                </Box>
+                  <Divider sx={{ mb: 2 }} />
                 
-                <Box sx={{ mb: 2 }}>
-                  <Typography variant="body2" color="text.secondary">
-                    Holder Name
-                  </Typography>
-                  <Typography variant="body1" fontWeight="bold">
-                    {parsedCredential.holder_name}
-                  </Typography>
-                </Box>
+                  <Box sx={{ mb: 2 }}>
+                    <Typography variant="body2" color="text.secondary">
+                      Credential ID
+                    </Typography>
+                    <Typography variant="body1" fontWeight="bold">
+                      {parsedCredential.id}
+                    </Typography>
+                  </Box>
                 
-                <Box sx={{ mb: 2 }}>
-                  <Typography variant="body2" color="text.secondary">
-                    Credential Type
-                  </Typography>
-                  <Chip 
-                    label={getCredentialTypeDisplayName(parsedCredential.credential_type as any)}
-                    color="primary"
-                    size="small"
-                  />
-                </Box>
+                  <Box sx={{ mb: 2 }}>
+                    <Typography variant="body2" color="text.secondary">
+                      Holder Name
+                    </Typography>
+                    <Typography variant="body1" fontWeight="bold">
+                      {parsedCredential.holder_name}
+                    </Typography>
+                  </Box>
                 
-                <Box sx={{ mb: 2 }}>
-                  <Typography variant="body2" color="text.secondary">
-                    Issued Date
-                  </Typography>
-                  <Typography variant="body1">
-                    {formatDate(parsedCredential.issued_date)}
-                  </Typography>
-                </Box>
+                  <Box sx={{ mb: 2 }}>
+                    <Typography variant="body2" color="text.secondary">
+                      Credential Type
+                    </Typography>
+                    <Chip 
+                      label={getCredentialTypeDisplayName(parsedCredential.credential_type)}
+                      color="primary"
+                      size="small"
+                    />
+                  </Box>
                 
-                <Box sx={{ mb: 2 }}>
-                  <Typography variant="body2" color="text.secondary">
-                    Expiry Date
-                  </Typography>
-                  <Typography variant="body1">
-                    {formatDate(parsedCredential.expiry_date)}
-                  </Typography>
-                </Box>
-              </CardContent>
-            </Card>
-          </Grid>
+                  <Box sx={{ mb: 2 }}>
+                    <Typography variant="body2" color="text.secondary">
+                      Issued Date
+                    </Typography>
+                    <Typography variant="body1">
+                      {formatDate(parsedCredential.issued_date)}
+                    </Typography>
+                  </Box>
+                
+                  <Box sx={{ mb: 2 }}>
+                    <Typography variant="body2" color="text.secondary">
+                      Expiry Date
+                    </Typography>
+                    <Typography variant="body1">
+                      {formatDate(parsedCredential.expiry_date)}
+                    </Typography>
+                  </Box>
+                </CardContent>
+              </Card>
+            </Grid>
+          )}
 
           {/* Verification Results */}
-          <Grid size={{ xs: 12, md: 6 }}>
+          <Grid size={{ xs: 12, md: parsedCredential ? 6 : 12 }}>
             <Card elevation={3}>
               <CardContent>
                 <Typography variant="h6" gutterBottom>
@@ -274,6 +392,28 @@ const VerifyPage: React.FC = () => {
                   </Typography>
                 </Box>
                 
+                {verificationResult.revocation_reason && (
+                  <Box sx={{ mb: 2 }}>
+                    <Typography variant="body2" color="text.secondary">
+                      Revocation Reason
+                    </Typography>
+                    <Typography variant="body1" color="error.main">
+                      {getRevocationReasonDisplayName(verificationResult.revocation_reason)}
+                    </Typography>
+                  </Box>
+                )}
+
+                {verificationResult.revoked_at && (
+                  <Box sx={{ mb: 2 }}>
+                    <Typography variant="body2" color="text.secondary">
+                      Revoked At
+                    </Typography>
+                    <Typography variant="body1">
+                      {formatDate(verificationResult.revoked_at)}
+                    </Typography>
+                  </Box>
+                )}
+                
                 {verificationResult.issuer_worker_id && (
                   <Box sx={{ mb: 2 }}>
                     <Typography variant="body2" color="text.secondary">
@@ -314,6 +454,20 @@ const VerifyPage: React.FC = () => {
         </Typography>
       </Box>
 
+      <Tabs
+        value={mode}
+        onChange={(_e, value) => {
+          setMode(value);
+          setError(null);
+        }}
+        centered
+        sx={{ mb: 3 }}
+      >
+        <Tab label="Credential JSON" value="json" />
+        <Tab label="Verify by ID" value="id" />
+        <Tab label="Scan QR Code" value="qr" />
+      </Tabs>
+
       {error && (
         <ErrorAlert 
           error={error} 
@@ -325,59 +479,116 @@ const VerifyPage: React.FC = () => {
       <Card elevation={3}>
         <form onSubmit={handleSubmit}>
           <CardContent sx={{ p: 4 }}>
-            <Box sx={{ mb: 3 }}>
-              <Typography variant="h6" gutterBottom>
-                Credential JSON Data
-              </Typography>
-              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
-                Paste the complete credential JSON object that you want to verify.
-              </Typography>
+            {mode === 'qr' ? (
+              <Box sx={{ mb: 3 }}>
+                <Typography variant="h6" gutterBottom>
+                  Credential QR Code
+                </Typography>
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                  Upload a photo or screenshot of the QR code shown with an issued credential.
+                </Typography>
+
+                <Button
+                  variant="outlined"
+                  component="label"
+                  startIcon={<QrCodeScannerIcon />}
+                  disabled={isLoading}
+                >
+                  {qrFileName || 'Choose QR Code Image'}
+                  <input type="file" accept="image/*" hidden onChange={handleQrImageChange} />
+                </Button>
+
+                {qrPayload && (
+                  <Alert severity="success" sx={{ mt: 2 }}>
+                    {qrPayload.content === 'reference'
+                      ? `Found credential ${qrPayload.credential_id}`
+                      : 'Found a signed credential token'}
+                  </Alert>
+                )}
+              </Box>
+            ) : mode === 'id' ? (
+              <Box sx={{ mb: 3 }}>
+                <Typography variant="h6" gutterBottom>
+                  Credential ID
+                </Typography>
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                  Enter the ID of an issued credential. Its signature, revocation and expiry
+                  are checked against the issuance records.
+                </Typography>
+
+                <TextField
+                  fullWidth
+                  label="Credential ID"
+                  value={credentialId}
+                  onChange={(e) => {
+                    setCredentialId(e.target.value);
+                    if (error) {
+                      setError(null);
+                    }
+                  }}
+                  placeholder="550e8400-e29b-41d4-a716-446655440000"
+                  disabled={isLoading}
+                />
+              </Box>
+            ) : (
+              <>
+                <Box sx={{ mb: 3 }}>
+                  <Typography variant="h6" gutterBottom>
+                    Credential JSON Data
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                    Paste the complete credential JSON object that you want to verify.
+                  </Typography>
               
-              <TextField
-                fullWidth
-                multiline
-                rows={12}
-                value={credentialJson}
-                onChange={(e) => handleInputChange(e.target.value)}
-                placeholder='Paste credential JSON here, e.g.:
-{
-  "id": "credential-id",
-  "holder_name": "John Doe",
-  "issuer": "Kube Credential Authority",
-  "issued_date": "2024-01-15T10:30:00.000Z",
-  "credential_type": "certificate",
-  "expiry_date": "2025-01-15T10:30:00.000Z",
-  "signature": "signature-hash",
-  "worker_id": "worker-1",
-  "created_at": "2024-01-15T10:30:00.000Z",
-  "updated_at": "2024-01-15T10:30:00.000Z"
-}'
-                disabled={isLoading}
-                sx={{
-                  '& .MuiInputBase-input': {
-                    fontFamily: 'monospace',
-                    fontSize: '0.875rem'
-                  }
-                }}
-              />
-            </Box>
-
-            <Box sx={{ display: 'flex', gap: 2, mb: 3 }}>
-              <Button
-                variant="outlined"
-                onClick={loadSampleCredential}
-                disabled={isLoading}
-              >
-                Load Sample
-              </Button>
-              <Button
-                variant="outlined"
-                onClick={() => setCredentialJson('')}
-                disabled={isLoading || !credentialJson}
-              >
-                Clear
-              </Button>
-            </Box>
+                  <TextField
+                    fullWidth
+                    multiline
+                    rows={12}
+                    value={credentialJson}
+                    onChange={(e) => handleInputChange(e.target.value)}
+                    placeholder='Paste credential JSON here, e.g.:
+    {
+      "id": "credential-id",
+      "holder_name": "John Doe",
+      "issuer": "Kube Credential Authority",
+      "issued_date": "2024-01-15T10:30:00.000Z",
+      "credential_type": "certificate",
+      "expiry_date": "2025-01-15T10:30:00.000Z",
+      "signature": "base64url-signature",
+      "signature_algorithm": "Ed25519",
+      "kid": "issuer-key-id",
+      "worker_id": "worker-1",
+      "created_at": "2024-01-15T10:30:00.000Z",
+      "updated_at": "2024-01-15T10:30:00.000Z"
+    }'
+                    disabled={isLoading}
+                    sx={{
+                      '& .MuiInputBase-input': {
+                        fontFamily: 'monospace',
+                        fontSize: '0.875rem'
+                      }
+                    }}
+                  />
+                </Box>
+
+                <Box sx={{ display: 'flex', gap: 2, mb: 3 }}>
+                  <Button
+                    variant="outlined"
+                    onClick={loadSampleCredential}
+                    disabled={isLoading}
+                  >
+                    Load Sample
+                  </Button>
+                  <Button
+                    variant="outlined"
+                    onClick={() => setCredentialJson('')}
+                    disabled={isLoading || !credentialJson}
+                  >
+                    Clear
+                  </Button>
+                </Box>
+              </>
+            )}
           </CardContent>
 
           <CardActions sx={{ p: 4, pt: 0 }}>
@@ -391,7 +602,7 @@ const VerifyPage: React.FC = () => {
                 startIcon={<SendIcon />}
                 fullWidth
                 sx={{ py: 1.5 }}
-                disabled={!credentialJson.trim()}
+                disabled={mode === 'qr' ? !qrPayload : mode === 'id' ? !credentialId.trim() : !credentialJson.trim()}
               >
                 Verify Credential
               </Button>
@@ -403,7 +614,7 @@ const VerifyPage: React.FC = () => {
       <Alert severity="info" sx={{ mt: 3 }}>
         <Typography variant="body2">
           <strong>Security Note:</strong> Verification checks the credential signature, 
-          cross-references with issuance records, and validates expiration status.
+          cross-references with issuance records, and validates revocation and expiration status.
         </Typography>
       </Alert>
     </Box>
@@ -0,0 +1,198 @@
+import axios from 'axios';
+import { OIDC_CONFIG } from '../config/auth';
+import { AuthSession, AuthUser } from '../types';
+import { createCodeChallenge, decodeJwtPayload, generateRandomString } from '../utils/pkce';
+
+const SESSION_KEY = 'kube-credential.auth.session';
+const PENDING_LOGIN_KEY = 'kube-credential.auth.pending-login';
+
+interface OidcDiscovery {
+  authorization_endpoint: string;
+  token_endpoint: string;
+  end_session_endpoint?: string;
+}
+
+interface PendingLogin {
+  state: string;
+  nonce: string;
+  code_verifier: string;
+  return_to: string;
+}
+
+let discovery: Promise<OidcDiscovery> | null = null;
+
+const getRedirectUri = () => `${window.location.origin}${OIDC_CONFIG.REDIRECT_PATH}`;
+
+export class AuthService {
+  /**
+   * Whether OIDC login is configured for this deployment
+   */
+  static isEnabled(): boolean {
+    return Boolean(OIDC_CONFIG.ISSUER && OIDC_CONFIG.CLIENT_ID);
+  }
+
+  /**
+   * Fetch the identity provider endpoints from its discovery document, once per page load
+   */
+  static getDiscovery(): Promise<OidcDiscovery> {
+    if (!discovery) {
+      discovery = axios
+        .get<OidcDiscovery>(`${OIDC_CONFIG.ISSUER}/.well-known/openid-configuration`)
+        .then(response => response.data)
+        .catch(error => {
+          discovery = null;
+          throw new Error(`Failed to reach the identity provider: ${error.message}`);
+        });
+    }
+
+    return discovery;
+  }
+
+  /**
+   * Build the authorization request URL (authorization code flow with PKCE) and remember
+   * the code verifier, state and nonce for the callback
+   */
+  static async createLoginUrl(returnTo = '/'): Promise<string> {
+    const { authorization_endpoint } = await this.getDiscovery();
+    const pendingLogin: PendingLogin = {
+      state: generateRandomString(),
+      nonce: generateRandomString(),
+      code_verifier: generateRandomString(),
+      return_to: returnTo,
+    };
+
+    sessionStorage.setItem(PENDING_LOGIN_KEY, JSON.stringify(pendingLogin));
+
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: OIDC_CONFIG.CLIENT_ID,
+      redirect_uri: getRedirectUri(),
+      scope: OIDC_CONFIG.SCOPE,
+      state: pendingLogin.state,
+      nonce: pendingLogin.nonce,
+      code_challenge: await createCodeChallenge(pendingLogin.code_verifier),
+      code_challenge_method: 'S256',
+    });
+
+    return `${authorization_endpoint}?${params}`;
+  }
+
+  /**
+   * Redirect to the identity provider to sign in
+   */
+  static async login(returnTo = '/'): Promise<void> {
+    window.location.assign(await this.createLoginUrl(returnTo));
+  }
+
+  /**
+   * Complete a login from the query string of the callback URL: check the state, exchange
+   * the code for tokens and store the session. Returns the path to go back to.
+   */
+  static async handleCallback(search: string): Promise<string> {
+    const params = new URLSearchParams(search);
+    const storedLogin = sessionStorage.getItem(PENDING_LOGIN_KEY);
+    sessionStorage.removeItem(PENDING_LOGIN_KEY);
+
+    if (params.get('error')) {
+      throw new Error(params.get('error_description') || params.get('error')!);
+    }
+
+    const pendingLogin: PendingLogin | null = storedLogin ? JSON.parse(storedLogin) : null;
+    const code = params.get('code');
+
+    if (!pendingLogin || !code || params.get('state') !== pendingLogin.state) {
+      throw new Error('Invalid login response, please sign in again');
+    }
+
+    const { token_endpoint } = await this.getDiscovery();
+
+    let tokens: { access_token: string; id_token?: string; expires_in?: number };
+    try {
+      const response = await axios.post(
+        token_endpoint,
+        new URLSearchParams({
+          grant_type: 'authorization_code',
+          client_id: OIDC_CONFIG.CLIENT_ID,
+          redirect_uri: getRedirectUri(),
+          code,
+          code_verifier: pendingLogin.code_verifier,
+        }),
+        { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } }
+      );
+      tokens = response.data;
+    } catch (error: any) {
+      throw new Error(error.response?.data?.error_description || 'Failed to complete sign in');
+    }
+
+    const claims = decodeJwtPayload(tokens.id_token || tokens.access_token) || {};
+
+    if (tokens.id_token && claims.nonce !== pendingLogin.nonce) {
+      throw new Error('Invalid login response, please sign in again');
+    }
+
+    const session: AuthSession = {
+      access_token: tokens.access_token,
+      expires_at: Date.now() + (tokens.expires_in ?? 300) * 1000,
+      user: {
+        sub: claims.sub,
+        name: claims.name || claims.preferred_username || claims.email || claims.sub,
+        ...(claims.email && { email: claims.email }),
+      },
+      ...(tokens.id_token && { id_token: tokens.id_token }),
+    };
+
+    sessionStorage.setItem(SESSION_KEY, JSON.stringify(session));
+    return pendingLogin.return_to;
+  }
+
+  /**
+   * Current session, or null when signed out or the access token has expired
+   */
+  static getSession(): AuthSession | null {
+    const stored = sessionStorage.getItem(SESSION_KEY);
+    const session: AuthSession | null = stored ? JSON.parse(stored) : null;
+
+    if (session && session.expires_at <= Date.now()) {
+      sessionStorage.removeItem(SESSION_KEY);
+      return null;
+    }
+
+    return session;
+  }
+
+  static getUser(): AuthUser | null {
+    return this.getSession()?.user ?? null;
+  }
+
+  static getAccessToken(): string | null {
+    return this.getSession()?.access_token ?? null;
+  }
+
+  /**
+   * Forget the session and sign out at the identity provider when it supports it
+   */
+  static async logout(): Promise<void> {
+    const session = this.getSession();
+    sessionStorage.removeItem(SESSION_KEY);
+
+    let endSessionEndpoint: string | undefined;
+    try {
+      endSessionEndpoint = (await this.getDiscovery()).end_session_endpoint;
+    } catch {
+      endSessionEndpoint = undefined;
+    }
+
+    if (!endSessionEndpoint) {
+      window.location.assign('/');
+      return;
+    }
+
+    const params = new URLSearchParams({
+      client_id: OIDC_CONFIG.CLIENT_ID,
+      post_logout_redirect_uri: window.location.origin,
+      ...(session?.id_token && { id_token_hint: session.id_token }),
+    });
+
+    window.location.assign(`${endSessionEndpoint}?${params}`);
+  }
+}
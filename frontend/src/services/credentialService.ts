@@ -3,11 +3,20 @@ import { issuanceAPI, verificationAPI } from '../config/api';
 import { 
   Credential, 
   CreateCredentialRequest, 
+  CredentialType,
+  CsvColumnMapping,
+  CsvImportPreview,
+  CsvImportReport,
+  QrCodeContent,
+  QrCodeFormat,
   VerificationRequest, 
   VerificationResult, 
   ApiResponse 
 } from '../types';
 
+// Large imports take longer than the default request timeout
+const CSV_IMPORT_TIMEOUT = 120000;
+
 export class CredentialService {
   /**
    * Issue a new credential
@@ -23,6 +32,10 @@ export class CredentialService {
       if (request.expiry_date && request.expiry_date.trim() !== '') {
         payload.expiry_date = request.expiry_date;
       }
+
+      if (request.attributes && Object.keys(request.attributes).length > 0) {
+        payload.attributes = request.attributes;
+      }
       
       const response: AxiosResponse<ApiResponse<Credential>> = await issuanceAPI.post(
         '/api/credentials',
@@ -88,6 +101,140 @@ export class CredentialService {
     }
   }
 
+  /**
+   * Get the credential types that can currently be issued
+   */
+  static async getCredentialTypes(): Promise<CredentialType[]> {
+    try {
+      const response: AxiosResponse<ApiResponse<{ credential_types: CredentialType[] }>> = await issuanceAPI.get(
+        '/api/credential-types'
+      );
+
+      if (!response.data.success) {
+        throw new Error(response.data.message);
+      }
+
+      return response.data.data!.credential_types;
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to get credential types';
+      throw new Error(errorMessage);
+    }
+  }
+
+  /**
+   * Check a CSV import without issuing anything, returning the result of each row
+   */
+  static async checkCsvImport(csv: string, columns: CsvColumnMapping): Promise<CsvImportPreview> {
+    try {
+      const response: AxiosResponse<ApiResponse<CsvImportPreview>> = await issuanceAPI.post(
+        '/api/credentials/import',
+        csv,
+        { params: { dry_run: true, columns }, headers: { 'Content-Type': 'text/csv' }, timeout: CSV_IMPORT_TIMEOUT }
+      );
+
+      if (!response.data.success) {
+        throw new Error(response.data.message);
+      }
+
+      return response.data.data!;
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to check CSV import';
+      throw new Error(errorMessage);
+    }
+  }
+
+  /**
+   * Issue the credentials of a CSV import, returning the results CSV with the
+   * issued credential IDs and signatures
+   */
+  static async importCsv(csv: string, columns: CsvColumnMapping): Promise<CsvImportReport> {
+    try {
+      const response: AxiosResponse<string> = await issuanceAPI.post(
+        '/api/credentials/import',
+        csv,
+        {
+          params: { columns },
+          headers: { 'Content-Type': 'text/csv' },
+          responseType: 'text',
+          timeout: CSV_IMPORT_TIMEOUT
+        }
+      );
+
+      // The status is the second column and is never quoted
+      const statuses = response.data.trim().split(/\r?\n/).slice(1).map(line => line.split(',')[1]);
+
+      return {
+        csv: response.data,
+        total: statuses.length,
+        created: statuses.filter(status => status === 'created').length
+      };
+    } catch (error: any) {
+      // Errors come back as JSON text because the response type is text
+      let body = error.response?.data;
+      if (typeof body === 'string') {
+        try {
+          body = JSON.parse(body);
+        } catch {
+          body = undefined;
+        }
+      }
+      const errorMessage = body?.message || error.message || 'Failed to import CSV';
+      throw new Error(errorMessage);
+    }
+  }
+
+  /**
+   * Get the QR code of an issued credential as a PNG or SVG image
+   */
+  static async getCredentialQrCode(
+    id: string,
+    format: QrCodeFormat = 'png',
+    content: QrCodeContent = 'reference'
+  ): Promise<Blob> {
+    try {
+      const response: AxiosResponse<Blob> = await issuanceAPI.get(
+        `/api/credentials/${id}/qr`,
+        { params: { format, content }, responseType: 'blob' }
+      );
+
+      return response.data;
+    } catch (error: any) {
+      // Errors come back as a JSON blob because the response type is blob
+      let body;
+      try {
+        body = JSON.parse(await error.response?.data?.text());
+      } catch {
+        body = undefined;
+      }
+      const errorMessage = body?.message || error.message || 'Failed to get QR code';
+      throw new Error(errorMessage);
+    }
+  }
+
+  /**
+   * Get an issued credential as a printable PDF certificate
+   */
+  static async getCredentialPdf(id: string): Promise<Blob> {
+    try {
+      const response: AxiosResponse<Blob> = await issuanceAPI.get(
+        `/api/credentials/${id}/pdf`,
+        { responseType: 'blob' }
+      );
+
+      return response.data;
+    } catch (error: any) {
+      // Errors come back as a JSON blob because the response type is blob
+      let body;
+      try {
+        body = JSON.parse(await error.response?.data?.text());
+      } catch {
+        body = undefined;
+      }
+      const errorMessage = body?.message || error.message || 'Failed to get PDF';
+      throw new Error(errorMessage);
+    }
+  }
+
   /**
    * Verify a credential
    */
@@ -111,6 +258,48 @@ export class CredentialService {
     }
   }
 
+  /**
+   * Verify a credential by its ID alone, using the credential stored by issuance service
+   */
+  static async verifyCredentialById(credentialId: string): Promise<VerificationResult> {
+    try {
+      const response: AxiosResponse<ApiResponse<VerificationResult>> = await verificationAPI.get(
+        `/api/verifications/check/${encodeURIComponent(credentialId)}`
+      );
+
+      if (!response.data.success) {
+        throw new Error(response.data.message);
+      }
+
+      return response.data.data!;
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to verify credential';
+      throw new Error(errorMessage);
+    }
+  }
+
+  /**
+   * Verify a credential presented as a signed JWT
+   */
+  static async verifyCredentialJwt(jwt: string): Promise<VerificationResult> {
+    try {
+      const response: AxiosResponse<ApiResponse<VerificationResult>> = await verificationAPI.post(
+        '/api/verifications/jwt',
+        jwt,
+        { headers: { 'Content-Type': 'application/jwt' } }
+      );
+
+      if (!response.data.success) {
+        throw new Error(response.data.message);
+      }
+
+      return response.data.data!;
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to verify credential';
+      throw new Error(errorMessage);
+    }
+  }
+
   /**
    * Get verification by ID
    */
@@ -3,3 +3,10 @@
 // expect(element).toHaveTextContent(/react/i)
 // learn more: https://github.com/testing-library/jest-dom
 import '@testing-library/jest-dom';
+
+// jsdom lacks Web Crypto and TextEncoder, used for the OIDC login (PKCE) code challenge
+import { webcrypto } from 'crypto';
+import { TextEncoder } from 'util';
+
+Object.defineProperty(window, 'crypto', { value: webcrypto });
+Object.assign(global, { TextEncoder });
@@ -6,7 +6,16 @@ export interface Credential {
     credential_type: string;
     expiry_date: string;
     signature: string;
+    signature_algorithm: string;
+    kid: string;
     worker_id: string;
+    attributes?: Record<string, unknown>;
+    tenant_id?: string;
+    previous_credential_id?: string | null;
+    superseded_by?: string | null;
+    superseded_at?: string | null;
+    status_list_id?: string | null;
+    status_list_index?: number | null;
     created_at: string;
     updated_at: string;
   }
@@ -15,6 +24,7 @@ export interface Credential {
     holder_name: string;
     credential_type: string;
     expiry_date?: string;
+    attributes?: Record<string, unknown>;
   }
   
   export interface VerificationRequest {
@@ -26,11 +36,15 @@ export interface Credential {
     credential_id: string;
     is_valid: boolean;
     is_expired: boolean;
-    verification_status: 'valid' | 'invalid' | 'expired' | 'not_found' | 'signature_mismatch';
+    verification_status: 'valid' | 'invalid' | 'expired' | 'revoked' | 'superseded' | 'not_found' | 'signature_mismatch' | 'status_unavailable';
     verified_by: string;
     verified_at: string;
     issuer_worker_id?: string;
     issued_date?: string;
+    revocation_reason?: string;
+    revoked_at?: string;
+    superseded_by?: string;
+    superseded_at?: string;
   }
   
   export interface ApiResponse<T = any> {
@@ -41,8 +55,67 @@ export interface Credential {
     timestamp: string;
   }
   
-  export type CredentialType = 'certificate' | 'license' | 'badge' | 'diploma' | 'permit' | 'qualification';
+  export interface CredentialType {
+    name: string;
+    display_name: string;
+    default_validity_days: number;
+    is_active: boolean;
+    attributes_schema: Record<string, any> | null;
+    created_at: string;
+    updated_at: string;
+  }
   
+  export type CsvImportField = 'holder_name' | 'credential_type' | 'expiry_date';
+
+  export type CsvColumnMapping = Partial<Record<CsvImportField, string>>;
+
+  export interface CsvImportRowResult {
+    row: number;
+    status: 'valid' | 'conflict' | 'invalid';
+    existing_credential_id?: string;
+    errors?: string[];
+  }
+
+  export interface CsvImportPreview {
+    dry_run: true;
+    summary: {
+      total: number;
+      valid: number;
+      conflicts: number;
+      invalid: number;
+    };
+    results: CsvImportRowResult[];
+  }
+
+  export interface CsvImportReport {
+    csv: string;
+    total: number;
+    created: number;
+  }
+  
+  export type QrCodeFormat = 'png' | 'svg';
+
+  // A QR code holds a urn:uuid reference to an issued credential or the credential as a signed JWT
+  export type QrCodeContent = 'reference' | 'jwt';
+
+  export type QrCodePayload =
+    | { content: 'reference'; credential_id: string }
+    | { content: 'jwt'; jwt: string };
+
+  // Signed-in user, from the ID token claims
+  export interface AuthUser {
+    sub: string;
+    name: string;
+    email?: string;
+  }
+
+  export interface AuthSession {
+    access_token: string;
+    id_token?: string;
+    expires_at: number;
+    user: AuthUser;
+  }
+
   export interface FormErrors {
     [key: string]: string;
   }
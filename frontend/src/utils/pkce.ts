@@ -0,0 +1,40 @@
+const toBase64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...Array.from(bytes)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+/**
+ * Random URL-safe string, used for the PKCE code verifier, state and nonce
+ */
+export const generateRandomString = (byteLength = 32): string =>
+  toBase64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+/**
+ * S256 code challenge for a PKCE code verifier (RFC 7636)
+ */
+export const createCodeChallenge = async (codeVerifier: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+  return toBase64Url(new Uint8Array(digest));
+};
+
+/**
+ * Read the claims of a JWT without checking its signature. Returns null for anything
+ * that is not a JWT.
+ */
+export const decodeJwtPayload = (token: string): Record<string, any> | null => {
+  const payload = token.split('.')[1];
+  if (!payload) {
+    return null;
+  }
+
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const json = decodeURIComponent(
+      Array.from(atob(base64), char => `%${char.charCodeAt(0).toString(16).padStart(2, '0')}`).join('')
+    );
+    return JSON.parse(json);
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,43 @@
+import jsQR from 'jsqr';
+import { QrCodePayload } from '../types';
+import { isValidCredentialId } from './validation';
+
+/**
+ * Read what a credential QR code holds: a urn:uuid reference (or a bare credential ID)
+ * or a signed JWT. Returns null for anything else.
+ */
+export const parseQrPayload = (text: string): QrCodePayload | null => {
+  const value = text.trim();
+  const id = value.replace(/^urn:uuid:/i, '');
+
+  if (isValidCredentialId(id)) {
+    return { content: 'reference', credential_id: id.toLowerCase() };
+  }
+
+  if (/^[\w-]+\.[\w-]+\.[\w-]+$/.test(value)) {
+    return { content: 'jwt', jwt: value };
+  }
+
+  return null;
+};
+
+/**
+ * Decode the QR code in an image file, such as a photo or screenshot of a credential QR code.
+ * Returns null when the image has no readable QR code.
+ */
+export const decodeQrImage = async (file: Blob): Promise<string | null> => {
+  const bitmap = await createImageBitmap(file);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Could not read the image');
+  }
+
+  context.drawImage(bitmap, 0, 0);
+  const { data, width, height } = context.getImageData(0, 0, canvas.width, canvas.height);
+
+  return jsQR(data, width, height)?.data ?? null;
+};
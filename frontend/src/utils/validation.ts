@@ -34,6 +34,72 @@ export const validateCredentialForm = (data: CreateCredentialRequest): FormError
   return errors;
 };
 
+export const parseAttributes = (json: string): { attributes?: Record<string, unknown>; error?: string } => {
+  if (!json.trim()) {
+    return {};
+  }
+
+  try {
+    const attributes = JSON.parse(json);
+
+    if (attributes === null || typeof attributes !== 'object' || Array.isArray(attributes)) {
+      return { error: 'Attributes must be a JSON object' };
+    }
+
+    return { attributes };
+  } catch (error) {
+    return { error: 'Attributes must be valid JSON' };
+  }
+};
+
+/**
+ * Read the column names from the header line of a CSV file
+ */
+export const readCsvHeader = (csv: string): string[] => {
+  const headers: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = csv.charCodeAt(0) === 0xfeff ? 1 : 0; i < csv.length; i++) {
+    const char = csv[i];
+
+    if (inQuotes) {
+      if (char === '"' && csv[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      headers.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      break;
+    } else {
+      field += char;
+    }
+  }
+
+  headers.push(field.trim());
+  return headers.filter(name => name !== '');
+};
+
+/**
+ * Pick the column that matches an import field by name, such as "Holder Name" for holder_name
+ */
+export const guessCsvColumn = (headers: string[], field: string): string => {
+  const normalize = (name: string) => name.trim().toLowerCase().replace(/\s+/g, '_');
+  return headers.find(header => normalize(header) === field) || '';
+};
+
+export const isValidCredentialId = (id: string): boolean => {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id.trim());
+};
+
 export const formatDate = (dateString: string): string => {
   try {
     const date = new Date(dateString);
@@ -73,17 +139,17 @@ export const sanitizeInput = (input: string): string => {
   return input.trim().replace(/[<>]/g, '');
 };
 
-export const getCredentialTypeDisplayName = (type: CredentialType): string => {
-  const displayNames: Record<CredentialType, string> = {
-    certificate: 'Certificate',
-    license: 'License',
-    badge: 'Badge',
-    diploma: 'Diploma',
-    permit: 'Permit',
-    qualification: 'Qualification'
-  };
-  
-  return displayNames[type] || type;
+export const getCredentialTypeDisplayName = (type: string, credentialTypes: CredentialType[] = []): string => {
+  const credentialType = credentialTypes.find(t => t.name === type);
+
+  if (credentialType) {
+    return credentialType.display_name;
+  }
+
+  return type
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
 };
 
 export const getVerificationStatusColor = (status: string): 'success' | 'error' | 'warning' | 'info' => {
@@ -91,10 +157,13 @@ export const getVerificationStatusColor = (status: string): 'success' | 'error'
     case 'valid':
       return 'success';
     case 'invalid':
+    case 'revoked':
     case 'not_found':
     case 'signature_mismatch':
       return 'error';
     case 'expired':
+    case 'superseded':
+    case 'status_unavailable':
       return 'warning';
     default:
       return 'info';
@@ -109,11 +178,30 @@ export const getVerificationStatusMessage = (status: string): string => {
       return 'Credential is invalid';
     case 'expired':
       return 'Credential has expired';
+    case 'revoked':
+      return 'Credential has been revoked by the issuer';
+    case 'superseded':
+      return 'Credential has been superseded by a renewal';
     case 'not_found':
       return 'Credential not found in issuance records';
     case 'signature_mismatch':
       return 'Credential signature is invalid';
+    case 'status_unavailable':
+      return 'Revocation status could not be checked, try again later';
     default:
       return 'Unknown verification status';
   }
 };
+
+export const getRevocationReasonDisplayName = (reason: string): string => {
+  const displayNames: Record<string, string> = {
+    unspecified: 'Unspecified',
+    key_compromise: 'Key compromise',
+    affiliation_changed: 'Affiliation changed',
+    superseded: 'Superseded',
+    cessation_of_operation: 'Cessation of operation',
+    privilege_withdrawn: 'Privilege withdrawn'
+  };
+
+  return displayNames[reason] || reason;
+};
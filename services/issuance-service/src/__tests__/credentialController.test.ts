@@ -1,6 +1,10 @@
 import request from 'supertest';
 import { createApp } from '../app';
+import { ApiKeyModel } from '../models/ApiKey';
 import { CredentialModel } from '../models/Credential';
+import { CredentialTypeModel } from '../models/CredentialType';
+import { SigningKeyModel } from '../models/SigningKey';
+import { TenantModel } from '../models/Tenant';
 
 // Mock the database
 jest.mock('../config/database', () => ({
@@ -14,18 +18,29 @@ jest.mock('../config/database', () => ({
   }
 }));
 
+// Skip schema migrations against the mocked database
+jest.mock('../config/migrator');
+
 // Mock the CredentialModel
 jest.mock('../models/Credential');
+jest.mock('../models/CredentialType');
+jest.mock('../models/ApiKey');
+jest.mock('../models/Tenant');
+jest.mock('../models/AuditLog');
+jest.mock('../models/SigningKey');
 
 describe('Credential Controller', () => {
   let app: any;
 
   beforeAll(async () => {
+    (SigningKeyModel.ensureActiveKey as jest.Mock).mockResolvedValue({ kid: 'test-kid', tenant_id: 'default' });
     app = await createApp();
   });
 
   beforeEach(() => {
     jest.clearAllMocks();
+    (ApiKeyModel.findByKey as jest.Mock).mockResolvedValue({ id: 'test-key-id', roles: ['issuer'], tenant_id: 'default' });
+    (TenantModel.findById as jest.Mock).mockResolvedValue({ id: 'default', display_name: 'Kube Credential Authority' });
   });
 
   describe('POST /api/credentials', () => {
@@ -34,6 +49,7 @@ describe('Credential Controller', () => {
         id: 'test-id',
         holder_name: 'John Doe',
         issuer: 'Kube Credential Authority',
+        tenant_id: 'default',
         issued_date: '2024-01-01T00:00:00.000Z',
         credential_type: 'certificate',
         expiry_date: '2025-01-01T00:00:00.000Z',
@@ -43,11 +59,18 @@ describe('Credential Controller', () => {
         updated_at: '2024-01-01T00:00:00.000Z'
       };
 
+      (CredentialTypeModel.findByName as jest.Mock).mockResolvedValue({
+        name: 'certificate',
+        display_name: 'Certificate',
+        default_validity_days: 365,
+        is_active: true
+      });
       (CredentialModel.findByHolderAndType as jest.Mock).mockResolvedValue(null);
       (CredentialModel.create as jest.Mock).mockResolvedValue(mockCredential);
 
       const response = await request(app)
         .post('/api/credentials')
+        .set('X-API-Key', 'test-key')
         .send({
           holder_name: 'John Doe',
           credential_type: 'certificate'
@@ -59,6 +82,28 @@ describe('Credential Controller', () => {
       expect(response.body.message).toContain('issued by');
     });
 
+    it('should reject types that are not active in the registry', async () => {
+      (CredentialTypeModel.findByName as jest.Mock).mockResolvedValue({
+        name: 'permit',
+        display_name: 'Permit',
+        default_validity_days: 365,
+        is_active: false
+      });
+      (CredentialTypeModel.findAll as jest.Mock).mockResolvedValue([{ name: 'certificate' }]);
+
+      const response = await request(app)
+        .post('/api/credentials')
+        .set('X-API-Key', 'test-key')
+        .send({
+          holder_name: 'John Doe',
+          credential_type: 'permit'
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.message).toContain('must be one of: certificate');
+      expect(CredentialModel.create).not.toHaveBeenCalled();
+    });
+
     it('should reject duplicate credential', async () => {
       const existingCredential = {
         id: 'existing-id',
@@ -66,10 +111,12 @@ describe('Credential Controller', () => {
         credential_type: 'certificate'
       };
 
+      (CredentialTypeModel.findByName as jest.Mock).mockResolvedValue({ name: 'certificate', is_active: true });
       (CredentialModel.findByHolderAndType as jest.Mock).mockResolvedValue(existingCredential);
 
       const response = await request(app)
         .post('/api/credentials')
+        .set('X-API-Key', 'test-key')
         .send({
           holder_name: 'John Doe',
           credential_type: 'certificate'
@@ -83,6 +130,7 @@ describe('Credential Controller', () => {
     it('should validate request body', async () => {
       const response = await request(app)
         .post('/api/credentials')
+        .set('X-API-Key', 'test-key')
         .send({
           holder_name: '',
           credential_type: 'invalid_type'
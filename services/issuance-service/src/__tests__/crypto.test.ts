@@ -1,31 +1,43 @@
-import { CryptoUtils } from '../utils/crypto';
+import crypto from 'crypto';
+import { CryptoUtils, SIGNATURE_ALGORITHM } from '../utils/crypto';
 import { Credential } from '../types';
 
 describe('CryptoUtils', () => {
-  const mockCredential = {
+  const { privateKey, publicKey } = CryptoUtils.generateSigningKeyPair();
+
+  const mockCredential: Omit<Credential, 'signature' | 'created_at' | 'updated_at'> = {
     id: 'test-id',
     holder_name: 'John Doe',
     issuer: 'Test Issuer',
+    tenant_id: 'default',
+    previous_credential_id: null,
+    superseded_by: null,
+    superseded_at: null,
+    status_list_id: null,
+    status_list_index: null,
     issued_date: '2024-01-01T00:00:00.000Z',
     credential_type: 'certificate',
     expiry_date: '2025-01-01T00:00:00.000Z',
-    worker_id: 'worker-1'
+    signature_algorithm: SIGNATURE_ALGORITHM,
+    kid: CryptoUtils.computeKeyId(publicKey),
+    worker_id: 'worker-1',
+    attributes: {}
   };
 
   describe('generateCredentialSignature', () => {
     it('should generate a consistent signature for the same input', () => {
-      const signature1 = CryptoUtils.generateCredentialSignature(mockCredential);
-      const signature2 = CryptoUtils.generateCredentialSignature(mockCredential);
+      const signature1 = CryptoUtils.generateCredentialSignature(mockCredential, privateKey);
+      const signature2 = CryptoUtils.generateCredentialSignature(mockCredential, privateKey);
       
       expect(signature1).toBe(signature2);
-      expect(signature1).toHaveLength(64); // SHA256 hex string length
+      expect(Buffer.from(signature1, 'base64url')).toHaveLength(64); // Ed25519 signature length
     });
 
     it('should generate different signatures for different inputs', () => {
       const credential2 = { ...mockCredential, holder_name: 'Jane Doe' };
       
-      const signature1 = CryptoUtils.generateCredentialSignature(mockCredential);
-      const signature2 = CryptoUtils.generateCredentialSignature(credential2);
+      const signature1 = CryptoUtils.generateCredentialSignature(mockCredential, privateKey);
+      const signature2 = CryptoUtils.generateCredentialSignature(credential2, privateKey);
       
       expect(signature1).not.toBe(signature2);
     });
@@ -33,7 +45,7 @@ describe('CryptoUtils', () => {
 
   describe('verifyCredentialSignature', () => {
     it('should verify a valid signature', () => {
-      const signature = CryptoUtils.generateCredentialSignature(mockCredential);
+      const signature = CryptoUtils.generateCredentialSignature(mockCredential, privateKey);
       const fullCredential: Credential = {
         ...mockCredential,
         signature,
@@ -41,7 +53,7 @@ describe('CryptoUtils', () => {
         updated_at: '2024-01-01T00:00:00.000Z'
       };
 
-      const isValid = CryptoUtils.verifyCredentialSignature(fullCredential);
+      const isValid = CryptoUtils.verifyCredentialSignature(fullCredential, publicKey);
       expect(isValid).toBe(true);
     });
 
@@ -53,9 +65,114 @@ describe('CryptoUtils', () => {
         updated_at: '2024-01-01T00:00:00.000Z'
       };
 
-      const isValid = CryptoUtils.verifyCredentialSignature(fullCredential);
+      const isValid = CryptoUtils.verifyCredentialSignature(fullCredential, publicKey);
       expect(isValid).toBe(false);
     });
+
+    it('should reject a credential whose fields were modified after signing', () => {
+      const signature = CryptoUtils.generateCredentialSignature(mockCredential, privateKey);
+      const tamperedCredential: Credential = {
+        ...mockCredential,
+        holder_name: 'Jane Doe',
+        signature,
+        created_at: '2024-01-01T00:00:00.000Z',
+        updated_at: '2024-01-01T00:00:00.000Z'
+      };
+
+      expect(CryptoUtils.verifyCredentialSignature(tamperedCredential, publicKey)).toBe(false);
+    });
+
+    it('should cover attributes regardless of their key order', () => {
+      const withAttributes = { ...mockCredential, attributes: { license_number: 'DL-123', class: 'B' } };
+      const signature = CryptoUtils.generateCredentialSignature(withAttributes, privateKey);
+      const timestamps = { created_at: '2024-01-01T00:00:00.000Z', updated_at: '2024-01-01T00:00:00.000Z' };
+
+      const reordered: Credential = {
+        ...withAttributes,
+        attributes: { class: 'B', license_number: 'DL-123' },
+        signature,
+        ...timestamps
+      };
+      const tampered: Credential = {
+        ...withAttributes,
+        attributes: { license_number: 'DL-123', class: 'C' },
+        signature,
+        ...timestamps
+      };
+
+      expect(CryptoUtils.verifyCredentialSignature(reordered, publicKey)).toBe(true);
+      expect(CryptoUtils.verifyCredentialSignature(tampered, publicKey)).toBe(false);
+    });
+
+    it('should cover the status list index', () => {
+      const withStatus = { ...mockCredential, status_list_id: 'status-list-id', status_list_index: 7 };
+      const signature = CryptoUtils.generateCredentialSignature(withStatus, privateKey);
+      const timestamps = { created_at: '2024-01-01T00:00:00.000Z', updated_at: '2024-01-01T00:00:00.000Z' };
+
+      expect(CryptoUtils.verifyCredentialSignature({ ...withStatus, signature, ...timestamps }, publicKey)).toBe(true);
+      expect(CryptoUtils.verifyCredentialSignature(
+        { ...withStatus, status_list_index: 8, signature, ...timestamps },
+        publicKey
+      )).toBe(false);
+    });
+
+    it('should reject a signature made with a different key', () => {
+      const otherKeys = CryptoUtils.generateSigningKeyPair();
+      const fullCredential: Credential = {
+        ...mockCredential,
+        signature: CryptoUtils.generateCredentialSignature(mockCredential, otherKeys.privateKey),
+        created_at: '2024-01-01T00:00:00.000Z',
+        updated_at: '2024-01-01T00:00:00.000Z'
+      };
+
+      expect(CryptoUtils.verifyCredentialSignature(fullCredential, publicKey)).toBe(false);
+    });
+  });
+
+  describe('signJwt', () => {
+    it('should produce a compact EdDSA JWS verifiable with the public key', () => {
+      const kid = CryptoUtils.computeKeyId(publicKey);
+      const token = CryptoUtils.signJwt({ sub: 'John Doe' }, privateKey, kid);
+      const [header, payload, signature] = token.split('.');
+
+      expect(JSON.parse(Buffer.from(header, 'base64url').toString())).toEqual({ alg: 'EdDSA', typ: 'JWT', kid });
+      expect(JSON.parse(Buffer.from(payload, 'base64url').toString())).toEqual({ sub: 'John Doe' });
+      expect(crypto.verify(null, Buffer.from(`${header}.${payload}`), publicKey, Buffer.from(signature, 'base64url'))).toBe(true);
+    });
+  });
+
+  describe('encryptPrivateKey', () => {
+    const encryptionKey = crypto.randomBytes(32);
+    const kid = CryptoUtils.computeKeyId(publicKey);
+
+    it('should round-trip a private key without storing it in the clear', () => {
+      const encrypted = CryptoUtils.encryptPrivateKey(privateKey, kid, encryptionKey);
+      const decrypted = CryptoUtils.decryptPrivateKey(encrypted, kid, encryptionKey);
+
+      expect(encrypted.startsWith('enc:v1:')).toBe(true);
+      expect(encrypted).not.toContain('PRIVATE KEY');
+      expect(decrypted.equals(privateKey)).toBe(true);
+    });
+
+    it('should not decrypt with another key-encryption key or for another key ID', () => {
+      const encrypted = CryptoUtils.encryptPrivateKey(privateKey, kid, encryptionKey);
+
+      expect(() => CryptoUtils.decryptPrivateKey(encrypted, kid, crypto.randomBytes(32))).toThrow();
+      expect(() => CryptoUtils.decryptPrivateKey(encrypted, 'other-kid', encryptionKey)).toThrow();
+    });
+
+    it('should refuse a private key stored in plain PEM', () => {
+      const pem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+      expect(() => CryptoUtils.decryptPrivateKey(pem, kid, encryptionKey)).toThrow('Private key is not encrypted');
+    });
+  });
+
+  describe('computeKeyId', () => {
+    it('should derive a stable key ID from the public key', () => {
+      expect(CryptoUtils.computeKeyId(publicKey)).toBe(CryptoUtils.computeKeyId(publicKey));
+      expect(CryptoUtils.computeKeyId(publicKey)).toHaveLength(43); // SHA256 base64url length
+    });
   });
 
   describe('generateSecureId', () => {
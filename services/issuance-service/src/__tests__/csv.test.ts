@@ -0,0 +1,53 @@
+import { CsvUtils } from '../utils/csv';
+
+describe('CsvUtils', () => {
+  describe('parse', () => {
+    it('should parse quoted fields, escaped quotes and CRLF line endings', () => {
+      const text = '\uFEFFName,Note\r\n"Doe, John","said ""hi"""\r\nJane Doe,\r\n';
+
+      expect(CsvUtils.parse(text)).toEqual([
+        ['Name', 'Note'],
+        ['Doe, John', 'said "hi"'],
+        ['Jane Doe', '']
+      ]);
+    });
+
+    it('should keep line breaks inside quoted fields and parse a last line without a line ending', () => {
+      expect(CsvUtils.parse('a,b\n"line 1\nline 2",x')).toEqual([
+        ['a', 'b'],
+        ['line 1\nline 2', 'x']
+      ]);
+    });
+
+    it('should reject an unterminated quoted field', () => {
+      expect(() => CsvUtils.parse('a,"b\n')).toThrow('unterminated quoted field');
+    });
+  });
+
+  describe('stringify', () => {
+    it('should quote only fields that need it and read back the same rows', () => {
+      const rows = [['id', 'note'], ['1', 'plain'], ['2', 'with, comma and "quotes"']];
+      const text = CsvUtils.stringify(rows);
+
+      expect(text).toBe('id,note\r\n1,plain\r\n2,"with, comma and ""quotes"""\r\n');
+      expect(CsvUtils.parse(text)).toEqual(rows);
+    });
+
+    it('should keep spreadsheets from running escaped text fields as formulas', () => {
+      const text = CsvUtils.stringify([
+        ['=HYPERLINK("http://evil.test","x")', '+1', '-1', '@SUM(A1)', '\tcmd', 'plain'].map(CsvUtils.escapeFormula),
+        [-1, 42]
+      ]);
+
+      expect(text).toBe(`"'=HYPERLINK(""http://evil.test"",""x"")",'+1,'-1,'@SUM(A1),'\tcmd,plain\r\n-1,42\r\n`);
+    });
+
+    it('should write signatures and IDs starting with - unchanged', () => {
+      const signature = '-Q-kD_v9x2mJ0aQ8uXf5G1H3nY7cLb4rTz6wVe9sKp0dR2oAiU5gNyWq1jFh8tMlBcE3xZ7vS4uPa6';
+      const text = CsvUtils.stringify([['-abc123', signature]]);
+
+      expect(text).toBe(`-abc123,${signature}\r\n`);
+      expect(CsvUtils.parse(text)).toEqual([['-abc123', signature]]);
+    });
+  });
+});
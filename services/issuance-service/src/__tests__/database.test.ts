@@ -0,0 +1,102 @@
+import fs from 'fs';
+import { Database } from '../config/database';
+
+// PostgreSQL runs only when DB_CLIENT=postgres and DATABASE_URL point at a test database
+const clients = ['sqlite', ...(process.env.DB_CLIENT === 'postgres' ? ['postgres'] : [])];
+
+describe.each(clients)('Database (%s)', (client) => {
+  const testDbPath = './data/test-database.db';
+  let db: Database;
+
+  beforeEach(async () => {
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+
+    db = new Database({ client, dbPath: testDbPath });
+    await db.connect();
+    await db.run('DROP TABLE IF EXISTS database_test');
+    await db.run('CREATE TABLE database_test (id TEXT PRIMARY KEY, label TEXT NOT NULL, amount INTEGER NOT NULL)');
+  });
+
+  afterEach(async () => {
+    await db.run('DROP TABLE IF EXISTS database_test');
+    await db.close();
+
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+  });
+
+  it('should bind ? placeholders and report changed rows', async () => {
+    await db.run('INSERT INTO database_test (id, label, amount) VALUES (?, ?, ?)', ['a', 'first', 1]);
+    await db.run('INSERT INTO database_test (id, label, amount) VALUES (?, ?, ?)', ['b', 'second', 2]);
+
+    const result = await db.run('UPDATE database_test SET amount = amount + ? WHERE amount >= ?', [10, 1]);
+
+    expect(result.changes).toBe(2);
+    expect(await db.get('SELECT * FROM database_test WHERE id = ?', ['b'])).toEqual({ id: 'b', label: 'second', amount: 12 });
+    expect(await db.get('SELECT * FROM database_test WHERE id = ?', ['missing'])).toBeUndefined();
+    expect(await db.all('SELECT id FROM database_test ORDER BY id')).toEqual([{ id: 'a' }, { id: 'b' }]);
+    expect(await db.get('SELECT COUNT(*) as count FROM database_test')).toEqual({ count: 2 });
+  });
+
+  it('should commit a transaction that resolves', async () => {
+    const result = await db.transaction(async (runner) => {
+      await runner.run('INSERT INTO database_test (id, label, amount) VALUES (?, ?, ?)', ['a', 'first', 1]);
+      return runner.get<{ label: string }>('SELECT label FROM database_test WHERE id = ?', ['a']);
+    });
+
+    expect(result).toEqual({ label: 'first' });
+    expect(await db.all('SELECT id FROM database_test')).toHaveLength(1);
+  });
+
+  it('should roll back a transaction that throws', async () => {
+    await expect(db.transaction(async (runner) => {
+      await runner.run('INSERT INTO database_test (id, label, amount) VALUES (?, ?, ?)', ['a', 'first', 1]);
+      await runner.run('INSERT INTO database_test (id, label, amount) VALUES (?, ?, ?)', ['a', 'duplicate', 2]);
+    })).rejects.toThrow();
+
+    expect(await db.all('SELECT id FROM database_test')).toHaveLength(0);
+  });
+
+  it('should keep other queries out of an open transaction', async () => {
+    const transaction = db.transaction(async (runner) => {
+      await runner.run('INSERT INTO database_test (id, label, amount) VALUES (?, ?, ?)', ['a', 'first', 1]);
+      throw new Error('abort');
+    });
+    const outside = db.run('INSERT INTO database_test (id, label, amount) VALUES (?, ?, ?)', ['b', 'second', 2]);
+
+    await expect(transaction).rejects.toThrow('abort');
+    await outside;
+
+    expect(await db.all('SELECT id FROM database_test')).toEqual([{ id: 'b' }]);
+  });
+
+  it('should list the columns of a table', async () => {
+    expect((await db.getColumnNames('database_test')).sort()).toEqual(['amount', 'id', 'label']);
+    expect(await db.getColumnNames('missing_table')).toEqual([]);
+  });
+});
+
+describe('Database configuration', () => {
+  it('should reject an unsupported client', () => {
+    expect(() => new Database({ client: 'mysql' })).toThrow("Unsupported database client 'mysql'");
+  });
+
+  it('should require a connection string for PostgreSQL', async () => {
+    const previous = process.env.DATABASE_URL;
+    delete process.env.DATABASE_URL;
+    const db = new Database({ client: 'postgres' });
+    if (previous !== undefined) {
+      process.env.DATABASE_URL = previous;
+    }
+
+    await expect(db.connect()).rejects.toThrow('DATABASE_URL is required');
+    expect(db.isConnected()).toBe(false);
+  });
+
+  it('should reject queries before connecting', async () => {
+    await expect(new Database({ client: 'sqlite', dbPath: './data/unused.db' }).get('SELECT 1')).rejects.toThrow('Database not connected');
+  });
+});
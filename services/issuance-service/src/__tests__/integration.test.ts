@@ -1,30 +1,75 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
 import request from 'supertest';
 import { createApp } from '../app';
 import { database } from '../config/database';
+import { AuditLogModel } from '../models/AuditLog';
+import { SigningKeyModel } from '../models/SigningKey';
+import { WebhookDeliveryModel } from '../models/WebhookDelivery';
+import { auditTrail } from '../utils/auditTrail';
+import { CryptoUtils } from '../utils/crypto';
+import { oidcKeyCache } from '../utils/oidcKeyCache';
+import { flushTracing, shutdownTracing } from '../utils/tracing';
+import { webhookDispatcher } from '../utils/webhookDispatcher';
 import fs from 'fs';
-import path from 'path';
+import http from 'http';
+import { AddressInfo } from 'net';
+import zlib from 'zlib';
 
 describe('Issuance Service Integration Tests', () => {
   let app: any;
-  const testDbPath = './data/test-credentials.db';
+  // Requests are sent with an API key holding the issuer and auditor roles
+  let api: any;
+  // The database file is set for each test file by jest.setup.js, before the database module is loaded
+  const testDbPath = process.env.DB_PATH as string;
+  // Tenants are named per run, so that runs against a shared Postgres database do not collide
+  const runId = crypto.randomBytes(4).toString('hex');
+  const acmeTenantId = `acme-${runId}`;
+  const globexTenantId = `globex-${runId}`;
+  const webhookTenantId = `webhook-tenant-${runId}`;
+  // Local OTLP collector recording the spans the service exports
+  const exportedSpans: any[] = [];
+  let collector: http.Server;
 
   beforeAll(async () => {
+    collector = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        for (const resourceSpans of JSON.parse(body).resourceSpans) {
+          for (const scopeSpans of resourceSpans.scopeSpans) {
+            exportedSpans.push(...scopeSpans.spans);
+          }
+        }
+        res.setHeader('Content-Type', 'application/json');
+        res.end('{}');
+      });
+    });
+    await new Promise<void>(resolve => collector.listen(0, '127.0.0.1', resolve));
+
     // Set test environment
     process.env.NODE_ENV = 'test';
-    process.env.DB_PATH = testDbPath;
-    process.env.JWT_SECRET = 'test-secret';
     process.env.WORKER_ID = 'test-worker-1';
-
-    // Ensure test data directory exists
-    const dataDir = path.dirname(testDbPath);
-    if (!fs.existsSync(dataDir)) {
-      fs.mkdirSync(dataDir, { recursive: true });
-    }
+    process.env.ADMIN_API_KEY = 'test-admin-key';
+    process.env.SIGNING_KEY_ENCRYPTION_KEY = crypto.randomBytes(32).toString('base64');
+    // The whole suite runs from one IP, above the default limit
+    process.env.RATE_LIMIT_MAX_REQUESTS = '1000';
+    process.env.OTEL_EXPORTER_OTLP_ENDPOINT = `http://127.0.0.1:${(collector.address() as AddressInfo).port}`;
 
     app = await createApp();
+
+    const keyResponse = await request(app)
+      .post('/api/api-keys')
+      .set('X-Admin-Key', 'test-admin-key')
+      .send({ name: 'integration-tests', roles: ['issuer', 'auditor'] })
+      .expect(201);
+    api = request.agent(app).set('X-API-Key', keyResponse.body.data.key);
   });
 
   afterAll(async () => {
+    await auditTrail.flush();
+    await shutdownTracing();
+    await new Promise(resolve => collector.close(resolve));
     await database.close();
     
     // Clean up test database
@@ -37,6 +82,7 @@ describe('Issuance Service Integration Tests', () => {
     // Clean database before each test
     try {
       await database.run('DELETE FROM credentials');
+      await database.run('DELETE FROM credential_revocations');
     } catch (error) {
       // Table might not exist yet, ignore
     }
@@ -50,7 +96,7 @@ describe('Issuance Service Integration Tests', () => {
         expiry_date: '2025-12-31T23:59:59.000Z'
       };
 
-      const response = await request(app)
+      const response = await api
         .post('/api/credentials')
         .send(credentialRequest)
         .expect(201);
@@ -71,13 +117,13 @@ describe('Issuance Service Integration Tests', () => {
       };
 
       // Issue first credential
-      await request(app)
+      await api
         .post('/api/credentials')
         .send(credentialRequest)
         .expect(201);
 
       // Try to issue duplicate
-      const response = await request(app)
+      const response = await api
         .post('/api/credentials')
         .send(credentialRequest)
         .expect(409);
@@ -92,7 +138,7 @@ describe('Issuance Service Integration Tests', () => {
         credential_type: 'invalid_type'
       };
 
-      const response = await request(app)
+      const response = await api
         .post('/api/credentials')
         .send(invalidRequest)
         .expect(400);
@@ -102,10 +148,148 @@ describe('Issuance Service Integration Tests', () => {
     });
   });
 
+  describe('POST /api/credentials/batch', () => {
+    it('should issue valid items and report conflicts and validation errors per item', async () => {
+      await api
+        .post('/api/credentials')
+        .send({ holder_name: 'Existing Holder', credential_type: 'badge' })
+        .expect(201);
+
+      const response = await api
+        .post('/api/credentials/batch')
+        .send([
+          { holder_name: 'First Graduate', credential_type: 'certificate' },
+          { holder_name: 'Second Graduate', credential_type: 'certificate' },
+          { holder_name: 'First Graduate', credential_type: 'certificate' },
+          { holder_name: 'Existing Holder', credential_type: 'badge' },
+          { holder_name: 'X', credential_type: 'certificate' },
+          { holder_name: 'Third Graduate', credential_type: 'unknown_type' }
+        ])
+        .expect(201);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.summary).toEqual({ total: 6, created: 2, conflicts: 2, invalid: 2 });
+
+      const results = response.body.data.results;
+      expect(results.map((result: any) => result.status)).toEqual(['created', 'created', 'conflict', 'conflict', 'invalid', 'invalid']);
+      expect(results[0].credential.holder_name).toBe('First Graduate');
+      expect(results[2].errors).toEqual(['Duplicate of item 0 in this batch']);
+      expect(results[3].existing_credential_id).toBeDefined();
+      expect(results[4].errors[0]).toContain('at least 2 characters');
+      expect(results[5].errors[0]).toContain('Credential type must be one of');
+
+      const stored = await api
+        .get(`/api/credentials/${results[1].credential.id}`)
+        .expect(200);
+      expect(stored.body.data.is_valid).toBe(true);
+    });
+
+    it('should not store anything when no item is accepted', async () => {
+      const response = await api
+        .post('/api/credentials/batch')
+        .send([{ holder_name: '', credential_type: 'certificate' }])
+        .expect(200);
+
+      expect(response.body.data.summary.created).toBe(0);
+      expect(await database.all('SELECT id FROM credentials')).toHaveLength(0);
+    });
+
+    it('should reject bodies that are not a non-empty array', async () => {
+      const response = await api
+        .post('/api/credentials/batch')
+        .send({ holder_name: 'John Doe', credential_type: 'certificate' })
+        .expect(400);
+
+      expect(response.body.message).toContain('must be an array');
+
+      await api
+        .post('/api/credentials/batch')
+        .send([])
+        .expect(400);
+    });
+  });
+
+  describe('POST /api/credentials/import', () => {
+    const csv = [
+      'Full Name,Type,Expiry Date,Notes',
+      'First Graduate,certificate,,cohort 1',
+      '',
+      'X,certificate,,too short',
+      'First Graduate,certificate,,listed twice'
+    ].join('\n');
+
+    it('should report row-level results without writing anything in a dry run', async () => {
+      const response = await api
+        .post('/api/credentials/import?dry_run=true&columns[holder_name]=Full Name&columns[credential_type]=Type')
+        .set('Content-Type', 'text/csv')
+        .send(csv)
+        .expect(200);
+
+      expect(response.body.data.dry_run).toBe(true);
+      expect(response.body.data.summary).toEqual({ total: 3, valid: 1, conflicts: 1, invalid: 1 });
+      expect(response.body.data.results).toEqual([
+        { row: 2, status: 'valid' },
+        { row: 4, status: 'invalid', errors: [expect.stringContaining('at least 2 characters')] },
+        { row: 5, status: 'conflict', errors: ['Duplicate of row 2 in this batch'] }
+      ]);
+      expect(await database.all('SELECT id FROM credentials')).toHaveLength(0);
+    });
+
+    it('should issue the accepted rows and return a CSV of the results', async () => {
+      const response = await api
+        .post('/api/credentials/import?columns[holder_name]=Full Name&columns[credential_type]=Type')
+        .set('Content-Type', 'text/csv')
+        .send(csv)
+        .expect(201);
+
+      expect(response.headers['content-type']).toContain('text/csv');
+      expect(response.headers['content-disposition']).toContain('attachment; filename="credential-import-');
+
+      const [header, created, invalid, conflict] = response.text.trim().split('\r\n').map((line: string) => line.split(','));
+      expect(header).toEqual(['row', 'status', 'credential_id', 'holder_name', 'credential_type', 'expiry_date', 'signature', 'errors']);
+      expect(created!.slice(0, 2)).toEqual(['2', 'created']);
+      expect(invalid!.slice(0, 2)).toEqual(['4', 'invalid']);
+      expect(conflict!.slice(0, 2)).toEqual(['5', 'conflict']);
+
+      const stored = await api
+        .get(`/api/credentials/${created![2]}`)
+        .expect(200);
+      expect(stored.body.data.signature).toBe(created![6]);
+    });
+
+    it('should write signatures starting with - to the results CSV unchanged', async () => {
+      const signature = '-Q-kD_v9x2mJ0aQ8uXf5G1H3nY7cLb4rTz6wVe9sKp0dR2oAiU5gNyWq1jFh8tMlBcE3xZ7vS4uPa6';
+      const sign = jest.spyOn(CryptoUtils, 'generateCredentialSignature').mockReturnValueOnce(signature);
+
+      try {
+        const response = await api
+          .post('/api/credentials/import')
+          .set('Content-Type', 'text/csv')
+          .send('holder_name,credential_type\nDashed Signature,badge\n')
+          .expect(201);
+
+        const [, created] = response.text.trim().split('\r\n').map((line: string) => line.split(','));
+        expect(created![6]).toBe(signature);
+      } finally {
+        sign.mockRestore();
+      }
+    });
+
+    it('should reject CSV files without the required columns', async () => {
+      const response = await api
+        .post('/api/credentials/import?dry_run=true')
+        .set('Content-Type', 'text/csv')
+        .send('Name,Type\nJohn Doe,certificate\n')
+        .expect(400);
+
+      expect(response.body.message).toContain('CSV has no column for: holder_name, credential_type');
+    });
+  });
+
   describe('GET /api/credentials/:id', () => {
     it('should retrieve an existing credential', async () => {
       // First create a credential
-      const createResponse = await request(app)
+      const createResponse = await api
         .post('/api/credentials')
         .send({
           holder_name: 'Test User',
@@ -115,19 +299,121 @@ describe('Issuance Service Integration Tests', () => {
       const credentialId = createResponse.body.data.id;
 
       // Then retrieve it
-      const response = await request(app)
+      const response = await api
         .get(`/api/credentials/${credentialId}`)
         .expect(200);
 
       expect(response.body.success).toBe(true);
       expect(response.body.data.id).toBe(credentialId);
       expect(response.body.data.holder_name).toBe('Test User');
+      expect(response.body.data.signature_algorithm).toBe('Ed25519');
+      expect(response.body.data.kid).toBeDefined();
       expect(response.body.data.is_valid).toBe(true);
       expect(response.body.data.is_expired).toBe(false);
     });
 
+    it('should export a credential as a W3C verifiable credential', async () => {
+      const createResponse = await api
+        .post('/api/credentials')
+        .send({
+          holder_name: 'Test User',
+          credential_type: 'badge',
+          expiry_date: '2099-01-01T00:00:00.000Z'
+        });
+
+      const credential = createResponse.body.data;
+
+      const response = await api
+        .get(`/api/credentials/${credential.id}?format=vc`)
+        .expect('Content-Type', /application\/vc\+ld\+json/)
+        .expect(200);
+
+      expect(response.body['@context']).toEqual(['https://www.w3.org/ns/credentials/v2']);
+      expect(response.body.id).toBe(`urn:uuid:${credential.id}`);
+      expect(response.body.type).toEqual(['VerifiableCredential', 'BadgeCredential']);
+      expect(response.body.issuer.name).toBe(credential.issuer);
+      expect(response.body.validFrom).toBe(credential.issued_date);
+      expect(response.body.validUntil).toBe(credential.expiry_date);
+      expect(response.body.credentialSubject).toEqual({ name: 'Test User', credentialType: 'badge', attributes: {} });
+      expect(response.body.proof.proofValue).toBe(credential.signature);
+      expect(response.body.proof.verificationMethod).toMatch(new RegExp(`#${credential.kid}$`));
+    });
+
+    it('should return a signed JWT alongside the credential when requested', async () => {
+      const createResponse = await api
+        .post('/api/credentials?format=jwt')
+        .send({
+          holder_name: 'Test User',
+          credential_type: 'license',
+          expiry_date: '2099-01-01T00:00:00.000Z'
+        })
+        .expect(201);
+
+      const { jwt, ...credential } = createResponse.body.data;
+      const [header, payload] = jwt.split('.').slice(0, 2).map((part: string) => JSON.parse(Buffer.from(part, 'base64url').toString()));
+
+      expect(credential.id).toBeDefined();
+      expect(header.alg).toBe('EdDSA');
+      expect(header.kid).toBe(credential.kid);
+      expect(payload.sub).toBe('Test User');
+      expect(payload.jti).toBe(`urn:uuid:${credential.id}`);
+      expect(payload.exp).toBe(Math.floor(new Date('2099-01-01T00:00:00.000Z').getTime() / 1000));
+      expect(payload.vc.credentialSubject.credentialType).toBe('license');
+
+      const response = await api
+        .get(`/api/credentials/${credential.id}?format=jwt`)
+        .expect('Content-Type', /application\/jwt/)
+        .expect(200);
+
+      expect(response.text.split('.')).toHaveLength(3);
+    });
+
+    it('should return an SD-JWT that only discloses the holder name through a disclosure', async () => {
+      const createResponse = await api
+        .post('/api/credentials?format=sd-jwt')
+        .send({
+          holder_name: 'Test User',
+          credential_type: 'license',
+          expiry_date: '2099-01-01T00:00:00.000Z'
+        })
+        .expect(201);
+
+      const { sd_jwt: sdJwt, ...credential } = createResponse.body.data;
+      const [jwt, disclosure, keyBinding] = sdJwt.split('~');
+      const [header, payload] = jwt.split('.').slice(0, 2).map((part: string) => JSON.parse(Buffer.from(part, 'base64url').toString()));
+      const digest = crypto.createHash('sha256').update(disclosure).digest('base64url');
+
+      expect(header).toEqual({ alg: 'EdDSA', typ: 'vc+sd-jwt', kid: credential.kid });
+      expect(payload._sd_alg).toBe('sha-256');
+      expect(payload.sub).toBeUndefined();
+      expect(JSON.stringify(payload)).not.toContain('Test User');
+      expect(payload.vc.credentialSubject).toEqual({ credentialType: 'license', _sd: [digest], attributes: { _sd: [] } });
+      expect(JSON.parse(Buffer.from(disclosure, 'base64url').toString())).toEqual([expect.any(String), 'name', 'Test User']);
+      expect(keyBinding).toBe('');
+
+      const response = await api
+        .get(`/api/credentials/${credential.id}?format=sd-jwt`)
+        .expect('Content-Type', /application\/sd-jwt/)
+        .expect(200);
+
+      expect(response.text.endsWith('~')).toBe(true);
+    });
+
+    it('should reject unsupported formats', async () => {
+      const createResponse = await api
+        .post('/api/credentials')
+        .send({
+          holder_name: 'Test User',
+          credential_type: 'badge'
+        });
+
+      await api
+        .get(`/api/credentials/${createResponse.body.data.id}?format=xml`)
+        .expect(400);
+    });
+
     it('should return 404 for non-existent credential', async () => {
-      const response = await request(app)
+      const response = await api
         .get('/api/credentials/non-existent-id')
         .expect(404);
 
@@ -136,55 +422,1536 @@ describe('Issuance Service Integration Tests', () => {
     });
   });
 
-  describe('GET /api/credentials', () => {
-    it('should list credentials with pagination', async () => {
-      // Create multiple credentials with different types to avoid duplicates
-      const credentialTypes = ['certificate', 'license', 'badge', 'diploma', 'permit'];
-      const holderNames = ['Alice Smith', 'Bob Johnson', 'Carol Davis', 'David Wilson', 'Eva Brown'];
-      for (let i = 1; i <= 5; i++) {
-        const response = await request(app)
-          .post('/api/credentials')
-          .send({
-            holder_name: holderNames[i - 1],
-            credential_type: credentialTypes[i - 1]
-          });
-        
-        if (response.status !== 201) {
-          // eslint-disable-next-line no-console
-          console.error(`Failed to create credential ${i}:`, response.body);
-        }
-        expect(response.status).toBe(201);
-      }
+  describe('GET /api/credentials/:id/qr', () => {
+    it('should return a PNG QR code by default', async () => {
+      const createResponse = await api
+        .post('/api/credentials')
+        .send({
+          holder_name: 'Test User',
+          credential_type: 'badge'
+        });
 
-      const response = await request(app)
-        .get('/api/credentials?page=1&limit=3')
+      const response = await api
+        .get(`/api/credentials/${createResponse.body.data.id}/qr`)
+        .expect('Content-Type', /image\/png/)
         .expect(200);
 
-      expect(response.body.success).toBe(true);
-      expect(response.body.data.credentials).toHaveLength(3);
-      expect(response.body.data.pagination.total).toBe(5);
-      expect(response.body.data.pagination.pages).toBe(2);
+      expect(response.body.subarray(0, 8).toString('hex')).toBe('89504e470d0a1a0a');
+    });
+
+    it('should return an SVG QR code of the signed JWT when requested', async () => {
+      const createResponse = await api
+        .post('/api/credentials')
+        .send({
+          holder_name: 'Test User',
+          credential_type: 'badge'
+        });
+
+      const reference = await api
+        .get(`/api/credentials/${createResponse.body.data.id}/qr?format=svg`)
+        .expect('Content-Type', /image\/svg\+xml/)
+        .expect(200);
+
+      const jwt = await api
+        .get(`/api/credentials/${createResponse.body.data.id}/qr?format=svg&content=jwt`)
+        .expect(200);
+
+      expect(reference.body.toString()).toMatch(/^<svg/);
+      // The JWT encodes far more data, so its QR code needs more modules
+      expect(jwt.body.length).toBeGreaterThan(reference.body.length);
+    });
+
+    it('should reject unsupported formats and content', async () => {
+      const createResponse = await api
+        .post('/api/credentials')
+        .send({
+          holder_name: 'Test User',
+          credential_type: 'badge'
+        });
+
+      await api
+        .get(`/api/credentials/${createResponse.body.data.id}/qr?format=gif`)
+        .expect(400);
+
+      await api
+        .get(`/api/credentials/${createResponse.body.data.id}/qr?content=vc`)
+        .expect(400);
+    });
+
+    it('should return 404 for non-existent credential', async () => {
+      await api
+        .get('/api/credentials/non-existent-id/qr')
+        .expect(404);
     });
   });
 
-  describe('GET /health', () => {
-    it('should return healthy status', async () => {
-      const response = await request(app)
-        .get('/health')
+  describe('GET /api/credentials/:id/pdf', () => {
+    it('should render a printable PDF of the credential', async () => {
+      const createResponse = await api
+        .post('/api/credentials')
+        .send({
+          holder_name: 'Test User',
+          credential_type: 'diploma'
+        });
+
+      const response = await api
+        .get(`/api/credentials/${createResponse.body.data.id}/pdf`)
+        .expect('Content-Type', /application\/pdf/)
+        .expect('Content-Disposition', `attachment; filename="credential-${createResponse.body.data.id}.pdf"`)
         .expect(200);
 
+      expect(response.body.subarray(0, 5).toString()).toBe('%PDF-');
+    });
+
+    it('should return 404 for non-existent credential', async () => {
+      await api
+        .get('/api/credentials/non-existent-id/pdf')
+        .expect(404);
+    });
+  });
+
+  describe('POST /api/credentials/:id/revoke', () => {
+    it('should revoke a credential and report it on retrieval', async () => {
+      const createResponse = await api
+        .post('/api/credentials')
+        .send({
+          holder_name: 'Revoked User',
+          credential_type: 'license'
+        })
+        .expect(201);
+      const credentialId = createResponse.body.data.id;
+
+      const response = await api
+        .post(`/api/credentials/${credentialId}/revoke`)
+        .set('X-Admin-Key', 'test-admin-key')
+        .send({ reason: 'privilege_withdrawn' })
+        .expect(201);
+
       expect(response.body.success).toBe(true);
-      expect(response.body.data.status).toBe('healthy');
-      expect(response.body.data.database).toBe('connected');
-      expect(response.body.worker_id).toBe('test-worker-1');
+      expect(response.body.data.reason).toBe('privilege_withdrawn');
+      expect(response.body.data.revoked_at).toBeDefined();
+
+      const getResponse = await api
+        .get(`/api/credentials/${credentialId}`)
+        .expect(200);
+
+      expect(getResponse.body.data.is_revoked).toBe(true);
+      expect(getResponse.body.data.revocation.reason).toBe('privilege_withdrawn');
+
+      await api
+        .post(`/api/credentials/${credentialId}/revoke`)
+        .set('X-Admin-Key', 'test-admin-key')
+        .send({ reason: 'unspecified' })
+        .expect(409);
+    });
+
+    it('should reject unknown reason codes', async () => {
+      const response = await api
+        .post('/api/credentials/some-id/revoke')
+        .set('X-Admin-Key', 'test-admin-key')
+        .send({ reason: 'because' })
+        .expect(400);
+
+      expect(response.body.message).toContain('Validation error');
+    });
+
+    it('should return 404 for non-existent credential', async () => {
+      await api
+        .post('/api/credentials/non-existent-id/revoke')
+        .set('X-Admin-Key', 'test-admin-key')
+        .send({ reason: 'unspecified' })
+        .expect(404);
     });
   });
 
-  describe('Rate Limiting', () => {
-    it('should enforce rate limits', async () => {
-      // This test would need to be adjusted based on your rate limiting configuration
-      // For now, we'll just verify the endpoint works
-      const response = await request(app)
+  describe('POST /api/credentials/:id/renew', () => {
+    it('should issue a linked credential and mark the old one superseded', async () => {
+      const createResponse = await api
+        .post('/api/credentials')
+        .send({
+          holder_name: 'Renewal User',
+          credential_type: 'license'
+        })
+        .expect(201);
+      const previous = createResponse.body.data;
+
+      const response = await api
+        .post(`/api/credentials/${previous.id}/renew`)
+        .send({ expiry_date: '2099-06-30T00:00:00.000Z' })
+        .expect(201);
+
+      expect(response.body.data.id).not.toBe(previous.id);
+      expect(response.body.data).toMatchObject({
+        holder_name: 'Renewal User',
+        credential_type: 'license',
+        previous_credential_id: previous.id,
+        expiry_date: '2099-06-30T00:00:00.000Z',
+        superseded_by: null
+      });
+
+      const previousCheck = await api
+        .get(`/api/credentials/${previous.id}`)
+        .expect(200);
+      expect(previousCheck.body.data.is_superseded).toBe(true);
+      expect(previousCheck.body.data.superseded_by).toBe(response.body.data.id);
+
+      const renewedCheck = await api
+        .get(`/api/credentials/${response.body.data.id}`)
+        .expect(200);
+      expect(renewedCheck.body.data.is_valid).toBe(true);
+      expect(renewedCheck.body.data.is_superseded).toBe(false);
+
+      const secondRenewal = await api
+        .post(`/api/credentials/${previous.id}/renew`)
+        .expect(409);
+      expect(secondRenewal.body.data.superseded_by).toBe(response.body.data.id);
+
+      // The renewal counts as the holder's current credential of the type
+      await api
+        .post('/api/credentials')
+        .send({
+          holder_name: 'Renewal User',
+          credential_type: 'license'
+        })
+        .expect(409);
+    });
+
+    it('should allow issuing again once the credential has expired', async () => {
+      const createResponse = await api
+        .post('/api/credentials')
+        .send({
+          holder_name: 'Expired User',
+          credential_type: 'permit'
+        })
+        .expect(201);
+
+      await database.run('UPDATE credentials SET expiry_date = ? WHERE id = ?', [
+        '2020-01-01T00:00:00.000Z',
+        createResponse.body.data.id
+      ]);
+
+      await api
+        .post('/api/credentials')
+        .send({
+          holder_name: 'Expired User',
+          credential_type: 'permit'
+        })
+        .expect(201);
+    });
+
+    it('should not renew revoked credentials', async () => {
+      const createResponse = await api
+        .post('/api/credentials')
+        .send({
+          holder_name: 'Revoked Renewal User',
+          credential_type: 'badge'
+        })
+        .expect(201);
+
+      await api
+        .post(`/api/credentials/${createResponse.body.data.id}/revoke`)
+        .set('X-Admin-Key', 'test-admin-key')
+        .send({ reason: 'privilege_withdrawn' })
+        .expect(201);
+
+      const response = await api
+        .post(`/api/credentials/${createResponse.body.data.id}/renew`)
+        .expect(409);
+
+      expect(response.body.message).toContain('Revoked credentials cannot be renewed');
+    });
+
+    it('should return 404 for non-existent credential', async () => {
+      await api
+        .post('/api/credentials/non-existent-id/renew')
+        .expect(404);
+    });
+  });
+
+  describe('GET /api/status-lists/:id/:purpose', () => {
+    // Bit of a credential in a published status list JWT, index 0 being the first bit
+    const readStatusBit = (statusListJwt: string, index: number): number => {
+      const payload = JSON.parse(Buffer.from(statusListJwt.split('.')[1]!, 'base64url').toString());
+      const bits = zlib.gunzipSync(Buffer.from(payload.vc.credentialSubject.encodedList.slice(1), 'base64url'));
+      return (bits[Math.floor(index / 8)]! >> (7 - (index % 8))) & 1;
+    };
+
+    it('should publish a signed status list with the bit of revoked credentials set', async () => {
+      const createResponse = await api
+        .post('/api/credentials')
+        .send({
+          holder_name: 'Status List User',
+          credential_type: 'license'
+        })
+        .expect(201);
+      const credential = createResponse.body.data;
+
+      expect(credential.status_list_id).toBeDefined();
+      expect(credential.status_list_index).toEqual(expect.any(Number));
+
+      const before = await request(app)
+        .get(`/api/status-lists/${credential.status_list_id}/revocation`)
+        .expect('Content-Type', /application\/jwt/)
+        .expect(200);
+      expect(readStatusBit(before.text, credential.status_list_index)).toBe(0);
+
+      // The signed list is reused, not signed again, until one of its bits is set
+      const cached = await request(app)
+        .get(`/api/status-lists/${credential.status_list_id}/revocation`)
+        .expect(200);
+      expect(cached.text).toBe(before.text);
+      expect(Number(cached.headers['cache-control'].match(/max-age=(\d+)/)[1])).toBeLessThanOrEqual(300);
+
+      // The list is signed with the tenant key published in the key set
+      const [header, payload, signature] = before.text.split('.');
+      const jwks = await request(app).get('/.well-known/keys').expect(200);
+      const jwk = jwks.body.keys.find((key: any) => key.kid === JSON.parse(Buffer.from(header, 'base64url').toString()).kid);
+      expect(crypto.verify(
+        null,
+        Buffer.from(`${header}.${payload}`),
+        crypto.createPublicKey({ key: jwk, format: 'jwk' }),
+        Buffer.from(signature, 'base64url')
+      )).toBe(true);
+      expect(JSON.parse(Buffer.from(payload, 'base64url').toString()).vc.credentialSubject).toMatchObject({
+        type: 'BitstringStatusList',
+        statusPurpose: 'revocation'
+      });
+
+      await api
+        .post(`/api/credentials/${credential.id}/revoke`)
+        .set('X-Admin-Key', 'test-admin-key')
+        .send({ reason: 'key_compromise' })
+        .expect(201);
+
+      const after = await request(app)
+        .get(`/api/status-lists/${credential.status_list_id}/revocation`)
+        .expect(200);
+      expect(readStatusBit(after.text, credential.status_list_index)).toBe(1);
+
+      const supersession = await request(app)
+        .get(`/api/status-lists/${credential.status_list_id}/supersession`)
+        .expect(200);
+      expect(readStatusBit(supersession.text, credential.status_list_index)).toBe(0);
+    });
+
+    it('should set the supersession bit of renewed credentials', async () => {
+      const createResponse = await api
+        .post('/api/credentials')
+        .send({
+          holder_name: 'Status Renewal User',
+          credential_type: 'permit'
+        })
+        .expect(201);
+      const previous = createResponse.body.data;
+
+      const renewResponse = await api
+        .post(`/api/credentials/${previous.id}/renew`)
+        .expect(201);
+      const renewed = renewResponse.body.data;
+
+      expect(renewed.status_list_index).not.toBe(previous.status_list_index);
+
+      const response = await request(app)
+        .get(`/api/status-lists/${previous.status_list_id}/supersession`)
+        .expect(200);
+      expect(readStatusBit(response.text, previous.status_list_index)).toBe(1);
+      expect(readStatusBit(response.text, renewed.status_list_index)).toBe(0);
+    });
+
+    it('should reference the status lists from the verifiable credential', async () => {
+      const createResponse = await api
+        .post('/api/credentials')
+        .send({
+          holder_name: 'Status Entry User',
+          credential_type: 'badge'
+        })
+        .expect(201);
+      const credential = createResponse.body.data;
+
+      const response = await api
+        .get(`/api/credentials/${credential.id}?format=vc`)
+        .expect(200);
+
+      const { credentialStatus } = JSON.parse(response.text);
+      expect(credentialStatus).toHaveLength(2);
+      expect(credentialStatus[0]).toMatchObject({
+        type: 'BitstringStatusListEntry',
+        statusPurpose: 'revocation',
+        statusListIndex: String(credential.status_list_index)
+      });
+      expect(credentialStatus[0].statusListCredential).toContain(`/${credential.status_list_id}/revocation`);
+      expect(credentialStatus[1].statusPurpose).toBe('supersession');
+    });
+
+    it('should return 404 for unknown lists and purposes', async () => {
+      await request(app)
+        .get('/api/status-lists/non-existent-id/revocation')
+        .expect(404);
+
+      const createResponse = await api
+        .post('/api/credentials')
+        .send({
+          holder_name: 'Status Purpose User',
+          credential_type: 'diploma'
+        })
+        .expect(201);
+
+      await request(app)
+        .get(`/api/status-lists/${createResponse.body.data.status_list_id}/suspension`)
+        .expect(404);
+    });
+  });
+
+  describe('Webhooks', () => {
+    // Local endpoint recording the webhooks it receives, answering with the next queued status
+    const received: { headers: http.IncomingHttpHeaders; body: string }[] = [];
+    const statuses: number[] = [];
+    let webhookServer: http.Server;
+    let webhookUrl: string;
+
+    const subscribe = async (events: string[]) => (await request(app)
+      .post('/api/webhooks')
+      .set('X-Admin-Key', 'test-admin-key')
+      .send({ url: webhookUrl, events })
+      .expect(201)).body.data;
+
+    beforeAll(async () => {
+      webhookServer = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+          received.push({ headers: req.headers, body });
+          res.statusCode = statuses.shift() ?? 200;
+          res.end();
+        });
+      });
+      await new Promise<void>(resolve => webhookServer.listen(0, '127.0.0.1', resolve));
+      webhookUrl = `http://127.0.0.1:${(webhookServer.address() as AddressInfo).port}/hooks`;
+      // The local endpoint is on a loopback address
+      process.env.WEBHOOK_ALLOWED_HOSTS = '127.0.0.1';
+    });
+
+    afterEach(async () => {
+      received.length = 0;
+      statuses.length = 0;
+      delete process.env.WEBHOOK_MAX_ATTEMPTS;
+      process.env.WEBHOOK_ALLOWED_HOSTS = '127.0.0.1';
+      await database.run('DELETE FROM webhook_deliveries');
+      await database.run('DELETE FROM webhook_subscriptions');
+    });
+
+    afterAll(async () => {
+      delete process.env.WEBHOOK_ALLOWED_HOSTS;
+      await new Promise(resolve => webhookServer.close(resolve));
+    });
+
+    it('should not send webhooks to loopback, private or link-local addresses', async () => {
+      await subscribe(['credential.issued']);
+      delete process.env.WEBHOOK_ALLOWED_HOSTS;
+
+      for (const url of ['http://127.0.0.1/hooks', 'http://169.254.169.254/latest/meta-data/', 'http://[::ffff:10.0.0.1]/hooks']) {
+        const response = await request(app)
+          .post('/api/webhooks')
+          .set('X-Admin-Key', 'test-admin-key')
+          .send({ url, events: ['credential.issued'] })
+          .expect(400);
+
+        expect(response.body.message).toContain('resolves to a loopback, private or link-local address');
+      }
+
+      // A subscription stored while its host was allowed is checked again when sending
+      await api
+        .post('/api/credentials')
+        .send({ holder_name: 'Internal Webhook User', credential_type: 'diploma' })
+        .expect(201);
+      await webhookDispatcher.processDue();
+
+      expect(received).toHaveLength(0);
+      const [delivery] = (await request(app)
+        .get('/api/webhooks/deliveries')
+        .set('X-Admin-Key', 'test-admin-key')
+        .expect(200)).body.data.deliveries;
+      expect(delivery).toMatchObject({
+        status: 'pending',
+        last_response_status: null,
+        last_error: 'Host 127.0.0.1 resolves to a loopback, private or link-local address'
+      });
+    });
+
+    it('should deliver signed credential.issued events', async () => {
+      const subscription = await subscribe(['credential.issued']);
+      expect(subscription.secret).toMatch(/^whsec_/);
+
+      const credential = (await api
+        .post('/api/credentials')
+        .send({ holder_name: 'Webhook User', credential_type: 'diploma' })
+        .expect(201)).body.data;
+
+      await webhookDispatcher.processDue();
+
+      expect(received).toHaveLength(1);
+      const { headers, body } = received[0]!;
+      const event = JSON.parse(body);
+      expect(event).toMatchObject({ type: 'credential.issued', tenant_id: 'default' });
+      expect(event.data.id).toBe(credential.id);
+      expect(headers['x-webhook-event']).toBe('credential.issued');
+      expect(headers['x-webhook-id']).toBe(event.id);
+
+      const expectedSignature = crypto
+        .createHmac('sha256', subscription.secret)
+        .update(`${headers['x-webhook-timestamp']}.${body}`)
+        .digest('hex');
+      expect(headers['x-webhook-signature']).toBe(`sha256=${expectedSignature}`);
+
+      // Secrets are only shown on creation
+      const listResponse = await request(app)
+        .get('/api/webhooks')
+        .set('X-Admin-Key', 'test-admin-key')
+        .expect(200);
+      expect(listResponse.body.data.subscriptions).toHaveLength(1);
+      expect(listResponse.body.data.subscriptions[0].secret).toBeUndefined();
+    });
+
+    it('should only deliver the events subscribed to', async () => {
+      await subscribe(['credential.revoked']);
+
+      const credential = (await api
+        .post('/api/credentials')
+        .send({ holder_name: 'Revoked Webhook User', credential_type: 'diploma' })
+        .expect(201)).body.data;
+
+      await api
+        .post(`/api/credentials/${credential.id}/revoke`)
+        .set('X-Admin-Key', 'test-admin-key')
+        .send({ reason: 'superseded' })
+        .expect(201);
+
+      await webhookDispatcher.processDue();
+
+      expect(received).toHaveLength(1);
+      const event = JSON.parse(received[0]!.body);
+      expect(event.type).toBe('credential.revoked');
+      expect(event.data).toMatchObject({ id: credential.id, revocation: { reason: 'superseded' } });
+    });
+
+    it('should raise credential.expired once for expired credentials', async () => {
+      await subscribe(['credential.expired']);
+
+      const credential = (await api
+        .post('/api/credentials')
+        .send({ holder_name: 'Expired Webhook User', credential_type: 'diploma' })
+        .expect(201)).body.data;
+      await database.run('UPDATE credentials SET expiry_date = ? WHERE id = ?', ['2020-01-01T00:00:00.000Z', credential.id]);
+
+      await webhookDispatcher.processDue();
+      await webhookDispatcher.processDue();
+
+      expect(received).toHaveLength(1);
+      expect(JSON.parse(received[0]!.body)).toMatchObject({ type: 'credential.expired', data: { id: credential.id } });
+    });
+
+    it('should raise credential.expired again when it could not be queued', async () => {
+      await subscribe(['credential.expired']);
+
+      const credential = (await api
+        .post('/api/credentials')
+        .send({ holder_name: 'Unqueued Webhook User', credential_type: 'diploma' })
+        .expect(201)).body.data;
+      await database.run('UPDATE credentials SET expiry_date = ? WHERE id = ?', ['2020-01-01T00:00:00.000Z', credential.id]);
+
+      const createForEvent = jest.spyOn(WebhookDeliveryModel, 'createForEvent').mockRejectedValueOnce(new Error('disk full'));
+      try {
+        await webhookDispatcher.processDue();
+      } finally {
+        createForEvent.mockRestore();
+      }
+      expect(received).toHaveLength(0);
+
+      await webhookDispatcher.processDue();
+
+      expect(received).toHaveLength(1);
+      expect(JSON.parse(received[0]!.body)).toMatchObject({ type: 'credential.expired', data: { id: credential.id } });
+    });
+
+    it('should retry failed deliveries, dead-letter them and redeliver on request', async () => {
+      process.env.WEBHOOK_MAX_ATTEMPTS = '2';
+      statuses.push(500, 503);
+      await subscribe(['credential.issued']);
+
+      await api
+        .post('/api/credentials')
+        .send({ holder_name: 'Failing Webhook User', credential_type: 'diploma' })
+        .expect(201);
+
+      await webhookDispatcher.processDue();
+
+      const [pending] = (await request(app)
+        .get('/api/webhooks/deliveries')
+        .set('X-Admin-Key', 'test-admin-key')
+        .expect(200)).body.data.deliveries;
+      expect(pending).toMatchObject({ status: 'pending', attempts: 1, last_response_status: 500 });
+      expect(new Date(pending.next_attempt_at).getTime()).toBeGreaterThan(Date.now());
+
+      // Make the retry due now instead of after the backoff
+      await database.run('UPDATE webhook_deliveries SET next_attempt_at = ?', [new Date().toISOString()]);
+      await webhookDispatcher.processDue();
+
+      const deadResponse = await request(app)
+        .get('/api/webhooks/deliveries?status=dead')
+        .set('X-Admin-Key', 'test-admin-key')
+        .expect(200);
+      expect(deadResponse.body.data.deliveries).toHaveLength(1);
+      const [dead] = deadResponse.body.data.deliveries;
+      expect(dead).toMatchObject({ attempts: 2, last_response_status: 503, next_attempt_at: null });
+      expect(dead.payload.type).toBe('credential.issued');
+
+      const redeliverResponse = await request(app)
+        .post(`/api/webhooks/deliveries/${dead.id}/redeliver`)
+        .set('X-Admin-Key', 'test-admin-key')
+        .expect(200);
+      expect(redeliverResponse.body.data).toMatchObject({ status: 'succeeded', last_response_status: 200 });
+
+      expect(received).toHaveLength(3);
+      expect(new Set(received.map(({ headers }) => headers['x-webhook-id'])).size).toBe(1);
+    });
+
+    it('should validate subscriptions', async () => {
+      const response = await request(app)
+        .post('/api/webhooks')
+        .set('X-Admin-Key', 'test-admin-key')
+        .send({ url: 'ftp://example.com/hooks', events: ['credential.deleted'] })
+        .expect(400);
+
+      expect(response.body.message).toContain('Validation error');
+      expect(response.body.message).toContain('Events must be among');
+    });
+
+    it('should require the admin role and keep subscriptions within their tenant', async () => {
+      await api
+        .get('/api/webhooks')
+        .expect(403);
+
+      const subscription = await subscribe(['credential.issued']);
+
+      await request(app)
+        .post('/api/tenants')
+        .set('X-Admin-Key', 'test-admin-key')
+        .send({ id: webhookTenantId, display_name: 'Webhook Tenant' })
+        .expect(201);
+
+      await request(app)
+        .delete(`/api/webhooks/${subscription.id}`)
+        .set('X-Admin-Key', 'test-admin-key')
+        .set('X-Tenant-ID', webhookTenantId)
+        .expect(404);
+
+      await request(app)
+        .delete(`/api/webhooks/${subscription.id}`)
+        .set('X-Admin-Key', 'test-admin-key')
+        .expect(200);
+    });
+  });
+
+  describe('Audit log', () => {
+    it('should record issuance, retrieval and rejected requests', async () => {
+      const credential = (await api
+        .post('/api/credentials')
+        .set('User-Agent', 'audit-test')
+        .send({ holder_name: 'Audited User', credential_type: 'diploma' })
+        .expect(201)).body.data;
+
+      await request(app)
+        .get(`/api/credentials/${credential.id}`)
+        .expect(200);
+
+      await api
+        .post('/api/credential-types')
+        .send({ name: 'audited_type', display_name: 'Audited Type' })
+        .expect(403);
+
+      await auditTrail.flush();
+
+      const response = await api
+        .get(`/api/audit?resource_id=${credential.id}`)
+        .expect(200);
+
+      expect(response.body.data.entries).toHaveLength(2);
+      const [read, issue] = response.body.data.entries;
+      expect(read).toMatchObject({ action: 'credential.read', actor_type: 'anonymous', actor_id: null, tenant_id: 'default' });
+      expect(issue).toMatchObject({
+        action: 'credential.issue',
+        actor_type: 'api_key',
+        worker_id: 'test-worker-1',
+        method: 'POST',
+        path: '/api/credentials',
+        status_code: 201,
+        user_agent: 'audit-test'
+      });
+      expect(read.sequence).toBe(issue.sequence + 1);
+      expect(read.previous_hash).toBe(issue.hash);
+
+      const rejected = (await api
+        .get('/api/audit?action=credential_type.create')
+        .expect(200)).body.data.entries;
+      expect(rejected[0]).toMatchObject({ status_code: 403, actor_id: issue.actor_id });
+    });
+
+    it('should fail requests that cannot be recorded', async () => {
+      const credential = (await api
+        .post('/api/credentials')
+        .send({ holder_name: 'Unrecorded User', credential_type: 'badge' })
+        .expect(201)).body.data;
+      await auditTrail.flush();
+      const append = jest.spyOn(AuditLogModel, 'append').mockRejectedValueOnce(new Error('disk full'));
+
+      try {
+        const response = await request(app)
+          .get(`/api/credentials/${credential.id}/pdf`)
+          .expect('Content-Type', /application\/json/)
+          .expect(500);
+
+        expect(response.headers['content-disposition']).toBeUndefined();
+        expect(response.body).toMatchObject({
+          success: false,
+          message: 'The request could not be recorded in the audit log'
+        });
+      } finally {
+        append.mockRestore();
+      }
+    });
+
+    it('should validate the filters', async () => {
+      const response = await api
+        .get('/api/audit?from=yesterday')
+        .expect(400);
+
+      expect(response.body.message).toContain('Validation error');
+    });
+
+    it('should detect modified and missing entries', async () => {
+      await api
+        .post('/api/credentials')
+        .send({ holder_name: 'Chained User', credential_type: 'diploma' })
+        .expect(201);
+      await auditTrail.flush();
+
+      const intact = (await api.get('/api/audit/verify').expect(200)).body.data;
+      expect(intact.valid).toBe(true);
+      expect(intact.entries_checked).toBe(intact.head.sequence);
+
+      await auditTrail.flush();
+      const [entry] = (await api.get('/api/audit?action=credential.issue&limit=1').expect(200)).body.data.entries;
+      await auditTrail.flush();
+
+      await database.run('UPDATE audit_log SET status_code = 200 WHERE id = ?', [entry.id]);
+      const modified = (await api.get('/api/audit/verify').expect(200)).body.data;
+      expect(modified).toMatchObject({
+        valid: false,
+        first_invalid_sequence: entry.sequence,
+        error: 'Hash does not match the entry content'
+      });
+      await database.run('UPDATE audit_log SET status_code = ? WHERE id = ?', [entry.status_code, entry.id]);
+
+      await auditTrail.flush();
+      await database.run('DELETE FROM audit_log WHERE id = ?', [entry.id]);
+      const missing = (await api.get('/api/audit/verify').expect(200)).body.data;
+      expect(missing).toMatchObject({ valid: false, first_invalid_sequence: entry.sequence });
+
+      const columns = Object.keys(entry);
+      await database.run(
+        `INSERT INTO audit_log (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+        columns.map(column => entry[column])
+      );
+      await auditTrail.flush();
+      expect((await api.get('/api/audit/verify').expect(200)).body.data.valid).toBe(true);
+    });
+
+    it('should check the end of the log against its signed heads', async () => {
+      await api
+        .post('/api/credentials')
+        .send({ holder_name: 'Anchored User', credential_type: 'diploma' })
+        .expect(201);
+      await auditTrail.flush();
+
+      const [last, beforeLast] = await database.all<any>('SELECT * FROM audit_log ORDER BY sequence DESC LIMIT 2');
+      const lastAnchor = await database.get<any>('SELECT * FROM audit_log_anchors WHERE sequence = ?', [last.sequence]);
+      expect(await AuditLogModel.verifyChain()).toMatchObject({
+        valid: true,
+        head: { sequence: last.sequence, hash: last.hash },
+        anchor: { sequence: last.sequence, hash: last.hash, kid: lastAnchor.kid }
+      });
+
+      const columns = Object.keys(last);
+      const insertEntry = (entry: any) => database.run(
+        `INSERT INTO audit_log (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+        columns.map(column => entry[column])
+      );
+
+      await database.run('DELETE FROM audit_log WHERE sequence >= ?', [beforeLast.sequence]);
+      expect(await AuditLogModel.verifyChain()).toMatchObject({
+        valid: false,
+        first_invalid_sequence: beforeLast.sequence,
+        error: `Entries ${beforeLast.sequence} to ${last.sequence} are missing`
+      });
+      await insertEntry(beforeLast);
+
+      const rewritten = { ...last, status_code: 200 };
+      delete rewritten.hash;
+      await insertEntry({ ...rewritten, hash: AuditLogModel.computeHash(rewritten) });
+      expect(await AuditLogModel.verifyChain()).toMatchObject({
+        valid: false,
+        first_invalid_sequence: last.sequence,
+        error: 'Hash does not match the signed head'
+      });
+      await database.run('DELETE FROM audit_log WHERE sequence = ?', [last.sequence]);
+      await insertEntry(last);
+
+      const forgedHead = CryptoUtils.signJwt(
+        { sequence: last.sequence, hash: last.hash },
+        CryptoUtils.generateSigningKeyPair().privateKey,
+        lastAnchor.kid,
+        'audit-head+jwt'
+      );
+      await database.run('UPDATE audit_log_anchors SET signed_head = ? WHERE sequence = ?', [forgedHead, last.sequence]);
+      expect(await AuditLogModel.verifyChain()).toMatchObject({
+        valid: false,
+        first_invalid_sequence: last.sequence,
+        error: 'Signature of the signed head is not valid'
+      });
+
+      await database.run('DELETE FROM audit_log_anchors WHERE sequence = ?', [last.sequence]);
+      expect(await AuditLogModel.verifyChain()).toMatchObject({
+        valid: false,
+        first_invalid_sequence: last.sequence,
+        error: 'Entry has no signed head'
+      });
+
+      await database.run(
+        'INSERT INTO audit_log_anchors (sequence, hash, kid, signed_head, created_at) VALUES (?, ?, ?, ?, ?)',
+        [lastAnchor.sequence, lastAnchor.hash, lastAnchor.kid, lastAnchor.signed_head, lastAnchor.created_at]
+      );
+      expect((await AuditLogModel.verifyChain()).valid).toBe(true);
+    });
+
+    it('should require the auditor role', async () => {
+      const keyResponse = await request(app)
+        .post('/api/api-keys')
+        .set('X-Admin-Key', 'test-admin-key')
+        .send({ name: 'issuer-only', roles: ['issuer'] })
+        .expect(201);
+
+      await request(app)
+        .get('/api/audit')
+        .set('X-API-Key', keyResponse.body.data.key)
+        .expect(403);
+    });
+  });
+
+  describe('GET /api/credentials', () => {
+    it('should list credentials with pagination', async () => {
+      // Create multiple credentials with different types to avoid duplicates
+      const credentialTypes = ['certificate', 'license', 'badge', 'diploma', 'permit'];
+      const holderNames = ['Alice Smith', 'Bob Johnson', 'Carol Davis', 'David Wilson', 'Eva Brown'];
+      for (let i = 1; i <= 5; i++) {
+        const response = await api
+          .post('/api/credentials')
+          .send({
+            holder_name: holderNames[i - 1],
+            credential_type: credentialTypes[i - 1]
+          });
+        
+        if (response.status !== 201) {
+          // eslint-disable-next-line no-console
+          console.error(`Failed to create credential ${i}:`, response.body);
+        }
+        expect(response.status).toBe(201);
+      }
+
+      const response = await api
+        .get('/api/credentials?page=1&limit=3')
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.credentials).toHaveLength(3);
+      expect(response.body.data.pagination.total).toBe(5);
+      expect(response.body.data.pagination.pages).toBe(2);
+    });
+  });
+
+  describe('Credential types', () => {
+    afterEach(async () => {
+      await database.run("DELETE FROM credential_types WHERE name = 'membership'");
+      await database.run("UPDATE credential_types SET is_active = 1 WHERE name = 'permit'");
+    });
+
+    it('should list the seeded default types', async () => {
+      const response = await api
+        .get('/api/credential-types')
+        .expect(200);
+
+      const names = response.body.data.credential_types.map((t: any) => t.name);
+      expect(names).toEqual(['badge', 'certificate', 'diploma', 'license', 'permit', 'qualification']);
+    });
+
+    it('should require the admin key to list the types of every tenant', async () => {
+      await request(app)
+        .get('/api/credential-types?all_tenants=true')
+        .expect(401);
+
+      await api
+        .get('/api/credential-types?all_tenants=true')
+        .expect(403);
+
+      const response = await request(app)
+        .get('/api/credential-types?all_tenants=true')
+        .set('X-Admin-Key', 'test-admin-key')
+        .expect(200);
+
+      expect(response.body.data.credential_types.map((t: any) => t.name)).toContain('certificate');
+    });
+
+    it('should issue credentials of a newly added type with its default validity', async () => {
+      await request(app)
+        .post('/api/credential-types')
+        .send({ name: 'membership', display_name: 'Membership', default_validity_days: 30 })
+        .expect(401);
+
+      const createResponse = await api
+        .post('/api/credential-types')
+        .set('X-Admin-Key', 'test-admin-key')
+        .send({ name: 'membership', display_name: 'Membership', default_validity_days: 30 })
+        .expect(201);
+
+      expect(createResponse.body.data.is_active).toBe(true);
+
+      const response = await api
+        .post('/api/credentials')
+        .send({ holder_name: 'Test User', credential_type: 'membership' })
+        .expect(201);
+
+      const validityMs = new Date(response.body.data.expiry_date).getTime() - new Date(response.body.data.issued_date).getTime();
+      expect(Math.round(validityMs / (24 * 60 * 60 * 1000))).toBe(30);
+
+      await api
+        .delete('/api/credential-types/membership')
+        .set('X-Admin-Key', 'test-admin-key')
+        .expect(409);
+    });
+
+    it('should stop issuing deactivated types', async () => {
+      const updateResponse = await api
+        .put('/api/credential-types/permit')
+        .set('X-Admin-Key', 'test-admin-key')
+        .send({ is_active: false })
+        .expect(200);
+
+      expect(updateResponse.body.data.is_active).toBe(false);
+
+      const response = await api
+        .post('/api/credentials')
+        .send({ holder_name: 'Test User', credential_type: 'permit' })
+        .expect(400);
+
+      expect(response.body.message).toContain('must be one of');
+
+      const listResponse = await api
+        .get('/api/credential-types?include_inactive=true')
+        .expect(200);
+
+      expect(listResponse.body.data.credential_types).toHaveLength(6);
+    });
+
+    it('should validate credential attributes against the schema of their type', async () => {
+      await api
+        .post('/api/credential-types')
+        .set('X-Admin-Key', 'test-admin-key')
+        .send({
+          name: 'membership',
+          display_name: 'Membership',
+          attributes_schema: {
+            type: 'object',
+            properties: {
+              member_number: { type: 'string', pattern: '^M-[0-9]+$' },
+              tier: { type: 'string', enum: ['silver', 'gold'] }
+            },
+            required: ['member_number'],
+            additionalProperties: false
+          }
+        })
+        .expect(201);
+
+      const invalidResponse = await api
+        .post('/api/credentials')
+        .send({ holder_name: 'Test User', credential_type: 'membership', attributes: { tier: 'bronze' } })
+        .expect(400);
+
+      expect(invalidResponse.body.message).toContain("must have required property 'member_number'");
+      expect(invalidResponse.body.message).toContain('attributes.tier must be equal to one of the allowed values');
+
+      const createResponse = await api
+        .post('/api/credentials')
+        .send({ holder_name: 'Test User', credential_type: 'membership', attributes: { member_number: 'M-42', tier: 'gold' } })
+        .expect(201);
+
+      const response = await api
+        .get(`/api/credentials/${createResponse.body.data.id}`)
+        .expect(200);
+
+      expect(response.body.data.attributes).toEqual({ member_number: 'M-42', tier: 'gold' });
+      expect(response.body.data.is_valid).toBe(true);
+
+      await database.run('DELETE FROM credentials');
+    });
+
+    it('should reject attributes for types without an attribute schema', async () => {
+      const response = await api
+        .post('/api/credentials')
+        .send({ holder_name: 'Test User', credential_type: 'badge', attributes: { level: 3 } })
+        .expect(400);
+
+      expect(response.body.message).toContain('does not declare any attributes');
+    });
+
+    it('should reject attribute schemas that are not object schemas', async () => {
+      await api
+        .post('/api/credential-types')
+        .set('X-Admin-Key', 'test-admin-key')
+        .send({ name: 'membership', display_name: 'Membership', attributes_schema: { type: 'string' } })
+        .expect(400);
+    });
+
+    it('should reject duplicate type names', async () => {
+      await api
+        .post('/api/credential-types')
+        .set('X-Admin-Key', 'test-admin-key')
+        .send({ name: 'badge', display_name: 'Badge' })
+        .expect(409);
+    });
+  });
+
+  describe('Signing keys', () => {
+    it('should publish the active key in the key set', async () => {
+      const createResponse = await api
+        .post('/api/credentials')
+        .send({
+          holder_name: 'Key Set User',
+          credential_type: 'certificate'
+        })
+        .expect(201);
+
+      const response = await api
+        .get('/.well-known/keys')
+        .expect(200);
+
+      const kids = response.body.keys.map((key: any) => key.kid);
+      expect(kids).toContain(createResponse.body.data.kid);
+      expect(response.body.keys[0]).toMatchObject({ kty: 'OKP', crv: 'Ed25519', alg: 'EdDSA' });
+      expect(response.body.keys[0].d).toBeUndefined();
+    });
+
+    it('should require the admin key to rotate', async () => {
+      const response = await request(app)
+        .post('/api/keys/rotate')
+        .expect(401);
+
+      expect(response.body.success).toBe(false);
+    });
+
+    it('should keep verifying old credentials after rotation until the key is retired', async () => {
+      const oldResponse = await api
+        .post('/api/credentials')
+        .send({
+          holder_name: 'Rotation User',
+          credential_type: 'diploma'
+        })
+        .expect(201);
+      const oldCredential = oldResponse.body.data;
+
+      const rotateResponse = await api
+        .post('/api/keys/rotate')
+        .set('X-Admin-Key', 'test-admin-key')
+        .expect(201);
+      const newKid = rotateResponse.body.data.kid;
+
+      expect(newKid).not.toBe(oldCredential.kid);
+      expect(rotateResponse.body.data.status).toBe('active');
+      expect(rotateResponse.body.data.private_key).toBeUndefined();
+
+      const storedKeys = await database.all<{ private_key: string }>('SELECT private_key FROM signing_keys');
+      for (const storedKey of storedKeys) {
+        expect(storedKey.private_key.startsWith('enc:v1:')).toBe(true);
+      }
+
+      const newResponse = await api
+        .post('/api/credentials')
+        .send({
+          holder_name: 'Rotation User',
+          credential_type: 'permit'
+        })
+        .expect(201);
+      expect(newResponse.body.data.kid).toBe(newKid);
+
+      const oldCheck = await api
+        .get(`/api/credentials/${oldCredential.id}`)
+        .expect(200);
+      expect(oldCheck.body.data.is_valid).toBe(true);
+
+      const keySet = await api
+        .get('/.well-known/keys')
+        .expect(200);
+      const kids = keySet.body.keys.map((key: any) => key.kid);
+      expect(kids).toEqual(expect.arrayContaining([oldCredential.kid, newKid]));
+
+      await api
+        .post(`/api/keys/${newKid}/retire`)
+        .set('X-Admin-Key', 'test-admin-key')
+        .expect(409);
+
+      const retireResponse = await api
+        .post(`/api/keys/${oldCredential.kid}/retire`)
+        .set('X-Admin-Key', 'test-admin-key')
+        .expect(200);
+      expect(retireResponse.body.data.status).toBe('retired');
+
+      const retiredCheck = await api
+        .get(`/api/credentials/${oldCredential.id}`)
+        .expect(200);
+      expect(retiredCheck.body.data.is_valid).toBe(false);
+
+      const updatedKeySet = await api
+        .get('/.well-known/keys')
+        .expect(200);
+      expect(updatedKeySet.body.keys.map((key: any) => key.kid)).not.toContain(oldCredential.kid);
+    });
+
+    it('should create a single active key when workers create one at the same time', async () => {
+      const tenantId = `key-race-${runId}`;
+
+      const keys = await Promise.all([
+        SigningKeyModel.ensureActiveKey(tenantId),
+        SigningKeyModel.ensureActiveKey(tenantId),
+        SigningKeyModel.ensureActiveKey(tenantId)
+      ]);
+
+      const storedKeys = await database.all<{ kid: string }>(
+        "SELECT kid FROM signing_keys WHERE tenant_id = ? AND status = 'active'",
+        [tenantId]
+      );
+      expect(storedKeys).toHaveLength(1);
+      expect(keys.map(key => key.kid)).toEqual([storedKeys[0]?.kid, storedKeys[0]?.kid, storedKeys[0]?.kid]);
+    });
+  });
+
+  describe('Tenants', () => {
+    it('should require the admin key to manage tenants', async () => {
+      await api
+        .post('/api/tenants')
+        .send({ id: 'no-access', display_name: 'No Access' })
+        .expect(403);
+
+      await request(app)
+        .get('/api/tenants')
+        .expect(401);
+    });
+
+    it('should validate the tenant ID', async () => {
+      const response = await request(app)
+        .post('/api/tenants')
+        .set('X-Admin-Key', 'test-admin-key')
+        .send({ id: 'Not A Slug', display_name: 'Invalid Tenant' })
+        .expect(400);
+
+      expect(response.body.message).toContain('Tenant ID must be');
+    });
+
+    it('should issue, list and revoke credentials per tenant', async () => {
+      const tenantResponse = await request(app)
+        .post('/api/tenants')
+        .set('X-Admin-Key', 'test-admin-key')
+        .send({ id: acmeTenantId, display_name: 'Acme University' })
+        .expect(201);
+      expect(tenantResponse.body.data).toMatchObject({ id: acmeTenantId, display_name: 'Acme University' });
+
+      await request(app)
+        .post('/api/tenants')
+        .set('X-Admin-Key', 'test-admin-key')
+        .send({ id: acmeTenantId, display_name: 'Acme Again' })
+        .expect(409);
+
+      const keyResponse = await request(app)
+        .post('/api/api-keys')
+        .set('X-Admin-Key', 'test-admin-key')
+        .set('X-Tenant-ID', acmeTenantId)
+        .send({ name: 'acme-issuer', roles: ['issuer', 'auditor'] })
+        .expect(201);
+      expect(keyResponse.body.data.tenant_id).toBe(acmeTenantId);
+      const acme: any = request.agent(app).set('X-API-Key', keyResponse.body.data.key);
+
+      const defaultCredential = (await api
+        .post('/api/credentials')
+        .send({ holder_name: 'Tenant User', credential_type: 'diploma' })
+        .expect(201)).body.data;
+
+      // The same holder and type can be issued by another tenant
+      const acmeCredential = (await acme
+        .post('/api/credentials')
+        .send({ holder_name: 'Tenant User', credential_type: 'diploma' })
+        .expect(201)).body.data;
+
+      expect(defaultCredential.issuer).toBe('Kube Credential Authority');
+      expect(acmeCredential).toMatchObject({ issuer: 'Acme University', tenant_id: acmeTenantId });
+      expect(acmeCredential.kid).toBe(tenantResponse.body.data.kid);
+      expect(acmeCredential.kid).not.toBe(defaultCredential.kid);
+
+      const keySet = await request(app).get('/.well-known/keys').expect(200);
+      expect(keySet.body.keys).toEqual(expect.arrayContaining([
+        expect.objectContaining({ kid: acmeCredential.kid, tenant: acmeTenantId }),
+        expect.objectContaining({ kid: defaultCredential.kid, tenant: 'default' })
+      ]));
+
+      const vcResponse = await request(app)
+        .get(`/api/credentials/${acmeCredential.id}?format=vc`)
+        .expect(200);
+      expect(JSON.parse(vcResponse.text).issuer).toEqual({
+        id: `urn:kube-credential:issuer:${acmeTenantId}`,
+        name: 'Acme University'
+      });
+
+      const acmeList = await acme.get('/api/credentials').expect(200);
+      expect(acmeList.body.data.credentials.map((c: any) => c.id)).toEqual([acmeCredential.id]);
+
+      const defaultList = await api.get('/api/credentials').expect(200);
+      expect(defaultList.body.data.credentials.map((c: any) => c.id)).not.toContain(acmeCredential.id);
+
+      await request(app)
+        .post(`/api/credentials/${acmeCredential.id}/revoke`)
+        .set('X-Admin-Key', 'test-admin-key')
+        .send({ reason: 'superseded' })
+        .expect(404);
+
+      await request(app)
+        .post(`/api/credentials/${acmeCredential.id}/revoke`)
+        .set('X-Admin-Key', 'test-admin-key')
+        .set('X-Tenant-ID', acmeTenantId)
+        .send({ reason: 'superseded' })
+        .expect(201);
+    });
+
+    it('should keep credential types separate per tenant', async () => {
+      await request(app)
+        .post('/api/tenants')
+        .set('X-Admin-Key', 'test-admin-key')
+        .send({ id: globexTenantId, display_name: 'Globex Corporation' })
+        .expect(201);
+
+      await request(app)
+        .post('/api/credential-types')
+        .set('X-Admin-Key', 'test-admin-key')
+        .set('X-Tenant-ID', globexTenantId)
+        .send({ name: 'safety_training', display_name: 'Safety Training' })
+        .expect(201);
+
+      const globexTypes = await request(app)
+        .get(`/api/credential-types?tenant=${globexTenantId}`)
+        .expect(200);
+      expect(globexTypes.body.data.credential_types.map((t: any) => t.name)).toContain('safety_training');
+
+      const defaultTypes = await request(app)
+        .get('/api/credential-types')
+        .expect(200);
+      expect(defaultTypes.body.data.credential_types.map((t: any) => t.name)).not.toContain('safety_training');
+
+      await api
+        .post('/api/credentials')
+        .send({ holder_name: 'Safety User', credential_type: 'safety_training' })
+        .expect(400);
+    });
+
+    it('should reject the admin key for an unknown tenant', async () => {
+      const response = await request(app)
+        .post('/api/credentials')
+        .set('X-Admin-Key', 'test-admin-key')
+        .set('X-Tenant-ID', 'unknown-tenant')
+        .send({ holder_name: 'Nobody', credential_type: 'certificate' })
+        .expect(404);
+
+      expect(response.body.message).toBe("Tenant 'unknown-tenant' not found");
+    });
+  });
+
+  describe('Authentication', () => {
+    const createKey = async (roles: string[]) => {
+      const response = await request(app)
+        .post('/api/api-keys')
+        .set('X-Admin-Key', 'test-admin-key')
+        .send({ name: `${roles.join('-')}-key`, roles })
+        .expect(201);
+      return response.body.data;
+    };
+
+    it('should require credentials to issue and list credentials', async () => {
+      await request(app)
+        .post('/api/credentials')
+        .send({ holder_name: 'Test User', credential_type: 'badge' })
+        .expect(401);
+
+      await request(app)
+        .get('/api/credentials')
+        .expect(401);
+
+      await request(app)
+        .post('/api/credentials')
+        .set('X-API-Key', 'kc_unknown')
+        .send({ holder_name: 'Test User', credential_type: 'badge' })
+        .expect(401);
+    });
+
+    it('should only let each role do its own operations', async () => {
+      const verifier = await createKey(['verifier']);
+      const issuer = await createKey(['issuer']);
+      const auditor = await createKey(['auditor']);
+
+      const forbidden = await request(app)
+        .post('/api/credentials')
+        .set('X-API-Key', verifier.key)
+        .send({ holder_name: 'Test User', credential_type: 'badge' })
+        .expect(403);
+      expect(forbidden.body.message).toBe('Requires the issuer role');
+
+      await request(app)
+        .post('/api/credentials')
+        .set('Authorization', `Bearer ${issuer.key}`)
+        .send({ holder_name: 'Test User', credential_type: 'badge' })
+        .expect(201);
+
+      await request(app)
+        .get('/api/credentials')
+        .set('X-API-Key', issuer.key)
+        .expect(403);
+
+      await request(app)
+        .get('/api/credentials')
+        .set('X-API-Key', auditor.key)
+        .expect(200);
+
+      await request(app)
+        .post('/api/keys/rotate')
+        .set('X-API-Key', auditor.key)
+        .expect(403);
+    });
+
+    it('should not take roles or tenants from bearer tokens without an identity provider', async () => {
+      const token = jwt.sign({ sub: 'issuer-app', roles: ['admin'], tenant: 'acme' }, 'any-secret', { expiresIn: '5m' });
+
+      const response = await request(app)
+        .post('/api/credentials')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ holder_name: 'Test User', credential_type: 'badge' })
+        .expect(401);
+
+      expect(response.body.message).toBe('Bearer tokens are not accepted');
+    });
+
+    it('should store only a hash of each key and reject revoked keys', async () => {
+      const issuer = await createKey(['issuer']);
+
+      expect(issuer.key).toMatch(/^kc_/);
+      expect(issuer.key_hash).toBeUndefined();
+      expect(await database.get('SELECT * FROM api_keys WHERE key_hash = ?', [issuer.key])).toBeUndefined();
+
+      const list = await request(app)
+        .get('/api/api-keys')
+        .set('X-Admin-Key', 'test-admin-key')
+        .expect(200);
+      const listed = list.body.data.api_keys.find((apiKey: any) => apiKey.id === issuer.id);
+      expect(listed).toEqual(expect.objectContaining({ key_prefix: issuer.key.slice(0, 11), roles: ['issuer'] }));
+      expect(listed.key).toBeUndefined();
+
+      await request(app)
+        .post(`/api/api-keys/${issuer.id}/revoke`)
+        .set('X-Admin-Key', 'test-admin-key')
+        .expect(200);
+
+      await request(app)
+        .post(`/api/api-keys/${issuer.id}/revoke`)
+        .set('X-Admin-Key', 'test-admin-key')
+        .expect(409);
+
+      await request(app)
+        .post('/api/credentials')
+        .set('X-API-Key', issuer.key)
+        .send({ holder_name: 'Test User', credential_type: 'badge' })
+        .expect(401);
+    });
+
+    it('should validate new API keys', async () => {
+      const response = await request(app)
+        .post('/api/api-keys')
+        .set('X-Admin-Key', 'test-admin-key')
+        .send({ name: 'bad-key', roles: ['superuser'] })
+        .expect(400);
+
+      expect(response.body.message).toContain('Roles must be among');
+    });
+
+    describe('with identity provider access tokens', () => {
+      // Mock OIDC provider publishing its signing key on a local JWKS endpoint
+      const idpKeys = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+      let jwksServer: http.Server;
+
+      const signAccessToken = (claims: object, options: jwt.SignOptions = {}) =>
+        jwt.sign(claims, idpKeys.privateKey, {
+          algorithm: 'ES256',
+          keyid: 'idp-key-1',
+          issuer: 'http://idp.test',
+          expiresIn: '5m',
+          ...options
+        });
+
+      beforeAll(async () => {
+        jwksServer = http.createServer((_req, res) => {
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify({ keys: [{ ...idpKeys.publicKey.export({ format: 'jwk' }), kid: 'idp-key-1' }] }));
+        });
+        await new Promise<void>(resolve => jwksServer.listen(0, '127.0.0.1', resolve));
+
+        process.env.OIDC_JWKS_URI = `http://127.0.0.1:${(jwksServer.address() as AddressInfo).port}/jwks`;
+        process.env.OIDC_ISSUER = 'http://idp.test';
+      });
+
+      afterAll(async () => {
+        delete process.env.OIDC_JWKS_URI;
+        delete process.env.OIDC_ISSUER;
+        oidcKeyCache.clear();
+        await new Promise(resolve => jwksServer.close(resolve));
+      });
+
+      it('should accept access tokens signed by the identity provider', async () => {
+        await request(app)
+          .post('/api/credentials')
+          .set('Authorization', `Bearer ${signAccessToken({ sub: 'user-1', roles: ['issuer'] })}`)
+          .send({ holder_name: 'Test User', credential_type: 'badge' })
+          .expect(201);
+
+        await request(app)
+          .post('/api/credentials')
+          .set('Authorization', `Bearer ${signAccessToken({ sub: 'user-2', roles: ['verifier'] })}`)
+          .send({ holder_name: 'Test User', credential_type: 'badge' })
+          .expect(403);
+
+        await request(app)
+          .post('/api/credentials')
+          .set('Authorization', `Bearer ${signAccessToken({ sub: 'user-1', roles: ['issuer'] }, { issuer: 'http://other-idp.test' })}`)
+          .send({ holder_name: 'Test User', credential_type: 'badge' })
+          .expect(401);
+      });
+
+      it('should fail when the identity provider key set cannot be fetched', async () => {
+        const jwksUri = process.env.OIDC_JWKS_URI;
+        process.env.OIDC_JWKS_URI = 'http://127.0.0.1:1/jwks';
+        oidcKeyCache.clear();
+
+        const response = await request(app)
+          .post('/api/credentials')
+          .set('Authorization', `Bearer ${signAccessToken({ sub: 'user-1', roles: ['issuer'] })}`)
+          .send({ holder_name: 'Test User', credential_type: 'badge' })
+          .expect(503);
+        expect(response.body.message).toBe('Identity provider keys are unavailable');
+
+        process.env.OIDC_JWKS_URI = jwksUri;
+      });
+    });
+  });
+
+  describe('GET /health', () => {
+    it('should return healthy status', async () => {
+      const response = await api
+        .get('/health')
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.status).toBe('healthy');
+      expect(response.body.data.database).toBe('connected');
+      expect(response.body.worker_id).toBe('test-worker-1');
+    });
+  });
+
+  describe('GET /metrics', () => {
+    it('should expose request, issuance, database and runtime metrics labelled with the worker ID', async () => {
+      const issued = await api
+        .post('/api/credentials')
+        .send({ holder_name: 'Metrics User', credential_type: 'certificate' })
+        .expect(201);
+      await api.get(`/api/credentials/${issued.body.data.id}`).expect(200);
+      await api.get('/api/credentials/missing-credential').expect(404);
+
+      const response = await request(app)
+        .get('/metrics')
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('text/plain');
+      expect(response.text).toMatch(
+        /http_requests_total\{method="GET",route="\/api\/credentials\/:id",status_code="200",worker_id="test-worker-1"\} \d+/
+      );
+      expect(response.text).toMatch(
+        /http_requests_total\{method="GET",route="\/api\/credentials\/:id",status_code="404",worker_id="test-worker-1"\} \d+/
+      );
+      expect(response.text).toMatch(
+        /http_request_duration_seconds_count\{[^}]*method="POST",route="\/api\/credentials",status_code="201"[^}]*\} \d+/
+      );
+      expect(response.text).toMatch(/credentials_issued_total\{credential_type="certificate",worker_id="test-worker-1"\} \d+/);
+      expect(response.text).toMatch(/db_query_duration_seconds_count\{worker_id="test-worker-1",operation="insert"\} \d+/);
+      expect(response.text).toMatch(/process_cpu_user_seconds_total\{worker_id="test-worker-1"\}/);
+      expect(response.text).toMatch(/nodejs_heap_size_used_bytes\{worker_id="test-worker-1"\}/);
+    });
+  });
+
+  describe('Tracing', () => {
+    it('should continue the caller\'s trace and export request and database spans', async () => {
+      const traceId = crypto.randomBytes(16).toString('hex');
+      const callerSpanId = crypto.randomBytes(8).toString('hex');
+
+      await api
+        .post('/api/credentials')
+        .set('traceparent', `00-${traceId}-${callerSpanId}-01`)
+        .send({ holder_name: 'Traced User', credential_type: 'certificate' })
+        .expect(201);
+      await flushTracing();
+
+      const spans = exportedSpans.filter(span => span.traceId === traceId);
+      const serverSpan = spans.find(span => span.name === 'POST /api/credentials');
+
+      expect(serverSpan).toBeDefined();
+      expect(serverSpan.parentSpanId).toBe(callerSpanId);
+      expect(serverSpan.attributes).toEqual(expect.arrayContaining([
+        { key: 'http.route', value: { stringValue: '/api/credentials' } },
+        { key: 'http.response.status_code', value: { intValue: 201 } }
+      ]));
+
+      const insertSpan = spans.find(span => span.attributes.some(
+        (attribute: any) => attribute.key === 'db.query.text' && attribute.value.stringValue.startsWith('INSERT INTO credentials')
+      ));
+      expect(insertSpan).toBeDefined();
+      expect(insertSpan.name).toBe('INSERT');
+      expect(insertSpan.parentSpanId).toBe(serverSpan.spanId);
+      expect(insertSpan.attributes).toContainEqual({ key: 'db.system.name', value: { stringValue: 'sqlite' } });
+    });
+
+    it('should start a new trace for requests without a traceparent', async () => {
+      await api.get('/health').expect(200);
+      await flushTracing();
+
+      const serverSpan = exportedSpans.filter(span => span.name === 'GET /health').pop();
+      expect(serverSpan).toBeDefined();
+      expect(serverSpan.parentSpanId).toBeFalsy();
+    });
+  });
+
+  describe('Rate Limiting', () => {
+    it('should enforce rate limits', async () => {
+      // This test would need to be adjusted based on your rate limiting configuration
+      // For now, we'll just verify the endpoint works
+      const response = await api
         .post('/api/credentials')
         .send({
           holder_name: 'Rate Test User',
@@ -0,0 +1,127 @@
+import fs from 'fs';
+import { Database } from '../config/database';
+import { Migrator } from '../config/migrator';
+import { migrations } from '../migrations';
+import { MigrationHelpers } from '../migrations/helpers';
+import { Migration } from '../types';
+
+describe('Migrator', () => {
+  const testDbPath = './data/test-migrations.db';
+  let db: Database;
+
+  beforeEach(async () => {
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+
+    db = new Database({ client: 'sqlite', dbPath: testDbPath });
+    await db.connect();
+  });
+
+  afterEach(async () => {
+    await db.close();
+
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+  });
+
+  it('should apply all migrations to an empty database once', async () => {
+    const migrator = new Migrator(db, migrations);
+
+    expect(await migrator.migrate()).toHaveLength(migrations.length);
+    expect(await migrator.migrate()).toHaveLength(0);
+
+    const status = await migrator.status();
+    expect(status.every(migration => migration.applied_at !== null)).toBe(true);
+    expect(await MigrationHelpers.hasColumn(db, 'credentials', 'attributes')).toBe(true);
+  });
+
+  it('should revert the most recent migrations', async () => {
+    const migrator = new Migrator(db, migrations);
+    await migrator.migrate();
+
+    const reverted = await migrator.rollback(10);
+
+    expect(reverted.map(migration => migration.name)).toEqual([
+      'add_single_active_signing_key',
+      'create_audit_log_anchors',
+      'add_status_list_revision',
+      'create_audit_log',
+      'create_webhooks',
+      'create_status_lists',
+      'add_credential_renewal',
+      'add_tenants',
+      'create_api_keys',
+      'add_credential_attributes'
+    ]);
+    expect(await MigrationHelpers.hasColumn(db, 'credentials', 'attributes')).toBe(false);
+    expect(await MigrationHelpers.hasColumn(db, 'credentials', 'tenant_id')).toBe(false);
+    expect(await MigrationHelpers.hasColumn(db, 'credentials', 'superseded_by')).toBe(false);
+    expect(await MigrationHelpers.hasColumn(db, 'credentials', 'status_list_id')).toBe(false);
+    expect((await migrator.status()).filter(migration => migration.applied_at === null)).toHaveLength(10);
+
+    await migrator.migrate();
+    expect(await MigrationHelpers.hasColumn(db, 'credentials', 'attributes')).toBe(true);
+  });
+
+  it('should upgrade a database created before migrations without losing data', async () => {
+    await migrations[0]!.up(db);
+    await db.run(
+      `INSERT INTO credentials VALUES ('legacy-id', 'John Doe', 'Kube Credential Authority',
+        '2024-01-01T00:00:00.000Z', 'certificate', '2025-01-01T00:00:00.000Z', 'hmac-signature',
+        'worker-1', '2024-01-01T00:00:00.000Z', '2024-01-01T00:00:00.000Z')`
+    );
+
+    await new Migrator(db, migrations).migrate();
+
+    const credential = await db.get<Record<string, string>>('SELECT * FROM credentials WHERE id = ?', ['legacy-id']);
+    expect(credential).toMatchObject({
+      holder_name: 'John Doe',
+      signature_algorithm: 'HMAC-SHA256',
+      kid: '',
+      attributes: '{}',
+      tenant_id: 'default',
+      previous_credential_id: null,
+      superseded_by: null,
+      status_list_id: null
+    });
+  });
+
+  it('should roll back a failing migration and stop', async () => {
+    const failing: Migration = {
+      version: 100,
+      name: 'failing',
+      async up(database) {
+        await database.run('CREATE TABLE partial (id TEXT)');
+        throw new Error('boom');
+      },
+      async down() {}
+    };
+    const migrator = new Migrator(db, [...migrations, failing]);
+
+    await expect(migrator.migrate()).rejects.toThrow('boom');
+
+    expect(await db.getColumnNames('partial')).toEqual([]);
+    expect((await migrator.status()).find(migration => migration.version === 100)?.applied_at).toBeNull();
+    expect(await db.all('SELECT * FROM schema_migrations_lock')).toHaveLength(0);
+  });
+
+  it('should wait for the migration lock held by another process', async () => {
+    process.env.MIGRATION_LOCK_TIMEOUT_MS = '100';
+    const migrator = new Migrator(db, migrations);
+    delete process.env.MIGRATION_LOCK_TIMEOUT_MS;
+
+    await migrator.status();
+    await db.run(
+      'INSERT INTO schema_migrations_lock (id, locked_by, locked_at) VALUES (1, ?, ?)',
+      ['other-pod:1', new Date().toISOString()]
+    );
+
+    await expect(migrator.migrate()).rejects.toThrow('other-pod:1');
+
+    // A lock older than the stale timeout is taken over
+    await db.run('UPDATE schema_migrations_lock SET locked_at = ?', ['2000-01-01T00:00:00.000Z']);
+    await expect(migrator.migrate()).resolves.toHaveLength(migrations.length);
+  });
+});
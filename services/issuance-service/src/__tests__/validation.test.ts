@@ -1,4 +1,9 @@
-import { validateCredentialRequest } from '../utils/validation';
+import {
+  validateCredentialRequest,
+  validateCredentialTypeRequest,
+  validateCredentialTypeUpdate,
+  validateRevocationRequest
+} from '../utils/validation';
 
 describe('Validation Utils', () => {
   describe('validateCredentialRequest', () => {
@@ -52,16 +57,16 @@ describe('Validation Utils', () => {
       }
     });
 
-    it('should reject invalid credential type', () => {
+    it('should reject malformed credential type names', () => {
       const invalidRequest = {
         holder_name: 'John Doe',
-        credential_type: 'invalid_type'
+        credential_type: 'Invalid Type'
       };
 
       const { error } = validateCredentialRequest(invalidRequest);
       expect(error).toBeDefined();
       if (error) {
-        expect(error.details[0].message).toContain('must be one of');
+        expect(error.details[0].message).toContain('credential type registry');
       }
     });
 
@@ -93,5 +98,38 @@ describe('Validation Utils', () => {
       });
     });
   });
-});
 
+  describe('validateRevocationRequest', () => {
+    it('should accept a known reason code', () => {
+      const { error } = validateRevocationRequest({ reason: 'key_compromise' });
+      expect(error).toBeUndefined();
+    });
+
+    it('should reject an unknown reason code', () => {
+      const { error } = validateRevocationRequest({ reason: 'because' });
+      expect(error).toBeDefined();
+      if (error) {
+        expect(error.details[0].message).toContain('must be one of');
+      }
+    });
+  });
+
+  describe('validateCredentialTypeRequest', () => {
+    it('should apply defaults for validity and active flag', () => {
+      const { error, value } = validateCredentialTypeRequest({ name: 'membership', display_name: 'Membership' });
+      expect(error).toBeUndefined();
+      expect(value.default_validity_days).toBe(365);
+      expect(value.is_active).toBe(true);
+    });
+
+    it('should reject type names that are not lowercase identifiers', () => {
+      const { error } = validateCredentialTypeRequest({ name: 'Member Ship', display_name: 'Membership' });
+      expect(error).toBeDefined();
+    });
+
+    it('should require at least one field on update', () => {
+      const { error } = validateCredentialTypeUpdate({});
+      expect(error).toBeDefined();
+    });
+  });
+});
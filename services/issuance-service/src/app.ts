@@ -3,17 +3,38 @@ import cors from 'cors';
 import helmet from 'helmet';
 import dotenv from 'dotenv';
 import { database } from './config/database';
+import { migrator } from './config/migrator';
+import { AuditLogModel } from './models/AuditLog';
+import { CredentialTypeModel } from './models/CredentialType';
+import { SigningKeyModel } from './models/SigningKey';
+import { TenantModel } from './models/Tenant';
 import { logger } from './utils/logger';
+import { initMetrics } from './utils/metrics';
+import { initTracing, shutdownTracing } from './utils/tracing';
+import { webhookDispatcher } from './utils/webhookDispatcher';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
+import { recordRequestMetrics } from './middleware/metrics';
 import { createRateLimiter } from './middleware/rateLimiter';
+import { traceRequests } from './middleware/tracing';
+import apiKeyRoutes from './routes/apiKeys';
+import auditRoutes from './routes/audit';
 import credentialRoutes from './routes/credentials';
+import credentialTypeRoutes from './routes/credentialTypes';
 import healthRoutes from './routes/health';
+import keyRoutes from './routes/keys';
+import metricsRoutes from './routes/metrics';
+import statusListRoutes from './routes/statusLists';
+import tenantRoutes from './routes/tenants';
+import webhookRoutes from './routes/webhooks';
+import wellKnownRoutes from './routes/wellKnown';
 
 // Load environment variables
 dotenv.config();
 
 export const createApp = async (): Promise<express.Application> => {
   const app = express();
+  initMetrics();
+  initTracing();
 
   // Security middleware
   app.use(helmet({
@@ -34,9 +55,13 @@ export const createApp = async (): Promise<express.Application> => {
       : ['http://localhost:3000', 'http://localhost:3001'],
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization']
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Admin-Key', 'X-API-Key', 'X-Tenant-ID', 'traceparent', 'tracestate']
   }));
 
+  // Request metrics, and the endpoint Prometheus scrapes, ahead of the rate limit
+  app.use(recordRequestMetrics);
+  app.use('/metrics', metricsRoutes);
+
   // Rate limiting
   app.use(createRateLimiter());
 
@@ -44,6 +69,9 @@ export const createApp = async (): Promise<express.Application> => {
   app.use(express.json({ limit: '10mb' }));
   app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
+  // Tracing
+  app.use(traceRequests);
+
   // Request logging middleware
   app.use((req, res, next) => {
     logger.info(`${req.method} ${req.path}`, {
@@ -58,14 +86,43 @@ export const createApp = async (): Promise<express.Application> => {
   try {
     await database.connect();
     logger.info('Database connected successfully');
+
+    // Bring the schema up to date, unless migrations are run separately with the CLI
+    if (process.env.MIGRATIONS_AUTO_RUN !== 'false') {
+      await migrator.migrate();
+    }
   } catch (error) {
     logger.error('Failed to connect to database:', error);
     throw error;
   }
 
+  // Data from before tenants existed belongs to the default tenant
+  await TenantModel.ensureDefault();
+
+  // Signing keys are encrypted at rest, including keys stored before that was the case
+  await SigningKeyModel.encryptStoredKeys();
+
+  // Make sure there is a key to sign credentials with
+  const signingKey = await SigningKeyModel.ensureActiveKey();
+  logger.info(`Active signing key: ${signingKey.kid}`);
+
+  // Sign the head of an audit log written before heads were signed
+  await AuditLogModel.ensureAnchored();
+
+  // Seed the credential type registry on first start
+  await CredentialTypeModel.ensureDefaults();
+
   // Routes
   app.use('/health', healthRoutes);
   app.use('/api/credentials', credentialRoutes);
+  app.use('/api/credential-types', credentialTypeRoutes);
+  app.use('/api/keys', keyRoutes);
+  app.use('/api/api-keys', apiKeyRoutes);
+  app.use('/api/tenants', tenantRoutes);
+  app.use('/api/status-lists', statusListRoutes);
+  app.use('/api/webhooks', webhookRoutes);
+  app.use('/api/audit', auditRoutes);
+  app.use('/.well-known', wellKnownRoutes);
 
   // Root endpoint
   app.get('/', (req, res) => {
@@ -91,11 +148,13 @@ export const createApp = async (): Promise<express.Application> => {
 export const setupGracefulShutdown = (server: any) => {
   const shutdown = async (signal: string) => {
     logger.info(`Received ${signal}, shutting down gracefully`);
+    webhookDispatcher.stop();
     
     server.close(async () => {
       logger.info('HTTP server closed');
       
       try {
+        await shutdownTracing();
         await database.close();
         logger.info('Database connection closed');
         process.exit(0);
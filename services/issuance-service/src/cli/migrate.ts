@@ -0,0 +1,50 @@
+import 'dotenv/config';
+import { database } from '../config/database';
+import { Migrator, migrator } from '../config/migrator';
+import { logger } from '../utils/logger';
+
+const USAGE = 'Usage: npm run migrate -- <up|down|status> [steps]';
+
+/**
+ * Apply, revert or list schema migrations without starting the service
+ */
+async function main(): Promise<void> {
+  const [command = 'status', stepsArg = '1'] = process.argv.slice(2);
+
+  await database.connect();
+
+  try {
+    switch (command) {
+      case 'up': {
+        await migrator.migrate();
+        break;
+      }
+      case 'down': {
+        const steps = parseInt(stepsArg);
+
+        if (!(steps > 0)) {
+          throw new Error(USAGE);
+        }
+
+        const reverted = await migrator.rollback(steps);
+        logger.info(`Reverted ${reverted.length} migration(s)`);
+        break;
+      }
+      case 'status': {
+        for (const migration of await migrator.status()) {
+          logger.info(`${Migrator.describe(migration)}: ${migration.applied_at ? `applied at ${migration.applied_at}` : 'pending'}`);
+        }
+        break;
+      }
+      default:
+        throw new Error(USAGE);
+    }
+  } finally {
+    await database.close();
+  }
+}
+
+main().catch((error) => {
+  logger.error('Migration command failed:', error);
+  process.exit(1);
+});
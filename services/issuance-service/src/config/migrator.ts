@@ -0,0 +1,191 @@
+import os from 'os';
+import { Database, database } from './database';
+import { migrations } from '../migrations';
+import { Migration, MigrationStatus } from '../types';
+import { logger } from '../utils/logger';
+
+const LOCK_POLL_INTERVAL_MS = 500;
+
+export class Migrator {
+  private db: Database;
+  private migrations: Migration[];
+  private lockOwner: string;
+  private lockTimeoutMs: number;
+  private staleLockMs: number;
+
+  constructor(db: Database, migrationList: Migration[]) {
+    this.db = db;
+    this.migrations = [...migrationList].sort((a, b) => a.version - b.version);
+    this.lockOwner = `${os.hostname()}:${process.pid}`;
+    this.lockTimeoutMs = parseInt(process.env.MIGRATION_LOCK_TIMEOUT_MS || '60000');
+    this.staleLockMs = parseInt(process.env.MIGRATION_STALE_LOCK_MS || '600000'); // 10 minutes
+  }
+
+  /**
+   * Name of a migration as shown in logs and by the CLI, such as 001_create_credentials
+   */
+  static describe(migration: Pick<Migration, 'version' | 'name'>): string {
+    return `${String(migration.version).padStart(3, '0')}_${migration.name}`;
+  }
+
+  /**
+   * Apply all pending migrations in version order while holding the migration lock
+   */
+  async migrate(): Promise<Migration[]> {
+    return this.withLock(async () => {
+      const applied = await this.getAppliedVersions();
+      const unknown = [...applied].filter(version => !this.migrations.some(migration => migration.version === version));
+
+      if (unknown.length > 0) {
+        logger.warn(`Database has migrations unknown to this version: ${unknown.join(', ')}`);
+      }
+
+      const pending = this.migrations.filter(migration => !applied.has(migration.version));
+
+      for (const migration of pending) {
+        await this.runMigration(migration, 'up');
+      }
+
+      logger.info(pending.length > 0
+        ? `Applied ${pending.length} migration(s)`
+        : 'Database schema is up to date');
+
+      return pending;
+    });
+  }
+
+  /**
+   * Revert the most recently applied migrations while holding the migration lock
+   */
+  async rollback(steps: number = 1): Promise<Migration[]> {
+    return this.withLock(async () => {
+      const applied = await this.getAppliedVersions();
+      const reverted = this.migrations
+        .filter(migration => applied.has(migration.version))
+        .reverse()
+        .slice(0, steps);
+
+      for (const migration of reverted) {
+        await this.runMigration(migration, 'down');
+      }
+
+      return reverted;
+    });
+  }
+
+  /**
+   * List every known migration with the time it was applied, or null when pending
+   */
+  async status(): Promise<MigrationStatus[]> {
+    await this.ensureMigrationTables();
+
+    const rows = await this.db.all<{ version: number; applied_at: string }>(
+      'SELECT version, applied_at FROM schema_migrations'
+    );
+
+    return this.migrations.map(migration => ({
+      version: migration.version,
+      name: migration.name,
+      applied_at: rows.find(row => row.version === migration.version)?.applied_at || null
+    }));
+  }
+
+  /**
+   * Run one migration and record it in schema_migrations in a single transaction,
+   * so a failing migration leaves the schema as it was
+   */
+  private async runMigration(migration: Migration, direction: 'up' | 'down'): Promise<void> {
+    const name = Migrator.describe(migration);
+
+    try {
+      await this.db.transaction(async (runner) => {
+        if (direction === 'up') {
+          await migration.up(runner);
+          await runner.run(
+            'INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)',
+            [migration.version, migration.name, new Date().toISOString()]
+          );
+        } else {
+          await migration.down(runner);
+          await runner.run('DELETE FROM schema_migrations WHERE version = ?', [migration.version]);
+        }
+      });
+
+      logger.info(`Migration ${direction === 'up' ? 'applied' : 'reverted'}: ${name}`);
+    } catch (error) {
+      logger.error(`Migration ${name} failed:`, error);
+      throw error;
+    }
+  }
+
+  private async getAppliedVersions(): Promise<Set<number>> {
+    const rows = await this.db.all<{ version: number }>('SELECT version FROM schema_migrations');
+    return new Set(rows.map(row => row.version));
+  }
+
+  private async ensureMigrationTables(): Promise<void> {
+    await this.db.run(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TEXT NOT NULL
+      )
+    `);
+    await this.db.run(`
+      CREATE TABLE IF NOT EXISTS schema_migrations_lock (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        locked_by TEXT NOT NULL,
+        locked_at TEXT NOT NULL
+      )
+    `);
+  }
+
+  private async withLock<T>(action: () => Promise<T>): Promise<T> {
+    await this.ensureMigrationTables();
+    await this.acquireLock();
+
+    try {
+      return await action();
+    } finally {
+      await this.releaseLock();
+    }
+  }
+
+  /**
+   * Take the single-row lock so that replicas starting together migrate one at a time
+   */
+  private async acquireLock(): Promise<void> {
+    const deadline = Date.now() + this.lockTimeoutMs;
+
+    for (;;) {
+      // Clear a lock left behind by a process that died while migrating
+      await this.db.run(
+        'DELETE FROM schema_migrations_lock WHERE locked_at < ?',
+        [new Date(Date.now() - this.staleLockMs).toISOString()]
+      );
+
+      const result = await this.db.run(
+        'INSERT INTO schema_migrations_lock (id, locked_by, locked_at) VALUES (1, ?, ?) ON CONFLICT (id) DO NOTHING',
+        [this.lockOwner, new Date().toISOString()]
+      );
+
+      if (result.changes === 1) {
+        return;
+      }
+
+      if (Date.now() >= deadline) {
+        const lock = await this.db.get<{ locked_by: string }>('SELECT locked_by FROM schema_migrations_lock');
+        throw new Error(`Timed out waiting for the migration lock held by ${lock?.locked_by || 'another process'}`);
+      }
+
+      logger.info('Waiting for the migration lock');
+      await new Promise(resolve => setTimeout(resolve, LOCK_POLL_INTERVAL_MS));
+    }
+  }
+
+  private async releaseLock(): Promise<void> {
+    await this.db.run('DELETE FROM schema_migrations_lock WHERE locked_by = ?', [this.lockOwner]);
+  }
+}
+
+export const migrator = new Migrator(database, migrations);
@@ -1,16 +1,59 @@
 import { Request, Response } from 'express';
 import { CredentialModel } from '../models/Credential';
-import { validateCredentialRequest } from '../utils/validation';
-import { ApiResponse, CreateCredentialRequest } from '../types';
+import { CredentialTypeModel } from '../models/CredentialType';
+import { RevocationModel } from '../models/Revocation';
+import { TenantModel } from '../models/Tenant';
+import {
+  CSV_IMPORT_FIELDS,
+  MAX_IMPORT_ROWS,
+  validateCredentialBatch,
+  validateCredentialRequest,
+  validateCsvImportOptions,
+  validateRenewalRequest,
+  validateRevocationRequest
+} from '../utils/validation';
+import {
+  ApiResponse,
+  BatchCredentialResult,
+  BatchItemStatus,
+  CreateCredentialRequest,
+  CredentialAttributes,
+  CredentialType,
+  CsvImportField,
+  CsvImportOptions,
+  QrCodeFormat,
+  RenewCredentialRequest,
+  RevokeCredentialRequest,
+  Tenant
+} from '../types';
 import { AppError, asyncHandler } from '../middleware/errorHandler';
+import { AttributeSchemaUtils } from '../utils/attributeSchema';
+import { CertificatePdfUtils, PDF_MEDIA_TYPE } from '../utils/certificatePdf';
+import { CSV_MEDIA_TYPE, CsvUtils } from '../utils/csv';
 import { logger } from '../utils/logger';
+import { QR_CODE_MEDIA_TYPES, QrCodeUtils } from '../utils/qrCode';
+import { SD_JWT_MEDIA_TYPE } from '../utils/sdJwt';
+import { JWT_MEDIA_TYPE, VC_MEDIA_TYPE, VerifiableCredentialUtils } from '../utils/verifiableCredential';
+import { webhookDispatcher } from '../utils/webhookDispatcher';
+
+interface AcceptedBatchItem {
+  index: number;
+  request: CreateCredentialRequest;
+  defaultValidityDays: number;
+}
 
 export class CredentialController {
   /**
-   * Issue a new credential
+   * Issue a new credential in the name of the caller's tenant, with a JWT or
+   * SD-JWT encoding alongside it when ?format=jwt or ?format=sd-jwt is given
    */
   static issueCredential = asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const workerId = process.env.WORKER_ID || `worker-${Math.floor(Math.random() * 1000)}`;
+    const format = (req.query.format as string) || 'json';
+
+    if (!['json', 'jwt', 'sd-jwt'].includes(format)) {
+      throw new AppError(`Unsupported format '${format}', expected one of: json, jwt, sd-jwt`, 400);
+    }
     
     // Validate request body
     const { error, value } = validateCredentialRequest(req.body);
@@ -27,12 +70,43 @@ export class CredentialController {
     }
 
     const credentialRequest: CreateCredentialRequest = value;
+    const tenant = await CredentialController.getTenant(res);
+
+    // Only active types from the tenant's registry can be issued
+    const credentialType = await CredentialTypeModel.findByName(credentialRequest.credential_type, tenant.id);
+
+    if (!credentialType || !credentialType.is_active) {
+      const activeTypes = await CredentialTypeModel.findAll(true, tenant.id);
+      const response: ApiResponse = {
+        success: false,
+        message: `Validation error: Credential type must be one of: ${activeTypes.map(t => t.name).join(', ')}`,
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    // Attributes must match the schema declared by the type
+    const attributeErrors = CredentialController.getAttributeErrors(credentialType, credentialRequest.attributes || {});
+
+    if (attributeErrors.length > 0) {
+      const response: ApiResponse = {
+        success: false,
+        message: `Validation error: ${attributeErrors.join(', ')}`,
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+      res.status(400).json(response);
+      return;
+    }
 
     try {
       // Check if credential already exists for this holder and type
       const existingCredential = await CredentialModel.findByHolderAndType(
         credentialRequest.holder_name,
-        credentialRequest.credential_type
+        credentialRequest.credential_type,
+        tenant.id
       );
 
         if (existingCredential) {
@@ -52,12 +126,17 @@ export class CredentialController {
       }
 
       // Create new credential
-      const credential = await CredentialModel.create(credentialRequest);
+      const credential = await CredentialModel.create(credentialRequest, tenant, credentialType.default_validity_days);
+      res.locals.auditResourceId = credential.id;
+      const jwt = format === 'jwt' ? await CredentialModel.toJwt(credential) : undefined;
+      const sdJwt = format === 'sd-jwt' ? await CredentialModel.toSdJwt(credential) : undefined;
+
+      await webhookDispatcher.emit('credential.issued', tenant.id, credential);
 
       const response: ApiResponse = {
         success: true,
         message: `Credential issued by ${workerId}`,
-        data: credential,
+        data: { ...credential, ...(jwt && { jwt }), ...(sdJwt && { sd_jwt: sdJwt }) },
         worker_id: workerId,
         timestamp: new Date().toISOString()
       };
@@ -65,6 +144,7 @@ export class CredentialController {
       logger.info(`Credential issued successfully`, {
         credentialId: credential.id,
         holderName: credential.holder_name,
+        tenantId: tenant.id,
         workerId
       });
 
@@ -76,16 +156,180 @@ export class CredentialController {
   });
 
   /**
-   * Get credential by ID
+   * Issue a batch of credentials. Every item is validated and checked for
+   * duplicates, in the batch and in the database, and the accepted items are
+   * stored in one transaction. The response lists the outcome of each item.
+   */
+  static issueCredentialBatch = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const workerId = process.env.WORKER_ID || `worker-${Math.floor(Math.random() * 1000)}`;
+
+    const { error } = validateCredentialBatch(req.body);
+
+    if (error) {
+      const response: ApiResponse = {
+        success: false,
+        message: `Validation error: ${error.details.map(d => d.message).join(', ')}`,
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const items: unknown[] = req.body;
+    const tenant = await CredentialController.getTenant(res);
+
+    try {
+      const { results, accepted } = await CredentialController.checkBatch(items, tenant.id);
+
+      const credentials = accepted.length > 0 ? await CredentialModel.createMany(accepted, tenant) : [];
+
+      credentials.forEach((credential, i) => {
+        results.push({ index: accepted[i]!.index, status: 'created', credential });
+      });
+      results.sort((a, b) => a.index - b.index);
+
+      for (const credential of credentials) {
+        await webhookDispatcher.emit('credential.issued', tenant.id, credential);
+      }
+
+      const summary = CredentialController.summarizeBatch(results, 'created');
+
+      const response: ApiResponse = {
+        success: true,
+        message: `Issued ${summary.created} of ${summary.total} credentials by ${workerId}`,
+        data: { summary, results },
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+
+      logger.info('Credential batch processed', { ...summary, workerId });
+
+      res.status(credentials.length > 0 ? 201 : 200).json(response);
+    } catch (error) {
+      logger.error('Error issuing credential batch:', error);
+      throw new AppError('Failed to issue credentials', 500);
+    }
+  });
+
+  /**
+   * Import credentials from a CSV file with a header row. Columns are matched
+   * to holder_name, credential_type and expiry_date by name, or as mapped with
+   * ?columns[holder_name]=Full Name. With ?dry_run=true the rows are only
+   * checked; otherwise the accepted rows are issued and a CSV of the results
+   * with the issued credential IDs and signatures is returned.
+   */
+  static importCredentials = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const workerId = process.env.WORKER_ID || `worker-${Math.floor(Math.random() * 1000)}`;
+
+    const { error, value } = validateCsvImportOptions(req.query);
+
+    if (error || typeof req.body !== 'string' || req.body.trim() === '') {
+      const response: ApiResponse = {
+        success: false,
+        message: error
+          ? `Validation error: ${error.details.map(d => d.message).join(', ')}`
+          : `Validation error: Request body must be a CSV file sent as ${CSV_MEDIA_TYPE}`,
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const options: CsvImportOptions = value;
+    let parsed: { items: Record<string, string>[]; rowNumbers: number[] };
+
+    try {
+      parsed = CredentialController.readCsvImport(req.body, options.columns);
+    } catch (csvError) {
+      throw new AppError(`Validation error: ${(csvError as Error).message}`, 400);
+    }
+
+    const { items, rowNumbers } = parsed;
+    const tenant = await CredentialController.getTenant(res);
+
+    if (items.length === 0 || items.length > MAX_IMPORT_ROWS) {
+      throw new AppError(`Validation error: CSV must contain between 1 and ${MAX_IMPORT_ROWS} data rows`, 400);
+    }
+
+    try {
+      const { results, accepted } = await CredentialController.checkBatch(items, tenant.id, index => `row ${rowNumbers[index]}`);
+
+      if (options.dry_run) {
+        accepted.forEach(({ index }) => results.push({ index, status: 'valid' }));
+        results.sort((a, b) => a.index - b.index);
+
+        const response: ApiResponse = {
+          success: true,
+          message: `Dry run: ${accepted.length} of ${items.length} rows can be issued`,
+          data: {
+            dry_run: true,
+            summary: CredentialController.summarizeBatch(results, 'valid'),
+            results: results.map(({ index, ...result }) => ({ row: rowNumbers[index], ...result }))
+          },
+          worker_id: workerId,
+          timestamp: new Date().toISOString()
+        };
+
+        res.json(response);
+        return;
+      }
+
+      const credentials = accepted.length > 0 ? await CredentialModel.createMany(accepted, tenant) : [];
+
+      credentials.forEach((credential, i) => {
+        results.push({ index: accepted[i]!.index, status: 'created', credential });
+      });
+      results.sort((a, b) => a.index - b.index);
+
+      for (const credential of credentials) {
+        await webhookDispatcher.emit('credential.issued', tenant.id, credential);
+      }
+
+      logger.info('Credential CSV import processed', { ...CredentialController.summarizeBatch(results, 'created'), workerId });
+
+      const csv = CsvUtils.stringify([
+        ['row', 'status', 'credential_id', 'holder_name', 'credential_type', 'expiry_date', 'signature', 'errors'],
+        ...results.map(result => [
+          rowNumbers[result.index],
+          result.status,
+          result.credential?.id || result.existing_credential_id,
+          CsvUtils.escapeFormula(result.credential?.holder_name || items[result.index]?.holder_name),
+          CsvUtils.escapeFormula(result.credential?.credential_type || items[result.index]?.credential_type),
+          result.credential?.expiry_date,
+          result.credential?.signature,
+          CsvUtils.escapeFormula(result.errors?.join('; '))
+        ])
+      ]);
+
+      res.status(credentials.length > 0 ? 201 : 200);
+      res.type(CSV_MEDIA_TYPE);
+      res.attachment(`credential-import-${new Date().toISOString().slice(0, 10)}.csv`);
+      res.send(csv);
+    } catch (error) {
+      logger.error('Error importing credentials:', error);
+      throw new AppError('Failed to import credentials', 500);
+    }
+  });
+
+  /**
+   * Get credential by ID, as a W3C verifiable credential when ?format=vc
+   * or as a signed JWT or SD-JWT when ?format=jwt or ?format=sd-jwt is given
    */
   static getCredential = asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const workerId = process.env.WORKER_ID || 'unknown-worker';
     const { id } = req.params;
+    const format = (req.query.format as string) || 'json';
 
     if (!id) {
       throw new AppError('Credential ID is required', 400);
     }
 
+    if (!['json', 'vc', 'jwt', 'sd-jwt'].includes(format)) {
+      throw new AppError(`Unsupported format '${format}', expected one of: json, vc, jwt, sd-jwt`, 400);
+    }
+
     try {
       const credential = await CredentialModel.findById(id);
 
@@ -100,9 +344,31 @@ export class CredentialController {
         return;
       }
 
+      // Public reads are audited for the tenant that issued the credential
+      res.locals.auditTenantId = credential.tenant_id;
+
+      if (format === 'vc') {
+        res.type(VC_MEDIA_TYPE);
+        res.send(JSON.stringify(VerifiableCredentialUtils.toVerifiableCredential(credential)));
+        return;
+      }
+
+      if (format === 'jwt') {
+        res.type(JWT_MEDIA_TYPE);
+        res.send(await CredentialModel.toJwt(credential));
+        return;
+      }
+
+      if (format === 'sd-jwt') {
+        res.type(SD_JWT_MEDIA_TYPE);
+        res.send(await CredentialModel.toSdJwt(credential));
+        return;
+      }
+
       // Verify credential integrity
-      const isValid = CredentialModel.verifyCredential(credential);
+      const isValid = await CredentialModel.verifyCredential(credential);
       const isExpired = CredentialModel.isExpired(credential);
+      const revocation = await RevocationModel.findByCredentialId(credential.id);
 
       const response: ApiResponse = {
         success: true,
@@ -110,7 +376,13 @@ export class CredentialController {
         data: {
           ...credential,
           is_valid: isValid,
-          is_expired: isExpired
+          is_expired: isExpired,
+          is_revoked: revocation !== null,
+          is_superseded: credential.superseded_by !== null,
+          revocation: revocation && {
+            reason: revocation.reason,
+            revoked_at: revocation.revoked_at
+          }
         },
         worker_id: workerId,
         timestamp: new Date().toISOString()
@@ -124,18 +396,306 @@ export class CredentialController {
   });
 
   /**
-   * Get all credentials with pagination
+   * Get a QR code for a credential as PNG or SVG (?format=png|svg). It encodes a
+   * urn:uuid reference to the credential, or the credential as a signed JWT when ?content=jwt
+   */
+  static getCredentialQrCode = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const workerId = process.env.WORKER_ID || 'unknown-worker';
+    const { id } = req.params;
+    const format = (req.query.format as string) || 'png';
+    const content = (req.query.content as string) || 'reference';
+
+    if (!id) {
+      throw new AppError('Credential ID is required', 400);
+    }
+
+    if (!['png', 'svg'].includes(format)) {
+      throw new AppError(`Unsupported format '${format}', expected one of: png, svg`, 400);
+    }
+
+    if (!['reference', 'jwt'].includes(content)) {
+      throw new AppError(`Unsupported content '${content}', expected one of: reference, jwt`, 400);
+    }
+
+    try {
+      const credential = await CredentialModel.findById(id);
+
+      if (!credential) {
+        const response: ApiResponse = {
+          success: false,
+          message: 'Credential not found',
+          worker_id: workerId,
+          timestamp: new Date().toISOString()
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      // Public reads are audited for the tenant that issued the credential
+      res.locals.auditTenantId = credential.tenant_id;
+
+      const payload = content === 'jwt'
+        ? await CredentialModel.toJwt(credential)
+        : QrCodeUtils.toReference(credential);
+
+      res.type(QR_CODE_MEDIA_TYPES[format as QrCodeFormat]);
+      res.send(await QrCodeUtils.render(payload, format as QrCodeFormat));
+    } catch (error) {
+      logger.error('Error generating credential QR code:', error);
+      throw new AppError('Failed to generate credential QR code', 500);
+    }
+  });
+
+  /**
+   * Get a credential as a printable PDF rendered from the template of its type,
+   * with a verification QR code and the fingerprint of its signature
+   */
+  static getCredentialPdf = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const workerId = process.env.WORKER_ID || 'unknown-worker';
+    const { id } = req.params;
+
+    if (!id) {
+      throw new AppError('Credential ID is required', 400);
+    }
+
+    try {
+      const credential = await CredentialModel.findById(id);
+
+      if (!credential) {
+        const response: ApiResponse = {
+          success: false,
+          message: 'Credential not found',
+          worker_id: workerId,
+          timestamp: new Date().toISOString()
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      // Public reads are audited for the tenant that issued the credential
+      res.locals.auditTenantId = credential.tenant_id;
+
+      const credentialType = await CredentialTypeModel.findByName(credential.credential_type, credential.tenant_id);
+      const qrCode = await QrCodeUtils.render(QrCodeUtils.toReference(credential), 'png') as Buffer;
+      const pdf = await CertificatePdfUtils.render(credential, {
+        ...(credentialType && { displayName: credentialType.display_name }),
+        qrCode
+      });
+
+      res.type(PDF_MEDIA_TYPE);
+      res.attachment(`credential-${credential.id}.pdf`);
+      res.send(pdf);
+    } catch (error) {
+      logger.error('Error rendering credential PDF:', error);
+      throw new AppError('Failed to render credential PDF', 500);
+    }
+  });
+
+  /**
+   * Revoke a credential issued by the caller's tenant
+   */
+  static revokeCredential = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const workerId = process.env.WORKER_ID || 'unknown-worker';
+    const { id } = req.params;
+
+    if (!id) {
+      throw new AppError('Credential ID is required', 400);
+    }
+
+    // Validate request body
+    const { error, value } = validateRevocationRequest(req.body);
+
+    if (error) {
+      const response: ApiResponse = {
+        success: false,
+        message: `Validation error: ${error.details.map(d => d.message).join(', ')}`,
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const revocationRequest: RevokeCredentialRequest = value;
+
+    try {
+      const credential = await CredentialModel.findById(id);
+
+      // Credentials of other tenants are reported as missing, so their IDs are not disclosed
+      if (!credential || credential.tenant_id !== res.locals.principal.tenant_id) {
+        const response: ApiResponse = {
+          success: false,
+          message: 'Credential not found',
+          worker_id: workerId,
+          timestamp: new Date().toISOString()
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      const existingRevocation = await RevocationModel.findByCredentialId(id);
+
+      if (existingRevocation) {
+        const response: ApiResponse = {
+          success: false,
+          message: 'Credential is already revoked',
+          data: existingRevocation,
+          worker_id: workerId,
+          timestamp: new Date().toISOString()
+        };
+        res.status(409).json(response);
+        return;
+      }
+
+      const revocation = await RevocationModel.create(id, revocationRequest.reason);
+
+      await webhookDispatcher.emit('credential.revoked', credential.tenant_id, { ...credential, revocation });
+
+      const response: ApiResponse = {
+        success: true,
+        message: `Credential revoked by ${workerId}`,
+        data: revocation,
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error revoking credential:', error);
+      throw new AppError('Failed to revoke credential', 500);
+    }
+  });
+
+  /**
+   * Renew a credential of the caller's tenant: issue a new credential for the same
+   * holder, type and attributes with a fresh expiry (the given expiry_date, or the
+   * default validity of the type), linked through previous_credential_id. The old
+   * credential is marked superseded by the new one.
+   */
+  static renewCredential = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const workerId = process.env.WORKER_ID || `worker-${Math.floor(Math.random() * 1000)}`;
+    const { id } = req.params;
+
+    if (!id) {
+      throw new AppError('Credential ID is required', 400);
+    }
+
+    // Validate request body
+    const { error, value } = validateRenewalRequest(req.body);
+
+    if (error) {
+      const response: ApiResponse = {
+        success: false,
+        message: `Validation error: ${error.details.map(d => d.message).join(', ')}`,
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const renewalRequest: RenewCredentialRequest = value;
+    const tenant = await CredentialController.getTenant(res);
+
+    try {
+      const previous = await CredentialModel.findById(id);
+
+      if (!previous || previous.tenant_id !== tenant.id) {
+        const response: ApiResponse = {
+          success: false,
+          message: 'Credential not found',
+          worker_id: workerId,
+          timestamp: new Date().toISOString()
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      const alreadyRenewed = (supersededBy: string | null): ApiResponse => ({
+        success: false,
+        message: 'Credential has already been renewed',
+        data: { superseded_by: supersededBy },
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      });
+
+      if (previous.superseded_by) {
+        res.status(409).json(alreadyRenewed(previous.superseded_by));
+        return;
+      }
+
+      if (await RevocationModel.findByCredentialId(id)) {
+        const response: ApiResponse = {
+          success: false,
+          message: 'Revoked credentials cannot be renewed',
+          worker_id: workerId,
+          timestamp: new Date().toISOString()
+        };
+        res.status(409).json(response);
+        return;
+      }
+
+      // The renewal is issued under the current definition of the type
+      const credentialType = await CredentialTypeModel.findByName(previous.credential_type, tenant.id);
+      const typeErrors = !credentialType || !credentialType.is_active
+        ? [`Credential type '${previous.credential_type}' is no longer active`]
+        : CredentialController.getAttributeErrors(credentialType, previous.attributes);
+
+      if (!credentialType || typeErrors.length > 0) {
+        const response: ApiResponse = {
+          success: false,
+          message: `Validation error: ${typeErrors.join(', ')}`,
+          worker_id: workerId,
+          timestamp: new Date().toISOString()
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const credential = await CredentialModel.renew(
+        previous,
+        tenant,
+        renewalRequest.expiry_date,
+        credentialType.default_validity_days
+      );
+
+      if (!credential) {
+        const current = await CredentialModel.findById(id);
+        res.status(409).json(alreadyRenewed(current?.superseded_by ?? null));
+        return;
+      }
+
+      await webhookDispatcher.emit('credential.issued', tenant.id, credential);
+
+      const response: ApiResponse = {
+        success: true,
+        message: `Credential renewed by ${workerId}`,
+        data: credential,
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error renewing credential:', error);
+      throw new AppError('Failed to renew credential', 500);
+    }
+  });
+
+  /**
+   * Get the credentials of the caller's tenant with pagination
    */
   static getAllCredentials = asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const workerId = process.env.WORKER_ID || 'unknown-worker';
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
     const offset = (page - 1) * limit;
+    const tenantId: string = res.locals.principal.tenant_id;
 
     try {
       const [credentials, total] = await Promise.all([
-        CredentialModel.findAll(limit, offset),
-        CredentialModel.count()
+        CredentialModel.findAll(tenantId, limit, offset),
+        CredentialModel.count(tenantId)
       ]);
 
       const response: ApiResponse = {
@@ -161,6 +721,169 @@ export class CredentialController {
     }
   });
 
+  /**
+   * The tenant the caller acts for, which issues and owns its credentials
+   */
+  private static async getTenant(res: Response): Promise<Tenant> {
+    const tenantId: string = res.locals.principal.tenant_id;
+    const tenant = await TenantModel.findById(tenantId);
+
+    if (!tenant) {
+      throw new AppError(`Unknown tenant '${tenantId}'`, 403);
+    }
+
+    return tenant;
+  }
+
+  /**
+   * Validate a batch of credential requests and check them for duplicates,
+   * both within the batch and against the tenant's stored credentials, without storing anything
+   */
+  private static async checkBatch(
+    items: unknown[],
+    tenantId: string,
+    describeItem: (index: number) => string = index => `item ${index}`
+  ): Promise<{ results: BatchCredentialResult[]; accepted: AcceptedBatchItem[] }> {
+    const activeTypes = new Map((await CredentialTypeModel.findAll(true, tenantId)).map(type => [type.name, type]));
+    const results: BatchCredentialResult[] = [];
+    const accepted: AcceptedBatchItem[] = [];
+    const seen = new Map<string, number>();
+
+    for (const [index, item] of items.entries()) {
+      const { error: itemError, value } = validateCredentialRequest(item);
+
+      if (itemError) {
+        results.push({ index, status: 'invalid', errors: itemError.details.map(d => d.message) });
+        continue;
+      }
+
+      const credentialRequest: CreateCredentialRequest = value;
+      const credentialType = activeTypes.get(credentialRequest.credential_type);
+
+      if (!credentialType) {
+        results.push({
+          index,
+          status: 'invalid',
+          errors: [`Credential type must be one of: ${[...activeTypes.keys()].join(', ')}`]
+        });
+        continue;
+      }
+
+      const attributeErrors = CredentialController.getAttributeErrors(credentialType, credentialRequest.attributes || {});
+
+      if (attributeErrors.length > 0) {
+        results.push({ index, status: 'invalid', errors: attributeErrors });
+        continue;
+      }
+
+      const key = JSON.stringify([credentialRequest.holder_name, credentialRequest.credential_type]);
+      const firstIndex = seen.get(key);
+
+      if (firstIndex !== undefined) {
+        results.push({ index, status: 'conflict', errors: [`Duplicate of ${describeItem(firstIndex)} in this batch`] });
+        continue;
+      }
+
+      seen.set(key, index);
+
+      const existingCredential = await CredentialModel.findByHolderAndType(
+        credentialRequest.holder_name,
+        credentialRequest.credential_type,
+        tenantId
+      );
+
+      if (existingCredential) {
+        results.push({
+          index,
+          status: 'conflict',
+          existing_credential_id: existingCredential.id,
+          errors: [`Credential of type '${credentialRequest.credential_type}' already issued for ${credentialRequest.holder_name}`]
+        });
+        continue;
+      }
+
+      accepted.push({ index, request: credentialRequest, defaultValidityDays: credentialType.default_validity_days });
+    }
+
+    return { results, accepted };
+  }
+
+  private static summarizeBatch(results: BatchCredentialResult[], acceptedStatus: 'created' | 'valid'): Record<string, number> {
+    const count = (status: BatchItemStatus) => results.filter(result => result.status === status).length;
+
+    return {
+      total: results.length,
+      [acceptedStatus]: count(acceptedStatus),
+      conflicts: count('conflict'),
+      invalid: count('invalid')
+    };
+  }
+
+  /**
+   * Map the rows of an import CSV to credential requests. Returns the
+   * requests with the line number of each, skipping blank lines.
+   */
+  private static readCsvImport(
+    text: string,
+    columns: Partial<Record<CsvImportField, string>> = {}
+  ): { items: Record<string, string>[]; rowNumbers: number[] } {
+    const [header = [], ...rows] = CsvUtils.parse(text);
+    const normalize = (name: string) => name.trim().toLowerCase().replace(/\s+/g, '_');
+    const positions = new Map<CsvImportField, number>();
+
+    for (const field of CSV_IMPORT_FIELDS) {
+      const column = normalize(columns[field] || field);
+      const position = header.findIndex(name => normalize(name) === column);
+
+      if (position !== -1) {
+        positions.set(field, position);
+      }
+    }
+
+    const missing = CSV_IMPORT_FIELDS.filter(field => field !== 'expiry_date' && !positions.has(field));
+
+    if (missing.length > 0) {
+      throw new Error(`CSV has no column for: ${missing.map(field => columns[field] || field).join(', ')}`);
+    }
+
+    const items: Record<string, string>[] = [];
+    const rowNumbers: number[] = [];
+
+    rows.forEach((row, i) => {
+      if (row.every(cell => cell.trim() === '')) {
+        return;
+      }
+
+      const item: Record<string, string> = {};
+
+      for (const [field, position] of positions) {
+        const cell = (row[position] || '').trim();
+
+        if (cell !== '') {
+          item[field] = cell;
+        }
+      }
+
+      items.push(item);
+      rowNumbers.push(i + 2); // Line 1 is the header
+    });
+
+    return { items, rowNumbers };
+  }
+
+  /**
+   * Check attributes against the schema declared by their credential type
+   */
+  private static getAttributeErrors(credentialType: CredentialType, attributes: CredentialAttributes): string[] {
+    if (credentialType.attributes_schema) {
+      return AttributeSchemaUtils.validateAttributes(credentialType.attributes_schema, attributes);
+    }
+
+    return Object.keys(attributes).length > 0
+      ? [`Credential type '${credentialType.name}' does not declare any attributes`]
+      : [];
+  }
+
   /**
    * Health check endpoint
    */
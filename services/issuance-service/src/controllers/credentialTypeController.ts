@@ -0,0 +1,215 @@
+import { Request, Response } from 'express';
+import { CredentialTypeModel } from '../models/CredentialType';
+import { DEFAULT_TENANT_ID } from '../models/Tenant';
+import { ApiResponse, CreateCredentialTypeRequest, UpdateCredentialTypeRequest } from '../types';
+import { AppError, asyncHandler } from '../middleware/errorHandler';
+import { AttributeSchemaUtils } from '../utils/attributeSchema';
+import { validateCredentialTypeRequest, validateCredentialTypeUpdate } from '../utils/validation';
+import { logger } from '../utils/logger';
+
+export class CredentialTypeController {
+  /**
+   * List the credential types of a tenant (?tenant=, the default tenant otherwise)
+   * or of every tenant with ?all_tenants=true, only the active ones unless
+   * ?include_inactive=true
+   */
+  static listTypes = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const workerId = process.env.WORKER_ID || 'unknown-worker';
+    const includeInactive = req.query.include_inactive === 'true';
+    const tenantId = req.query.all_tenants === 'true' ? null : (req.query.tenant as string) || DEFAULT_TENANT_ID;
+
+    try {
+      const credentialTypes = await CredentialTypeModel.findAll(!includeInactive, tenantId);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Credential types retrieved successfully',
+        data: {
+          credential_types: credentialTypes
+        },
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving credential types:', error);
+      throw new AppError('Failed to retrieve credential types', 500);
+    }
+  });
+
+  /**
+   * Get credential type of a tenant (?tenant=, the default tenant otherwise) by name
+   */
+  static getType = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const workerId = process.env.WORKER_ID || 'unknown-worker';
+    const { name } = req.params;
+
+    if (!name) {
+      throw new AppError('Credential type name is required', 400);
+    }
+
+    const tenantId = (req.query.tenant as string) || DEFAULT_TENANT_ID;
+    const credentialType = await CredentialTypeModel.findByName(name, tenantId);
+
+    if (!credentialType) {
+      throw new AppError('Credential type not found', 404);
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Credential type retrieved successfully',
+      data: credentialType,
+      worker_id: workerId,
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  });
+
+  /**
+   * Add a credential type to the registry of the caller's tenant
+   */
+  static createType = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const workerId = process.env.WORKER_ID || 'unknown-worker';
+
+    // Validate request body
+    const { error, value } = validateCredentialTypeRequest(req.body);
+
+    if (error) {
+      const response: ApiResponse = {
+        success: false,
+        message: `Validation error: ${error.details.map(d => d.message).join(', ')}`,
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const typeRequest: CreateCredentialTypeRequest = value;
+    const tenantId: string = res.locals.principal.tenant_id;
+
+    const schemaError = typeRequest.attributes_schema && AttributeSchemaUtils.getSchemaError(typeRequest.attributes_schema);
+
+    if (schemaError) {
+      throw new AppError(`Validation error: ${schemaError}`, 400);
+    }
+
+    if (await CredentialTypeModel.findByName(typeRequest.name, tenantId)) {
+      throw new AppError(`Credential type '${typeRequest.name}' already exists`, 409);
+    }
+
+    try {
+      const credentialType = await CredentialTypeModel.create(typeRequest, tenantId);
+      res.locals.auditResourceId = credentialType.name;
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Credential type created successfully',
+        data: credentialType,
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error creating credential type:', error);
+      throw new AppError('Failed to create credential type', 500);
+    }
+  });
+
+  /**
+   * Update a credential type of the caller's tenant
+   */
+  static updateType = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const workerId = process.env.WORKER_ID || 'unknown-worker';
+    const { name } = req.params;
+
+    if (!name) {
+      throw new AppError('Credential type name is required', 400);
+    }
+
+    // Validate request body
+    const { error, value } = validateCredentialTypeUpdate(req.body);
+
+    if (error) {
+      const response: ApiResponse = {
+        success: false,
+        message: `Validation error: ${error.details.map(d => d.message).join(', ')}`,
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const changes: UpdateCredentialTypeRequest = value;
+    const tenantId: string = res.locals.principal.tenant_id;
+
+    const schemaError = changes.attributes_schema && AttributeSchemaUtils.getSchemaError(changes.attributes_schema);
+
+    if (schemaError) {
+      throw new AppError(`Validation error: ${schemaError}`, 400);
+    }
+
+    if (!(await CredentialTypeModel.findByName(name, tenantId))) {
+      throw new AppError('Credential type not found', 404);
+    }
+
+    try {
+      const credentialType = await CredentialTypeModel.update(name, changes, tenantId);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Credential type updated successfully',
+        data: credentialType,
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error updating credential type:', error);
+      throw new AppError('Failed to update credential type', 500);
+    }
+  });
+
+  /**
+   * Delete a credential type of the caller's tenant that no credential has been issued with
+   */
+  static deleteType = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const workerId = process.env.WORKER_ID || 'unknown-worker';
+    const { name } = req.params;
+
+    if (!name) {
+      throw new AppError('Credential type name is required', 400);
+    }
+
+    const tenantId: string = res.locals.principal.tenant_id;
+
+    if (!(await CredentialTypeModel.findByName(name, tenantId))) {
+      throw new AppError('Credential type not found', 404);
+    }
+
+    if ((await CredentialTypeModel.countCredentials(name, tenantId)) > 0) {
+      throw new AppError(`Credentials of type '${name}' have been issued, deactivate the type instead`, 409);
+    }
+
+    try {
+      await CredentialTypeModel.delete(name, tenantId);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Credential type deleted successfully',
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error deleting credential type:', error);
+      throw new AppError('Failed to delete credential type', 500);
+    }
+  });
+}
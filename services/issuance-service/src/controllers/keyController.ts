@@ -0,0 +1,122 @@
+import { Request, Response } from 'express';
+import { SigningKeyModel } from '../models/SigningKey';
+import { ApiResponse, SigningKey } from '../types';
+import { AppError, asyncHandler } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+export class KeyController {
+  /**
+   * Publish the signing keys of every tenant that verifiers should accept as a JWKS.
+   * Each key names the tenant it signs for.
+   */
+  static getJwks = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      const signingKeys = await SigningKeyModel.findAll(['active', 'verify_only']);
+
+      res.set('Cache-Control', 'public, max-age=300');
+      res.json({
+        keys: signingKeys.map(signingKey => SigningKeyModel.toJwk(signingKey))
+      });
+    } catch (error) {
+      logger.error('Error retrieving key set:', error);
+      throw new AppError('Failed to retrieve key set', 500);
+    }
+  });
+
+  /**
+   * List the signing keys of the caller's tenant with their status
+   */
+  static listKeys = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const workerId = process.env.WORKER_ID || 'unknown-worker';
+
+    try {
+      const signingKeys = await SigningKeyModel.findAll(undefined, res.locals.principal.tenant_id);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Signing keys retrieved successfully',
+        data: {
+          keys: signingKeys.map(signingKey => SigningKeyModel.toPublicView(signingKey))
+        },
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving signing keys:', error);
+      throw new AppError('Failed to retrieve signing keys', 500);
+    }
+  });
+
+  /**
+   * Rotate the active signing key of the caller's tenant
+   */
+  static rotateKey = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const workerId = process.env.WORKER_ID || 'unknown-worker';
+
+    let signingKey: SigningKey | null;
+
+    try {
+      signingKey = await SigningKeyModel.rotate(res.locals.principal.tenant_id);
+    } catch (error) {
+      logger.error('Error rotating signing key:', error);
+      throw new AppError('Failed to rotate signing key', 500);
+    }
+
+    if (!signingKey) {
+      throw new AppError('The signing key was rotated concurrently, try again', 409);
+    }
+
+    res.locals.auditResourceId = signingKey.kid;
+
+    const response: ApiResponse = {
+      success: true,
+      message: `Signing key rotated by ${workerId}`,
+      data: SigningKeyModel.toPublicView(signingKey),
+      worker_id: workerId,
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(201).json(response);
+  });
+
+  /**
+   * Retire a signing key of the caller's tenant that is no longer trusted
+   */
+  static retireKey = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const workerId = process.env.WORKER_ID || 'unknown-worker';
+    const { kid } = req.params;
+
+    if (!kid) {
+      throw new AppError('Key ID is required', 400);
+    }
+
+    const signingKey = await SigningKeyModel.findByKid(kid);
+
+    if (!signingKey || signingKey.tenant_id !== res.locals.principal.tenant_id) {
+      throw new AppError('Signing key not found', 404);
+    }
+
+    if (signingKey.status === 'active') {
+      throw new AppError('The active signing key cannot be retired, rotate it first', 409);
+    }
+
+    try {
+      const retiredKey = await SigningKeyModel.retire(kid);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Signing key retired successfully',
+        data: retiredKey && SigningKeyModel.toPublicView(retiredKey),
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retiring signing key:', error);
+      throw new AppError('Failed to retire signing key', 500);
+    }
+  });
+}
@@ -0,0 +1,13 @@
+import { Request, Response } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { metricsRegistry } from '../utils/metrics';
+
+export class MetricsController {
+  /**
+   * Metrics of this worker in the Prometheus text format
+   */
+  static getMetrics = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    res.set('Content-Type', metricsRegistry.contentType);
+    res.send(await metricsRegistry.metrics());
+  });
+}
@@ -0,0 +1,43 @@
+import { Request, Response } from 'express';
+import { StatusListModel } from '../models/StatusList';
+import { StatusPurpose } from '../types';
+import { AppError, asyncHandler } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { STATUS_PURPOSES } from '../utils/statusList';
+import { JWT_MEDIA_TYPE } from '../utils/verifiableCredential';
+
+export class StatusListController {
+  /**
+   * Publish a status list for one status purpose as a signed BitstringStatusListCredential JWT.
+   * Verifiers download whole lists, so the issuer does not learn which credential is checked.
+   */
+  static getStatusList = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id, purpose } = req.params;
+
+    if (!id || !purpose) {
+      throw new AppError('Status list ID and purpose are required', 400);
+    }
+
+    if (!STATUS_PURPOSES.includes(purpose as StatusPurpose)) {
+      throw new AppError(`Unknown status purpose '${purpose}', expected one of: ${STATUS_PURPOSES.join(', ')}`, 404);
+    }
+
+    const statusList = await StatusListModel.findById(id);
+
+    if (!statusList) {
+      throw new AppError('Status list not found', 404);
+    }
+
+    try {
+      const signed = await StatusListModel.toJwt(statusList, purpose as StatusPurpose);
+
+      // Verifiers may keep the list until the JWT expires
+      res.set('Cache-Control', `public, max-age=${Math.max(0, Math.floor((signed.expires_at - Date.now()) / 1000))}`);
+      res.type(JWT_MEDIA_TYPE);
+      res.send(signed.jwt);
+    } catch (error) {
+      logger.error('Error publishing status list:', error);
+      throw new AppError('Failed to retrieve status list', 500);
+    }
+  });
+}
@@ -0,0 +1,109 @@
+import { Request, Response } from 'express';
+import { CredentialTypeModel } from '../models/CredentialType';
+import { SigningKeyModel } from '../models/SigningKey';
+import { TenantModel } from '../models/Tenant';
+import { ApiResponse, CreateTenantRequest } from '../types';
+import { AppError, asyncHandler } from '../middleware/errorHandler';
+import { validateTenantRequest } from '../utils/validation';
+import { logger } from '../utils/logger';
+
+export class TenantController {
+  /**
+   * List all tenants
+   */
+  static listTenants = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const workerId = process.env.WORKER_ID || 'unknown-worker';
+
+    try {
+      const tenants = await TenantModel.findAll();
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Tenants retrieved successfully',
+        data: { tenants },
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving tenants:', error);
+      throw new AppError('Failed to retrieve tenants', 500);
+    }
+  });
+
+  /**
+   * Get tenant by ID
+   */
+  static getTenant = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const workerId = process.env.WORKER_ID || 'unknown-worker';
+    const { id } = req.params;
+
+    if (!id) {
+      throw new AppError('Tenant ID is required', 400);
+    }
+
+    const tenant = await TenantModel.findById(id);
+
+    if (!tenant) {
+      throw new AppError('Tenant not found', 404);
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Tenant retrieved successfully',
+      data: tenant,
+      worker_id: workerId,
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  });
+
+  /**
+   * Create a tenant, seeded with the default credential types and a signing key of its own
+   */
+  static createTenant = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const workerId = process.env.WORKER_ID || 'unknown-worker';
+
+    // Validate request body
+    const { error, value } = validateTenantRequest(req.body);
+
+    if (error) {
+      const response: ApiResponse = {
+        success: false,
+        message: `Validation error: ${error.details.map(d => d.message).join(', ')}`,
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const tenantRequest: CreateTenantRequest = value;
+
+    if (await TenantModel.findById(tenantRequest.id)) {
+      throw new AppError(`Tenant '${tenantRequest.id}' already exists`, 409);
+    }
+
+    try {
+      const tenant = await TenantModel.create(tenantRequest);
+      res.locals.auditResourceId = tenant.id;
+      await CredentialTypeModel.ensureDefaults(tenant.id);
+      const signingKey = await SigningKeyModel.ensureActiveKey(tenant.id);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Tenant created successfully',
+        data: { ...tenant, kid: signingKey.kid },
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error creating tenant:', error);
+      throw new AppError('Failed to create tenant', 500);
+    }
+  });
+}
@@ -1,5 +1,6 @@
 import { createApp, setupGracefulShutdown } from './app';
 import { logger } from './utils/logger';
+import { webhookDispatcher } from './utils/webhookDispatcher';
 
 const PORT = process.env.PORT || 3001;
 const WORKER_ID = process.env.WORKER_ID || `worker-${Math.floor(Math.random() * 1000)}`;
@@ -17,6 +18,9 @@ async function startServer() {
       });
     });
 
+    // Deliver webhooks in the background
+    webhookDispatcher.start();
+
     // Setup graceful shutdown
     setupGracefulShutdown(server);
 
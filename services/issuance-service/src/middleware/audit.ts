@@ -0,0 +1,71 @@
+import { NextFunction, Request, Response } from 'express';
+import { DEFAULT_TENANT_ID } from '../models/Tenant';
+import { ApiResponse, Principal } from '../types';
+import { auditTrail } from '../utils/auditTrail';
+import { logger } from '../utils/logger';
+
+/**
+ * Record the request in the audit log under the given action before the response
+ * is sent. Put it before the role check of a route, so that rejected requests
+ * are recorded too. The resource is the :id, :name or :kid route parameter,
+ * handlers that create a resource set res.locals.auditResourceId instead.
+ * Public routes set res.locals.auditTenantId to the tenant owning the resource,
+ * requests that cannot be attributed to a tenant are recorded for the default one.
+ * The response is held back until the entry is appended, and replaced with a 500
+ * error when it cannot be, so that no request is answered without being recorded.
+ */
+export const audit = (action: string) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    const recordEntry = (): Promise<void> => {
+      const principal: Principal | undefined = res.locals.principal;
+
+      return auditTrail.record({
+        tenant_id: res.locals.auditTenantId || principal?.tenant_id || DEFAULT_TENANT_ID,
+        action,
+        actor_id: principal?.id ?? null,
+        actor_type: principal?.type ?? 'anonymous',
+        resource_id: res.locals.auditResourceId || req.params.id || req.params.name || req.params.kid || null,
+        worker_id: process.env.WORKER_ID || 'unknown-worker',
+        method: req.method,
+        path: req.originalUrl,
+        status_code: res.statusCode,
+        ip: req.ip ?? null,
+        user_agent: req.get('User-Agent') ?? null
+      });
+    };
+
+    const end = res.end.bind(res) as (...args: unknown[]) => Response;
+
+    res.end = ((...args: unknown[]) => {
+      recordEntry().then(
+        () => end(...args),
+        (error) => {
+          logger.error(`Error recording audit log entry for ${action}:`, error);
+
+          // A response that has started streaming can only be cut off
+          if (res.headersSent) {
+            res.destroy(error);
+            return;
+          }
+
+          const response: ApiResponse = {
+            success: false,
+            message: 'The request could not be recorded in the audit log',
+            worker_id: process.env.WORKER_ID || 'unknown-worker',
+            timestamp: new Date().toISOString()
+          };
+
+          res.statusCode = 500;
+          for (const header of ['Content-Disposition', 'Content-Length', 'ETag', 'Location']) {
+            res.removeHeader(header);
+          }
+          res.setHeader('Content-Type', 'application/json; charset=utf-8');
+          end(JSON.stringify(response));
+        }
+      );
+
+      return res;
+    }) as Response['end'];
+
+    next();
+  };
@@ -0,0 +1,195 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { ApiKeyModel } from '../models/ApiKey';
+import { DEFAULT_TENANT_ID, TenantModel } from '../models/Tenant';
+import { Principal, Role } from '../types';
+import { logger } from '../utils/logger';
+import { oidcKeyCache } from '../utils/oidcKeyCache';
+import { API_KEY_ROLES } from '../utils/validation';
+import { AppError } from './errorHandler';
+
+const JWT_PATTERN = /^[\w-]+\.[\w-]+\.[\w-]+$/;
+
+const OIDC_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'];
+
+const matchesSecret = (provided: string, secret: string): boolean => {
+  const expected = crypto.createHash('sha256').update(secret).digest();
+  return crypto.timingSafeEqual(expected, crypto.createHash('sha256').update(provided).digest());
+};
+
+/**
+ * Read a claim, which may be nested (e.g. realm_access.roles)
+ */
+const getClaim = (payload: jwt.JwtPayload, claim: string): unknown =>
+  claim.split('.').reduce<unknown>(
+    (node, name) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[name] : undefined),
+    payload
+  );
+
+/**
+ * The caller of a bearer token, with its roles and tenant read from the given claims.
+ * Tokens without a tenant act for the default tenant.
+ */
+const fromTokenClaims = (payload: jwt.JwtPayload, rolesClaim: string, tenantClaim: string): Principal => {
+  const roles = getClaim(payload, rolesClaim);
+  const tenantId = getClaim(payload, tenantClaim);
+
+  return {
+    id: payload.sub || 'bearer-token',
+    type: 'bearer_token',
+    roles: Array.isArray(roles) ? roles.filter(role => API_KEY_ROLES.includes(role)) : [],
+    tenant_id: typeof tenantId === 'string' && tenantId !== '' ? tenantId : DEFAULT_TENANT_ID
+  };
+};
+
+/**
+ * Check an access token from the OIDC identity provider against its key set (OIDC_JWKS_URI),
+ * and its issuer and audience when OIDC_ISSUER and OIDC_AUDIENCE are set.
+ * The roles and tenant are read from the OIDC_ROLES_CLAIM and OIDC_TENANT_CLAIM claims.
+ */
+const verifyIdentityProviderToken = async (token: string, kid: string | undefined): Promise<Principal> => {
+  if (!kid) {
+    throw new AppError('Invalid bearer token', 401);
+  }
+
+  let key: crypto.KeyObject | null;
+  try {
+    key = await oidcKeyCache.getKey(kid);
+  } catch (error) {
+    logger.error('Failed to fetch identity provider key set', { error: (error as Error).message });
+    throw new AppError('Identity provider keys are unavailable', 503);
+  }
+
+  if (!key) {
+    throw new AppError('Invalid bearer token', 401);
+  }
+
+  const options: jwt.VerifyOptions = { algorithms: OIDC_ALGORITHMS };
+  if (process.env.OIDC_ISSUER) {
+    options.issuer = process.env.OIDC_ISSUER;
+  }
+  if (process.env.OIDC_AUDIENCE) {
+    options.audience = process.env.OIDC_AUDIENCE;
+  }
+
+  let payload: jwt.JwtPayload;
+  try {
+    payload = jwt.verify(token, key, options) as jwt.JwtPayload;
+  } catch {
+    throw new AppError('Invalid bearer token', 401);
+  }
+
+  return fromTokenClaims(payload, process.env.OIDC_ROLES_CLAIM || 'roles', process.env.OIDC_TENANT_CLAIM || 'tenant');
+};
+
+/**
+ * Check a bearer token, which must be an access token of the identity provider
+ * at OIDC_JWKS_URI. Roles and tenants are only read from tokens the provider signed.
+ */
+const verifyBearerToken = async (token: string): Promise<Principal> => {
+  if (!process.env.OIDC_JWKS_URI) {
+    throw new AppError('Bearer tokens are not accepted', 401);
+  }
+
+  return verifyIdentityProviderToken(token, jwt.decode(token, { complete: true })?.header.kid);
+};
+
+/**
+ * Identify the caller from the X-Admin-Key header (matching ADMIN_API_KEY), the X-API-Key
+ * header, or an Authorization: Bearer header holding an API key or an identity provider
+ * access token. The admin key acts for the tenant in the X-Tenant-ID header, which must
+ * exist, or the default tenant.
+ * Returns null when the request carries no credentials.
+ */
+const authenticate = async (req: Request): Promise<Principal | null> => {
+  const adminKey = req.get('X-Admin-Key');
+
+  if (adminKey !== undefined) {
+    if (!process.env.ADMIN_API_KEY) {
+      throw new AppError('Admin key is not configured', 403);
+    }
+
+    if (!matchesSecret(adminKey, process.env.ADMIN_API_KEY)) {
+      throw new AppError('Invalid admin key', 401);
+    }
+
+    const tenantId = req.get('X-Tenant-ID') || DEFAULT_TENANT_ID;
+
+    if (tenantId !== DEFAULT_TENANT_ID && !(await TenantModel.findById(tenantId))) {
+      throw new AppError(`Tenant '${tenantId}' not found`, 404);
+    }
+
+    return { id: 'admin-key', type: 'admin_key', roles: ['admin'], tenant_id: tenantId };
+  }
+
+  const bearer = req.get('Authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  const key = req.get('X-API-Key') ?? (bearer && !JWT_PATTERN.test(bearer) ? bearer : undefined);
+
+  if (key) {
+    const apiKey = await ApiKeyModel.findByKey(key);
+
+    if (!apiKey) {
+      throw new AppError('Invalid API key', 401);
+    }
+
+    return { id: apiKey.id, type: 'api_key', roles: apiKey.roles, tenant_id: apiKey.tenant_id };
+  }
+
+  return bearer ? verifyBearerToken(bearer) : null;
+};
+
+/**
+ * Require the caller to hold one of the given roles, admins hold every role.
+ * The caller is available to the handler as res.locals.principal.
+ */
+export const requireRole = (...roles: Role[]) =>
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const principal = await authenticate(req);
+
+      if (!principal) {
+        next(new AppError('Authentication required', 401));
+        return;
+      }
+
+      // Set before the role check, so that rejected requests are audited with their caller
+      res.locals.principal = principal;
+
+      if (!principal.roles.includes('admin') && !roles.some(role => principal.roles.includes(role))) {
+        next(new AppError(`Requires the ${roles.join(' or ')} role`, 403));
+        return;
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+export const requireAdmin = requireRole('admin');
+
+/**
+ * Require the X-Admin-Key header, for operations that span tenants
+ */
+export const requireAdminKey = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const principal = await authenticate(req);
+
+    if (!principal) {
+      next(new AppError('Authentication required', 401));
+      return;
+    }
+
+    res.locals.principal = principal;
+
+    if (principal.type !== 'admin_key') {
+      next(new AppError('Requires the admin key', 403));
+      return;
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,25 @@
+import { NextFunction, Request, Response } from 'express';
+import { httpRequestDuration, httpRequestsTotal } from '../utils/metrics';
+import { getRoutePattern } from '../utils/routePattern';
+
+/**
+ * Count the request and observe its latency once the response is sent. Requests
+ * are labelled with their route pattern, so that IDs in the URL do not create a
+ * series each.
+ */
+export const recordRequestMetrics = (req: Request, res: Response, next: NextFunction): void => {
+  const endTimer = httpRequestDuration.startTimer();
+
+  res.on('finish', () => {
+    const labels = {
+      method: req.method,
+      route: getRoutePattern(req) ?? 'unmatched',
+      status_code: String(res.statusCode)
+    };
+
+    endTimer(labels);
+    httpRequestsTotal.inc(labels);
+  });
+
+  next();
+};
@@ -0,0 +1,45 @@
+import { SpanKind, SpanStatusCode, context, propagation, trace } from '@opentelemetry/api';
+import {
+  ATTR_HTTP_REQUEST_METHOD,
+  ATTR_HTTP_RESPONSE_STATUS_CODE,
+  ATTR_HTTP_ROUTE,
+  ATTR_URL_PATH
+} from '@opentelemetry/semantic-conventions';
+import { NextFunction, Request, Response } from 'express';
+import { getRoutePattern } from '../utils/routePattern';
+import { tracer } from '../utils/tracing';
+
+/**
+ * Handle the request in a server span that continues the trace of the caller's
+ * traceparent header, so the spans of the handler, its database queries and
+ * its outgoing calls join that trace. Put it after the body parsers, which
+ * would otherwise lose the active span.
+ */
+export const traceRequests = (req: Request, res: Response, next: NextFunction): void => {
+  const parentContext = propagation.extract(context.active(), req.headers);
+  const span = tracer.startSpan(req.method, {
+    kind: SpanKind.SERVER,
+    attributes: {
+      [ATTR_HTTP_REQUEST_METHOD]: req.method,
+      [ATTR_URL_PATH]: req.path
+    }
+  }, parentContext);
+
+  res.on('finish', () => {
+    const route = getRoutePattern(req);
+
+    if (route) {
+      span.updateName(`${req.method} ${route}`);
+      span.setAttribute(ATTR_HTTP_ROUTE, route);
+    }
+
+    span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, res.statusCode);
+    if (res.statusCode >= 500) {
+      span.setStatus({ code: SpanStatusCode.ERROR });
+    }
+
+    span.end();
+  });
+
+  context.with(trace.setSpan(parentContext, span), next);
+};
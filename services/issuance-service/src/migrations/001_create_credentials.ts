@@ -0,0 +1,30 @@
+import { Migration } from '../types';
+
+// Schema of the credentials table before migrations were introduced
+const migration: Migration = {
+  version: 1,
+  name: 'create_credentials',
+
+  async up(db) {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS credentials (
+        id TEXT PRIMARY KEY,
+        holder_name TEXT NOT NULL,
+        issuer TEXT NOT NULL,
+        issued_date TEXT NOT NULL,
+        credential_type TEXT NOT NULL,
+        expiry_date TEXT NOT NULL,
+        signature TEXT NOT NULL,
+        worker_id TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+  },
+
+  async down(db) {
+    await db.run('DROP TABLE IF EXISTS credentials');
+  }
+};
+
+export default migration;
@@ -0,0 +1,33 @@
+import { Migration } from '../types';
+import { MigrationHelpers } from './helpers';
+
+// Ed25519 key store, with the algorithm and key ID of each credential's signature.
+// Credentials signed before keys existed keep the HMAC algorithm and no longer verify.
+const migration: Migration = {
+  version: 2,
+  name: 'create_signing_keys',
+
+  async up(db) {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS signing_keys (
+        kid TEXT PRIMARY KEY,
+        algorithm TEXT NOT NULL,
+        public_key TEXT NOT NULL,
+        private_key TEXT NOT NULL,
+        status TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+    await MigrationHelpers.addColumn(db, 'credentials', 'signature_algorithm', "TEXT NOT NULL DEFAULT 'HMAC-SHA256'");
+    await MigrationHelpers.addColumn(db, 'credentials', 'kid', "TEXT NOT NULL DEFAULT ''");
+  },
+
+  async down(db) {
+    await MigrationHelpers.dropColumn(db, 'credentials', 'kid');
+    await MigrationHelpers.dropColumn(db, 'credentials', 'signature_algorithm');
+    await db.run('DROP TABLE IF EXISTS signing_keys');
+  }
+};
+
+export default migration;
@@ -0,0 +1,24 @@
+import { Migration } from '../types';
+
+const migration: Migration = {
+  version: 3,
+  name: 'create_credential_revocations',
+
+  async up(db) {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS credential_revocations (
+        credential_id TEXT PRIMARY KEY,
+        reason TEXT NOT NULL,
+        revoked_at TEXT NOT NULL,
+        revoked_by TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      )
+    `);
+  },
+
+  async down(db) {
+    await db.run('DROP TABLE IF EXISTS credential_revocations');
+  }
+};
+
+export default migration;
@@ -0,0 +1,26 @@
+import { Migration } from '../types';
+
+// The registry is seeded with the default types at startup, see CredentialTypeModel.ensureDefaults
+const migration: Migration = {
+  version: 4,
+  name: 'create_credential_types',
+
+  async up(db) {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS credential_types (
+        name TEXT PRIMARY KEY,
+        display_name TEXT NOT NULL,
+        default_validity_days INTEGER NOT NULL,
+        is_active INTEGER NOT NULL DEFAULT 1,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+  },
+
+  async down(db) {
+    await db.run('DROP TABLE IF EXISTS credential_types');
+  }
+};
+
+export default migration;
@@ -0,0 +1,19 @@
+import { Migration } from '../types';
+import { MigrationHelpers } from './helpers';
+
+const migration: Migration = {
+  version: 5,
+  name: 'add_credential_attributes',
+
+  async up(db) {
+    await MigrationHelpers.addColumn(db, 'credentials', 'attributes', "TEXT NOT NULL DEFAULT '{}'");
+    await MigrationHelpers.addColumn(db, 'credential_types', 'attributes_schema', 'TEXT');
+  },
+
+  async down(db) {
+    await MigrationHelpers.dropColumn(db, 'credential_types', 'attributes_schema');
+    await MigrationHelpers.dropColumn(db, 'credentials', 'attributes');
+  }
+};
+
+export default migration;
@@ -0,0 +1,27 @@
+import { Migration } from '../types';
+
+// Only a SHA-256 hash of each key is stored, the key itself is shown once when it is created
+const migration: Migration = {
+  version: 6,
+  name: 'create_api_keys',
+
+  async up(db) {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        key_prefix TEXT NOT NULL,
+        key_hash TEXT NOT NULL UNIQUE,
+        roles TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        revoked_at TEXT
+      )
+    `);
+  },
+
+  async down(db) {
+    await db.run('DROP TABLE IF EXISTS api_keys');
+  }
+};
+
+export default migration;
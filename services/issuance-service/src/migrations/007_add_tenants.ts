@@ -0,0 +1,77 @@
+import { Migration } from '../types';
+import { MigrationHelpers } from './helpers';
+
+const TENANT_TABLES = ['credentials', 'signing_keys', 'api_keys'];
+
+const CREDENTIAL_TYPE_COLUMNS = 'name, display_name, default_validity_days, is_active, attributes_schema, created_at, updated_at';
+
+// Existing data belongs to the default tenant, created at startup, see TenantModel.ensureDefault.
+// Credential type names become unique per tenant, which needs the table to be rebuilt.
+const migration: Migration = {
+  version: 7,
+  name: 'add_tenants',
+
+  async up(db) {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS tenants (
+        id TEXT PRIMARY KEY,
+        display_name TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+
+    for (const table of TENANT_TABLES) {
+      await MigrationHelpers.addColumn(db, table, 'tenant_id', "TEXT NOT NULL DEFAULT 'default'");
+    }
+
+    await db.run(`
+      CREATE TABLE credential_types_by_tenant (
+        tenant_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        display_name TEXT NOT NULL,
+        default_validity_days INTEGER NOT NULL,
+        is_active INTEGER NOT NULL DEFAULT 1,
+        attributes_schema TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (tenant_id, name)
+      )
+    `);
+    await db.run(`
+      INSERT INTO credential_types_by_tenant (tenant_id, ${CREDENTIAL_TYPE_COLUMNS})
+      SELECT 'default', ${CREDENTIAL_TYPE_COLUMNS} FROM credential_types
+    `);
+    await db.run('DROP TABLE credential_types');
+    await db.run('ALTER TABLE credential_types_by_tenant RENAME TO credential_types');
+  },
+
+  async down(db) {
+    // Only the credential types of the default tenant are kept
+    await db.run(`
+      CREATE TABLE credential_types_single_tenant (
+        name TEXT PRIMARY KEY,
+        display_name TEXT NOT NULL,
+        default_validity_days INTEGER NOT NULL,
+        is_active INTEGER NOT NULL DEFAULT 1,
+        attributes_schema TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+    await db.run(`
+      INSERT INTO credential_types_single_tenant (${CREDENTIAL_TYPE_COLUMNS})
+      SELECT ${CREDENTIAL_TYPE_COLUMNS} FROM credential_types WHERE tenant_id = 'default'
+    `);
+    await db.run('DROP TABLE credential_types');
+    await db.run('ALTER TABLE credential_types_single_tenant RENAME TO credential_types');
+
+    for (const table of TENANT_TABLES) {
+      await MigrationHelpers.dropColumn(db, table, 'tenant_id');
+    }
+
+    await db.run('DROP TABLE IF EXISTS tenants');
+  }
+};
+
+export default migration;
@@ -0,0 +1,22 @@
+import { Migration } from '../types';
+import { MigrationHelpers } from './helpers';
+
+// A renewed credential links to its predecessor, which is marked superseded by it
+const migration: Migration = {
+  version: 8,
+  name: 'add_credential_renewal',
+
+  async up(db) {
+    await MigrationHelpers.addColumn(db, 'credentials', 'previous_credential_id', 'TEXT');
+    await MigrationHelpers.addColumn(db, 'credentials', 'superseded_by', 'TEXT');
+    await MigrationHelpers.addColumn(db, 'credentials', 'superseded_at', 'TEXT');
+  },
+
+  async down(db) {
+    await MigrationHelpers.dropColumn(db, 'credentials', 'superseded_at');
+    await MigrationHelpers.dropColumn(db, 'credentials', 'superseded_by');
+    await MigrationHelpers.dropColumn(db, 'credentials', 'previous_credential_id');
+  }
+};
+
+export default migration;
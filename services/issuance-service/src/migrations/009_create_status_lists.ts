@@ -0,0 +1,33 @@
+import { Migration } from '../types';
+import { MigrationHelpers } from './helpers';
+
+// Credentials issued from now on get an index in a status list of their tenant.
+// Existing credentials have no index and are checked by looking them up instead.
+const migration: Migration = {
+  version: 9,
+  name: 'create_status_lists',
+
+  async up(db) {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS status_lists (
+        id TEXT PRIMARY KEY,
+        tenant_id TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        next_index INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+
+    await MigrationHelpers.addColumn(db, 'credentials', 'status_list_id', 'TEXT');
+    await MigrationHelpers.addColumn(db, 'credentials', 'status_list_index', 'INTEGER');
+  },
+
+  async down(db) {
+    await MigrationHelpers.dropColumn(db, 'credentials', 'status_list_index');
+    await MigrationHelpers.dropColumn(db, 'credentials', 'status_list_id');
+    await db.run('DROP TABLE IF EXISTS status_lists');
+  }
+};
+
+export default migration;
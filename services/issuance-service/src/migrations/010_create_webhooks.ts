@@ -0,0 +1,63 @@
+import { Migration } from '../types';
+
+// Credentials that had already expired are recorded as notified, so subscribers
+// are only sent credential.expired for credentials that expire from now on
+const migration: Migration = {
+  version: 10,
+  name: 'create_webhooks',
+
+  async up(db) {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+        id TEXT PRIMARY KEY,
+        tenant_id TEXT NOT NULL,
+        url TEXT NOT NULL,
+        events TEXT NOT NULL,
+        secret TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id TEXT PRIMARY KEY,
+        subscription_id TEXT NOT NULL,
+        tenant_id TEXT NOT NULL,
+        event_id TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at TEXT,
+        last_attempt_at TEXT,
+        last_response_status INTEGER,
+        last_error TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS credential_expiry_notifications (
+        credential_id TEXT PRIMARY KEY,
+        notified_at TEXT NOT NULL
+      )
+    `);
+
+    const now = new Date().toISOString();
+    await db.run(
+      `INSERT INTO credential_expiry_notifications (credential_id, notified_at)
+       SELECT id, CAST(? AS TEXT) FROM credentials WHERE expiry_date <= ?`,
+      [now, now]
+    );
+  },
+
+  async down(db) {
+    await db.run('DROP TABLE IF EXISTS credential_expiry_notifications');
+    await db.run('DROP TABLE IF EXISTS webhook_deliveries');
+    await db.run('DROP TABLE IF EXISTS webhook_subscriptions');
+  }
+};
+
+export default migration;
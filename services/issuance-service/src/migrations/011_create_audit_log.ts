@@ -0,0 +1,35 @@
+import { Migration } from '../types';
+
+const migration: Migration = {
+  version: 11,
+  name: 'create_audit_log',
+
+  async up(db) {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id TEXT PRIMARY KEY,
+        sequence INTEGER NOT NULL UNIQUE,
+        tenant_id TEXT NOT NULL,
+        action TEXT NOT NULL,
+        actor_id TEXT,
+        actor_type TEXT NOT NULL,
+        resource_id TEXT,
+        worker_id TEXT NOT NULL,
+        method TEXT NOT NULL,
+        path TEXT NOT NULL,
+        status_code INTEGER NOT NULL,
+        ip TEXT,
+        user_agent TEXT,
+        created_at TEXT NOT NULL,
+        previous_hash TEXT NOT NULL,
+        hash TEXT NOT NULL
+      )
+    `);
+  },
+
+  async down(db) {
+    await db.run('DROP TABLE IF EXISTS audit_log');
+  }
+};
+
+export default migration;
@@ -0,0 +1,19 @@
+import { Migration } from '../types';
+import { MigrationHelpers } from './helpers';
+
+// A status list's revision goes up whenever one of its bits is set, so that
+// every worker can tell whether the list it signed earlier is still current
+const migration: Migration = {
+  version: 12,
+  name: 'add_status_list_revision',
+
+  async up(db) {
+    await MigrationHelpers.addColumn(db, 'status_lists', 'revision', 'INTEGER NOT NULL DEFAULT 0');
+  },
+
+  async down(db) {
+    await MigrationHelpers.dropColumn(db, 'status_lists', 'revision');
+  }
+};
+
+export default migration;
@@ -0,0 +1,26 @@
+import { Migration } from '../types';
+
+// Signed heads of the audit log, kept apart from the entries so that rewriting
+// or cutting off the end of the log cannot go unnoticed
+const migration: Migration = {
+  version: 13,
+  name: 'create_audit_log_anchors',
+
+  async up(db) {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS audit_log_anchors (
+        sequence INTEGER PRIMARY KEY,
+        hash TEXT NOT NULL,
+        kid TEXT NOT NULL,
+        signed_head TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      )
+    `);
+  },
+
+  async down(db) {
+    await db.run('DROP TABLE IF EXISTS audit_log_anchors');
+  }
+};
+
+export default migration;
@@ -0,0 +1,30 @@
+import { Migration } from '../types';
+
+// A tenant has at most one active signing key. Workers that each created one
+// before this was enforced leave several, of which the newest stays active.
+const migration: Migration = {
+  version: 14,
+  name: 'add_single_active_signing_key',
+
+  async up(db) {
+    await db.run(`
+      UPDATE signing_keys SET status = 'verify_only'
+      WHERE status = 'active' AND EXISTS (
+        SELECT 1 FROM signing_keys newer
+        WHERE newer.tenant_id = signing_keys.tenant_id
+          AND newer.status = 'active'
+          AND (newer.created_at > signing_keys.created_at
+            OR (newer.created_at = signing_keys.created_at AND newer.kid > signing_keys.kid))
+      )
+    `);
+    await db.run(
+      "CREATE UNIQUE INDEX IF NOT EXISTS signing_keys_active_tenant ON signing_keys (tenant_id) WHERE status = 'active'"
+    );
+  },
+
+  async down(db) {
+    await db.run('DROP INDEX IF EXISTS signing_keys_active_tenant');
+  }
+};
+
+export default migration;
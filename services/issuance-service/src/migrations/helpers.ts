@@ -0,0 +1,29 @@
+import { QueryRunner } from '../types';
+
+export class MigrationHelpers {
+  /**
+   * Check whether a table has a column
+   */
+  static async hasColumn(db: QueryRunner, table: string, column: string): Promise<boolean> {
+    return (await db.getColumnNames(table)).includes(column);
+  }
+
+  /**
+   * Add a column unless it exists. Databases created before migrations were
+   * introduced may already have columns that a migration adds.
+   */
+  static async addColumn(db: QueryRunner, table: string, column: string, definition: string): Promise<void> {
+    if (!(await this.hasColumn(db, table, column))) {
+      await db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+
+  /**
+   * Drop a column if it exists
+   */
+  static async dropColumn(db: QueryRunner, table: string, column: string): Promise<void> {
+    if (await this.hasColumn(db, table, column)) {
+      await db.run(`ALTER TABLE ${table} DROP COLUMN ${column}`);
+    }
+  }
+}
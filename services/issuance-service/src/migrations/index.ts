@@ -0,0 +1,34 @@
+import { Migration } from '../types';
+import createCredentials from './001_create_credentials';
+import createSigningKeys from './002_create_signing_keys';
+import createCredentialRevocations from './003_create_credential_revocations';
+import createCredentialTypes from './004_create_credential_types';
+import addCredentialAttributes from './005_add_credential_attributes';
+import createApiKeys from './006_create_api_keys';
+import addTenants from './007_add_tenants';
+import addCredentialRenewal from './008_add_credential_renewal';
+import createStatusLists from './009_create_status_lists';
+import createWebhooks from './010_create_webhooks';
+import createAuditLog from './011_create_audit_log';
+import addStatusListRevision from './012_add_status_list_revision';
+import createAuditLogAnchors from './013_create_audit_log_anchors';
+import addSingleActiveSigningKey from './014_add_single_active_signing_key';
+
+// All migrations in version order. New migrations are added at the end and
+// never change once released, since deployed databases have already run them.
+export const migrations: Migration[] = [
+  createCredentials,
+  createSigningKeys,
+  createCredentialRevocations,
+  createCredentialTypes,
+  addCredentialAttributes,
+  createApiKeys,
+  addTenants,
+  addCredentialRenewal,
+  createStatusLists,
+  createWebhooks,
+  createAuditLog,
+  addStatusListRevision,
+  createAuditLogAnchors,
+  addSingleActiveSigningKey
+];
@@ -0,0 +1,143 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { database } from '../config/database';
+import { ApiKey, CreateApiKeyRequest, DatabaseApiKey } from '../types';
+import { CryptoUtils } from '../utils/crypto';
+import { logger } from '../utils/logger';
+
+const API_KEY_PREFIX = 'kc_';
+
+export class ApiKeyModel {
+  /**
+   * Create an API key, returning the key itself alongside the stored record.
+   * Only its hash is stored, so the key cannot be shown again.
+   * The key acts for the tenant it is created in.
+   */
+  static async create(request: CreateApiKeyRequest, tenantId: string): Promise<{ apiKey: ApiKey; key: string }> {
+    const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+
+    const apiKey: ApiKey = {
+      id: uuidv4(),
+      name: request.name,
+      key_prefix: key.slice(0, API_KEY_PREFIX.length + 8),
+      key_hash: CryptoUtils.hashData(key),
+      roles: request.roles,
+      tenant_id: tenantId,
+      created_at: new Date().toISOString(),
+      revoked_at: null
+    };
+
+    const insertQuery = `
+      INSERT INTO api_keys (
+        id, name, key_prefix, key_hash, roles, tenant_id, created_at, revoked_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    try {
+      await database.run(insertQuery, [
+        apiKey.id,
+        apiKey.name,
+        apiKey.key_prefix,
+        apiKey.key_hash,
+        JSON.stringify(apiKey.roles),
+        apiKey.tenant_id,
+        apiKey.created_at,
+        apiKey.revoked_at
+      ]);
+      logger.info(`API key created: ${apiKey.id}`, { name: apiKey.name, roles: apiKey.roles, tenantId });
+      return { apiKey, key };
+    } catch (error) {
+      logger.error('Error creating API key:', error);
+      throw new Error('Failed to create API key');
+    }
+  }
+
+  /**
+   * Find the unrevoked API key matching a presented key
+   */
+  static async findByKey(key: string): Promise<ApiKey | null> {
+    try {
+      const query = 'SELECT * FROM api_keys WHERE key_hash = ? AND revoked_at IS NULL';
+      const result = await database.get<DatabaseApiKey>(query, [CryptoUtils.hashData(key)]);
+
+      return result ? this.fromDatabase(result) : null;
+    } catch (error) {
+      logger.error('Error finding API key:', error);
+      throw new Error('Failed to find API key');
+    }
+  }
+
+  /**
+   * Find API key by ID
+   */
+  static async findById(id: string): Promise<ApiKey | null> {
+    try {
+      const result = await database.get<DatabaseApiKey>('SELECT * FROM api_keys WHERE id = ?', [id]);
+
+      return result ? this.fromDatabase(result) : null;
+    } catch (error) {
+      logger.error('Error finding API key:', error);
+      throw new Error('Failed to find API key');
+    }
+  }
+
+  /**
+   * Get all API keys of a tenant, newest first
+   */
+  static async findAll(tenantId: string): Promise<ApiKey[]> {
+    try {
+      const results = await database.all<DatabaseApiKey>(
+        'SELECT * FROM api_keys WHERE tenant_id = ? ORDER BY created_at DESC',
+        [tenantId]
+      );
+
+      return results.map(result => this.fromDatabase(result));
+    } catch (error) {
+      logger.error('Error finding API keys:', error);
+      throw new Error('Failed to retrieve API keys');
+    }
+  }
+
+  /**
+   * Revoke an API key, so requests made with it are no longer accepted
+   */
+  static async revoke(id: string): Promise<ApiKey | null> {
+    const apiKey = await this.findById(id);
+
+    if (!apiKey || apiKey.revoked_at) {
+      return apiKey;
+    }
+
+    try {
+      const revokedAt = new Date().toISOString();
+      await database.run('UPDATE api_keys SET revoked_at = ? WHERE id = ?', [revokedAt, id]);
+      logger.info(`API key revoked: ${id}`);
+      return { ...apiKey, revoked_at: revokedAt };
+    } catch (error) {
+      logger.error('Error revoking API key:', error);
+      throw new Error('Failed to revoke API key');
+    }
+  }
+
+  /**
+   * API key without its hash, as returned by the admin endpoints
+   */
+  static toPublicView(apiKey: ApiKey): Omit<ApiKey, 'key_hash'> {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      key_prefix: apiKey.key_prefix,
+      roles: apiKey.roles,
+      tenant_id: apiKey.tenant_id,
+      created_at: apiKey.created_at,
+      revoked_at: apiKey.revoked_at
+    };
+  }
+
+  private static fromDatabase(row: DatabaseApiKey): ApiKey {
+    return {
+      ...row,
+      roles: JSON.parse(row.roles)
+    };
+  }
+}
@@ -0,0 +1,322 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { database } from '../config/database';
+import {
+  AuditChainVerification,
+  AuditLogAnchor,
+  AuditLogEntry,
+  AuditLogQuery,
+  NewAuditLogEntry,
+  QueryRunner
+} from '../types';
+import { CryptoUtils } from '../utils/crypto';
+import { logger } from '../utils/logger';
+import { SigningKeyModel } from './SigningKey';
+import { DEFAULT_TENANT_ID } from './Tenant';
+
+// Previous hash of the first entry
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+const MAX_APPEND_ATTEMPTS = 10;
+const VERIFY_PAGE_SIZE = 500;
+
+export class AuditLogModel {
+  /**
+   * Append an entry after the current last one, together with the new head
+   * signed with the default tenant's active key. The sequence number is unique,
+   * so when another worker appended in between the insert does nothing and the
+   * entry is chained again after the new last entry.
+   */
+  static async append(entry: NewAuditLogEntry): Promise<AuditLogEntry> {
+    const insertQuery = `
+      INSERT INTO audit_log (
+        id, sequence, tenant_id, action, actor_id, actor_type, resource_id, worker_id, method,
+        path, status_code, ip, user_agent, created_at, previous_hash, hash
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (sequence) DO NOTHING
+    `;
+
+    try {
+      const signingKey = await SigningKeyModel.ensureActiveKey();
+      const privateKey = SigningKeyModel.getPrivateKey(signingKey);
+
+      for (let attempt = 0; attempt < MAX_APPEND_ATTEMPTS; attempt++) {
+        const last = await database.get<{ sequence: number; hash: string }>(
+          'SELECT sequence, hash FROM audit_log ORDER BY sequence DESC LIMIT 1'
+        );
+
+        const unhashed: Omit<AuditLogEntry, 'hash'> = {
+          ...entry,
+          id: uuidv4(),
+          sequence: last ? last.sequence + 1 : 1,
+          created_at: new Date().toISOString(),
+          previous_hash: last ? last.hash : AUDIT_GENESIS_HASH
+        };
+        const chained: AuditLogEntry = { ...unhashed, hash: this.computeHash(unhashed) };
+
+        const anchor = this.signHead(chained, signingKey.kid, privateKey);
+
+        const appended = await database.transaction(async (runner) => {
+          const result = await runner.run(insertQuery, [
+            chained.id,
+            chained.sequence,
+            chained.tenant_id,
+            chained.action,
+            chained.actor_id,
+            chained.actor_type,
+            chained.resource_id,
+            chained.worker_id,
+            chained.method,
+            chained.path,
+            chained.status_code,
+            chained.ip,
+            chained.user_agent,
+            chained.created_at,
+            chained.previous_hash,
+            chained.hash
+          ]);
+
+          if (result.changes !== 1) {
+            return false;
+          }
+
+          await this.insertAnchor(runner, anchor);
+          return true;
+        });
+
+        if (appended) {
+          return chained;
+        }
+      }
+
+      throw new Error(`No free sequence number after ${MAX_APPEND_ATTEMPTS} attempts`);
+    } catch (error) {
+      logger.error('Error appending audit log entry:', error);
+      throw new Error('Failed to append audit log entry');
+    }
+  }
+
+  /**
+   * Sign the current head of a log that has no signed head yet, as logs written
+   * before heads were signed. Returns whether a head was signed.
+   */
+  static async ensureAnchored(): Promise<boolean> {
+    try {
+      const anchor = await database.get<{ sequence: number }>('SELECT sequence FROM audit_log_anchors LIMIT 1');
+      const last = await database.get<{ sequence: number; hash: string }>(
+        'SELECT sequence, hash FROM audit_log ORDER BY sequence DESC LIMIT 1'
+      );
+
+      if (anchor || !last) {
+        return false;
+      }
+
+      const signingKey = await SigningKeyModel.ensureActiveKey();
+      await this.insertAnchor(database, this.signHead(last, signingKey.kid, SigningKeyModel.getPrivateKey(signingKey)));
+      logger.info(`Signed the audit log head at sequence ${last.sequence}`);
+
+      return true;
+    } catch (error) {
+      logger.error('Error signing audit log head:', error);
+      throw new Error('Failed to sign audit log head');
+    }
+  }
+
+  /**
+   * Get the entries of a tenant matching the query, newest first
+   */
+  static async findAll(tenantId: string, query: AuditLogQuery): Promise<AuditLogEntry[]> {
+    const conditions = ['tenant_id = ?'];
+    const params: (string | number)[] = [tenantId];
+
+    for (const field of ['action', 'actor_id', 'resource_id'] as const) {
+      const value = query[field];
+      if (value !== undefined) {
+        conditions.push(`${field} = ?`);
+        params.push(value);
+      }
+    }
+
+    if (query.from !== undefined) {
+      conditions.push('created_at >= ?');
+      params.push(query.from);
+    }
+
+    if (query.to !== undefined) {
+      conditions.push('created_at <= ?');
+      params.push(query.to);
+    }
+
+    try {
+      return await database.all<AuditLogEntry>(
+        `SELECT * FROM audit_log WHERE ${conditions.join(' AND ')} ORDER BY sequence DESC LIMIT ? OFFSET ?`,
+        [...params, query.limit, query.offset]
+      );
+    } catch (error) {
+      logger.error('Error finding audit log entries:', error);
+      throw new Error('Failed to retrieve audit log entries');
+    }
+  }
+
+  /**
+   * Walk the whole log in sequence order and check that the numbering has no
+   * gaps, that each entry holds the hash of the one before it, that each hash
+   * matches the entry's content and that each signed head matches its entry.
+   * The latest signed head must not lie past the end of the log, so entries cut
+   * off the end are noticed too. Stops at the first broken entry.
+   */
+  static async verifyChain(): Promise<AuditChainVerification> {
+    let lastSequence = 0;
+    let lastHash = AUDIT_GENESIS_HASH;
+    let latestAnchor: AuditLogAnchor | null = null;
+    // Entries from before heads were signed have no anchor, every later one does
+    let anchored = false;
+    const publicKeys = new Map<string, crypto.KeyObject | null>();
+
+    const result = (valid: boolean, invalid?: { sequence: number; error: string }): AuditChainVerification => ({
+      valid,
+      entries_checked: lastSequence,
+      head: lastSequence > 0 ? { sequence: lastSequence, hash: lastHash } : null,
+      anchor: latestAnchor,
+      ...(invalid && { first_invalid_sequence: invalid.sequence, error: invalid.error })
+    });
+
+    try {
+      // Read before the entries, so that entries appended meanwhile are simply checked as well
+      latestAnchor = (await database.get<AuditLogAnchor>(
+        'SELECT * FROM audit_log_anchors ORDER BY sequence DESC LIMIT 1'
+      )) || null;
+
+      for (;;) {
+        const page = await database.all<AuditLogEntry>(
+          'SELECT * FROM audit_log WHERE sequence > ? ORDER BY sequence LIMIT ?',
+          [lastSequence, VERIFY_PAGE_SIZE]
+        );
+        const first = page[0];
+        const last = page[page.length - 1];
+        const pageAnchors = first && last
+          ? await database.all<AuditLogAnchor>(
+            'SELECT * FROM audit_log_anchors WHERE sequence >= ? AND sequence <= ?',
+            [first.sequence, last.sequence]
+          )
+          : [];
+        const anchors = new Map(pageAnchors.map(anchor => [anchor.sequence, anchor]));
+
+        for (const entry of page) {
+          const { hash, ...unhashed } = entry;
+          const anchor = anchors.get(entry.sequence);
+
+          if (entry.sequence !== lastSequence + 1) {
+            return result(false, {
+              sequence: lastSequence + 1,
+              error: `Entries ${lastSequence + 1} to ${entry.sequence - 1} are missing`
+            });
+          }
+
+          if (entry.previous_hash !== lastHash) {
+            return result(false, { sequence: entry.sequence, error: 'Previous hash does not match the entry before it' });
+          }
+
+          if (hash !== this.computeHash(unhashed)) {
+            return result(false, { sequence: entry.sequence, error: 'Hash does not match the entry content' });
+          }
+
+          if (anchor) {
+            anchored = true;
+
+            if (anchor.hash !== hash) {
+              return result(false, { sequence: entry.sequence, error: 'Hash does not match the signed head' });
+            }
+
+            if (!await this.verifyAnchor(anchor, publicKeys)) {
+              return result(false, { sequence: entry.sequence, error: 'Signature of the signed head is not valid' });
+            }
+          } else if (anchored) {
+            return result(false, { sequence: entry.sequence, error: 'Entry has no signed head' });
+          }
+
+          lastSequence = entry.sequence;
+          lastHash = hash;
+        }
+
+        if (page.length < VERIFY_PAGE_SIZE) {
+          break;
+        }
+      }
+
+      if (latestAnchor && latestAnchor.sequence > lastSequence) {
+        return result(false, {
+          sequence: lastSequence + 1,
+          error: `Entries ${lastSequence + 1} to ${latestAnchor.sequence} are missing`
+        });
+      }
+
+      if (!latestAnchor && lastSequence > 0) {
+        return result(false, { sequence: lastSequence, error: 'The head of the log is not signed' });
+      }
+
+      return result(true);
+    } catch (error) {
+      logger.error('Error verifying audit log:', error);
+      throw new Error('Failed to verify audit log');
+    }
+  }
+
+  /**
+   * SHA-256 over the canonical JSON of all fields of an entry but its hash
+   */
+  static computeHash(entry: Omit<AuditLogEntry, 'hash'>): string {
+    return CryptoUtils.hashData(JSON.stringify(CryptoUtils.canonicalize(entry)));
+  }
+
+  /**
+   * Sign the sequence and hash of an entry as the head of the log
+   */
+  private static signHead(
+    entry: { sequence: number; hash: string },
+    kid: string,
+    privateKey: crypto.KeyObject
+  ): AuditLogAnchor {
+    return {
+      sequence: entry.sequence,
+      hash: entry.hash,
+      kid,
+      signed_head: CryptoUtils.signJwt({ sequence: entry.sequence, hash: entry.hash }, privateKey, kid, 'audit-head+jwt'),
+      created_at: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Check that a signed head is signed with a key of the default tenant and
+   * covers the sequence and hash stored next to it
+   */
+  private static async verifyAnchor(
+    anchor: AuditLogAnchor,
+    publicKeys: Map<string, crypto.KeyObject | null>
+  ): Promise<boolean> {
+    if (!publicKeys.has(anchor.kid)) {
+      const signingKey = await SigningKeyModel.findByKid(anchor.kid);
+      publicKeys.set(
+        anchor.kid,
+        signingKey && signingKey.tenant_id === DEFAULT_TENANT_ID ? SigningKeyModel.getPublicKey(signingKey) : null
+      );
+    }
+
+    const publicKey = publicKeys.get(anchor.kid);
+    const head = publicKey && CryptoUtils.verifyJwt<{ sequence: number; hash: string }>(anchor.signed_head, publicKey);
+
+    return !!head && head.sequence === anchor.sequence && head.hash === anchor.hash;
+  }
+
+  /**
+   * Store a signed head. Nothing is stored when the sequence already has one.
+   */
+  private static async insertAnchor(runner: QueryRunner, anchor: AuditLogAnchor): Promise<void> {
+    await runner.run(
+      `INSERT INTO audit_log_anchors (sequence, hash, kid, signed_head, created_at)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (sequence) DO NOTHING`,
+      [anchor.sequence, anchor.hash, anchor.kid, anchor.signed_head, anchor.created_at]
+    );
+  }
+}
@@ -1,65 +1,37 @@
 import { v4 as uuidv4 } from 'uuid';
 import { database } from '../config/database';
-import { Credential, CreateCredentialRequest, DatabaseCredential } from '../types';
-import { CryptoUtils } from '../utils/crypto';
+import {
+  Credential,
+  CreateCredentialRequest,
+  DatabaseCredential,
+  QueryRunner,
+  SigningKey,
+  StatusListEntry,
+  Tenant
+} from '../types';
+import { CryptoUtils, SIGNATURE_ALGORITHM } from '../utils/crypto';
 import { logger } from '../utils/logger';
+import { credentialsIssuedTotal } from '../utils/metrics';
+import { SD_JWT_TYPE, SdJwtUtils } from '../utils/sdJwt';
+import { VerifiableCredentialUtils } from '../utils/verifiableCredential';
+import { SigningKeyModel } from './SigningKey';
+import { StatusListModel } from './StatusList';
 
 export class CredentialModel {
   /**
-   * Create a new credential
+   * Create a new credential issued by a tenant
    */
-  static async create(request: CreateCredentialRequest): Promise<Credential> {
-    const now = new Date().toISOString();
-    const workerId = process.env.WORKER_ID || `worker-${Math.floor(Math.random() * 1000)}`;
-    
-    // Set default expiry date to 1 year from now if not provided
-    const expiryDate = request.expiry_date || new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toISOString();
-    
-    const credentialData: Omit<Credential, 'signature' | 'created_at' | 'updated_at'> = {
-      id: uuidv4(),
-      holder_name: request.holder_name,
-      issuer: 'Kube Credential Authority',
-      issued_date: now,
-      credential_type: request.credential_type,
-      expiry_date: expiryDate,
-      worker_id: workerId
-    };
-
-    // Generate signature
-    const signature = CryptoUtils.generateCredentialSignature(credentialData);
-
-    const credential: Credential = {
-      ...credentialData,
-      signature,
-      created_at: now,
-      updated_at: now
-    };
-
-    // Insert into database
-    const insertQuery = `
-      INSERT INTO credentials (
-        id, holder_name, issuer, issued_date, credential_type, 
-        expiry_date, signature, worker_id, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `;
-
-    const params = [
-      credential.id,
-      credential.holder_name,
-      credential.issuer,
-      credential.issued_date,
-      credential.credential_type,
-      credential.expiry_date,
-      credential.signature,
-      credential.worker_id,
-      credential.created_at,
-      credential.updated_at
-    ];
+  static async create(request: CreateCredentialRequest, tenant: Tenant, defaultValidityDays: number = 365): Promise<Credential> {
+    const signingKey = await SigningKeyModel.ensureActiveKey(tenant.id);
+    const [statusEntry] = await StatusListModel.allocate(tenant.id);
+    const credential = this.build(request, defaultValidityDays, tenant, signingKey, statusEntry);
 
     try {
-      await database.run(insertQuery, params);
+      await this.insert(database, credential);
+      credentialsIssuedTotal.inc({ credential_type: credential.credential_type });
       logger.info(`Credential created successfully: ${credential.id}`, { 
         credentialId: credential.id,
+        tenantId: credential.tenant_id,
         workerId: credential.worker_id 
       });
       return credential;
@@ -69,6 +41,102 @@ export class CredentialModel {
     }
   }
 
+  /**
+   * Create several credentials in one transaction, so either all of them
+   * are stored or none are
+   */
+  static async createMany(
+    items: { request: CreateCredentialRequest; defaultValidityDays: number }[],
+    tenant: Tenant
+  ): Promise<Credential[]> {
+    const signingKey = await SigningKeyModel.ensureActiveKey(tenant.id);
+    const statusEntries = await StatusListModel.allocate(tenant.id, items.length);
+    const credentials = items.map((item, index) =>
+      this.build(item.request, item.defaultValidityDays, tenant, signingKey, statusEntries[index])
+    );
+
+    try {
+      await database.transaction(async (runner) => {
+        for (const credential of credentials) {
+          await this.insert(runner, credential);
+        }
+      });
+      for (const credential of credentials) {
+        credentialsIssuedTotal.inc({ credential_type: credential.credential_type });
+      }
+      logger.info(`Created ${credentials.length} credential(s) in a batch`, { tenantId: tenant.id });
+      return credentials;
+    } catch (error) {
+      logger.error('Error creating credentials:', error);
+      throw new Error('Failed to create credentials');
+    }
+  }
+
+  /**
+   * Renew a credential: issue a new one with the same holder, type and attributes
+   * and a fresh expiry, linked to its predecessor, and mark the predecessor
+   * superseded by it, in one transaction. Returns null when the predecessor has
+   * already been renewed.
+   */
+  static async renew(
+    previous: Credential,
+    tenant: Tenant,
+    expiryDate: string | undefined,
+    defaultValidityDays: number
+  ): Promise<Credential | null> {
+    const signingKey = await SigningKeyModel.ensureActiveKey(tenant.id);
+    const [statusEntry] = await StatusListModel.allocate(tenant.id);
+    const credential = this.build(
+      {
+        holder_name: previous.holder_name,
+        credential_type: previous.credential_type,
+        attributes: previous.attributes,
+        ...(expiryDate && { expiry_date: expiryDate })
+      },
+      defaultValidityDays,
+      tenant,
+      signingKey,
+      statusEntry,
+      previous.id
+    );
+
+    try {
+      const renewed = await database.transaction(async (runner) => {
+        const result = await runner.run(
+          'UPDATE credentials SET superseded_by = ?, superseded_at = ?, updated_at = ? WHERE id = ? AND superseded_by IS NULL',
+          [credential.id, credential.issued_date, credential.issued_date, previous.id]
+        );
+
+        if (result.changes === 0) {
+          return false;
+        }
+
+        if (previous.status_list_id) {
+          await StatusListModel.markChanged(runner, previous.status_list_id);
+        }
+
+        await this.insert(runner, credential);
+        return true;
+      });
+
+      if (!renewed) {
+        return null;
+      }
+
+      credentialsIssuedTotal.inc({ credential_type: credential.credential_type });
+
+      logger.info(`Credential renewed: ${previous.id} -> ${credential.id}`, {
+        credentialId: credential.id,
+        previousCredentialId: previous.id,
+        tenantId: tenant.id
+      });
+      return credential;
+    } catch (error) {
+      logger.error('Error renewing credential:', error);
+      throw new Error('Failed to renew credential');
+    }
+  }
+
   /**
    * Find credential by ID
    */
@@ -81,7 +149,7 @@ export class CredentialModel {
         return null;
       }
 
-      return result as Credential;
+      return this.fromDatabase(result);
     } catch (error) {
       logger.error('Error finding credential by ID:', error);
       throw new Error('Failed to find credential');
@@ -89,18 +157,28 @@ export class CredentialModel {
   }
 
   /**
-   * Find credential by holder name and type (to check for duplicates)
+   * Find a current credential of a tenant by holder name and type (to check for duplicates).
+   * Expired and superseded credentials are left out, so the holder can be issued the type again.
    */
-  static async findByHolderAndType(holderName: string, credentialType: string): Promise<Credential | null> {
+  static async findByHolderAndType(holderName: string, credentialType: string, tenantId: string): Promise<Credential | null> {
     try {
-      const query = 'SELECT * FROM credentials WHERE holder_name = ? AND credential_type = ?';
-      const result = await database.get<DatabaseCredential>(query, [holderName, credentialType]);
+      const query = `
+        SELECT * FROM credentials
+        WHERE tenant_id = ? AND holder_name = ? AND credential_type = ?
+          AND superseded_by IS NULL AND expiry_date > ?
+      `;
+      const result = await database.get<DatabaseCredential>(query, [
+        tenantId,
+        holderName,
+        credentialType,
+        new Date().toISOString()
+      ]);
       
       if (!result) {
         return null;
       }
 
-      return result as Credential;
+      return this.fromDatabase(result);
     } catch (error) {
       logger.error('Error finding credential by holder and type:', error);
       throw new Error('Failed to find credential');
@@ -108,14 +186,14 @@ export class CredentialModel {
   }
 
   /**
-   * Get all credentials (with pagination)
+   * Get all credentials of a tenant (with pagination)
    */
-  static async findAll(limit: number = 50, offset: number = 0): Promise<Credential[]> {
+  static async findAll(tenantId: string, limit: number = 50, offset: number = 0): Promise<Credential[]> {
     try {
-      const query = 'SELECT * FROM credentials ORDER BY created_at DESC LIMIT ? OFFSET ?';
-      const results = await database.all<DatabaseCredential>(query, [limit, offset]);
+      const query = 'SELECT * FROM credentials WHERE tenant_id = ? ORDER BY created_at DESC LIMIT ? OFFSET ?';
+      const results = await database.all<DatabaseCredential>(query, [tenantId, limit, offset]);
       
-      return results as Credential[];
+      return results.map(result => this.fromDatabase(result));
     } catch (error) {
       logger.error('Error finding all credentials:', error);
       throw new Error('Failed to retrieve credentials');
@@ -123,12 +201,13 @@ export class CredentialModel {
   }
 
   /**
-   * Get credentials count
+   * Get credentials count, of one tenant when given
    */
-  static async count(): Promise<number> {
+  static async count(tenantId?: string): Promise<number> {
     try {
-      const query = 'SELECT COUNT(*) as count FROM credentials';
-      const result = await database.get<{ count: number }>(query);
+      const result = tenantId
+        ? await database.get<{ count: number }>('SELECT COUNT(*) as count FROM credentials WHERE tenant_id = ?', [tenantId])
+        : await database.get<{ count: number }>('SELECT COUNT(*) as count FROM credentials');
       
       return result?.count || 0;
     } catch (error) {
@@ -138,10 +217,97 @@ export class CredentialModel {
   }
 
   /**
-   * Verify credential integrity
+   * Find credentials that have expired since credential.expired was last raised,
+   * and mark them as notified. A credential is only returned to the worker that
+   * marked it, so the event is raised once.
+   */
+  static async claimNewlyExpired(limit: number = 100): Promise<Credential[]> {
+    const now = new Date().toISOString();
+    const query = `
+      SELECT credentials.* FROM credentials
+      LEFT JOIN credential_expiry_notifications ON credential_expiry_notifications.credential_id = credentials.id
+      WHERE credential_expiry_notifications.credential_id IS NULL AND credentials.expiry_date <= ?
+      ORDER BY credentials.expiry_date LIMIT ?
+    `;
+
+    try {
+      const results = await database.all<DatabaseCredential>(query, [now, limit]);
+      const claimed: Credential[] = [];
+
+      for (const result of results) {
+        const { changes } = await database.run(
+          'INSERT INTO credential_expiry_notifications (credential_id, notified_at) VALUES (?, ?) ON CONFLICT (credential_id) DO NOTHING',
+          [result.id, now]
+        );
+
+        if (changes === 1) {
+          claimed.push(this.fromDatabase(result));
+        }
+      }
+
+      return claimed;
+    } catch (error) {
+      logger.error('Error finding expired credentials:', error);
+      throw new Error('Failed to find expired credentials');
+    }
+  }
+
+  /**
+   * Undo the claim of claimNewlyExpired on a credential, so that credential.expired
+   * is raised for it again
    */
-  static verifyCredential(credential: Credential): boolean {
-    return CryptoUtils.verifyCredentialSignature(credential);
+  static async releaseExpiryClaim(credentialId: string): Promise<void> {
+    try {
+      await database.run('DELETE FROM credential_expiry_notifications WHERE credential_id = ?', [credentialId]);
+    } catch (error) {
+      logger.error('Error releasing expired credential:', error);
+      throw new Error('Failed to release expired credential');
+    }
+  }
+
+  /**
+   * Verify credential integrity against the key it was signed with, which
+   * must belong to the tenant that issued the credential
+   */
+  static async verifyCredential(credential: Credential): Promise<boolean> {
+    const signingKey = await SigningKeyModel.findByKid(credential.kid);
+
+    if (!signingKey || signingKey.status === 'retired' || signingKey.tenant_id !== credential.tenant_id) {
+      return false;
+    }
+
+    return CryptoUtils.verifyCredentialSignature(credential, SigningKeyModel.getPublicKey(signingKey));
+  }
+
+  /**
+   * Encode a credential as a JWT signed with the active signing key of its tenant
+   */
+  static async toJwt(credential: Credential): Promise<string> {
+    const signingKey = await SigningKeyModel.ensureActiveKey(credential.tenant_id);
+
+    return CryptoUtils.signJwt(
+      VerifiableCredentialUtils.toJwtPayload(credential),
+      SigningKeyModel.getPrivateKey(signingKey),
+      signingKey.kid
+    );
+  }
+
+  /**
+   * Encode a credential as an SD-JWT signed with the active signing key of its
+   * tenant, followed by the disclosures of its holder name and attributes
+   */
+  static async toSdJwt(credential: Credential): Promise<string> {
+    const signingKey = await SigningKeyModel.ensureActiveKey(credential.tenant_id);
+    const { payload, disclosures } = SdJwtUtils.toSdJwtPayload(credential);
+
+    const jwt = CryptoUtils.signJwt(
+      payload,
+      SigningKeyModel.getPrivateKey(signingKey),
+      signingKey.kid,
+      SD_JWT_TYPE
+    );
+
+    return [jwt, ...disclosures, ''].join('~');
   }
 
   /**
@@ -150,4 +316,99 @@ export class CredentialModel {
   static isExpired(credential: Credential): boolean {
     return new Date(credential.expiry_date) < new Date();
   }
+
+  /**
+   * Build and sign a credential from a request, with the tenant as its issuer
+   * and its reserved status list index
+   */
+  private static build(
+    request: CreateCredentialRequest,
+    defaultValidityDays: number,
+    tenant: Tenant,
+    signingKey: SigningKey,
+    statusEntry: StatusListEntry | undefined,
+    previousCredentialId: string | null = null
+  ): Credential {
+    const now = new Date().toISOString();
+    const workerId = process.env.WORKER_ID || `worker-${Math.floor(Math.random() * 1000)}`;
+    
+    // Use the default validity period of the credential type if no expiry date is provided
+    const expiryDate = request.expiry_date
+      ? new Date(request.expiry_date).toISOString()
+      : new Date(Date.now() + defaultValidityDays * 24 * 60 * 60 * 1000).toISOString();
+
+    const credentialData: Omit<Credential, 'signature' | 'superseded_by' | 'superseded_at' | 'created_at' | 'updated_at'> = {
+      id: uuidv4(),
+      holder_name: request.holder_name,
+      issuer: tenant.display_name,
+      issued_date: now,
+      credential_type: request.credential_type,
+      expiry_date: expiryDate,
+      signature_algorithm: SIGNATURE_ALGORITHM,
+      kid: signingKey.kid,
+      worker_id: workerId,
+      attributes: request.attributes || {},
+      tenant_id: tenant.id,
+      previous_credential_id: previousCredentialId,
+      status_list_id: statusEntry?.status_list_id ?? null,
+      status_list_index: statusEntry?.status_list_index ?? null
+    };
+
+    // Generate signature
+    const signature = CryptoUtils.generateCredentialSignature(
+      credentialData,
+      SigningKeyModel.getPrivateKey(signingKey)
+    );
+
+    return {
+      ...credentialData,
+      signature,
+      superseded_by: null,
+      superseded_at: null,
+      created_at: now,
+      updated_at: now
+    };
+  }
+
+  private static async insert(runner: QueryRunner, credential: Credential): Promise<void> {
+    const insertQuery = `
+      INSERT INTO credentials (
+        id, holder_name, issuer, issued_date, credential_type, 
+        expiry_date, signature, signature_algorithm, kid, worker_id, attributes, tenant_id,
+        previous_credential_id, superseded_by, superseded_at, status_list_id, status_list_index,
+        created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    const params = [
+      credential.id,
+      credential.holder_name,
+      credential.issuer,
+      credential.issued_date,
+      credential.credential_type,
+      credential.expiry_date,
+      credential.signature,
+      credential.signature_algorithm,
+      credential.kid,
+      credential.worker_id,
+      JSON.stringify(credential.attributes),
+      credential.tenant_id,
+      credential.previous_credential_id,
+      credential.superseded_by,
+      credential.superseded_at,
+      credential.status_list_id,
+      credential.status_list_index,
+      credential.created_at,
+      credential.updated_at
+    ];
+
+    await runner.run(insertQuery, params);
+  }
+
+  private static fromDatabase(row: DatabaseCredential): Credential {
+    return {
+      ...row,
+      attributes: JSON.parse(row.attributes || '{}')
+    };
+  }
 }
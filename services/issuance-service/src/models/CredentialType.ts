@@ -0,0 +1,199 @@
+import { database } from '../config/database';
+import {
+  CredentialType,
+  CreateCredentialTypeRequest,
+  DatabaseCredentialType,
+  UpdateCredentialTypeRequest
+} from '../types';
+import { logger } from '../utils/logger';
+import { DEFAULT_TENANT_ID } from './Tenant';
+
+// Types available before the registry existed, seeded on first start
+const DEFAULT_CREDENTIAL_TYPES: CreateCredentialTypeRequest[] = [
+  { name: 'certificate', display_name: 'Certificate', default_validity_days: 365, is_active: true, attributes_schema: null },
+  { name: 'license', display_name: 'License', default_validity_days: 365, is_active: true, attributes_schema: null },
+  { name: 'badge', display_name: 'Badge', default_validity_days: 365, is_active: true, attributes_schema: null },
+  { name: 'diploma', display_name: 'Diploma', default_validity_days: 365, is_active: true, attributes_schema: null },
+  { name: 'permit', display_name: 'Permit', default_validity_days: 365, is_active: true, attributes_schema: null },
+  { name: 'qualification', display_name: 'Qualification', default_validity_days: 365, is_active: true, attributes_schema: null }
+];
+
+export class CredentialTypeModel {
+  /**
+   * Seed the registry of a tenant with the default types when it is empty
+   */
+  static async ensureDefaults(tenantId: string = DEFAULT_TENANT_ID): Promise<void> {
+    const count = await database.get<{ count: number }>(
+      'SELECT COUNT(*) as count FROM credential_types WHERE tenant_id = ?',
+      [tenantId]
+    );
+
+    if (count && count.count > 0) {
+      return;
+    }
+
+    for (const credentialType of DEFAULT_CREDENTIAL_TYPES) {
+      await this.create(credentialType, tenantId);
+    }
+
+    logger.info(`Seeded credential type registry with ${DEFAULT_CREDENTIAL_TYPES.length} types`, { tenantId });
+  }
+
+  /**
+   * Create a new credential type for a tenant
+   */
+  static async create(request: CreateCredentialTypeRequest, tenantId: string = DEFAULT_TENANT_ID): Promise<CredentialType> {
+    const now = new Date().toISOString();
+
+    const credentialType: CredentialType = {
+      tenant_id: tenantId,
+      name: request.name,
+      display_name: request.display_name,
+      default_validity_days: request.default_validity_days,
+      is_active: request.is_active,
+      attributes_schema: request.attributes_schema,
+      created_at: now,
+      updated_at: now
+    };
+
+    const insertQuery = `
+      INSERT INTO credential_types (
+        tenant_id, name, display_name, default_validity_days, is_active, attributes_schema, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    try {
+      await database.run(insertQuery, [
+        credentialType.tenant_id,
+        credentialType.name,
+        credentialType.display_name,
+        credentialType.default_validity_days,
+        credentialType.is_active ? 1 : 0,
+        credentialType.attributes_schema && JSON.stringify(credentialType.attributes_schema),
+        credentialType.created_at,
+        credentialType.updated_at
+      ]);
+      logger.info(`Credential type created: ${credentialType.name}`, { tenantId });
+      return credentialType;
+    } catch (error) {
+      logger.error('Error creating credential type:', error);
+      throw new Error('Failed to create credential type');
+    }
+  }
+
+  /**
+   * Find a credential type of a tenant by name
+   */
+  static async findByName(name: string, tenantId: string = DEFAULT_TENANT_ID): Promise<CredentialType | null> {
+    try {
+      const query = 'SELECT * FROM credential_types WHERE tenant_id = ? AND name = ?';
+      const result = await database.get<DatabaseCredentialType>(query, [tenantId, name]);
+
+      return result ? this.fromDatabase(result) : null;
+    } catch (error) {
+      logger.error('Error finding credential type:', error);
+      throw new Error('Failed to find credential type');
+    }
+  }
+
+  /**
+   * Get the credential types of a tenant, or of all tenants when the tenant
+   * is null, optionally only the active ones
+   */
+  static async findAll(activeOnly: boolean = false, tenantId: string | null = DEFAULT_TENANT_ID): Promise<CredentialType[]> {
+    const conditions = [
+      ...(activeOnly ? ['is_active = 1'] : []),
+      ...(tenantId !== null ? ['tenant_id = ?'] : [])
+    ];
+
+    try {
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')} ` : '';
+      const query = `SELECT * FROM credential_types ${where}ORDER BY name, tenant_id`;
+      const results = await database.all<DatabaseCredentialType>(query, tenantId !== null ? [tenantId] : []);
+
+      return results.map(result => this.fromDatabase(result));
+    } catch (error) {
+      logger.error('Error finding credential types:', error);
+      throw new Error('Failed to retrieve credential types');
+    }
+  }
+
+  /**
+   * Update the display name, default validity, active flag or attribute schema of a type
+   */
+  static async update(
+    name: string,
+    changes: UpdateCredentialTypeRequest,
+    tenantId: string = DEFAULT_TENANT_ID
+  ): Promise<CredentialType | null> {
+    const credentialType = await this.findByName(name, tenantId);
+
+    if (!credentialType) {
+      return null;
+    }
+
+    const updated: CredentialType = {
+      ...credentialType,
+      ...changes,
+      updated_at: new Date().toISOString()
+    };
+
+    try {
+      await database.run(
+        `UPDATE credential_types
+         SET display_name = ?, default_validity_days = ?, is_active = ?, attributes_schema = ?, updated_at = ?
+         WHERE tenant_id = ? AND name = ?`,
+        [
+          updated.display_name,
+          updated.default_validity_days,
+          updated.is_active ? 1 : 0,
+          updated.attributes_schema && JSON.stringify(updated.attributes_schema),
+          updated.updated_at,
+          tenantId,
+          name
+        ]
+      );
+      logger.info(`Credential type updated: ${name}`, { tenantId, changes });
+      return updated;
+    } catch (error) {
+      logger.error('Error updating credential type:', error);
+      throw new Error('Failed to update credential type');
+    }
+  }
+
+  /**
+   * Delete a credential type of a tenant
+   */
+  static async delete(name: string, tenantId: string = DEFAULT_TENANT_ID): Promise<void> {
+    try {
+      await database.run('DELETE FROM credential_types WHERE tenant_id = ? AND name = ?', [tenantId, name]);
+      logger.info(`Credential type deleted: ${name}`, { tenantId });
+    } catch (error) {
+      logger.error('Error deleting credential type:', error);
+      throw new Error('Failed to delete credential type');
+    }
+  }
+
+  /**
+   * Count the credentials a tenant issued with a type
+   */
+  static async countCredentials(name: string, tenantId: string = DEFAULT_TENANT_ID): Promise<number> {
+    try {
+      const query = 'SELECT COUNT(*) as count FROM credentials WHERE tenant_id = ? AND credential_type = ?';
+      const result = await database.get<{ count: number }>(query, [tenantId, name]);
+
+      return result?.count || 0;
+    } catch (error) {
+      logger.error('Error counting credentials by type:', error);
+      throw new Error('Failed to count credentials');
+    }
+  }
+
+  private static fromDatabase(row: DatabaseCredentialType): CredentialType {
+    return {
+      ...row,
+      is_active: row.is_active === 1,
+      attributes_schema: row.attributes_schema ? JSON.parse(row.attributes_schema) : null
+    };
+  }
+}
@@ -0,0 +1,68 @@
+import { database } from '../config/database';
+import { CredentialRevocation, RevocationReason } from '../types';
+import { logger } from '../utils/logger';
+import { StatusListModel } from './StatusList';
+
+export class RevocationModel {
+  /**
+   * Record the revocation of a credential, marking its status list as changed
+   */
+  static async create(credentialId: string, reason: RevocationReason): Promise<CredentialRevocation> {
+    const now = new Date().toISOString();
+    const workerId = process.env.WORKER_ID || `worker-${Math.floor(Math.random() * 1000)}`;
+
+    const revocation: CredentialRevocation = {
+      credential_id: credentialId,
+      reason,
+      revoked_at: now,
+      revoked_by: workerId,
+      created_at: now
+    };
+
+    const insertQuery = `
+      INSERT INTO credential_revocations (
+        credential_id, reason, revoked_at, revoked_by, created_at
+      ) VALUES (?, ?, ?, ?, ?)
+    `;
+
+    try {
+      await database.transaction(async (runner) => {
+        await runner.run(insertQuery, [
+          revocation.credential_id,
+          revocation.reason,
+          revocation.revoked_at,
+          revocation.revoked_by,
+          revocation.created_at
+        ]);
+
+        const credential = await runner.get<{ status_list_id: string | null }>(
+          'SELECT status_list_id FROM credentials WHERE id = ?',
+          [credentialId]
+        );
+        if (credential?.status_list_id) {
+          await StatusListModel.markChanged(runner, credential.status_list_id);
+        }
+      });
+      logger.info(`Credential revoked: ${credentialId}`, { credentialId, reason, workerId });
+      return revocation;
+    } catch (error) {
+      logger.error('Error revoking credential:', error);
+      throw new Error('Failed to revoke credential');
+    }
+  }
+
+  /**
+   * Find the revocation of a credential, if any
+   */
+  static async findByCredentialId(credentialId: string): Promise<CredentialRevocation | null> {
+    try {
+      const query = 'SELECT * FROM credential_revocations WHERE credential_id = ?';
+      const result = await database.get<CredentialRevocation>(query, [credentialId]);
+
+      return result || null;
+    } catch (error) {
+      logger.error('Error finding credential revocation:', error);
+      throw new Error('Failed to find credential revocation');
+    }
+  }
+}
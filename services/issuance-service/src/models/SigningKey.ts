@@ -0,0 +1,341 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { database } from '../config/database';
+import { PublicJwk, QueryRunner, SigningKey, SigningKeyStatus } from '../types';
+import { CryptoUtils, ENCRYPTED_KEY_PREFIX, SIGNATURE_ALGORITHM } from '../utils/crypto';
+import { logger } from '../utils/logger';
+import { DEFAULT_TENANT_ID } from './Tenant';
+
+/**
+ * Key that private signing keys are encrypted with at rest, from
+ * SIGNING_KEY_ENCRYPTION_KEY (32 bytes, base64 encoded)
+ */
+const getKeyEncryptionKey = (): Buffer => {
+  const encoded = process.env.SIGNING_KEY_ENCRYPTION_KEY;
+
+  if (!encoded) {
+    throw new Error('SIGNING_KEY_ENCRYPTION_KEY must be set to store signing keys');
+  }
+
+  const encryptionKey = Buffer.from(encoded, 'base64');
+  if (encryptionKey.length !== 32) {
+    throw new Error('SIGNING_KEY_ENCRYPTION_KEY must be 32 bytes, base64 encoded');
+  }
+
+  return encryptionKey;
+};
+
+export class SigningKeyModel {
+  /**
+   * Make sure a tenant has an active signing key. For the default tenant,
+   * ISSUER_PRIVATE_KEY or the key file at ISSUER_KEY_PATH is imported on first
+   * start; other tenants, or the default tenant without a configured key, get a new key.
+   */
+  static async ensureActiveKey(tenantId: string = DEFAULT_TENANT_ID): Promise<SigningKey> {
+    const activeKey = await this.findActive(tenantId);
+
+    if (activeKey) {
+      return activeKey;
+    }
+
+    if (tenantId !== DEFAULT_TENANT_ID) {
+      return this.create(CryptoUtils.generateSigningKeyPair().privateKey, 'active', tenantId);
+    }
+
+    const keyPath = process.env.ISSUER_KEY_PATH || './data/issuer-key.pem';
+    let privateKey: crypto.KeyObject;
+
+    if (process.env.ISSUER_PRIVATE_KEY) {
+      privateKey = crypto.createPrivateKey(process.env.ISSUER_PRIVATE_KEY.replace(/\\n/g, '\n'));
+      logger.info('Importing issuer signing key from ISSUER_PRIVATE_KEY');
+    } else if (fs.existsSync(keyPath)) {
+      privateKey = crypto.createPrivateKey(fs.readFileSync(keyPath));
+      logger.info(`Importing issuer signing key from ${keyPath}`);
+    } else {
+      privateKey = CryptoUtils.generateSigningKeyPair().privateKey;
+      logger.warn('No issuer signing key configured, generated a new one');
+    }
+
+    if (privateKey.asymmetricKeyType !== 'ed25519') {
+      throw new Error(`Issuer signing key must be an Ed25519 key, got ${privateKey.asymmetricKeyType}`);
+    }
+
+    return this.create(privateKey, 'active');
+  }
+
+  /**
+   * Store a signing key of a tenant. A tenant has one active key, so when another
+   * worker stored an active key first, that key is returned instead.
+   */
+  static async create(
+    privateKey: crypto.KeyObject,
+    status: SigningKeyStatus,
+    tenantId: string = DEFAULT_TENANT_ID
+  ): Promise<SigningKey> {
+    const signingKey = this.build(privateKey, status, tenantId);
+
+    try {
+      if (!await this.insert(database, signingKey)) {
+        const activeKey = await this.findActive(tenantId);
+
+        if (!activeKey) {
+          throw new Error(`Signing key ${signingKey.kid} was not stored`);
+        }
+
+        return activeKey;
+      }
+
+      logger.info(`Signing key created: ${signingKey.kid}`, { kid: signingKey.kid, tenantId, status });
+      return signingKey;
+    } catch (error) {
+      logger.error('Error creating signing key:', error);
+      throw new Error('Failed to create signing key');
+    }
+  }
+
+  /**
+   * Encrypt the private keys that were stored in plain PEM before keys were
+   * encrypted at rest. Fails when SIGNING_KEY_ENCRYPTION_KEY is not set, so
+   * the service does not start without it.
+   */
+  static async encryptStoredKeys(): Promise<number> {
+    const encryptionKey = getKeyEncryptionKey();
+    const plainKeys = await database.all<SigningKey>(
+      'SELECT * FROM signing_keys WHERE private_key NOT LIKE ?',
+      [`${ENCRYPTED_KEY_PREFIX}:%`]
+    );
+
+    for (const signingKey of plainKeys) {
+      const encrypted = CryptoUtils.encryptPrivateKey(
+        crypto.createPrivateKey(signingKey.private_key),
+        signingKey.kid,
+        encryptionKey
+      );
+      await database.run(
+        'UPDATE signing_keys SET private_key = ? WHERE kid = ? AND private_key = ?',
+        [encrypted, signingKey.kid, signingKey.private_key]
+      );
+    }
+
+    if (plainKeys.length > 0) {
+      logger.info(`Encrypted ${plainKeys.length} stored signing keys`);
+    }
+
+    return plainKeys.length;
+  }
+
+  /**
+   * Find the key currently used to sign new credentials of a tenant
+   */
+  static async findActive(tenantId: string = DEFAULT_TENANT_ID): Promise<SigningKey | null> {
+    try {
+      const query = "SELECT * FROM signing_keys WHERE tenant_id = ? AND status = 'active' ORDER BY created_at DESC LIMIT 1";
+      const result = await database.get<SigningKey>(query, [tenantId]);
+
+      return result || null;
+    } catch (error) {
+      logger.error('Error finding active signing key:', error);
+      throw new Error('Failed to find signing key');
+    }
+  }
+
+  /**
+   * Find signing key by key ID
+   */
+  static async findByKid(kid: string): Promise<SigningKey | null> {
+    try {
+      const query = 'SELECT * FROM signing_keys WHERE kid = ?';
+      const result = await database.get<SigningKey>(query, [kid]);
+
+      return result || null;
+    } catch (error) {
+      logger.error('Error finding signing key by kid:', error);
+      throw new Error('Failed to find signing key');
+    }
+  }
+
+  /**
+   * Get all signing keys, optionally filtered by status and tenant
+   */
+  static async findAll(statuses?: SigningKeyStatus[], tenantId?: string): Promise<SigningKey[]> {
+    const conditions: string[] = [];
+    const params: string[] = [];
+
+    if (statuses && statuses.length > 0) {
+      conditions.push(`status IN (${statuses.map(() => '?').join(', ')})`);
+      params.push(...statuses);
+    }
+
+    if (tenantId) {
+      conditions.push('tenant_id = ?');
+      params.push(tenantId);
+    }
+
+    try {
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')} ` : '';
+      return await database.all<SigningKey>(`SELECT * FROM signing_keys ${where}ORDER BY created_at DESC`, params);
+    } catch (error) {
+      logger.error('Error finding signing keys:', error);
+      throw new Error('Failed to retrieve signing keys');
+    }
+  }
+
+  /**
+   * Generate a new active key for a tenant and keep its previous active key for
+   * verification only. Returns null when another rotation of the tenant's key
+   * won the race.
+   */
+  static async rotate(tenantId: string = DEFAULT_TENANT_ID): Promise<SigningKey | null> {
+    const previousKey = await this.findActive(tenantId);
+    const newKey = this.build(CryptoUtils.generateSigningKeyPair().privateKey, 'active', tenantId);
+
+    try {
+      const rotated = await database.transaction(async (runner) => {
+        if (previousKey) {
+          const result = await runner.run(
+            "UPDATE signing_keys SET status = 'verify_only', updated_at = ? WHERE kid = ? AND status = 'active'",
+            [newKey.updated_at, previousKey.kid]
+          );
+
+          if (result.changes === 0) {
+            return false;
+          }
+        }
+
+        // Nothing is stored when another rotation made the tenant's first active key
+        return this.insert(runner, newKey);
+      });
+
+      if (!rotated) {
+        return null;
+      }
+
+      logger.info(`Signing key rotated, new active key: ${newKey.kid}`, { kid: newKey.kid });
+      return newKey;
+    } catch (error) {
+      logger.error('Error rotating signing key:', error);
+      throw new Error('Failed to rotate signing key');
+    }
+  }
+
+  /**
+   * Retire a verify-only key so credentials signed with it no longer verify
+   */
+  static async retire(kid: string): Promise<SigningKey | null> {
+    const signingKey = await this.findByKid(kid);
+
+    if (!signingKey) {
+      return null;
+    }
+
+    if (signingKey.status === 'active') {
+      throw new Error('The active signing key cannot be retired, rotate it first');
+    }
+
+    const now = new Date().toISOString();
+
+    try {
+      await database.run(
+        "UPDATE signing_keys SET status = 'retired', updated_at = ? WHERE kid = ?",
+        [now, kid]
+      );
+      logger.info(`Signing key retired: ${kid}`, { kid });
+      return { ...signingKey, status: 'retired', updated_at: now };
+    } catch (error) {
+      logger.error('Error retiring signing key:', error);
+      throw new Error('Failed to retire signing key');
+    }
+  }
+
+  /**
+   * Decrypt the private key object of a signing key
+   */
+  static getPrivateKey(signingKey: SigningKey): crypto.KeyObject {
+    return CryptoUtils.decryptPrivateKey(signingKey.private_key, signingKey.kid, getKeyEncryptionKey());
+  }
+
+  /**
+   * Load the public key object of a signing key
+   */
+  static getPublicKey(signingKey: SigningKey): crypto.KeyObject {
+    return crypto.createPublicKey(signingKey.public_key);
+  }
+
+  /**
+   * Public JWK representation of a signing key
+   */
+  static toJwk(signingKey: SigningKey): PublicJwk {
+    const jwk = this.getPublicKey(signingKey).export({ format: 'jwk' });
+
+    return {
+      kty: 'OKP',
+      crv: 'Ed25519',
+      x: jwk.x as string,
+      kid: signingKey.kid,
+      alg: 'EdDSA',
+      use: 'sig',
+      tenant: signingKey.tenant_id
+    };
+  }
+
+  /**
+   * Strip the private key before returning a signing key from the API
+   */
+  static toPublicView(signingKey: SigningKey): Omit<SigningKey, 'private_key'> {
+    return {
+      kid: signingKey.kid,
+      tenant_id: signingKey.tenant_id,
+      algorithm: signingKey.algorithm,
+      public_key: signingKey.public_key,
+      status: signingKey.status,
+      created_at: signingKey.created_at,
+      updated_at: signingKey.updated_at
+    };
+  }
+
+  /**
+   * Build a signing key record, with its private key encrypted for storage
+   */
+  private static build(privateKey: crypto.KeyObject, status: SigningKeyStatus, tenantId: string): SigningKey {
+    const now = new Date().toISOString();
+    const publicKey = crypto.createPublicKey(privateKey);
+    const kid = CryptoUtils.computeKeyId(publicKey);
+
+    return {
+      kid,
+      tenant_id: tenantId,
+      algorithm: SIGNATURE_ALGORITHM,
+      public_key: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+      private_key: CryptoUtils.encryptPrivateKey(privateKey, kid, getKeyEncryptionKey()),
+      status,
+      created_at: now,
+      updated_at: now
+    };
+  }
+
+  /**
+   * Insert a signing key, unless it is an active key and the tenant already has
+   * one. Returns whether the key was stored.
+   */
+  private static async insert(runner: QueryRunner, signingKey: SigningKey): Promise<boolean> {
+    const insertQuery = `
+      INSERT INTO signing_keys (
+        kid, tenant_id, algorithm, public_key, private_key, status, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (tenant_id) WHERE status = 'active' DO NOTHING
+    `;
+
+    const result = await runner.run(insertQuery, [
+      signingKey.kid,
+      signingKey.tenant_id,
+      signingKey.algorithm,
+      signingKey.public_key,
+      signingKey.private_key,
+      signingKey.status,
+      signingKey.created_at,
+      signingKey.updated_at
+    ]);
+
+    return result.changes === 1;
+  }
+}
@@ -0,0 +1,171 @@
+import { v4 as uuidv4 } from 'uuid';
+import { database } from '../config/database';
+import { QueryRunner, SignedStatusList, StatusList, StatusListEntry, StatusPurpose } from '../types';
+import { CryptoUtils } from '../utils/crypto';
+import { logger } from '../utils/logger';
+import { StatusListUtils } from '../utils/statusList';
+import { statusListCache } from '../utils/statusListCache';
+import { VerifiableCredentialUtils } from '../utils/verifiableCredential';
+import { SigningKeyModel } from './SigningKey';
+import { TenantModel } from './Tenant';
+
+export class StatusListModel {
+  /**
+   * Reserve the next free indexes in the status lists of a tenant, starting a new
+   * list when the current one is full. next_index is only advanced from the value
+   * that was read, so concurrent workers never reserve the same index. Indexes of
+   * credentials that then fail to be stored are not reused, their bits stay unset.
+   */
+  static async allocate(tenantId: string, count: number = 1): Promise<StatusListEntry[]> {
+    const entries: StatusListEntry[] = [];
+
+    try {
+      while (entries.length < count) {
+        const statusList = await this.findOpen(tenantId) || await this.create(tenantId);
+        const reserved = Math.min(count - entries.length, statusList.size - statusList.next_index);
+
+        const result = await database.run(
+          'UPDATE status_lists SET next_index = ?, updated_at = ? WHERE id = ? AND next_index = ?',
+          [statusList.next_index + reserved, new Date().toISOString(), statusList.id, statusList.next_index]
+        );
+
+        // Another worker reserved indexes of the same list in between, read it again
+        if (result.changes === 0) {
+          continue;
+        }
+
+        for (let offset = 0; offset < reserved; offset++) {
+          entries.push({ status_list_id: statusList.id, status_list_index: statusList.next_index + offset });
+        }
+      }
+
+      return entries;
+    } catch (error) {
+      logger.error('Error allocating status list indexes:', error);
+      throw new Error('Failed to allocate status list indexes');
+    }
+  }
+
+  /**
+   * Find status list by ID
+   */
+  static async findById(id: string): Promise<StatusList | null> {
+    try {
+      const result = await database.get<StatusList>('SELECT * FROM status_lists WHERE id = ?', [id]);
+
+      return result || null;
+    } catch (error) {
+      logger.error('Error finding status list:', error);
+      throw new Error('Failed to find status list');
+    }
+  }
+
+  /**
+   * Indexes whose bit is set in a status list for a status purpose: revoked
+   * credentials for revocation, renewed ones for supersession
+   */
+  static async findSetIndexes(listId: string, purpose: StatusPurpose): Promise<number[]> {
+    const query = purpose === 'revocation'
+      ? `
+        SELECT credentials.status_list_index FROM credentials
+        JOIN credential_revocations ON credential_revocations.credential_id = credentials.id
+        WHERE credentials.status_list_id = ?
+      `
+      : 'SELECT status_list_index FROM credentials WHERE status_list_id = ? AND superseded_by IS NOT NULL';
+
+    try {
+      const results = await database.all<{ status_list_index: number }>(query, [listId]);
+
+      return results.map(result => Number(result.status_list_index));
+    } catch (error) {
+      logger.error('Error finding status list entries:', error);
+      throw new Error('Failed to find status list entries');
+    }
+  }
+
+  /**
+   * Encode the current state of a status list for a status purpose as a
+   * BitstringStatusListCredential JWT signed with the active key of its tenant.
+   * A list signed earlier is reused until one of its bits is set, the key is
+   * rotated or half of its lifetime has passed.
+   */
+  static async toJwt(statusList: StatusList, purpose: StatusPurpose): Promise<SignedStatusList> {
+    const signingKey = await SigningKeyModel.ensureActiveKey(statusList.tenant_id);
+    const ttlSeconds = StatusListUtils.getTtlSeconds();
+    const cached = statusListCache.get(statusList.id, purpose, statusList.revision, signingKey.kid, ttlSeconds);
+
+    if (cached) {
+      return cached;
+    }
+
+    const tenant = await TenantModel.findById(statusList.tenant_id);
+    const setIndexes = await this.findSetIndexes(statusList.id, purpose);
+
+    const payload = StatusListUtils.toStatusListCredentialPayload(
+      statusList,
+      purpose,
+      {
+        id: VerifiableCredentialUtils.getIssuerId(statusList.tenant_id),
+        name: tenant?.display_name || statusList.tenant_id
+      },
+      StatusListUtils.encodeList(statusList.size, setIndexes)
+    );
+
+    const signed: SignedStatusList = {
+      jwt: CryptoUtils.signJwt(payload, SigningKeyModel.getPrivateKey(signingKey), signingKey.kid),
+      kid: signingKey.kid,
+      revision: statusList.revision,
+      expires_at: payload.exp * 1000
+    };
+
+    statusListCache.set(statusList.id, purpose, signed);
+    return signed;
+  }
+
+  /**
+   * Mark a status list as changed after one of its bits was set, so that
+   * workers sign it again instead of serving their cached copy
+   */
+  static async markChanged(runner: QueryRunner, listId: string): Promise<void> {
+    await runner.run(
+      'UPDATE status_lists SET revision = revision + 1, updated_at = ? WHERE id = ?',
+      [new Date().toISOString(), listId]
+    );
+  }
+
+  private static async findOpen(tenantId: string): Promise<StatusList | null> {
+    const query = 'SELECT * FROM status_lists WHERE tenant_id = ? AND next_index < size ORDER BY created_at LIMIT 1';
+    const result = await database.get<StatusList>(query, [tenantId]);
+
+    return result || null;
+  }
+
+  private static async create(tenantId: string): Promise<StatusList> {
+    const now = new Date().toISOString();
+
+    const statusList: StatusList = {
+      id: uuidv4(),
+      tenant_id: tenantId,
+      size: StatusListUtils.getListSize(),
+      next_index: 0,
+      revision: 0,
+      created_at: now,
+      updated_at: now
+    };
+
+    await database.run(
+      'INSERT INTO status_lists (id, tenant_id, size, next_index, revision, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      [
+        statusList.id,
+        statusList.tenant_id,
+        statusList.size,
+        statusList.next_index,
+        statusList.revision,
+        statusList.created_at,
+        statusList.updated_at
+      ]
+    );
+    logger.info(`Status list created: ${statusList.id}`, { tenantId, size: statusList.size });
+    return statusList;
+  }
+}
@@ -0,0 +1,76 @@
+import { database } from '../config/database';
+import { CreateTenantRequest, Tenant } from '../types';
+import { logger } from '../utils/logger';
+
+// Tenant of callers that are not bound to one, and of all data created before tenants existed
+export const DEFAULT_TENANT_ID = 'default';
+
+export class TenantModel {
+  /**
+   * Create the default tenant on first start, named after ISSUER_NAME
+   */
+  static async ensureDefault(): Promise<Tenant> {
+    const tenant = await this.findById(DEFAULT_TENANT_ID);
+
+    if (tenant) {
+      return tenant;
+    }
+
+    return this.create({
+      id: DEFAULT_TENANT_ID,
+      display_name: process.env.ISSUER_NAME || 'Kube Credential Authority'
+    });
+  }
+
+  /**
+   * Create a new tenant
+   */
+  static async create(request: CreateTenantRequest): Promise<Tenant> {
+    const now = new Date().toISOString();
+
+    const tenant: Tenant = {
+      id: request.id,
+      display_name: request.display_name,
+      created_at: now,
+      updated_at: now
+    };
+
+    try {
+      await database.run(
+        'INSERT INTO tenants (id, display_name, created_at, updated_at) VALUES (?, ?, ?, ?)',
+        [tenant.id, tenant.display_name, tenant.created_at, tenant.updated_at]
+      );
+      logger.info(`Tenant created: ${tenant.id}`, { displayName: tenant.display_name });
+      return tenant;
+    } catch (error) {
+      logger.error('Error creating tenant:', error);
+      throw new Error('Failed to create tenant');
+    }
+  }
+
+  /**
+   * Find tenant by ID
+   */
+  static async findById(id: string): Promise<Tenant | null> {
+    try {
+      const result = await database.get<Tenant>('SELECT * FROM tenants WHERE id = ?', [id]);
+
+      return result || null;
+    } catch (error) {
+      logger.error('Error finding tenant:', error);
+      throw new Error('Failed to find tenant');
+    }
+  }
+
+  /**
+   * Get all tenants
+   */
+  static async findAll(): Promise<Tenant[]> {
+    try {
+      return await database.all<Tenant>('SELECT * FROM tenants ORDER BY id');
+    } catch (error) {
+      logger.error('Error finding tenants:', error);
+      throw new Error('Failed to retrieve tenants');
+    }
+  }
+}
@@ -0,0 +1,134 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { database } from '../config/database';
+import {
+  CreateWebhookSubscriptionRequest,
+  DatabaseWebhookSubscription,
+  WebhookEventType,
+  WebhookSubscription
+} from '../types';
+import { logger } from '../utils/logger';
+
+const WEBHOOK_SECRET_PREFIX = 'whsec_';
+
+export class WebhookSubscriptionModel {
+  /**
+   * Subscribe an endpoint of a tenant to a set of events, with a new signing secret
+   */
+  static async create(request: CreateWebhookSubscriptionRequest, tenantId: string): Promise<WebhookSubscription> {
+    const now = new Date().toISOString();
+
+    const subscription: WebhookSubscription = {
+      id: uuidv4(),
+      tenant_id: tenantId,
+      url: request.url,
+      events: request.events,
+      secret: `${WEBHOOK_SECRET_PREFIX}${crypto.randomBytes(32).toString('base64url')}`,
+      created_at: now,
+      updated_at: now
+    };
+
+    const insertQuery = `
+      INSERT INTO webhook_subscriptions (
+        id, tenant_id, url, events, secret, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    try {
+      await database.run(insertQuery, [
+        subscription.id,
+        subscription.tenant_id,
+        subscription.url,
+        JSON.stringify(subscription.events),
+        subscription.secret,
+        subscription.created_at,
+        subscription.updated_at
+      ]);
+      logger.info(`Webhook subscription created: ${subscription.id}`, { tenantId, events: subscription.events });
+      return subscription;
+    } catch (error) {
+      logger.error('Error creating webhook subscription:', error);
+      throw new Error('Failed to create webhook subscription');
+    }
+  }
+
+  /**
+   * Find webhook subscription by ID
+   */
+  static async findById(id: string): Promise<WebhookSubscription | null> {
+    try {
+      const result = await database.get<DatabaseWebhookSubscription>(
+        'SELECT * FROM webhook_subscriptions WHERE id = ?',
+        [id]
+      );
+
+      return result ? this.fromDatabase(result) : null;
+    } catch (error) {
+      logger.error('Error finding webhook subscription:', error);
+      throw new Error('Failed to find webhook subscription');
+    }
+  }
+
+  /**
+   * Get all webhook subscriptions of a tenant, newest first
+   */
+  static async findAll(tenantId: string): Promise<WebhookSubscription[]> {
+    try {
+      const results = await database.all<DatabaseWebhookSubscription>(
+        'SELECT * FROM webhook_subscriptions WHERE tenant_id = ? ORDER BY created_at DESC',
+        [tenantId]
+      );
+
+      return results.map(result => this.fromDatabase(result));
+    } catch (error) {
+      logger.error('Error finding webhook subscriptions:', error);
+      throw new Error('Failed to retrieve webhook subscriptions');
+    }
+  }
+
+  /**
+   * Get the subscriptions of a tenant to an event
+   */
+  static async findByEvent(tenantId: string, eventType: WebhookEventType): Promise<WebhookSubscription[]> {
+    const subscriptions = await this.findAll(tenantId);
+
+    return subscriptions.filter(subscription => subscription.events.includes(eventType));
+  }
+
+  /**
+   * Delete a subscription along with its deliveries
+   */
+  static async delete(id: string): Promise<void> {
+    try {
+      await database.transaction(async (runner) => {
+        await runner.run('DELETE FROM webhook_deliveries WHERE subscription_id = ?', [id]);
+        await runner.run('DELETE FROM webhook_subscriptions WHERE id = ?', [id]);
+      });
+      logger.info(`Webhook subscription deleted: ${id}`);
+    } catch (error) {
+      logger.error('Error deleting webhook subscription:', error);
+      throw new Error('Failed to delete webhook subscription');
+    }
+  }
+
+  /**
+   * Subscription without its secret, as listed by the admin endpoints
+   */
+  static toPublicView(subscription: WebhookSubscription): Omit<WebhookSubscription, 'secret'> {
+    return {
+      id: subscription.id,
+      tenant_id: subscription.tenant_id,
+      url: subscription.url,
+      events: subscription.events,
+      created_at: subscription.created_at,
+      updated_at: subscription.updated_at
+    };
+  }
+
+  private static fromDatabase(row: DatabaseWebhookSubscription): WebhookSubscription {
+    return {
+      ...row,
+      events: JSON.parse(row.events)
+    };
+  }
+}
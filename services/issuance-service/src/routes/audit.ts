@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { AuditController } from '../controllers/auditController';
+import { audit } from '../middleware/audit';
+import { requireRole } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * @route   GET /api/audit
+ * @desc    List audit log entries, filtered by action, actor_id, resource_id, from and to
+ * @access  Auditor
+ */
+router.get('/', audit('audit.list'), requireRole('auditor'), AuditController.listEntries);
+
+/**
+ * @route   GET /api/audit/verify
+ * @desc    Verify the integrity of the audit log hash chain
+ * @access  Auditor
+ */
+router.get('/verify', audit('audit.verify'), requireRole('auditor'), AuditController.verifyChain);
+
+export default router;
@@ -0,0 +1,50 @@
+import { Router } from 'express';
+import { CredentialTypeController } from '../controllers/credentialTypeController';
+import { audit } from '../middleware/audit';
+import { requireAdmin, requireAdminKey } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * @route   GET /api/credential-types
+ * @desc    List credential types
+ * @access  Public, Admin key for the types of every tenant (?all_tenants=true)
+ */
+router.get('/', (req, res, next) => {
+  if (req.query.all_tenants === 'true') {
+    requireAdminKey(req, res, next);
+    return;
+  }
+
+  next();
+}, CredentialTypeController.listTypes);
+
+/**
+ * @route   GET /api/credential-types/:name
+ * @desc    Get credential type by name
+ * @access  Public
+ */
+router.get('/:name', CredentialTypeController.getType);
+
+/**
+ * @route   POST /api/credential-types
+ * @desc    Add a credential type
+ * @access  Admin
+ */
+router.post('/', audit('credential_type.create'), requireAdmin, CredentialTypeController.createType);
+
+/**
+ * @route   PUT /api/credential-types/:name
+ * @desc    Update a credential type
+ * @access  Admin
+ */
+router.put('/:name', audit('credential_type.update'), requireAdmin, CredentialTypeController.updateType);
+
+/**
+ * @route   DELETE /api/credential-types/:name
+ * @desc    Delete a credential type
+ * @access  Admin
+ */
+router.delete('/:name', audit('credential_type.delete'), requireAdmin, CredentialTypeController.deleteType);
+
+export default router;
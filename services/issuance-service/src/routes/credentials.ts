@@ -1,28 +1,79 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { CredentialController } from '../controllers/credentialController';
+import { audit } from '../middleware/audit';
+import { requireAdmin, requireRole } from '../middleware/auth';
+import { CSV_MEDIA_TYPE } from '../utils/csv';
 
 const router = Router();
 
 /**
  * @route   POST /api/credentials
  * @desc    Issue a new credential
- * @access  Public
+ * @access  Issuer
+ */
+router.post('/', audit('credential.issue'), requireRole('issuer'), CredentialController.issueCredential);
+
+/**
+ * @route   POST /api/credentials/batch
+ * @desc    Issue a batch of credentials
+ * @access  Issuer
  */
-router.post('/', CredentialController.issueCredential);
+router.post('/batch', audit('credential.issue_batch'), requireRole('issuer'), CredentialController.issueCredentialBatch);
+
+/**
+ * @route   POST /api/credentials/import
+ * @desc    Import credentials from a CSV file, or check it with ?dry_run=true
+ * @access  Issuer
+ */
+router.post(
+  '/import',
+  audit('credential.import'),
+  requireRole('issuer'),
+  express.text({ type: [CSV_MEDIA_TYPE, 'text/plain'], limit: '5mb' }),
+  CredentialController.importCredentials
+);
 
 /**
  * @route   GET /api/credentials/:id
  * @desc    Get credential by ID
  * @access  Public
  */
-router.get('/:id', CredentialController.getCredential);
+router.get('/:id', audit('credential.read'), CredentialController.getCredential);
+
+/**
+ * @route   GET /api/credentials/:id/qr
+ * @desc    Get a QR code for a credential as PNG or SVG
+ * @access  Public
+ */
+router.get('/:id/qr', audit('credential.read_qr'), CredentialController.getCredentialQrCode);
+
+/**
+ * @route   GET /api/credentials/:id/pdf
+ * @desc    Get a credential as a printable PDF
+ * @access  Public
+ */
+router.get('/:id/pdf', audit('credential.read_pdf'), CredentialController.getCredentialPdf);
+
+/**
+ * @route   POST /api/credentials/:id/revoke
+ * @desc    Revoke a credential
+ * @access  Admin
+ */
+router.post('/:id/revoke', audit('credential.revoke'), requireAdmin, CredentialController.revokeCredential);
+
+/**
+ * @route   POST /api/credentials/:id/renew
+ * @desc    Issue a renewal of a credential and mark the credential superseded
+ * @access  Issuer
+ */
+router.post('/:id/renew', audit('credential.renew'), requireRole('issuer'), CredentialController.renewCredential);
 
 /**
  * @route   GET /api/credentials
  * @desc    Get all credentials with pagination
- * @access  Public
+ * @access  Auditor
  */
-router.get('/', CredentialController.getAllCredentials);
+router.get('/', audit('credential.list'), requireRole('auditor'), CredentialController.getAllCredentials);
 
 export default router;
 
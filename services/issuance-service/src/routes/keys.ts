@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { KeyController } from '../controllers/keyController';
+import { audit } from '../middleware/audit';
+import { requireAdmin } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * @route   GET /api/keys
+ * @desc    List signing keys and their status
+ * @access  Admin
+ */
+router.get('/', audit('signing_key.list'), requireAdmin, KeyController.listKeys);
+
+/**
+ * @route   POST /api/keys/rotate
+ * @desc    Rotate the active signing key
+ * @access  Admin
+ */
+router.post('/rotate', audit('signing_key.rotate'), requireAdmin, KeyController.rotateKey);
+
+/**
+ * @route   POST /api/keys/:kid/retire
+ * @desc    Retire a verify-only signing key
+ * @access  Admin
+ */
+router.post('/:kid/retire', audit('signing_key.retire'), requireAdmin, KeyController.retireKey);
+
+export default router;
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { MetricsController } from '../controllers/metricsController';
+
+const router = Router();
+
+/**
+ * @route   GET /metrics
+ * @desc    Prometheus metrics of this worker
+ * @access  Public
+ */
+router.get('/', MetricsController.getMetrics);
+
+export default router;
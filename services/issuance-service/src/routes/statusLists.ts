@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { StatusListController } from '../controllers/statusListController';
+
+const router = Router();
+
+/**
+ * @route   GET /api/status-lists/:id/:purpose
+ * @desc    Signed bitstring status list for the revocation or supersession purpose
+ * @access  Public
+ */
+router.get('/:id/:purpose', StatusListController.getStatusList);
+
+export default router;
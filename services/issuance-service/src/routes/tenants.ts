@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { TenantController } from '../controllers/tenantController';
+import { audit } from '../middleware/audit';
+import { requireAdminKey } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * @route   GET /api/tenants
+ * @desc    List tenants
+ * @access  Admin key
+ */
+router.get('/', audit('tenant.list'), requireAdminKey, TenantController.listTenants);
+
+/**
+ * @route   POST /api/tenants
+ * @desc    Create a tenant with its own signing key and credential types
+ * @access  Admin key
+ */
+router.post('/', audit('tenant.create'), requireAdminKey, TenantController.createTenant);
+
+/**
+ * @route   GET /api/tenants/:id
+ * @desc    Get a tenant by ID
+ * @access  Public
+ */
+router.get('/:id', TenantController.getTenant);
+
+export default router;
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { KeyController } from '../controllers/keyController';
+
+const router = Router();
+
+/**
+ * @route   GET /.well-known/keys
+ * @desc    Published key set (JWKS) for verifying credential signatures
+ * @access  Public
+ */
+router.get('/keys', KeyController.getJwks);
+
+export default router;
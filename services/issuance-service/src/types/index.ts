@@ -6,15 +6,144 @@ export interface Credential {
   credential_type: string;
   expiry_date: string;
   signature: string;
+  signature_algorithm: string;
+  kid: string;
   worker_id: string;
+  attributes: CredentialAttributes;
+  tenant_id: string;
+  // Credential this one renews
+  previous_credential_id: string | null;
+  // Renewal that replaced this credential
+  superseded_by: string | null;
+  superseded_at: string | null;
+  // Position in a status list of the tenant, null for credentials issued before status lists existed
+  status_list_id: string | null;
+  status_list_index: number | null;
   created_at: string;
   updated_at: string;
 }
 
+export type CredentialAttributes = Record<string, unknown>;
+
 export interface CreateCredentialRequest {
   holder_name: string;
   credential_type: string;
   expiry_date?: string;
+  attributes?: CredentialAttributes;
+}
+
+export interface RenewCredentialRequest {
+  expiry_date?: string;
+}
+
+export type BatchItemStatus = 'created' | 'valid' | 'conflict' | 'invalid';
+
+// Outcome of one item of a batch issuance request, in request order
+export interface BatchCredentialResult {
+  index: number;
+  status: BatchItemStatus;
+  credential?: Credential;
+  existing_credential_id?: string;
+  errors?: string[];
+}
+
+export type CsvImportField = 'holder_name' | 'credential_type' | 'expiry_date';
+
+export interface CsvImportOptions {
+  dry_run: boolean;
+  columns?: Partial<Record<CsvImportField, string>>;
+}
+
+export type QrCodeFormat = 'png' | 'svg';
+
+// Layout and wording of the printable PDF of a credential type
+export interface CertificateTemplate {
+  title: string;
+  statement: string;
+  layout: 'landscape' | 'portrait';
+  accentColor: string;
+}
+
+// An organization issuing from this deployment, with its own signing keys, credential types and API keys
+export interface Tenant {
+  id: string;
+  display_name: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateTenantRequest {
+  id: string;
+  display_name: string;
+}
+
+// A bitstring with one bit per credential index, published once for each status purpose
+export interface StatusList {
+  id: string;
+  tenant_id: string;
+  size: number;
+  next_index: number;
+  // Goes up whenever a bit of the list is set
+  revision: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// A status list JWT signed for one status purpose, valid until expires_at (epoch milliseconds)
+export interface SignedStatusList {
+  jwt: string;
+  kid: string;
+  revision: number;
+  expires_at: number;
+}
+
+// What a set bit means in a published status list
+export type StatusPurpose = 'revocation' | 'supersession';
+
+export interface StatusListEntry {
+  status_list_id: string;
+  status_list_index: number;
+}
+
+export interface CredentialType {
+  tenant_id: string;
+  name: string;
+  display_name: string;
+  default_validity_days: number;
+  is_active: boolean;
+  attributes_schema: Record<string, unknown> | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateCredentialTypeRequest {
+  name: string;
+  display_name: string;
+  default_validity_days: number;
+  is_active: boolean;
+  attributes_schema: Record<string, unknown> | null;
+}
+
+export type UpdateCredentialTypeRequest = Partial<Omit<CreateCredentialTypeRequest, 'name'>>;
+
+export type RevocationReason =
+  | 'unspecified'
+  | 'key_compromise'
+  | 'affiliation_changed'
+  | 'superseded'
+  | 'cessation_of_operation'
+  | 'privilege_withdrawn';
+
+export interface RevokeCredentialRequest {
+  reason: RevocationReason;
+}
+
+export interface CredentialRevocation {
+  credential_id: string;
+  reason: RevocationReason;
+  revoked_at: string;
+  revoked_by: string;
+  created_at: string;
 }
 
 export interface ApiResponse<T = any> {
@@ -33,11 +162,311 @@ export interface DatabaseCredential {
   credential_type: string;
   expiry_date: string;
   signature: string;
+  signature_algorithm: string;
+  kid: string;
   worker_id: string;
+  attributes: string;
+  tenant_id: string;
+  previous_credential_id: string | null;
+  superseded_by: string | null;
+  superseded_at: string | null;
+  status_list_id: string | null;
+  status_list_index: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DatabaseCredentialType {
+  tenant_id: string;
+  name: string;
+  display_name: string;
+  default_validity_days: number;
+  is_active: number;
+  attributes_schema: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export type Role = 'issuer' | 'verifier' | 'auditor' | 'admin';
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  key_prefix: string;
+  key_hash: string;
+  roles: Role[];
+  tenant_id: string;
+  created_at: string;
+  revoked_at: string | null;
+}
+
+export interface DatabaseApiKey extends Omit<ApiKey, 'roles'> {
+  roles: string;
+}
+
+export interface CreateApiKeyRequest {
+  name: string;
+  roles: Role[];
+}
+
+// The caller of a request, from an API key, a bearer token or the admin key
+export interface Principal {
+  id: string;
+  type: 'api_key' | 'bearer_token' | 'admin_key';
+  roles: Role[];
+  tenant_id: string;
+}
+
+// An entry of the append-only audit log. Entries are numbered without gaps and each
+// holds the hash of the entry before it, so a removed or changed entry breaks the chain.
+export interface AuditLogEntry {
+  id: string;
+  sequence: number;
+  tenant_id: string;
+  action: string;
+  actor_id: string | null;
+  actor_type: Principal['type'] | 'anonymous';
+  resource_id: string | null;
+  worker_id: string;
+  method: string;
+  path: string;
+  status_code: number;
+  ip: string | null;
+  user_agent: string | null;
+  created_at: string;
+  previous_hash: string;
+  hash: string;
+}
+
+export type NewAuditLogEntry = Omit<AuditLogEntry, 'id' | 'sequence' | 'created_at' | 'previous_hash' | 'hash'>;
+
+export interface AuditLogQuery {
+  action?: string;
+  actor_id?: string;
+  resource_id?: string;
+  from?: string;
+  to?: string;
+  limit: number;
+  offset: number;
+}
+
+// Head of the audit log when an entry was appended, signed with a signing key
+// of the default tenant. Kept in its own table, one row per entry.
+export interface AuditLogAnchor {
+  sequence: number;
+  hash: string;
+  kid: string;
+  // Compact JWS over the sequence and hash
+  signed_head: string;
+  created_at: string;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  entries_checked: number;
+  head: { sequence: number; hash: string } | null;
+  // Latest signed head, which can be published to detect a log rewritten together with its anchors
+  anchor: AuditLogAnchor | null;
+  first_invalid_sequence?: number;
+  error?: string;
+}
+
+export type WebhookEventType = 'credential.issued' | 'credential.revoked' | 'credential.expired';
+
+// An endpoint of a tenant that is sent the events it subscribes to
+export interface WebhookSubscription {
+  id: string;
+  tenant_id: string;
+  url: string;
+  events: WebhookEventType[];
+  // Key of the HMAC-SHA256 signature of each delivery
+  secret: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DatabaseWebhookSubscription extends Omit<WebhookSubscription, 'events'> {
+  events: string;
+}
+
+export interface CreateWebhookSubscriptionRequest {
+  url: string;
+  events: WebhookEventType[];
+}
+
+// Body of a webhook request
+export interface WebhookEvent<T = unknown> {
+  id: string;
+  type: WebhookEventType;
+  tenant_id: string;
+  created_at: string;
+  data: T;
+}
+
+// Deliveries are retried while pending and end up in the dead-letter list when attempts run out
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'dead';
+
+export interface WebhookDelivery {
+  id: string;
+  subscription_id: string;
+  tenant_id: string;
+  event_id: string;
+  event_type: WebhookEventType;
+  // Serialized WebhookEvent, sent unchanged on every attempt
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_attempt_at: string | null;
+  last_response_status: number | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type SigningKeyStatus = 'active' | 'verify_only' | 'retired';
+
+export interface SigningKey {
+  kid: string;
+  tenant_id: string;
+  algorithm: string;
+  public_key: string;
+  private_key: string;
+  status: SigningKeyStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PublicJwk {
+  kty: 'OKP';
+  crv: 'Ed25519';
+  x: string;
+  kid: string;
+  alg: 'EdDSA';
+  use: 'sig';
+  // Tenant whose credentials the key signs
+  tenant: string;
+}
+
+export interface VerifiableCredentialProof {
+  type: string;
+  created: string;
+  verificationMethod: string;
+  proofPurpose: 'assertionMethod';
+  proofValue: string;
+  workerId: string;
+}
+
+export interface CredentialStatus {
+  id: string;
+  type: 'BitstringStatusListEntry';
+  statusPurpose: StatusPurpose;
+  statusListIndex: string;
+  statusListCredential: string;
+}
+
+export interface VerifiableCredential {
+  '@context': string[];
+  id: string;
+  type: string[];
+  issuer: {
+    id: string;
+    name: string;
+  };
+  validFrom: string;
+  validUntil: string;
+  credentialSubject: {
+    name: string;
+    credentialType: string;
+    attributes: CredentialAttributes;
+  };
+  credentialStatus?: CredentialStatus[];
+  proof: VerifiableCredentialProof;
+}
+
+export interface JwtCredentialPayload {
+  iss: string;
+  sub: string;
+  nbf: number;
+  exp: number;
+  iat: number;
+  jti: string;
+  vc: Omit<VerifiableCredential, 'proof'>;
+}
+
+export interface SdJwtCredentialPayload extends Omit<JwtCredentialPayload, 'sub' | 'vc'> {
+  _sd_alg: string;
+  vc: Omit<VerifiableCredential, 'proof' | 'credentialSubject'> & {
+    credentialSubject: {
+      credentialType: string;
+      _sd: string[];
+      attributes: {
+        _sd: string[];
+      };
+    };
+  };
+}
+
+// JWT claims of a published status list, with the BitstringStatusListCredential in the vc claim
+export interface StatusListCredentialPayload {
+  iss: string;
+  iat: number;
+  exp: number;
+  jti: string;
+  vc: {
+    '@context': string[];
+    id: string;
+    type: string[];
+    issuer: {
+      id: string;
+      name: string;
+    };
+    validFrom: string;
+    validUntil: string;
+    credentialSubject: {
+      id: string;
+      type: 'BitstringStatusList';
+      statusPurpose: StatusPurpose;
+      encodedList: string;
+      ttl: number;
+    };
+  };
+}
+
+export type DatabaseClient = 'sqlite' | 'postgres';
+
+export interface RunResult {
+  changes: number;
+}
+
+// Queries are written with ? placeholders, which each driver translates to its own syntax
+export interface QueryRunner {
+  run(query: string, params?: any[]): Promise<RunResult>;
+  get<T>(query: string, params?: any[]): Promise<T | undefined>;
+  all<T>(query: string, params?: any[]): Promise<T[]>;
+  getColumnNames(table: string): Promise<string[]>;
+}
+
+export interface DatabaseDriver extends QueryRunner {
+  readonly client: DatabaseClient;
+  connect(): Promise<void>;
+  close(): Promise<void>;
+  transaction<T>(action: (runner: QueryRunner) => Promise<T>): Promise<T>;
+}
+
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: QueryRunner): Promise<void>;
+  down(db: QueryRunner): Promise<void>;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied_at: string | null;
+}
+
 export interface HealthCheck {
   status: 'healthy' | 'unhealthy';
   timestamp: string;
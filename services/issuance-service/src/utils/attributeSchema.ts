@@ -0,0 +1,50 @@
+import Ajv, { ValidateFunction } from 'ajv';
+import { CredentialAttributes } from '../types';
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+
+// Compiled validators keyed by serialized schema, so each schema is compiled once
+const validators = new Map<string, ValidateFunction>();
+
+export class AttributeSchemaUtils {
+  /**
+   * Describe what is wrong with an attribute schema, or return null if it can be used
+   */
+  static getSchemaError(schema: Record<string, unknown>): string | null {
+    if (schema.type !== 'object') {
+      return 'Attribute schema must describe an object (type: "object")';
+    }
+
+    try {
+      this.getValidator(schema);
+      return null;
+    } catch (error) {
+      return `Invalid attribute schema: ${(error as Error).message}`;
+    }
+  }
+
+  /**
+   * Validate credential attributes against the attribute schema of their type
+   */
+  static validateAttributes(schema: Record<string, unknown>, attributes: CredentialAttributes): string[] {
+    const validate = this.getValidator(schema);
+
+    if (validate(attributes)) {
+      return [];
+    }
+
+    return (validate.errors || []).map(error => `attributes${error.instancePath.replace(/\//g, '.')} ${error.message}`);
+  }
+
+  private static getValidator(schema: Record<string, unknown>): ValidateFunction {
+    const key = JSON.stringify(schema);
+    let validate = validators.get(key);
+
+    if (!validate) {
+      validate = ajv.compile(schema);
+      validators.set(key, validate);
+    }
+
+    return validate;
+  }
+}
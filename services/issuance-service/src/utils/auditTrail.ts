@@ -0,0 +1,30 @@
+import { AuditLogModel } from '../models/AuditLog';
+import { NewAuditLogEntry } from '../types';
+
+export class AuditTrail {
+  private pending: Promise<void> = Promise.resolve();
+
+  /**
+   * Append an entry to the audit log, resolving once it is stored and rejecting
+   * when it cannot be. Entries of this worker are appended one at a time, in the
+   * order they are recorded, so they do not compete for the same sequence number.
+   */
+  record(entry: NewAuditLogEntry): Promise<void> {
+    const appended = this.pending.then(async () => {
+      await AuditLogModel.append(entry);
+    });
+
+    // A failed entry does not hold up the ones recorded after it
+    this.pending = appended.catch((): void => undefined);
+    return appended;
+  }
+
+  /**
+   * Wait until the entries recorded so far are appended
+   */
+  flush(): Promise<void> {
+    return this.pending;
+  }
+}
+
+export const auditTrail = new AuditTrail();
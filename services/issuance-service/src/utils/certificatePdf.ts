@@ -0,0 +1,117 @@
+import crypto from 'crypto';
+import PDFDocument from 'pdfkit';
+import { CertificateTemplate, Credential } from '../types';
+
+export const PDF_MEDIA_TYPE = 'application/pdf';
+
+const DEFAULT_TEMPLATE: CertificateTemplate = {
+  title: 'Credential',
+  statement: 'This is to certify that',
+  layout: 'landscape',
+  accentColor: '#1565c0'
+};
+
+/**
+ * Wording and styling of the seeded credential types. The title is the display
+ * name from the credential type registry, and other types use the default template.
+ */
+export const CERTIFICATE_TEMPLATES: Record<string, Partial<CertificateTemplate>> = {
+  certificate: { statement: 'This certificate is awarded to' },
+  diploma: { statement: 'This diploma is conferred upon', accentColor: '#6a1b9a' },
+  license: { statement: 'This license is granted to', layout: 'portrait', accentColor: '#2e7d32' },
+  permit: { statement: 'This permit is issued to', layout: 'portrait', accentColor: '#ef6c00' },
+  badge: { statement: 'This badge is awarded to', accentColor: '#00838f' },
+  qualification: { statement: 'This qualification is held by', accentColor: '#4e342e' }
+};
+
+interface CertificateOptions {
+  displayName?: string;
+  qrCode: Buffer;
+}
+
+export class CertificatePdfUtils {
+  static getTemplate(credentialType: string, displayName?: string): CertificateTemplate {
+    return {
+      ...DEFAULT_TEMPLATE,
+      ...CERTIFICATE_TEMPLATES[credentialType],
+      title: displayName || DEFAULT_TEMPLATE.title
+    };
+  }
+
+  /**
+   * SHA-256 fingerprint of a credential signature, in groups of four hex digits
+   * so it can be compared by eye against the issued credential
+   */
+  static getSignatureFingerprint(signature: string): string {
+    const digest = crypto.createHash('sha256').update(signature).digest('hex').toUpperCase();
+    return digest.match(/.{4}/g)!.join(' ');
+  }
+
+  /**
+   * Render a credential as a printable PDF with a verification QR code
+   */
+  static render(credential: Credential, options: CertificateOptions): Promise<Buffer> {
+    const template = this.getTemplate(credential.credential_type, options.displayName);
+    const doc = new PDFDocument({
+      size: 'A4',
+      layout: template.layout,
+      margin: 50,
+      info: {
+        Title: `${template.title} - ${credential.holder_name}`,
+        Author: credential.issuer,
+        Subject: `Credential ${credential.id}`
+      }
+    });
+
+    const chunks: Buffer[] = [];
+    const rendered = new Promise<Buffer>((resolve, reject) => {
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    const { width, height } = doc.page;
+    const contentWidth = width - 100;
+    const formatDate = (date: string) => new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      timeZone: 'UTC'
+    });
+
+    doc.rect(20, 20, width - 40, height - 40).lineWidth(4).stroke(template.accentColor);
+    doc.rect(30, 30, width - 60, height - 60).lineWidth(1).stroke(template.accentColor);
+
+    doc.moveDown(2);
+    doc.font('Times-Bold').fontSize(40).fillColor(template.accentColor)
+      .text(template.title, { align: 'center', width: contentWidth });
+    doc.moveDown(1.5);
+    doc.font('Times-Roman').fontSize(16).fillColor('#333333')
+      .text(template.statement, { align: 'center', width: contentWidth });
+    doc.moveDown(0.5);
+    doc.font('Times-BoldItalic').fontSize(32).fillColor('#000000')
+      .text(credential.holder_name, { align: 'center', width: contentWidth });
+    doc.moveDown(1);
+    doc.font('Helvetica').fontSize(12).fillColor('#333333')
+      .text(`Issued by ${credential.issuer}`, { align: 'center', width: contentWidth })
+      .text(`Issued on ${formatDate(credential.issued_date)}`, { align: 'center', width: contentWidth })
+      .text(`Valid until ${formatDate(credential.expiry_date)}`, { align: 'center', width: contentWidth });
+
+    // Verification details along the bottom edge, with the QR code on the right
+    const qrSize = 110;
+    const footerY = height - 60 - qrSize;
+
+    const details = { width: contentWidth - qrSize - 20 };
+
+    doc.image(options.qrCode, width - 60 - qrSize, footerY, { width: qrSize, height: qrSize });
+    doc.font('Helvetica').fontSize(8).fillColor('#555555')
+      .text(`Credential ID: ${credential.id}`, 60, footerY + 30, details)
+      .text(`Credential type: ${credential.credential_type}`, details)
+      .text(`Signature (${credential.signature_algorithm}, key ${credential.kid}) SHA-256 fingerprint:`, details)
+      .font('Courier').text(this.getSignatureFingerprint(credential.signature), details)
+      .font('Helvetica').text('Scan the QR code to verify this credential.', details);
+
+    doc.end();
+    return rendered;
+  }
+}
@@ -1,42 +1,193 @@
 import crypto from 'crypto';
 import { Credential } from '../types';
 
+export const SIGNATURE_ALGORITHM = 'Ed25519';
+
+// Marks private keys stored encrypted by CryptoUtils.encryptPrivateKey
+export const ENCRYPTED_KEY_PREFIX = 'enc:v1';
+
+type UnsignedCredential = Omit<Credential, 'signature' | 'superseded_by' | 'superseded_at' | 'created_at' | 'updated_at'>;
+
 export class CryptoUtils {
   /**
-   * Generate a secure signature for a credential
+   * Build the canonical payload that is covered by the signature
    */
-  static generateCredentialSignature(credential: Omit<Credential, 'signature' | 'created_at' | 'updated_at'>): string {
-    const data = JSON.stringify({
+  static getSigningPayload(credential: UnsignedCredential): string {
+    return JSON.stringify({
       id: credential.id,
       holder_name: credential.holder_name,
       issuer: credential.issuer,
       issued_date: credential.issued_date,
       credential_type: credential.credential_type,
       expiry_date: credential.expiry_date,
-      worker_id: credential.worker_id
+      worker_id: credential.worker_id,
+      signature_algorithm: credential.signature_algorithm,
+      kid: credential.kid,
+      // Left out when empty so signatures made before attributes existed stay valid
+      ...(credential.attributes && Object.keys(credential.attributes).length > 0 && {
+        attributes: this.canonicalize(credential.attributes)
+      }),
+      // Left out for credentials issued before status lists existed
+      ...(credential.status_list_id && {
+        status_list_id: credential.status_list_id,
+        status_list_index: credential.status_list_index
+      })
     });
-    
+  }
+
+  /**
+   * Sort object keys recursively so equal values always serialize the same way
+   */
+  static canonicalize(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map(item => this.canonicalize(item));
+    }
+
+    if (value !== null && typeof value === 'object') {
+      return Object.keys(value as Record<string, unknown>)
+        .sort()
+        .reduce<Record<string, unknown>>((sorted, key) => {
+          sorted[key] = this.canonicalize((value as Record<string, unknown>)[key]);
+          return sorted;
+        }, {});
+    }
+
+    return value;
+  }
+
+  /**
+   * Generate an Ed25519 signature for a credential
+   */
+  static generateCredentialSignature(credential: UnsignedCredential, privateKey: crypto.KeyObject): string {
     return crypto
-      .createHash('sha256')
-      .update(data + (process.env.JWT_SECRET || 'default-secret'))
-      .digest('hex');
+      .sign(null, Buffer.from(this.getSigningPayload(credential)), privateKey)
+      .toString('base64url');
   }
 
   /**
-   * Verify a credential signature
+   * Verify a credential signature against the public key named by its kid
    */
-  static verifyCredentialSignature(credential: Credential): boolean {
-    const expectedSignature = this.generateCredentialSignature({
-      id: credential.id,
-      holder_name: credential.holder_name,
-      issuer: credential.issuer,
-      issued_date: credential.issued_date,
-      credential_type: credential.credential_type,
-      expiry_date: credential.expiry_date,
-      worker_id: credential.worker_id
-    });
-    
-    return expectedSignature === credential.signature;
+  static verifyCredentialSignature(credential: Credential, publicKey: crypto.KeyObject): boolean {
+    if (credential.signature_algorithm !== SIGNATURE_ALGORITHM) {
+      return false;
+    }
+
+    try {
+      return crypto.verify(
+        null,
+        Buffer.from(this.getSigningPayload(credential)),
+        publicKey,
+        Buffer.from(credential.signature, 'base64url')
+      );
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Sign a payload as a compact EdDSA JWS, naming the signing key in the header
+   */
+  static signJwt(payload: object, privateKey: crypto.KeyObject, kid: string, typ: string = 'JWT'): string {
+    const header = Buffer.from(JSON.stringify({ alg: 'EdDSA', typ, kid })).toString('base64url');
+    const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    const signature = crypto.sign(null, Buffer.from(`${header}.${body}`), privateKey).toString('base64url');
+
+    return `${header}.${body}.${signature}`;
+  }
+
+  /**
+   * Verify a compact EdDSA JWS and return its payload, or null when the
+   * signature does not hold
+   */
+  static verifyJwt<T = unknown>(token: string, publicKey: crypto.KeyObject): T | null {
+    const [header = '', payload = '', signature = ''] = token.split('.');
+
+    try {
+      if (JSON.parse(Buffer.from(header, 'base64url').toString()).alg !== 'EdDSA') {
+        return null;
+      }
+
+      const valid = crypto.verify(
+        null,
+        Buffer.from(`${header}.${payload}`),
+        publicKey,
+        Buffer.from(signature, 'base64url')
+      );
+
+      return valid ? JSON.parse(Buffer.from(payload, 'base64url').toString()) : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Generate a new Ed25519 key pair
+   */
+  static generateSigningKeyPair(): crypto.KeyPairKeyObjectResult {
+    return crypto.generateKeyPairSync('ed25519');
+  }
+
+  /**
+   * Encrypt a private key for storage with AES-256-GCM under a key-encryption
+   * key. The key ID is bound as associated data, so a stored key cannot be
+   * moved to another key's row.
+   */
+  static encryptPrivateKey(privateKey: crypto.KeyObject, kid: string, encryptionKey: Buffer): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey, iv);
+    cipher.setAAD(Buffer.from(kid));
+    const ciphertext = Buffer.concat([
+      cipher.update(privateKey.export({ type: 'pkcs8', format: 'der' })),
+      cipher.final()
+    ]);
+
+    return [
+      ENCRYPTED_KEY_PREFIX,
+      iv.toString('base64url'),
+      cipher.getAuthTag().toString('base64url'),
+      ciphertext.toString('base64url')
+    ].join(':');
+  }
+
+  /**
+   * Decrypt a private key stored by encryptPrivateKey
+   */
+  static decryptPrivateKey(encrypted: string, kid: string, encryptionKey: Buffer): crypto.KeyObject {
+    const [prefix, version, iv, authTag, ciphertext] = encrypted.split(':');
+
+    if (`${prefix}:${version}` !== ENCRYPTED_KEY_PREFIX || !iv || !authTag || !ciphertext) {
+      throw new Error('Private key is not encrypted');
+    }
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey, Buffer.from(iv, 'base64url'));
+    decipher.setAAD(Buffer.from(kid));
+    decipher.setAuthTag(Buffer.from(authTag, 'base64url'));
+    const der = Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]);
+
+    return crypto.createPrivateKey({ key: der, format: 'der', type: 'pkcs8' });
+  }
+
+  /**
+   * Compute the RFC 7638 JWK thumbprint of a public key
+   */
+  static computeKeyId(publicKey: crypto.KeyObject): string {
+    const jwk = publicKey.export({ format: 'jwk' });
+    const canonical = JSON.stringify({ crv: jwk.crv, kty: jwk.kty, x: jwk.x });
+
+    return crypto.createHash('sha256').update(canonical).digest('base64url');
+  }
+
+  /**
+   * Sign a webhook payload with the secret of its subscription, over the
+   * timestamp and the body so that a captured delivery cannot be replayed later
+   */
+  static generateWebhookSignature(secret: string, timestamp: string, body: string): string {
+    const signature = crypto
+      .createHmac('sha256', secret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+
+    return `sha256=${signature}`;
   }
 
   /**
@@ -56,4 +207,3 @@ export class CryptoUtils {
       .digest('hex');
   }
 }
-
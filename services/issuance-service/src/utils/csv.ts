@@ -0,0 +1,80 @@
+export const CSV_MEDIA_TYPE = 'text/csv';
+
+export class CsvUtils {
+  /**
+   * Parse CSV text (RFC 4180) into rows of fields. Fields may be quoted, with
+   * "" for a quote inside a quoted field, and lines may end in LF or CRLF.
+   */
+  static parse(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let i = text.charCodeAt(0) === 0xfeff ? 1 : 0; // Spreadsheet exports often start with a BOM
+
+    for (; i < text.length; i++) {
+      const char = text[i];
+
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') {
+          i++;
+        }
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (inQuotes) {
+      throw new Error('CSV has an unterminated quoted field');
+    }
+
+    if (field !== '' || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    return rows;
+  }
+
+  /**
+   * Write rows as CSV text, quoting fields that contain commas, quotes or line
+   * breaks. Values are written as they are; pass free text through escapeFormula.
+   */
+  static stringify(rows: (string | number | null | undefined)[][]): string {
+    return rows
+      .map(row => row
+        .map(value => {
+          const field = value === null || value === undefined ? '' : String(value);
+          return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+        })
+        .join(','))
+      .join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Prefix free text that a spreadsheet would run as a formula (starting with
+   * =, +, -, @, tab or carriage return) with a single quote. Not for values that
+   * must be kept exactly, such as IDs and signatures.
+   */
+  static escapeFormula(value: string | null | undefined): string | null | undefined {
+    return value && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  }
+}
@@ -0,0 +1,52 @@
+import client from 'prom-client';
+
+/**
+ * Prometheus metrics of this worker, served at GET /metrics
+ */
+export const metricsRegistry = new client.Registry();
+
+export const httpRequestsTotal = new client.Counter({
+  name: 'http_requests_total',
+  help: 'HTTP requests by method, route and response status',
+  labelNames: ['method', 'route', 'status_code'] as const,
+  registers: [metricsRegistry]
+});
+
+export const httpRequestDuration = new client.Histogram({
+  name: 'http_request_duration_seconds',
+  help: 'HTTP request latency by method, route and response status',
+  labelNames: ['method', 'route', 'status_code'] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  registers: [metricsRegistry]
+});
+
+export const dbQueryDuration = new client.Histogram({
+  name: 'db_query_duration_seconds',
+  help: 'Database query time by statement type',
+  labelNames: ['operation'] as const,
+  buckets: [0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1],
+  registers: [metricsRegistry]
+});
+
+export const credentialsIssuedTotal = new client.Counter({
+  name: 'credentials_issued_total',
+  help: 'Credentials issued by credential type, renewals included',
+  labelNames: ['credential_type'] as const,
+  registers: [metricsRegistry]
+});
+
+let initialized = false;
+
+/**
+ * Label every metric with the worker ID and start collecting the Node.js
+ * runtime metrics. Called once the environment is loaded.
+ */
+export const initMetrics = (): void => {
+  if (initialized) {
+    return;
+  }
+
+  metricsRegistry.setDefaultLabels({ worker_id: process.env.WORKER_ID || 'unknown-worker' });
+  client.collectDefaultMetrics({ register: metricsRegistry });
+  initialized = true;
+};
@@ -0,0 +1,93 @@
+import crypto from 'crypto';
+import { logger } from './logger';
+
+interface Jwk extends crypto.JsonWebKey {
+  kid?: string;
+  use?: string;
+}
+
+export class OidcKeyCache {
+  private keys = new Map<string, crypto.KeyObject>();
+  private fetchedAt = 0;
+  private pendingRefresh: Promise<void> | null = null;
+  private ttlMs: number;
+  private minRefreshIntervalMs: number;
+
+  constructor() {
+    this.ttlMs = parseInt(process.env.OIDC_JWKS_CACHE_TTL_MS || '300000'); // 5 minutes
+    this.minRefreshIntervalMs = parseInt(process.env.OIDC_JWKS_MIN_REFRESH_INTERVAL_MS || '30000');
+  }
+
+  /**
+   * Get the identity provider signing key for a key ID, refreshing the key set
+   * when it is stale or when an unknown key ID shows up after a rotation
+   */
+  async getKey(kid: string): Promise<crypto.KeyObject | null> {
+    const age = Date.now() - this.fetchedAt;
+
+    if (age > this.ttlMs || (!this.keys.has(kid) && age > this.minRefreshIntervalMs)) {
+      await this.refresh();
+    }
+
+    return this.keys.get(kid) || null;
+  }
+
+  /**
+   * Fetch the key set from OIDC_JWKS_URI, sharing one request between concurrent callers
+   */
+  async refresh(): Promise<void> {
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.fetchKeys().finally(() => {
+        this.pendingRefresh = null;
+      });
+    }
+
+    return this.pendingRefresh;
+  }
+
+  /**
+   * Drop all cached keys
+   */
+  clear(): void {
+    this.keys.clear();
+    this.fetchedAt = 0;
+  }
+
+  private async fetchKeys(): Promise<void> {
+    try {
+      const response = await fetch(process.env.OIDC_JWKS_URI!, { signal: AbortSignal.timeout(5000) });
+
+      if (!response.ok) {
+        throw new Error(`Key set request failed with status ${response.status}`);
+      }
+
+      const jwks = await response.json() as { keys?: Jwk[] };
+      const keys = new Map<string, crypto.KeyObject>();
+
+      for (const { kid, use, ...jwk } of jwks.keys || []) {
+        if (!kid || (use && use !== 'sig')) {
+          continue;
+        }
+
+        try {
+          keys.set(kid, crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+        } catch {
+          logger.warn(`Skipping unsupported identity provider key ${kid}`);
+        }
+      }
+
+      this.keys = keys;
+      this.fetchedAt = Date.now();
+      logger.info(`Identity provider key set refreshed with ${keys.size} keys`);
+    } catch (error) {
+      if (this.keys.size === 0) {
+        throw error;
+      }
+
+      // Keep serving the previous key set until the identity provider is reachable again
+      logger.warn('Failed to refresh identity provider key set, using cached keys', { error: (error as Error).message });
+    }
+  }
+}
+
+export const oidcKeyCache = new OidcKeyCache();
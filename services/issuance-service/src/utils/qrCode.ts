@@ -0,0 +1,33 @@
+import QRCode from 'qrcode';
+import { Credential, QrCodeFormat } from '../types';
+
+export const QR_CODE_MEDIA_TYPES: Record<QrCodeFormat, string> = {
+  png: 'image/png',
+  svg: 'image/svg+xml'
+};
+
+const QR_CODE_OPTIONS = {
+  errorCorrectionLevel: 'M',
+  margin: 2,
+  width: 320
+} as const;
+
+export class QrCodeUtils {
+  /**
+   * Compact reference to a credential, resolved by the verifier through the issuance records
+   */
+  static toReference(credential: Pick<Credential, 'id'>): string {
+    return `urn:uuid:${credential.id}`;
+  }
+
+  /**
+   * Render a payload as a QR code image
+   */
+  static async render(payload: string, format: QrCodeFormat): Promise<Buffer | string> {
+    if (format === 'svg') {
+      return QRCode.toString(payload, { ...QR_CODE_OPTIONS, type: 'svg' });
+    }
+
+    return QRCode.toBuffer(payload, { ...QR_CODE_OPTIONS, type: 'png' });
+  }
+}
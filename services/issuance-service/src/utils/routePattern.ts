@@ -0,0 +1,18 @@
+import { Request } from 'express';
+
+/**
+ * Route pattern a request matched, such as /api/credentials/:id, or null when
+ * no route matched. The mount path is taken from the URL, since Express resets
+ * req.baseUrl once an error leaves the router.
+ */
+export const getRoutePattern = (req: Request): string | null => {
+  if (!req.route) {
+    return null;
+  }
+
+  const routeSegments = String(req.route.path).split('/').filter(Boolean);
+  const urlSegments = req.originalUrl.split('?')[0]!.split('/').filter(Boolean);
+  const mountSegments = urlSegments.slice(0, urlSegments.length - routeSegments.length);
+
+  return `/${[...mountSegments, ...routeSegments].join('/')}`;
+};
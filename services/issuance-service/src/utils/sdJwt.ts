@@ -0,0 +1,62 @@
+import crypto from 'crypto';
+import { Credential, SdJwtCredentialPayload } from '../types';
+import { VerifiableCredentialUtils } from './verifiableCredential';
+
+export const SD_JWT_MEDIA_TYPE = 'application/sd-jwt';
+export const SD_JWT_TYPE = 'vc+sd-jwt';
+export const SD_HASH_ALGORITHM = 'sha-256';
+
+interface Disclosure {
+  disclosure: string;
+  digest: string;
+}
+
+export class SdJwtUtils {
+  /**
+   * Encode a claim as a salted disclosure, with the digest that replaces it in the signed payload
+   */
+  static createDisclosure(name: string, value: unknown): Disclosure {
+    const salt = crypto.randomBytes(16).toString('base64url');
+    const disclosure = Buffer.from(JSON.stringify([salt, name, value])).toString('base64url');
+
+    return { disclosure, digest: this.hashDisclosure(disclosure) };
+  }
+
+  /**
+   * SHA-256 digest of a disclosure as listed in an _sd array
+   */
+  static hashDisclosure(disclosure: string): string {
+    return crypto.createHash('sha256').update(disclosure).digest('base64url');
+  }
+
+  /**
+   * JWT claims of an SD-JWT credential. The holder name and each attribute
+   * are only present as digests, everything else is always disclosed.
+   */
+  static toSdJwtPayload(credential: Credential): { payload: SdJwtCredentialPayload; disclosures: string[] } {
+    const { iss, nbf, exp, iat, jti, vc } = VerifiableCredentialUtils.toJwtPayload(credential);
+    const name = this.createDisclosure('name', credential.holder_name);
+    const attributes = Object.entries(credential.attributes).map(([key, value]) => this.createDisclosure(key, value));
+
+    return {
+      payload: {
+        iss,
+        nbf,
+        exp,
+        iat,
+        jti,
+        _sd_alg: SD_HASH_ALGORITHM,
+        vc: {
+          ...vc,
+          credentialSubject: {
+            credentialType: credential.credential_type,
+            _sd: [name.digest],
+            // Sorted so the digest order does not reveal the attribute order
+            attributes: { _sd: attributes.map(attribute => attribute.digest).sort() }
+          }
+        }
+      },
+      disclosures: [name, ...attributes].map(({ disclosure }) => disclosure)
+    };
+  }
+}
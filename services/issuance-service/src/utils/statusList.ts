@@ -0,0 +1,102 @@
+import zlib from 'zlib';
+import { CredentialStatus, StatusList, StatusListCredentialPayload, StatusPurpose } from '../types';
+import { VC_CONTEXT } from './verifiableCredential';
+
+export const STATUS_PURPOSES: StatusPurpose[] = ['revocation', 'supersession'];
+
+// 131,072 bits (16 KB uncompressed) is the minimum list size Bitstring Status List
+// recommends, so that a list hides which of many credentials a verifier is checking
+export const DEFAULT_STATUS_LIST_SIZE = 131072;
+
+export class StatusListUtils {
+  /**
+   * Number of indexes in a new status list
+   */
+  static getListSize(): number {
+    return parseInt(process.env.STATUS_LIST_SIZE || String(DEFAULT_STATUS_LIST_SIZE));
+  }
+
+  /**
+   * Seconds a published status list may be cached before it is fetched again
+   */
+  static getTtlSeconds(): number {
+    return parseInt(process.env.STATUS_LIST_TTL_SECONDS || '300');
+  }
+
+  /**
+   * URL a status list is published at for one status purpose
+   */
+  static getStatusListUrl(listId: string, purpose: StatusPurpose): string {
+    const baseUrl = process.env.STATUS_LIST_BASE_URL || 'http://localhost:3001/api/status-lists';
+    return `${baseUrl}/${listId}/${purpose}`;
+  }
+
+  /**
+   * The credentialStatus entries of a credential, one for each status purpose at the same index
+   */
+  static toCredentialStatus(listId: string, index: number): CredentialStatus[] {
+    return STATUS_PURPOSES.map(purpose => {
+      const statusListCredential = this.getStatusListUrl(listId, purpose);
+
+      return {
+        id: `${statusListCredential}#${index}`,
+        type: 'BitstringStatusListEntry',
+        statusPurpose: purpose,
+        statusListIndex: String(index),
+        statusListCredential
+      };
+    });
+  }
+
+  /**
+   * Encode a bitstring of the given size with the given indexes set, as a
+   * GZIP-compressed, multibase base64url string. Index 0 is the most significant
+   * bit of the first byte.
+   */
+  static encodeList(size: number, setIndexes: number[]): string {
+    const bits = Buffer.alloc(Math.ceil(size / 8));
+
+    for (const index of setIndexes) {
+      const byte = Math.floor(index / 8);
+      bits.writeUInt8(bits.readUInt8(byte) | (0x80 >> (index % 8)), byte);
+    }
+
+    return `u${zlib.gzipSync(bits).toString('base64url')}`;
+  }
+
+  /**
+   * JWT claims of a status list as a BitstringStatusListCredential of its tenant
+   */
+  static toStatusListCredentialPayload(
+    statusList: StatusList,
+    purpose: StatusPurpose,
+    issuer: { id: string; name: string },
+    encodedList: string
+  ): StatusListCredentialPayload {
+    const url = this.getStatusListUrl(statusList.id, purpose);
+    const ttlSeconds = this.getTtlSeconds();
+    const issuedAt = Math.floor(Date.now() / 1000);
+
+    return {
+      iss: issuer.id,
+      iat: issuedAt,
+      exp: issuedAt + ttlSeconds,
+      jti: url,
+      vc: {
+        '@context': [VC_CONTEXT],
+        id: url,
+        type: ['VerifiableCredential', 'BitstringStatusListCredential'],
+        issuer,
+        validFrom: new Date(issuedAt * 1000).toISOString(),
+        validUntil: new Date((issuedAt + ttlSeconds) * 1000).toISOString(),
+        credentialSubject: {
+          id: `${url}#list`,
+          type: 'BitstringStatusList',
+          statusPurpose: purpose,
+          encodedList,
+          ttl: ttlSeconds * 1000
+        }
+      }
+    };
+  }
+}
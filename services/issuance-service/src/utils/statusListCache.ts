@@ -0,0 +1,41 @@
+import { SignedStatusList, StatusPurpose } from '../types';
+
+export class StatusListCache {
+  private lists = new Map<string, SignedStatusList>();
+
+  /**
+   * Get the signed status list of a purpose if it is still current: no bit has
+   * been set since (same revision), it is signed with the tenant's active key,
+   * and less than half of its lifetime has passed, so that verifiers always
+   * get at least half a TTL out of it.
+   */
+  get(listId: string, purpose: StatusPurpose, revision: number, kid: string, ttlSeconds: number): SignedStatusList | null {
+    const signed = this.lists.get(this.getCacheKey(listId, purpose));
+
+    if (!signed || signed.revision !== revision || signed.kid !== kid) {
+      return null;
+    }
+
+    return signed.expires_at - Date.now() > (ttlSeconds * 1000) / 2 ? signed : null;
+  }
+
+  /**
+   * Keep a signed status list of a purpose for later requests
+   */
+  set(listId: string, purpose: StatusPurpose, signed: SignedStatusList): void {
+    this.lists.set(this.getCacheKey(listId, purpose), signed);
+  }
+
+  /**
+   * Drop all signed status lists
+   */
+  clear(): void {
+    this.lists.clear();
+  }
+
+  private getCacheKey(listId: string, purpose: StatusPurpose): string {
+    return `${listId}:${purpose}`;
+  }
+}
+
+export const statusListCache = new StatusListCache();
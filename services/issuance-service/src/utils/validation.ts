@@ -1,4 +1,7 @@
 import Joi from 'joi';
+import { CsvImportField, Role, WebhookDeliveryStatus, WebhookEventType } from '../types';
+
+export const CREDENTIAL_TYPE_NAME_PATTERN = /^[a-z][a-z0-9_]*$/;
 
 export const credentialValidationSchema = Joi.object({
   holder_name: Joi.string()
@@ -13,12 +16,112 @@ export const credentialValidationSchema = Joi.object({
     }),
   
   credential_type: Joi.string()
-    .valid('certificate', 'license', 'badge', 'diploma', 'permit', 'qualification')
+    .pattern(CREDENTIAL_TYPE_NAME_PATTERN)
+    .max(50)
     .required()
     .messages({
-      'any.only': 'Credential type must be one of: certificate, license, badge, diploma, permit, qualification'
+      'string.pattern.base': 'Credential type must be a lowercase type name from the credential type registry'
     }),
   
+  expiry_date: Joi.date()
+    .iso()
+    .min('now')
+    .optional()
+    .messages({
+      'date.min': 'Expiry date must be in the future'
+    }),
+
+  attributes: Joi.object()
+    .unknown(true)
+    .optional()
+});
+
+export const credentialTypeValidationSchema = Joi.object({
+  name: Joi.string()
+    .pattern(CREDENTIAL_TYPE_NAME_PATTERN)
+    .max(50)
+    .required()
+    .messages({
+      'string.pattern.base': 'Type name must start with a lowercase letter and contain only lowercase letters, digits and underscores'
+    }),
+
+  display_name: Joi.string()
+    .min(1)
+    .max(100)
+    .required(),
+
+  default_validity_days: Joi.number()
+    .integer()
+    .min(1)
+    .max(36500)
+    .default(365),
+
+  is_active: Joi.boolean()
+    .default(true),
+
+  attributes_schema: Joi.object()
+    .unknown(true)
+    .allow(null)
+    .default(null)
+});
+
+export const credentialTypeUpdateSchema = Joi.object({
+  display_name: Joi.string()
+    .min(1)
+    .max(100),
+
+  default_validity_days: Joi.number()
+    .integer()
+    .min(1)
+    .max(36500),
+
+  is_active: Joi.boolean(),
+
+  attributes_schema: Joi.object()
+    .unknown(true)
+    .allow(null)
+}).min(1);
+
+export const validateCredentialTypeRequest = (data: any) => {
+  return credentialTypeValidationSchema.validate(data, {
+    abortEarly: false,
+    stripUnknown: true
+  });
+};
+
+export const validateCredentialTypeUpdate = (data: any) => {
+  return credentialTypeUpdateSchema.validate(data, {
+    abortEarly: false,
+    stripUnknown: true
+  });
+};
+
+export const REVOCATION_REASONS = [
+  'unspecified',
+  'key_compromise',
+  'affiliation_changed',
+  'superseded',
+  'cessation_of_operation',
+  'privilege_withdrawn'
+];
+
+export const revocationValidationSchema = Joi.object({
+  reason: Joi.string()
+    .valid(...REVOCATION_REASONS)
+    .required()
+    .messages({
+      'any.only': `Revocation reason must be one of: ${REVOCATION_REASONS.join(', ')}`
+    })
+});
+
+export const validateRevocationRequest = (data: any) => {
+  return revocationValidationSchema.validate(data, {
+    abortEarly: false,
+    stripUnknown: true
+  });
+};
+
+export const renewalValidationSchema = Joi.object({
   expiry_date: Joi.date()
     .iso()
     .min('now')
@@ -28,6 +131,103 @@ export const credentialValidationSchema = Joi.object({
     })
 });
 
+export const validateRenewalRequest = (data: any) => {
+  return renewalValidationSchema.validate(data || {}, {
+    abortEarly: false,
+    stripUnknown: true
+  });
+};
+
+export const API_KEY_ROLES: Role[] = ['issuer', 'verifier', 'auditor', 'admin'];
+
+export const apiKeyValidationSchema = Joi.object({
+  name: Joi.string()
+    .trim()
+    .min(1)
+    .max(100)
+    .required(),
+  roles: Joi.array()
+    .items(Joi.string().valid(...API_KEY_ROLES))
+    .min(1)
+    .unique()
+    .required()
+    .messages({
+      'any.only': `Roles must be among: ${API_KEY_ROLES.join(', ')}`
+    })
+});
+
+export const validateApiKeyRequest = (data: any) => {
+  return apiKeyValidationSchema.validate(data, {
+    abortEarly: false,
+    stripUnknown: true
+  });
+};
+
+export const WEBHOOK_EVENTS: WebhookEventType[] = ['credential.issued', 'credential.revoked', 'credential.expired'];
+
+export const webhookSubscriptionValidationSchema = Joi.object({
+  url: Joi.string()
+    .uri({ scheme: ['http', 'https'] })
+    .required(),
+  events: Joi.array()
+    .items(Joi.string().valid(...WEBHOOK_EVENTS))
+    .min(1)
+    .unique()
+    .required()
+    .messages({
+      'any.only': `Events must be among: ${WEBHOOK_EVENTS.join(', ')}`
+    })
+});
+
+export const validateWebhookSubscriptionRequest = (data: any) => {
+  return webhookSubscriptionValidationSchema.validate(data, {
+    abortEarly: false,
+    stripUnknown: true
+  });
+};
+
+export const WEBHOOK_DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'succeeded', 'dead'];
+
+export const auditQuerySchema = Joi.object({
+  action: Joi.string().max(100),
+  actor_id: Joi.string().max(200),
+  resource_id: Joi.string().max(200),
+  from: Joi.string().isoDate(),
+  to: Joi.string().isoDate(),
+  limit: Joi.number().integer().min(1).max(500).default(50),
+  offset: Joi.number().integer().min(0).default(0)
+});
+
+export const validateAuditQuery = (data: any) => {
+  return auditQuerySchema.validate(data, {
+    abortEarly: false,
+    stripUnknown: true
+  });
+};
+
+export const TENANT_ID_PATTERN = /^[a-z0-9][a-z0-9-]{1,62}$/;
+
+export const tenantValidationSchema = Joi.object({
+  id: Joi.string()
+    .pattern(TENANT_ID_PATTERN)
+    .required()
+    .messages({
+      'string.pattern.base': 'Tenant ID must be 2 to 63 lowercase letters, digits or hyphens, not starting with a hyphen'
+    }),
+  display_name: Joi.string()
+    .trim()
+    .min(2)
+    .max(100)
+    .required()
+});
+
+export const validateTenantRequest = (data: any) => {
+  return tenantValidationSchema.validate(data, {
+    abortEarly: false,
+    stripUnknown: true
+  });
+};
+
 export const validateCredentialRequest = (data: any) => {
   return credentialValidationSchema.validate(data, {
     abortEarly: false,
@@ -35,6 +235,43 @@ export const validateCredentialRequest = (data: any) => {
   });
 };
 
+export const MAX_BATCH_SIZE = 500;
+
+export const credentialBatchValidationSchema = Joi.array()
+  .items(Joi.any())
+  .min(1)
+  .max(MAX_BATCH_SIZE)
+  .required()
+  .messages({
+    'array.base': 'Request body must be an array of credential requests',
+    'array.min': 'Batch must contain at least one credential request',
+    'array.max': `Batch must not contain more than ${MAX_BATCH_SIZE} credential requests`
+  });
+
+// Only checks the shape of the batch, each item is validated with validateCredentialRequest
+export const validateCredentialBatch = (data: any) => {
+  return credentialBatchValidationSchema.validate(data);
+};
+
+export const MAX_IMPORT_ROWS = 5000;
+
+export const CSV_IMPORT_FIELDS: CsvImportField[] = ['holder_name', 'credential_type', 'expiry_date'];
+
+export const csvImportOptionsSchema = Joi.object({
+  dry_run: Joi.boolean()
+    .default(false),
+
+  columns: Joi.object(Object.fromEntries(CSV_IMPORT_FIELDS.map(field => [field, Joi.string().min(1).max(100)])))
+    .optional()
+});
+
+export const validateCsvImportOptions = (data: any) => {
+  return csvImportOptionsSchema.validate(data, {
+    abortEarly: false,
+    stripUnknown: true
+  });
+};
+
 export const sanitizeInput = (input: string): string => {
   return input.trim().replace(/[<>]/g, '');
 };
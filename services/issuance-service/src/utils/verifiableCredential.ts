@@ -0,0 +1,85 @@
+import { DEFAULT_TENANT_ID } from '../models/Tenant';
+import { Credential, JwtCredentialPayload, VerifiableCredential } from '../types';
+import { StatusListUtils } from './statusList';
+
+export const VC_CONTEXT = 'https://www.w3.org/ns/credentials/v2';
+export const VC_MEDIA_TYPE = 'application/vc+ld+json';
+export const VC_PROOF_TYPE = 'KubeCredentialEd25519Signature';
+export const JWT_MEDIA_TYPE = 'application/jwt';
+
+export class VerifiableCredentialUtils {
+  /**
+   * Issuer identifier of a tenant used in the issuer and verificationMethod fields.
+   * Other tenants than the default one get their ID appended to ISSUER_ID.
+   */
+  static getIssuerId(tenantId: string = DEFAULT_TENANT_ID): string {
+    const issuerId = process.env.ISSUER_ID || 'urn:kube-credential:issuer';
+    return tenantId === DEFAULT_TENANT_ID ? issuerId : `${issuerId}:${tenantId}`;
+  }
+
+  /**
+   * Map a credential type such as 'certificate' to a VC type such as 'CertificateCredential'
+   */
+  static getVcType(credentialType: string): string {
+    return `${credentialType.charAt(0).toUpperCase()}${credentialType.slice(1)}Credential`;
+  }
+
+  /**
+   * The VC document without a proof, as embedded in the vc claim of a JWT
+   */
+  static toUnsecuredVerifiableCredential(credential: Credential): Omit<VerifiableCredential, 'proof'> {
+    return {
+      '@context': [VC_CONTEXT],
+      id: `urn:uuid:${credential.id}`,
+      type: ['VerifiableCredential', this.getVcType(credential.credential_type)],
+      issuer: {
+        id: this.getIssuerId(credential.tenant_id),
+        name: credential.issuer
+      },
+      validFrom: credential.issued_date,
+      validUntil: credential.expiry_date,
+      credentialSubject: {
+        name: credential.holder_name,
+        credentialType: credential.credential_type,
+        attributes: credential.attributes
+      },
+      ...(credential.status_list_id !== null && credential.status_list_index !== null && {
+        credentialStatus: StatusListUtils.toCredentialStatus(credential.status_list_id, credential.status_list_index)
+      })
+    };
+  }
+
+  /**
+   * Represent a credential as a W3C VC 2.0 document. The proof carries the
+   * existing Ed25519 signature, so every signed field has to be present in
+   * the document for verifiers to rebuild the signing payload.
+   */
+  static toVerifiableCredential(credential: Credential): VerifiableCredential {
+    return {
+      ...this.toUnsecuredVerifiableCredential(credential),
+      proof: {
+        type: VC_PROOF_TYPE,
+        created: credential.created_at,
+        verificationMethod: `${this.getIssuerId(credential.tenant_id)}#${credential.kid}`,
+        proofPurpose: 'assertionMethod',
+        proofValue: credential.signature,
+        workerId: credential.worker_id
+      }
+    };
+  }
+
+  /**
+   * JWT claims of a credential, with the VC document in the vc claim
+   */
+  static toJwtPayload(credential: Credential): JwtCredentialPayload {
+    return {
+      iss: this.getIssuerId(credential.tenant_id),
+      sub: credential.holder_name,
+      nbf: Math.floor(new Date(credential.issued_date).getTime() / 1000),
+      exp: Math.floor(new Date(credential.expiry_date).getTime() / 1000),
+      iat: Math.floor(Date.now() / 1000),
+      jti: `urn:uuid:${credential.id}`,
+      vc: this.toUnsecuredVerifiableCredential(credential)
+    };
+  }
+}
@@ -0,0 +1,9 @@
+const os = require('os');
+const path = require('path');
+
+// Each test file gets a database file of its own, named before the database
+// module reads DB_PATH on import, so runs never share or reuse data
+process.env.DB_PATH = path.join(
+  os.tmpdir(),
+  `verification-test-${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2)}.db`
+);
@@ -0,0 +1,30 @@
+import { ConcurrencyUtils } from '../utils/concurrency';
+
+describe('ConcurrencyUtils', () => {
+  describe('mapWithLimit', () => {
+    it('should never run more calls at once than the limit and keep the item order', async () => {
+      let running = 0;
+      let maxRunning = 0;
+
+      const results = await ConcurrencyUtils.mapWithLimit([5, 1, 4, 2, 3], 2, async (delay, index) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise(resolve => setTimeout(resolve, delay));
+        running--;
+        return `${index}:${delay}`;
+      });
+
+      expect(maxRunning).toBe(2);
+      expect(results).toEqual(['0:5', '1:1', '2:4', '3:2', '4:3']);
+    });
+
+    it('should reject when a call fails', async () => {
+      await expect(ConcurrencyUtils.mapWithLimit([1, 2], 4, async (item) => {
+        if (item === 2) {
+          throw new Error('boom');
+        }
+        return item;
+      })).rejects.toThrow('boom');
+    });
+  });
+});
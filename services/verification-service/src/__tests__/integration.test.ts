@@ -1,35 +1,119 @@
+import jwt from 'jsonwebtoken';
 import request from 'supertest';
 import { createApp } from '../app';
 import { database } from '../config/database';
+import { AuditLogModel } from '../models/AuditLog';
+import { auditTrail } from '../utils/auditTrail';
+import { credentialTypeCache } from '../utils/credentialTypeCache';
 import { issuanceClient } from '../utils/issuanceClient';
 import { CryptoUtils } from '../utils/crypto';
+import { oidcKeyCache } from '../utils/oidcKeyCache';
+import { statusListCache } from '../utils/statusListCache';
+import { flushTracing, shutdownTracing, withSpan } from '../utils/tracing';
+import { webhookDispatcher } from '../utils/webhookDispatcher';
+import crypto from 'crypto';
 import fs from 'fs';
-import path from 'path';
+import http from 'http';
+import { AddressInfo } from 'net';
+import zlib from 'zlib';
 
 // Mock the issuance client
 jest.mock('../utils/issuanceClient');
 
+// Issuer key pair used to sign test credentials
+const issuerKeys = crypto.generateKeyPairSync('ed25519');
+const issuerKid = CryptoUtils.computeKeyId(issuerKeys.publicKey);
+
+const signCredential = (credentialData: any): string =>
+  crypto
+    .sign(null, Buffer.from(CryptoUtils.getSigningPayload(credentialData)), issuerKeys.privateKey)
+    .toString('base64url');
+
+// Key of a second tenant of issuance service
+const tenantKeys = crypto.generateKeyPairSync('ed25519');
+const tenantKid = CryptoUtils.computeKeyId(tenantKeys.publicKey);
+
+const signCredentialAsTenant = (credentialData: any): string =>
+  crypto
+    .sign(null, Buffer.from(CryptoUtils.getSigningPayload(credentialData)), tenantKeys.privateKey)
+    .toString('base64url');
+
+const signJwt = (payload: any): string => {
+  const header = Buffer.from(JSON.stringify({ alg: 'EdDSA', typ: 'JWT', kid: issuerKid })).toString('base64url');
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  const signature = crypto.sign(null, Buffer.from(`${header}.${body}`), issuerKeys.privateKey).toString('base64url');
+  return `${header}.${body}.${signature}`;
+};
+
 describe('Verification Service Integration Tests', () => {
   let app: any;
-  const testDbPath = './data/test-verifications.db';
+  // Requests are sent with an API key holding the verifier and auditor roles
+  let api: any;
+  // The database file is set for each test file by jest.setup.js, before the database module is loaded
+  const testDbPath = process.env.DB_PATH as string;
+  // Local OTLP collector recording the spans the service exports
+  const exportedSpans: any[] = [];
+  let collector: http.Server;
 
   beforeAll(async () => {
+    collector = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        for (const resourceSpans of JSON.parse(body).resourceSpans) {
+          for (const scopeSpans of resourceSpans.scopeSpans) {
+            exportedSpans.push(...scopeSpans.spans);
+          }
+        }
+        res.setHeader('Content-Type', 'application/json');
+        res.end('{}');
+      });
+    });
+    await new Promise<void>(resolve => collector.listen(0, '127.0.0.1', resolve));
+
     // Set test environment
     process.env.NODE_ENV = 'test';
-    process.env.DB_PATH = testDbPath;
-    process.env.JWT_SECRET = 'test-secret';
     process.env.WORKER_ID = 'test-verification-worker-1';
+    process.env.ADMIN_API_KEY = 'test-admin-key';
+    // The whole suite runs from one IP, above the default limit
+    process.env.RATE_LIMIT_MAX_REQUESTS = '1000';
+    process.env.AUDIT_SIGNING_KEY = crypto.generateKeyPairSync('ed25519').privateKey
+      .export({ type: 'pkcs8', format: 'pem' })
+      .toString();
+    process.env.OTEL_EXPORTER_OTLP_ENDPOINT = `http://127.0.0.1:${(collector.address() as AddressInfo).port}`;
 
-    // Ensure test data directory exists
-    const dataDir = path.dirname(testDbPath);
-    if (!fs.existsSync(dataDir)) {
-      fs.mkdirSync(dataDir, { recursive: true });
-    }
+    // Publish the test issuer key through the mocked key set endpoint
+    (issuanceClient.getJwks as jest.Mock).mockResolvedValue({
+      keys: [
+        { ...issuerKeys.publicKey.export({ format: 'jwk' }), kid: issuerKid },
+        { ...tenantKeys.publicKey.export({ format: 'jwk' }), kid: tenantKid, tenant: 'acme' }
+      ]
+    });
+
+    // Registry of credential types known to issuance service
+    (issuanceClient.getCredentialTypes as jest.Mock).mockResolvedValue(
+      ['certificate', 'license', 'badge', 'diploma', 'permit', 'qualification'].map(name => ({
+        name,
+        display_name: name,
+        default_validity_days: 365,
+        is_active: true
+      }))
+    );
 
     app = await createApp();
+
+    const keyResponse = await request(app)
+      .post('/api/api-keys')
+      .set('X-Admin-Key', 'test-admin-key')
+      .send({ name: 'integration-tests', roles: ['verifier', 'auditor'] })
+      .expect(201);
+    api = request.agent(app).set('X-API-Key', keyResponse.body.data.key);
   });
 
   afterAll(async () => {
+    await auditTrail.flush();
+    await shutdownTracing();
+    await new Promise(resolve => collector.close(resolve));
     await database.close();
     
     // Clean up test database
@@ -60,12 +144,14 @@ describe('Verification Service Integration Tests', () => {
         issued_date: '2024-01-01T00:00:00.000Z',
         credential_type: 'certificate',
         expiry_date: '2026-01-01T00:00:00.000Z',
+        signature_algorithm: 'Ed25519',
+        kid: issuerKid,
         worker_id: 'issuer-worker-1'
       };
       
       validCredential = {
         ...credentialData,
-        signature: CryptoUtils.generateCredentialSignature(credentialData),
+        signature: signCredential(credentialData),
         created_at: '2024-01-01T00:00:00.000Z',
         updated_at: '2024-01-01T00:00:00.000Z'
       };
@@ -73,7 +159,7 @@ describe('Verification Service Integration Tests', () => {
       // Mock issuance service response with the same credential
       (issuanceClient.getCredential as jest.Mock).mockResolvedValue(validCredential);
 
-      const response = await request(app)
+      const response = await api
         .post('/api/verifications')
         .send({ credential: validCredential })
         .expect(200);
@@ -94,12 +180,14 @@ describe('Verification Service Integration Tests', () => {
         issued_date: '2024-01-01T00:00:00.000Z',
         credential_type: 'certificate',
         expiry_date: '2026-01-01T00:00:00.000Z',
+        signature_algorithm: 'Ed25519',
+        kid: issuerKid,
         worker_id: 'issuer-worker-1'
       };
       
       const validCredential = {
         ...credentialData,
-        signature: CryptoUtils.generateCredentialSignature(credentialData),
+        signature: signCredential(credentialData),
         created_at: '2024-01-01T00:00:00.000Z',
         updated_at: '2024-01-01T00:00:00.000Z'
       };
@@ -112,7 +200,7 @@ describe('Verification Service Integration Tests', () => {
       // Mock issuance service response
       (issuanceClient.getCredential as jest.Mock).mockResolvedValue(validCredential);
 
-      const response = await request(app)
+      const response = await api
         .post('/api/verifications')
         .send({ credential: invalidCredential })
         .expect(200);
@@ -122,6 +210,41 @@ describe('Verification Service Integration Tests', () => {
       expect(response.body.data.verification_status).toBe('signature_mismatch');
     });
 
+    it('should reject credentials signed by an unknown key', async () => {
+      const otherKeys = crypto.generateKeyPairSync('ed25519');
+      const credentialData = {
+        id: '550e8400-e29b-41d4-a716-446655440000',
+        holder_name: 'John Doe',
+        issuer: 'Kube Credential Authority',
+        issued_date: '2024-01-01T00:00:00.000Z',
+        credential_type: 'certificate',
+        expiry_date: '2026-01-01T00:00:00.000Z',
+        signature_algorithm: 'Ed25519',
+        kid: CryptoUtils.computeKeyId(otherKeys.publicKey),
+        worker_id: 'issuer-worker-1'
+      };
+
+      const forgedCredential = {
+        ...credentialData,
+        signature: crypto
+          .sign(null, Buffer.from(CryptoUtils.getSigningPayload(credentialData)), otherKeys.privateKey)
+          .toString('base64url'),
+        created_at: '2024-01-01T00:00:00.000Z',
+        updated_at: '2024-01-01T00:00:00.000Z'
+      };
+
+      (issuanceClient.getCredential as jest.Mock).mockResolvedValue(forgedCredential);
+
+      const response = await api
+        .post('/api/verifications')
+        .send({ credential: forgedCredential })
+        .expect(200);
+
+      expect(response.body.data.is_valid).toBe(false);
+      expect(response.body.data.verification_status).toBe('signature_mismatch');
+      expect(issuanceClient.getCredential).not.toHaveBeenCalled();
+    });
+
     it('should detect credential not found in issuance service', async () => {
       // Create credential
       const credentialData = {
@@ -131,12 +254,14 @@ describe('Verification Service Integration Tests', () => {
         issued_date: '2024-01-01T00:00:00.000Z',
         credential_type: 'certificate',
         expiry_date: '2026-01-01T00:00:00.000Z',
+        signature_algorithm: 'Ed25519',
+        kid: issuerKid,
         worker_id: 'issuer-worker-1'
       };
       
       const validCredential = {
         ...credentialData,
-        signature: CryptoUtils.generateCredentialSignature(credentialData),
+        signature: signCredential(credentialData),
         created_at: '2024-01-01T00:00:00.000Z',
         updated_at: '2024-01-01T00:00:00.000Z'
       };
@@ -144,7 +269,7 @@ describe('Verification Service Integration Tests', () => {
       // Mock issuance service returning null
       (issuanceClient.getCredential as jest.Mock).mockResolvedValue(null);
 
-      const response = await request(app)
+      const response = await api
         .post('/api/verifications')
         .send({ credential: validCredential })
         .expect(200);
@@ -162,12 +287,14 @@ describe('Verification Service Integration Tests', () => {
         issued_date: '2024-01-01T00:00:00.000Z',
         credential_type: 'certificate',
         expiry_date: '2020-01-01T00:00:00.000Z',
+        signature_algorithm: 'Ed25519',
+        kid: issuerKid,
         worker_id: 'issuer-worker-1'
       };
       
       const expiredCredential = {
         ...expiredCredentialData,
-        signature: CryptoUtils.generateCredentialSignature(expiredCredentialData),
+        signature: signCredential(expiredCredentialData),
         created_at: '2024-01-01T00:00:00.000Z',
         updated_at: '2024-01-01T00:00:00.000Z'
       };
@@ -175,7 +302,7 @@ describe('Verification Service Integration Tests', () => {
       // Mock issuance service response
       (issuanceClient.getCredential as jest.Mock).mockResolvedValue(expiredCredential);
 
-      const response = await request(app)
+      const response = await api
         .post('/api/verifications')
         .send({ credential: expiredCredential })
         .expect(200);
@@ -186,6 +313,154 @@ describe('Verification Service Integration Tests', () => {
       expect(response.body.data.verification_status).toBe('expired');
     });
 
+    it('should report revoked credentials with the revocation reason', async () => {
+      const credentialData = {
+        id: '550e8400-e29b-41d4-a716-446655440000',
+        holder_name: 'John Doe',
+        issuer: 'Kube Credential Authority',
+        issued_date: '2024-01-01T00:00:00.000Z',
+        credential_type: 'certificate',
+        expiry_date: '2099-01-01T00:00:00.000Z',
+        signature_algorithm: 'Ed25519',
+        kid: issuerKid,
+        worker_id: 'issuer-worker-1'
+      };
+
+      const revokedCredential = {
+        ...credentialData,
+        signature: signCredential(credentialData),
+        created_at: '2024-01-01T00:00:00.000Z',
+        updated_at: '2024-01-01T00:00:00.000Z'
+      };
+
+      (issuanceClient.getCredential as jest.Mock).mockResolvedValue({
+        ...revokedCredential,
+        revocation: { reason: 'key_compromise', revoked_at: '2024-06-01T00:00:00.000Z' }
+      });
+
+      const response = await api
+        .post('/api/verifications')
+        .send({ credential: revokedCredential })
+        .expect(200);
+
+      expect(response.body.data.is_valid).toBe(false);
+      expect(response.body.data.verification_status).toBe('revoked');
+      expect(response.body.data.revocation_reason).toBe('key_compromise');
+      expect(response.body.data.revoked_at).toBe('2024-06-01T00:00:00.000Z');
+
+      const stored = await api
+        .get(`/api/verifications/${response.body.data.verification_id}`)
+        .expect(200);
+      expect(stored.body.data.revocation_reason).toBe('key_compromise');
+    });
+
+    it('should report superseded credentials with their renewal', async () => {
+      const credentialData = {
+        id: '550e8400-e29b-41d4-a716-446655440002',
+        holder_name: 'John Doe',
+        issuer: 'Kube Credential Authority',
+        issued_date: '2024-01-01T00:00:00.000Z',
+        credential_type: 'license',
+        expiry_date: '2099-01-01T00:00:00.000Z',
+        signature_algorithm: 'Ed25519',
+        kid: issuerKid,
+        worker_id: 'issuer-worker-1'
+      };
+
+      const supersededCredential = {
+        ...credentialData,
+        signature: signCredential(credentialData),
+        created_at: '2024-01-01T00:00:00.000Z',
+        updated_at: '2024-01-01T00:00:00.000Z'
+      };
+
+      (issuanceClient.getCredential as jest.Mock).mockResolvedValue({
+        ...supersededCredential,
+        superseded_by: '550e8400-e29b-41d4-a716-446655440003',
+        superseded_at: '2024-06-01T00:00:00.000Z'
+      });
+
+      const response = await api
+        .post('/api/verifications')
+        .send({ credential: supersededCredential })
+        .expect(200);
+
+      expect(response.body.data.is_valid).toBe(false);
+      expect(response.body.data.verification_status).toBe('superseded');
+      expect(response.body.data.superseded_by).toBe('550e8400-e29b-41d4-a716-446655440003');
+      expect(response.body.data.superseded_at).toBe('2024-06-01T00:00:00.000Z');
+
+      const stored = await api
+        .get(`/api/verifications/${response.body.data.verification_id}`)
+        .expect(200);
+      expect(stored.body.data.superseded_by).toBe('550e8400-e29b-41d4-a716-446655440003');
+    });
+
+    it('should verify a W3C verifiable credential', async () => {
+      const credentialData = {
+        id: '550e8400-e29b-41d4-a716-446655440000',
+        holder_name: 'John Doe',
+        issuer: 'Kube Credential Authority',
+        issued_date: '2024-01-01T00:00:00.000Z',
+        credential_type: 'certificate',
+        expiry_date: '2099-01-01T00:00:00.000Z',
+        signature_algorithm: 'Ed25519',
+        kid: issuerKid,
+        worker_id: 'issuer-worker-1'
+      };
+      const signature = signCredential(credentialData);
+
+      (issuanceClient.getCredential as jest.Mock).mockResolvedValue({
+        ...credentialData,
+        signature,
+        created_at: '2024-01-01T00:00:00.000Z',
+        updated_at: '2024-01-01T00:00:00.000Z'
+      });
+
+      const verifiableCredential = {
+        '@context': ['https://www.w3.org/ns/credentials/v2'],
+        id: `urn:uuid:${credentialData.id}`,
+        type: ['VerifiableCredential', 'CertificateCredential'],
+        issuer: { id: 'urn:kube-credential:issuer', name: credentialData.issuer },
+        validFrom: credentialData.issued_date,
+        validUntil: credentialData.expiry_date,
+        credentialSubject: { name: credentialData.holder_name, credentialType: credentialData.credential_type },
+        proof: {
+          type: 'KubeCredentialEd25519Signature',
+          created: '2024-01-01T00:00:00.000Z',
+          verificationMethod: `urn:kube-credential:issuer#${issuerKid}`,
+          proofPurpose: 'assertionMethod',
+          proofValue: signature,
+          workerId: credentialData.worker_id
+        }
+      };
+
+      const response = await api
+        .post('/api/verifications')
+        .send(verifiableCredential)
+        .expect(200);
+
+      expect(response.body.data.credential_id).toBe(credentialData.id);
+      expect(response.body.data.verification_status).toBe('valid');
+
+      const tampered = await api
+        .post('/api/verifications')
+        .send({ ...verifiableCredential, credentialSubject: { ...verifiableCredential.credentialSubject, name: 'Jane Doe' } })
+        .expect(200);
+
+      expect(tampered.body.data.is_valid).toBe(false);
+    });
+
+    it('should validate verifiable credential format', async () => {
+      const response = await api
+        .post('/api/verifications')
+        .send({ '@context': ['https://www.w3.org/ns/credentials/v2'], type: ['VerifiableCredential'] })
+        .expect(400);
+
+      expect(response.body.success).toBe(false);
+      expect(response.body.message).toContain('Validation error');
+    });
+
     it('should validate credential format', async () => {
       const invalidRequest = {
         credential: {
@@ -194,7 +469,7 @@ describe('Verification Service Integration Tests', () => {
         }
       };
 
-      const response = await request(app)
+      const response = await api
         .post('/api/verifications')
         .send(invalidRequest)
         .expect(400);
@@ -203,8 +478,108 @@ describe('Verification Service Integration Tests', () => {
       expect(response.body.message).toContain('Validation error');
     });
 
+    it('should compare credential attributes field by field', async () => {
+      const credentialData = {
+        id: '550e8400-e29b-41d4-a716-446655440000',
+        holder_name: 'John Doe',
+        issuer: 'Kube Credential Authority',
+        issued_date: '2024-01-01T00:00:00.000Z',
+        credential_type: 'license',
+        expiry_date: '2099-01-01T00:00:00.000Z',
+        signature_algorithm: 'Ed25519',
+        kid: issuerKid,
+        worker_id: 'issuer-worker-1',
+        attributes: { license_number: 'DL-123', class: 'B', region: 'North' }
+      };
+
+      const credential = {
+        ...credentialData,
+        signature: signCredential(credentialData),
+        created_at: '2024-01-01T00:00:00.000Z',
+        updated_at: '2024-01-01T00:00:00.000Z'
+      };
+
+      (issuanceClient.getCredential as jest.Mock).mockResolvedValue({
+        ...credential,
+        attributes: { region: 'North', class: 'B', license_number: 'DL-123' }
+      });
+
+      const response = await api
+        .post('/api/verifications')
+        .send({ credential })
+        .expect(200);
+
+      expect(response.body.data.verification_status).toBe('valid');
+
+      (issuanceClient.getCredential as jest.Mock).mockResolvedValue({
+        ...credential,
+        attributes: { ...credential.attributes, class: 'C' }
+      });
+
+      const mismatch = await api
+        .post('/api/verifications')
+        .send({ credential })
+        .expect(200);
+
+      expect(mismatch.body.data.verification_status).toBe('invalid');
+    });
+
+    it('should reject credential types unknown to the registry', async () => {
+      const response = await api
+        .post('/api/verifications')
+        .send({
+          credential: {
+            id: '550e8400-e29b-41d4-a716-446655440000',
+            holder_name: 'John Doe',
+            issuer: 'Kube Credential Authority',
+            issued_date: '2024-01-01T00:00:00.000Z',
+            credential_type: 'membership',
+            expiry_date: '2099-01-01T00:00:00.000Z',
+            signature: 'signature',
+            signature_algorithm: 'Ed25519',
+            kid: issuerKid,
+            worker_id: 'issuer-worker-1',
+            created_at: '2024-01-01T00:00:00.000Z',
+            updated_at: '2024-01-01T00:00:00.000Z'
+          }
+        })
+        .expect(400);
+
+      expect(response.body.message).toContain("Unknown credential type 'membership'");
+      expect(issuanceClient.getCredential).not.toHaveBeenCalled();
+    });
+
+    it('should not verify credentials while the type registry is unavailable', async () => {
+      credentialTypeCache.clear();
+      (issuanceClient.getCredentialTypes as jest.Mock).mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+
+      const response = await api
+        .post('/api/verifications')
+        .send({
+          credential: {
+            id: '550e8400-e29b-41d4-a716-446655440000',
+            holder_name: 'John Doe',
+            issuer: 'Kube Credential Authority',
+            issued_date: '2024-01-01T00:00:00.000Z',
+            credential_type: 'membership',
+            expiry_date: '2099-01-01T00:00:00.000Z',
+            signature: 'signature',
+            signature_algorithm: 'Ed25519',
+            kid: issuerKid,
+            worker_id: 'issuer-worker-1',
+            created_at: '2024-01-01T00:00:00.000Z',
+            updated_at: '2024-01-01T00:00:00.000Z'
+          }
+        })
+        .expect(503);
+
+      expect(response.body.success).toBe(false);
+      expect(response.body.message).toContain('Credential type registry is unavailable');
+      expect(issuanceClient.getCredential).not.toHaveBeenCalled();
+    });
+
     it('should handle missing credential in request', async () => {
-      const response = await request(app)
+      const response = await api
         .post('/api/verifications')
         .send({})
         .expect(400);
@@ -214,80 +589,1314 @@ describe('Verification Service Integration Tests', () => {
     });
   });
 
-  describe('GET /api/verifications/:id', () => {
-    it('should retrieve a verification by ID', async () => {
-      // Create credential
+  describe('POST /api/verifications/batch', () => {
+    const issueCredential = (id: string, holderName: string) => {
       const credentialData = {
-        id: '550e8400-e29b-41d4-a716-446655440000',
-        holder_name: 'John Doe',
+        id,
+        holder_name: holderName,
         issuer: 'Kube Credential Authority',
         issued_date: '2024-01-01T00:00:00.000Z',
         credential_type: 'certificate',
-        expiry_date: '2026-01-01T00:00:00.000Z',
+        expiry_date: '2099-01-01T00:00:00.000Z',
+        signature_algorithm: 'Ed25519',
+        kid: issuerKid,
         worker_id: 'issuer-worker-1'
       };
-      
-      const validCredential = {
+
+      return {
         ...credentialData,
-        signature: CryptoUtils.generateCredentialSignature(credentialData),
+        signature: signCredential(credentialData),
         created_at: '2024-01-01T00:00:00.000Z',
         updated_at: '2024-01-01T00:00:00.000Z'
       };
+    };
 
-      // First create a verification
-      (issuanceClient.getCredential as jest.Mock).mockResolvedValue(validCredential);
+    it('should verify each credential, store the verifications and count them by status', async () => {
+      const first = issueCredential('550e8400-e29b-41d4-a716-446655440001', 'First Holder');
+      const second = issueCredential('550e8400-e29b-41d4-a716-446655440002', 'Second Holder');
+      const unknown = issueCredential('550e8400-e29b-41d4-a716-446655440003', 'Unknown Holder');
 
-      const createResponse = await request(app)
-        .post('/api/verifications')
-        .send({ credential: validCredential });
+      (issuanceClient.getCredential as jest.Mock).mockImplementation(async (id: string) =>
+        [first, second].find(credential => credential.id === id) || null
+      );
 
-      const verificationId = createResponse.body.data.verification_id;
+      const response = await api
+        .post('/api/verifications/batch')
+        .send([
+          { credential: first },
+          { credential: { ...second, holder_name: 'Someone Else' } },
+          { credential: unknown },
+          { credential: { ...first, credential_type: 'unknown_type' } },
+          { holder_name: 'Not wrapped' }
+        ])
+        .expect(200);
 
-      // Then retrieve it
-      const response = await request(app)
-        .get(`/api/verifications/${verificationId}`)
+      expect(response.body.data.summary).toEqual({
+        total: 5,
+        verified: 3,
+        rejected: 2,
+        by_status: { valid: 1, signature_mismatch: 1, not_found: 1 }
+      });
+
+      const results = response.body.data.results;
+      expect(results.map((result: any) => result.index)).toEqual([0, 1, 2, 3, 4]);
+      expect(results[0].verification).toMatchObject({ credential_id: first.id, verification_status: 'valid' });
+      expect(results[3].errors).toEqual(["Unknown credential type 'unknown_type'"]);
+      expect(results[4].errors[0]).toContain('"credential" is required');
+
+      expect(await database.all('SELECT id FROM verifications')).toHaveLength(3);
+    });
+
+    it('should report an unavailable type registry per credential', async () => {
+      credentialTypeCache.clear();
+      (issuanceClient.getCredentialTypes as jest.Mock).mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+
+      const response = await api
+        .post('/api/verifications/batch')
+        .send([
+          { credential: issueCredential('550e8400-e29b-41d4-a716-446655440004', 'First Holder') },
+          { holder_name: 'Not wrapped' }
+        ])
         .expect(200);
 
-      expect(response.body.success).toBe(true);
-      expect(response.body.data.id).toBe(verificationId);
+      expect(response.body.data.summary).toEqual({ total: 2, verified: 0, rejected: 2, by_status: {} });
+      expect(response.body.data.results[0].errors).toEqual(['Credential type registry is unavailable, try again later']);
+      expect(response.body.data.results[1].errors[0]).toContain('"credential" is required');
+      expect(issuanceClient.getCredential).not.toHaveBeenCalled();
     });
 
-    it('should return 404 for non-existent verification', async () => {
-      const response = await request(app)
-        .get('/api/verifications/non-existent-id')
-        .expect(404);
+    it('should reject batches that are empty or too large', async () => {
+      process.env.VERIFICATION_BATCH_MAX_SIZE = '2';
 
-      expect(response.body.success).toBe(false);
-      expect(response.body.message).toContain('not found');
+      const response = await api
+        .post('/api/verifications/batch')
+        .send([{}, {}, {}])
+        .expect(400);
+
+      delete process.env.VERIFICATION_BATCH_MAX_SIZE;
+
+      expect(response.body.message).toContain('array of 1 to 2 credentials');
+
+      await api
+        .post('/api/verifications/batch')
+        .send([])
+        .expect(400);
     });
   });
 
-  describe('GET /health', () => {
-    it('should return healthy status with service checks', async () => {
-      // Mock issuance service health check
-      (issuanceClient.healthCheck as jest.Mock).mockResolvedValue(true);
+  describe('Verification by credential ID', () => {
+    const credentialData = {
+      id: '550e8400-e29b-41d4-a716-446655440010',
+      holder_name: 'John Doe',
+      issuer: 'Kube Credential Authority',
+      issued_date: '2024-01-01T00:00:00.000Z',
+      credential_type: 'certificate',
+      expiry_date: '2099-01-01T00:00:00.000Z',
+      signature_algorithm: 'Ed25519',
+      kid: issuerKid,
+      worker_id: 'issuer-worker-1'
+    };
+    const issuedCredential = {
+      ...credentialData,
+      signature: signCredential(credentialData),
+      created_at: '2024-01-01T00:00:00.000Z',
+      updated_at: '2024-01-01T00:00:00.000Z'
+    };
 
-      const response = await request(app)
-        .get('/health')
+    it('should verify and record a credential looked up by ID', async () => {
+      (issuanceClient.getCredential as jest.Mock).mockResolvedValue(issuedCredential);
+
+      const response = await api
+        .get(`/api/verifications/check/${issuedCredential.id}`)
         .expect(200);
 
-      expect(response.body.success).toBe(true);
-      expect(response.body.data.status).toBe('healthy');
-      expect(response.body.data.database).toBe('connected');
-      expect(response.body.data.issuance_service).toBe('reachable');
-      expect(response.body.worker_id).toBe('test-verification-worker-1');
+      expect(response.body.data).toMatchObject({
+        credential_id: issuedCredential.id,
+        is_valid: true,
+        verification_status: 'valid',
+        issuer_worker_id: 'issuer-worker-1'
+      });
+      expect(issuanceClient.getCredential).toHaveBeenCalledTimes(1);
+
+      const verification = await api
+        .get(`/api/verifications/${response.body.data.verification_id}`)
+        .expect(200);
+      expect(verification.body.data.verification_status).toBe('valid');
     });
 
-    it('should report unhealthy when issuance service is down', async () => {
-      // Mock issuance service health check failure
-      (issuanceClient.healthCheck as jest.Mock).mockResolvedValue(false);
+    it('should accept the ID in a POST body and report expired credentials', async () => {
+      const expiredData = { ...credentialData, expiry_date: '2024-06-01T00:00:00.000Z' };
+      (issuanceClient.getCredential as jest.Mock).mockResolvedValue({
+        ...issuedCredential,
+        ...expiredData,
+        signature: signCredential(expiredData)
+      });
 
-      const response = await request(app)
-        .get('/health')
+      const response = await api
+        .post('/api/verifications/check')
+        .send({ credential_id: issuedCredential.id })
+        .expect(200);
+
+      expect(response.body.data.verification_status).toBe('expired');
+      expect(response.body.data.is_expired).toBe(true);
+    });
+
+    it('should detect a stored credential whose signature does not match', async () => {
+      (issuanceClient.getCredential as jest.Mock).mockResolvedValue({ ...issuedCredential, holder_name: 'Jane Doe' });
+
+      const response = await api
+        .get(`/api/verifications/check/${issuedCredential.id}`)
+        .expect(200);
+
+      expect(response.body.data.verification_status).toBe('signature_mismatch');
+    });
+
+    it('should record unknown IDs as not found and reject malformed IDs', async () => {
+      (issuanceClient.getCredential as jest.Mock).mockResolvedValue(null);
+
+      const response = await api
+        .get(`/api/verifications/check/${issuedCredential.id}`)
+        .expect(200);
+
+      expect(response.body.data.verification_status).toBe('not_found');
+
+      const invalid = await api
+        .get('/api/verifications/check/not-a-uuid')
+        .expect(400);
+      expect(invalid.body.message).toContain('"credential_id" must be a valid GUID');
+    });
+  });
+
+  describe('POST /api/verifications/jwt', () => {
+    const credentialData = {
+      id: '550e8400-e29b-41d4-a716-446655440000',
+      holder_name: 'John Doe',
+      issuer: 'Kube Credential Authority',
+      issued_date: '2024-01-01T00:00:00.000Z',
+      credential_type: 'certificate',
+      expiry_date: '2099-01-01T00:00:00.000Z',
+      signature_algorithm: 'Ed25519',
+      kid: issuerKid,
+      worker_id: 'issuer-worker-1'
+    };
+
+    const jwtPayload = {
+      iss: 'urn:kube-credential:issuer',
+      sub: credentialData.holder_name,
+      nbf: Math.floor(new Date(credentialData.issued_date).getTime() / 1000),
+      exp: Math.floor(new Date(credentialData.expiry_date).getTime() / 1000),
+      jti: `urn:uuid:${credentialData.id}`,
+      vc: {
+        '@context': ['https://www.w3.org/ns/credentials/v2'],
+        id: `urn:uuid:${credentialData.id}`,
+        type: ['VerifiableCredential', 'CertificateCredential'],
+        issuer: { id: 'urn:kube-credential:issuer', name: credentialData.issuer },
+        validFrom: credentialData.issued_date,
+        validUntil: credentialData.expiry_date,
+        credentialSubject: { name: credentialData.holder_name, credentialType: credentialData.credential_type }
+      }
+    };
+
+    beforeEach(() => {
+      (issuanceClient.getCredential as jest.Mock).mockResolvedValue({
+        ...credentialData,
+        signature: signCredential(credentialData),
+        created_at: '2024-01-01T00:00:00.000Z',
+        updated_at: '2024-01-01T00:00:00.000Z'
+      });
+    });
+
+    it('should verify a raw JWT credential', async () => {
+      const response = await api
+        .post('/api/verifications/jwt')
+        .set('Content-Type', 'application/jwt')
+        .send(signJwt(jwtPayload))
         .expect(200);
 
       expect(response.body.success).toBe(true);
-      expect(response.body.data.issuance_service).toBe('unreachable');
+      expect(response.body.data.credential_id).toBe(credentialData.id);
+      expect(response.body.data.verification_status).toBe('valid');
+      expect(issuanceClient.getCredential).toHaveBeenCalledWith(credentialData.id);
+    });
+
+    it('should detect a JWT whose claims do not match the issued credential', async () => {
+      const response = await api
+        .post('/api/verifications/jwt')
+        .send({ jwt: signJwt({ ...jwtPayload, vc: { ...jwtPayload.vc, validUntil: '2100-01-01T00:00:00.000Z' } }) })
+        .expect(200);
+
+      expect(response.body.data.is_valid).toBe(false);
+      expect(response.body.data.verification_status).toBe('invalid');
+    });
+
+    it('should detect a JWT with an invalid signature', async () => {
+      const [header, , signature] = signJwt(jwtPayload).split('.');
+      const forgedPayload = Buffer.from(JSON.stringify({ ...jwtPayload, sub: 'Jane Doe' })).toString('base64url');
+
+      const response = await api
+        .post('/api/verifications/jwt')
+        .set('Content-Type', 'application/jwt')
+        .send(`${header}.${forgedPayload}.${signature}`)
+        .expect(200);
+
+      expect(response.body.data.verification_status).toBe('signature_mismatch');
+      expect(issuanceClient.getCredential).not.toHaveBeenCalled();
+    });
+
+    it('should reject malformed JWTs', async () => {
+      const response = await api
+        .post('/api/verifications/jwt')
+        .set('Content-Type', 'application/jwt')
+        .send('not-a-jwt')
+        .expect(400);
+
+      expect(response.body.success).toBe(false);
+      expect(response.body.message).toContain('Validation error');
+    });
+  });
+
+  describe('POST /api/verifications/sd-jwt', () => {
+    const credentialData = {
+      id: '550e8400-e29b-41d4-a716-446655440000',
+      holder_name: 'John Doe',
+      issuer: 'Kube Credential Authority',
+      issued_date: '2024-01-01T00:00:00.000Z',
+      credential_type: 'license',
+      expiry_date: '2099-01-01T00:00:00.000Z',
+      signature_algorithm: 'Ed25519',
+      kid: issuerKid,
+      worker_id: 'issuer-worker-1',
+      attributes: { license_class: 'B', points: 0 }
+    };
+
+    const createDisclosure = (name: string, value: unknown): string =>
+      Buffer.from(JSON.stringify([crypto.randomBytes(16).toString('base64url'), name, value])).toString('base64url');
+    const digest = (disclosure: string): string => crypto.createHash('sha256').update(disclosure).digest('base64url');
+
+    const nameDisclosure = createDisclosure('name', credentialData.holder_name);
+    const classDisclosure = createDisclosure('license_class', 'B');
+    const pointsDisclosure = createDisclosure('points', 0);
+
+    const issuerJwt = signJwt({
+      iss: 'urn:kube-credential:issuer',
+      nbf: Math.floor(new Date(credentialData.issued_date).getTime() / 1000),
+      exp: Math.floor(new Date(credentialData.expiry_date).getTime() / 1000),
+      jti: `urn:uuid:${credentialData.id}`,
+      _sd_alg: 'sha-256',
+      vc: {
+        '@context': ['https://www.w3.org/ns/credentials/v2'],
+        id: `urn:uuid:${credentialData.id}`,
+        type: ['VerifiableCredential', 'LicenseCredential'],
+        issuer: { id: 'urn:kube-credential:issuer', name: credentialData.issuer },
+        validFrom: credentialData.issued_date,
+        validUntil: credentialData.expiry_date,
+        credentialSubject: {
+          credentialType: credentialData.credential_type,
+          _sd: [digest(nameDisclosure)],
+          attributes: { _sd: [digest(classDisclosure), digest(pointsDisclosure)] }
+        }
+      }
+    });
+
+    beforeEach(() => {
+      (issuanceClient.getCredential as jest.Mock).mockResolvedValue({
+        ...credentialData,
+        signature: signCredential(credentialData),
+        created_at: '2024-01-01T00:00:00.000Z',
+        updated_at: '2024-01-01T00:00:00.000Z'
+      });
+    });
+
+    it('should verify a presentation with all disclosures', async () => {
+      const response = await api
+        .post('/api/verifications/sd-jwt')
+        .set('Content-Type', 'application/sd-jwt')
+        .send(`${issuerJwt}~${nameDisclosure}~${classDisclosure}~${pointsDisclosure}~`)
+        .expect(200);
+
+      expect(response.body.data.verification_status).toBe('valid');
+      expect(response.body.data.disclosed_claims).toEqual(['holder_name', 'attributes.license_class', 'attributes.points']);
+    });
+
+    it('should verify and record a presentation with a subset of disclosures', async () => {
+      const response = await api
+        .post('/api/verifications/sd-jwt')
+        .send({ sd_jwt: `${issuerJwt}~${classDisclosure}~` })
+        .expect(200);
+
+      expect(response.body.data.verification_status).toBe('valid');
+      expect(response.body.data.disclosed_claims).toEqual(['attributes.license_class']);
+
+      const recordResponse = await api
+        .get(`/api/verifications/${response.body.data.verification_id}`)
+        .expect(200);
+
+      expect(recordResponse.body.data.disclosed_claims).toEqual(['attributes.license_class']);
+    });
+
+    it('should detect a disclosed claim that does not match the issued credential', async () => {
+      (issuanceClient.getCredential as jest.Mock).mockResolvedValue({
+        ...credentialData,
+        attributes: { license_class: 'C', points: 0 }
+      });
+
+      const response = await api
+        .post('/api/verifications/sd-jwt')
+        .send({ sd_jwt: `${issuerJwt}~${classDisclosure}~` })
+        .expect(200);
+
+      expect(response.body.data.verification_status).toBe('invalid');
+    });
+
+    it('should reject disclosures the issuer did not sign', async () => {
+      const forgedDisclosure = createDisclosure('license_class', 'A');
+
+      const response = await api
+        .post('/api/verifications/sd-jwt')
+        .send({ sd_jwt: `${issuerJwt}~${forgedDisclosure}~` })
+        .expect(400);
+
+      expect(response.body.message).toContain('not part of the credential');
+    });
+  });
+
+  describe('GET /api/verifications/:id', () => {
+    it('should retrieve a verification by ID', async () => {
+      // Create credential
+      const credentialData = {
+        id: '550e8400-e29b-41d4-a716-446655440000',
+        holder_name: 'John Doe',
+        issuer: 'Kube Credential Authority',
+        issued_date: '2024-01-01T00:00:00.000Z',
+        credential_type: 'certificate',
+        expiry_date: '2026-01-01T00:00:00.000Z',
+        signature_algorithm: 'Ed25519',
+        kid: issuerKid,
+        worker_id: 'issuer-worker-1'
+      };
+      
+      const validCredential = {
+        ...credentialData,
+        signature: signCredential(credentialData),
+        created_at: '2024-01-01T00:00:00.000Z',
+        updated_at: '2024-01-01T00:00:00.000Z'
+      };
+
+      // First create a verification
+      (issuanceClient.getCredential as jest.Mock).mockResolvedValue(validCredential);
+
+      const createResponse = await api
+        .post('/api/verifications')
+        .send({ credential: validCredential });
+
+      const verificationId = createResponse.body.data.verification_id;
+
+      // Then retrieve it
+      const response = await api
+        .get(`/api/verifications/${verificationId}`)
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.id).toBe(verificationId);
+    });
+
+    it('should return 404 for non-existent verification', async () => {
+      const response = await api
+        .get('/api/verifications/non-existent-id')
+        .expect(404);
+
+      expect(response.body.success).toBe(false);
+      expect(response.body.message).toContain('not found');
+    });
+  });
+
+  describe('Webhooks', () => {
+    // Local endpoint recording the webhooks it receives, answering with the next queued status
+    const received: { headers: http.IncomingHttpHeaders; body: string }[] = [];
+    const statuses: number[] = [];
+    let webhookServer: http.Server;
+    let webhookUrl: string;
+
+    const subscribe = async (events: string[]) => (await request(app)
+      .post('/api/webhooks')
+      .set('X-Admin-Key', 'test-admin-key')
+      .send({ url: webhookUrl, events })
+      .expect(201)).body.data;
+
+    const verifyCredential = async () => {
+      const credentialData = {
+        id: '6f1c2e0a-8d4b-4c57-9a3e-1b2c3d4e5f60',
+        holder_name: 'Webhook User',
+        issuer: 'Kube Credential Authority',
+        issued_date: '2024-01-01T00:00:00.000Z',
+        credential_type: 'certificate',
+        expiry_date: '2099-01-01T00:00:00.000Z',
+        signature_algorithm: 'Ed25519',
+        kid: issuerKid,
+        worker_id: 'issuer-worker-1'
+      };
+      const credential = {
+        ...credentialData,
+        signature: signCredential(credentialData),
+        created_at: '2024-01-01T00:00:00.000Z',
+        updated_at: '2024-01-01T00:00:00.000Z'
+      };
+      (issuanceClient.getCredential as jest.Mock).mockResolvedValue(credential);
+
+      return (await api
+        .post('/api/verifications')
+        .send({ credential })
+        .expect(200)).body.data;
+    };
+
+    beforeAll(async () => {
+      webhookServer = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+          received.push({ headers: req.headers, body });
+          res.statusCode = statuses.shift() ?? 200;
+          res.end();
+        });
+      });
+      await new Promise<void>(resolve => webhookServer.listen(0, '127.0.0.1', resolve));
+      webhookUrl = `http://127.0.0.1:${(webhookServer.address() as AddressInfo).port}/hooks`;
+      // The local endpoint is on a loopback address
+      process.env.WEBHOOK_ALLOWED_HOSTS = '127.0.0.1';
+    });
+
+    afterEach(async () => {
+      received.length = 0;
+      statuses.length = 0;
+      delete process.env.WEBHOOK_MAX_ATTEMPTS;
+      process.env.WEBHOOK_ALLOWED_HOSTS = '127.0.0.1';
+      await database.run('DELETE FROM webhook_deliveries');
+      await database.run('DELETE FROM webhook_subscriptions');
+    });
+
+    afterAll(async () => {
+      delete process.env.WEBHOOK_ALLOWED_HOSTS;
+      await new Promise(resolve => webhookServer.close(resolve));
+    });
+
+    it('should not send webhooks to loopback, private or link-local addresses', async () => {
+      await subscribe(['verification.completed']);
+      delete process.env.WEBHOOK_ALLOWED_HOSTS;
+
+      for (const url of ['http://127.0.0.1/hooks', 'http://169.254.169.254/latest/meta-data/', 'http://[::ffff:10.0.0.1]/hooks']) {
+        const response = await request(app)
+          .post('/api/webhooks')
+          .set('X-Admin-Key', 'test-admin-key')
+          .send({ url, events: ['verification.completed'] })
+          .expect(400);
+
+        expect(response.body.message).toContain('resolves to a loopback, private or link-local address');
+      }
+
+      // A subscription stored while its host was allowed is checked again when sending
+      await verifyCredential();
+      await webhookDispatcher.processDue();
+
+      expect(received).toHaveLength(0);
+      const [delivery] = (await request(app)
+        .get('/api/webhooks/deliveries')
+        .set('X-Admin-Key', 'test-admin-key')
+        .expect(200)).body.data.deliveries;
+      expect(delivery).toMatchObject({
+        status: 'pending',
+        last_response_status: null,
+        last_error: 'Host 127.0.0.1 resolves to a loopback, private or link-local address'
+      });
+    });
+
+    it('should deliver signed verification.completed events', async () => {
+      const subscription = await subscribe(['verification.completed']);
+
+      const verification = await verifyCredential();
+
+      await webhookDispatcher.processDue();
+
+      expect(received).toHaveLength(1);
+      const { headers, body } = received[0]!;
+      const event = JSON.parse(body);
+      expect(event).toMatchObject({ type: 'verification.completed', tenant_id: 'default' });
+      expect(event.data).toMatchObject({ id: verification.verification_id, verification_status: 'valid' });
+      expect(headers['x-webhook-event']).toBe('verification.completed');
+
+      const expectedSignature = crypto
+        .createHmac('sha256', subscription.secret)
+        .update(`${headers['x-webhook-timestamp']}.${body}`)
+        .digest('hex');
+      expect(headers['x-webhook-signature']).toBe(`sha256=${expectedSignature}`);
+    });
+
+    it('should dead-letter deliveries that run out of attempts and redeliver on request', async () => {
+      process.env.WEBHOOK_MAX_ATTEMPTS = '1';
+      statuses.push(500);
+      await subscribe(['verification.completed']);
+
+      await verifyCredential();
+      await webhookDispatcher.processDue();
+
+      const deadResponse = await request(app)
+        .get('/api/webhooks/deliveries?status=dead')
+        .set('X-Admin-Key', 'test-admin-key')
+        .expect(200);
+      expect(deadResponse.body.data.deliveries).toHaveLength(1);
+      const [dead] = deadResponse.body.data.deliveries;
+      expect(dead).toMatchObject({ attempts: 1, last_response_status: 500, next_attempt_at: null });
+
+      const redeliverResponse = await request(app)
+        .post(`/api/webhooks/deliveries/${dead.id}/redeliver`)
+        .set('X-Admin-Key', 'test-admin-key')
+        .expect(200);
+      expect(redeliverResponse.body.data).toMatchObject({ status: 'succeeded', last_response_status: 200 });
+      expect(received).toHaveLength(2);
+    });
+
+    it('should validate subscriptions and require the admin role', async () => {
+      await api
+        .get('/api/webhooks')
+        .expect(403);
+
+      const response = await request(app)
+        .post('/api/webhooks')
+        .set('X-Admin-Key', 'test-admin-key')
+        .send({ url: webhookUrl, events: ['credential.issued'] })
+        .expect(400);
+
+      expect(response.body.message).toContain('Events must be among');
+    });
+  });
+
+  describe('Audit log', () => {
+    const credentialData = {
+      id: '0b5e7c1d-2f3a-4b6c-8d9e-0f1a2b3c4d5e',
+      holder_name: 'Audited User',
+      issuer: 'Kube Credential Authority',
+      issued_date: '2024-01-01T00:00:00.000Z',
+      credential_type: 'certificate',
+      expiry_date: '2099-01-01T00:00:00.000Z',
+      signature_algorithm: 'Ed25519',
+      kid: issuerKid,
+      worker_id: 'issuer-worker-1'
+    };
+
+    it('should record verifications and rejected requests', async () => {
+      const credential = {
+        ...credentialData,
+        signature: signCredential(credentialData),
+        created_at: '2024-01-01T00:00:00.000Z',
+        updated_at: '2024-01-01T00:00:00.000Z'
+      };
+      (issuanceClient.getCredential as jest.Mock).mockResolvedValue(credential);
+
+      await api
+        .post('/api/verifications')
+        .send({ credential })
+        .expect(200);
+
+      await request(app)
+        .post('/api/verifications')
+        .send({ credential })
+        .expect(401);
+
+      await auditTrail.flush();
+
+      const entries = (await api
+        .get(`/api/audit?action=verification.verify&resource_id=${credential.id}`)
+        .expect(200)).body.data.entries;
+
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({
+        actor_type: 'api_key',
+        worker_id: 'test-verification-worker-1',
+        status_code: 200,
+        tenant_id: 'default'
+      });
+
+      const rejected = (await api
+        .get('/api/audit?action=verification.verify&resource_id=')
+        .expect(400)).body;
+      expect(rejected.message).toContain('Validation error');
+
+      const [unauthenticated] = (await api
+        .get('/api/audit?action=verification.verify')
+        .expect(200)).body.data.entries;
+      expect(unauthenticated).toMatchObject({ actor_type: 'anonymous', status_code: 401 });
+    });
+
+    it('should fail requests that cannot be recorded', async () => {
+      await auditTrail.flush();
+      const append = jest.spyOn(AuditLogModel, 'append').mockRejectedValueOnce(new Error('disk full'));
+
+      try {
+        const response = await api
+          .get('/api/audit')
+          .expect(500);
+
+        expect(response.body).toMatchObject({
+          success: false,
+          message: 'The request could not be recorded in the audit log'
+        });
+      } finally {
+        append.mockRestore();
+      }
+    });
+
+    it('should verify the integrity of the chain', async () => {
+      await auditTrail.flush();
+      expect((await api.get('/api/audit/verify').expect(200)).body.data.valid).toBe(true);
+
+      await auditTrail.flush();
+      const [entry] = (await api.get('/api/audit?limit=1').expect(200)).body.data.entries;
+      await auditTrail.flush();
+
+      await database.run('UPDATE audit_log SET actor_id = ? WHERE id = ?', ['someone-else', entry.id]);
+      expect((await api.get('/api/audit/verify').expect(200)).body.data).toMatchObject({
+        valid: false,
+        first_invalid_sequence: entry.sequence
+      });
+      await database.run('UPDATE audit_log SET actor_id = ? WHERE id = ?', [entry.actor_id, entry.id]);
+    });
+
+    it('should check the end of the log against its signed heads', async () => {
+      await auditTrail.flush();
+
+      const last = await database.get<any>('SELECT * FROM audit_log ORDER BY sequence DESC LIMIT 1');
+      const lastAnchor = await database.get<any>('SELECT * FROM audit_log_anchors WHERE sequence = ?', [last.sequence]);
+      expect(await AuditLogModel.verifyChain()).toMatchObject({
+        valid: true,
+        anchor: { sequence: last.sequence, hash: last.hash, kid: lastAnchor.kid }
+      });
+
+      await database.run('DELETE FROM audit_log WHERE sequence = ?', [last.sequence]);
+      expect(await AuditLogModel.verifyChain()).toMatchObject({
+        valid: false,
+        first_invalid_sequence: last.sequence,
+        error: `Entries ${last.sequence} to ${last.sequence} are missing`
+      });
+      const columns = Object.keys(last);
+      await database.run(
+        `INSERT INTO audit_log (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+        columns.map(column => last[column])
+      );
+
+      const forgedHead = CryptoUtils.signJwt(
+        { sequence: last.sequence, hash: last.hash },
+        crypto.generateKeyPairSync('ed25519').privateKey,
+        lastAnchor.kid,
+        'audit-head+jwt'
+      );
+      await database.run('UPDATE audit_log_anchors SET signed_head = ? WHERE sequence = ?', [forgedHead, last.sequence]);
+      expect(await AuditLogModel.verifyChain()).toMatchObject({
+        valid: false,
+        first_invalid_sequence: last.sequence,
+        error: 'Signature of the signed head is not valid'
+      });
+
+      await database.run('UPDATE audit_log_anchors SET signed_head = ? WHERE sequence = ?', [lastAnchor.signed_head, last.sequence]);
+      expect((await AuditLogModel.verifyChain()).valid).toBe(true);
+    });
+  });
+
+  describe('Tenants', () => {
+    const credentialData = {
+      id: '550e8400-e29b-41d4-a716-446655440040',
+      holder_name: 'Tenant Holder',
+      issuer: 'Acme University',
+      issued_date: '2024-01-01T00:00:00.000Z',
+      credential_type: 'diploma',
+      expiry_date: '2099-01-01T00:00:00.000Z',
+      signature_algorithm: 'Ed25519',
+      kid: tenantKid,
+      worker_id: 'issuer-worker-1'
+    };
+    const tenantCredential = {
+      ...credentialData,
+      tenant_id: 'acme',
+      signature: signCredentialAsTenant(credentialData),
+      created_at: '2024-01-01T00:00:00.000Z',
+      updated_at: '2024-01-01T00:00:00.000Z'
+    };
+
+    it('should verify a credential signed with the key of the tenant that issued it', async () => {
+      (issuanceClient.getCredential as jest.Mock).mockResolvedValue(tenantCredential);
+
+      const response = await api
+        .post('/api/verifications')
+        .send({ credential: tenantCredential })
+        .expect(200);
+
+      expect(response.body.data.verification_status).toBe('valid');
+    });
+
+    it('should reject a credential signed with the key of another tenant', async () => {
+      // Issued by the default tenant, but signed with the key of tenant acme
+      const issuedCredential = { ...tenantCredential, tenant_id: 'default' };
+      (issuanceClient.getCredential as jest.Mock).mockResolvedValue(issuedCredential);
+
+      const response = await api
+        .post('/api/verifications')
+        .send({ credential: { ...tenantCredential, tenant_id: 'default' } })
+        .expect(200);
+
+      expect(response.body.data.is_valid).toBe(false);
+      expect(response.body.data.verification_status).toBe('invalid');
+    });
+
+    it('should reject the admin key for a tenant missing from the issuer key set', async () => {
+      const response = await request(app)
+        .get('/api/verifications')
+        .set('X-Admin-Key', 'test-admin-key')
+        .set('X-Tenant-ID', 'unknown-tenant')
+        .expect(404);
+
+      expect(response.body.message).toBe("Tenant 'unknown-tenant' not found");
+    });
+
+    it('should keep verification records separate per tenant', async () => {
+      (issuanceClient.getCredential as jest.Mock).mockResolvedValue(tenantCredential);
+
+      const keyResponse = await request(app)
+        .post('/api/api-keys')
+        .set('X-Admin-Key', 'test-admin-key')
+        .set('X-Tenant-ID', 'acme')
+        .send({ name: 'acme-verifier', roles: ['verifier', 'auditor'] })
+        .expect(201);
+      expect(keyResponse.body.data.tenant_id).toBe('acme');
+      const acme: any = request.agent(app).set('X-API-Key', keyResponse.body.data.key);
+
+      const verifyResponse = await acme
+        .post('/api/verifications')
+        .send({ credential: tenantCredential })
+        .expect(200);
+      const verificationId = verifyResponse.body.data.verification_id;
+
+      await acme.get(`/api/verifications/${verificationId}`).expect(200);
+      await api.get(`/api/verifications/${verificationId}`).expect(404);
+
+      const acmeList = await acme.get('/api/verifications').expect(200);
+      expect(acmeList.body.data.verifications.map((v: any) => v.id)).toEqual([verificationId]);
+
+      const defaultList = await api.get('/api/verifications').expect(200);
+      expect(defaultList.body.data.verifications).toHaveLength(0);
+
+      const defaultKeys = await request(app)
+        .get('/api/api-keys')
+        .set('X-Admin-Key', 'test-admin-key')
+        .expect(200);
+      expect(defaultKeys.body.data.api_keys.map((k: any) => k.name)).not.toContain('acme-verifier');
+    });
+  });
+
+  describe('Status lists', () => {
+    const statusListId = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+    const credentialData = {
+      id: '550e8400-e29b-41d4-a716-446655440050',
+      holder_name: 'Status Holder',
+      issuer: 'Kube Credential Authority',
+      issued_date: '2024-01-01T00:00:00.000Z',
+      credential_type: 'license',
+      expiry_date: '2099-01-01T00:00:00.000Z',
+      signature_algorithm: 'Ed25519',
+      kid: issuerKid,
+      worker_id: 'issuer-worker-1',
+      status_list_id: statusListId,
+      status_list_index: 42
+    };
+    const indexedCredential = {
+      ...credentialData,
+      signature: signCredential(credentialData),
+      created_at: '2024-01-01T00:00:00.000Z',
+      updated_at: '2024-01-01T00:00:00.000Z'
+    };
+
+    // Status list JWT as published by issuance service, with the given indexes set
+    const signStatusList = (purpose: string, setIndexes: number[], keys = issuerKeys, kid = issuerKid): string => {
+      const bits = Buffer.alloc(16384);
+      for (const index of setIndexes) {
+        bits[Math.floor(index / 8)] = bits[Math.floor(index / 8)]! | (0x80 >> (index % 8));
+      }
+      const url = `http://issuance/api/status-lists/${statusListId}/${purpose}`;
+      const header = Buffer.from(JSON.stringify({ alg: 'EdDSA', typ: 'JWT', kid })).toString('base64url');
+      const body = Buffer.from(JSON.stringify({
+        iss: 'urn:kube-credential:issuer',
+        iat: Math.floor(Date.now() / 1000),
+        exp: Math.floor(Date.now() / 1000) + 300,
+        vc: {
+          id: url,
+          type: ['VerifiableCredential', 'BitstringStatusListCredential'],
+          credentialSubject: {
+            id: `${url}#list`,
+            type: 'BitstringStatusList',
+            statusPurpose: purpose,
+            encodedList: `u${zlib.gzipSync(bits).toString('base64url')}`
+          }
+        }
+      })).toString('base64url');
+      const signature = crypto.sign(null, Buffer.from(`${header}.${body}`), keys.privateKey).toString('base64url');
+      return `${header}.${body}.${signature}`;
+    };
+
+    const publishStatusLists = (revoked: number[], superseded: number[], keys = issuerKeys, kid = issuerKid) => {
+      (issuanceClient.getStatusList as jest.Mock).mockImplementation(async (_listId: string, purpose: string) =>
+        signStatusList(purpose, purpose === 'revocation' ? revoked : superseded, keys, kid)
+      );
+    };
+
+    beforeEach(() => {
+      statusListCache.clear();
+    });
+
+    it('should check the status locally without looking the credential up', async () => {
+      publishStatusLists([], []);
+
+      const response = await api
+        .post('/api/verifications')
+        .send({ credential: indexedCredential })
+        .expect(200);
+
+      expect(response.body.data.verification_status).toBe('valid');
+      expect(issuanceClient.getStatusList).toHaveBeenCalledWith(statusListId, 'revocation');
+      expect(issuanceClient.getCredential).not.toHaveBeenCalled();
+
+      // The downloaded lists are cached for later verifications
+      await api.post('/api/verifications').send({ credential: indexedCredential }).expect(200);
+      expect(issuanceClient.getStatusList).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report revoked and superseded credentials from their bits, with their details', async () => {
+      publishStatusLists([42], []);
+      (issuanceClient.getCredential as jest.Mock).mockResolvedValue({
+        ...indexedCredential,
+        revocation: { reason: 'key_compromise', revoked_at: '2024-06-01T00:00:00.000Z' }
+      });
+
+      const revoked = await api
+        .post('/api/verifications')
+        .send({ credential: indexedCredential })
+        .expect(200);
+      expect(revoked.body.data).toMatchObject({
+        is_valid: false,
+        verification_status: 'revoked',
+        revocation_reason: 'key_compromise',
+        revoked_at: '2024-06-01T00:00:00.000Z'
+      });
+      expect(issuanceClient.getCredential).toHaveBeenCalledWith(indexedCredential.id);
+
+      statusListCache.clear();
+      publishStatusLists([41, 43], [42]);
+      (issuanceClient.getCredential as jest.Mock).mockResolvedValue({
+        ...indexedCredential,
+        superseded_by: '550e8400-e29b-41d4-a716-446655440051',
+        superseded_at: '2024-07-01T00:00:00.000Z'
+      });
+
+      const superseded = await api
+        .post('/api/verifications')
+        .send({ credential: indexedCredential })
+        .expect(200);
+      expect(superseded.body.data).toMatchObject({
+        verification_status: 'superseded',
+        superseded_by: '550e8400-e29b-41d4-a716-446655440051',
+        superseded_at: '2024-07-01T00:00:00.000Z'
+      });
+
+      // The status stands when the details cannot be looked up
+      statusListCache.clear();
+      publishStatusLists([42], []);
+      (issuanceClient.getCredential as jest.Mock).mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+      const revokedWithoutDetails = await api
+        .post('/api/verifications')
+        .send({ credential: indexedCredential })
+        .expect(200);
+      expect(revokedWithoutDetails.body.data.verification_status).toBe('revoked');
+      expect(revokedWithoutDetails.body.data.revocation_reason).toBeUndefined();
+    });
+
+    it('should use an expired list only for a grace period while issuance service is unreachable', async () => {
+      publishStatusLists([], []);
+      await api.post('/api/verifications').send({ credential: indexedCredential }).expect(200);
+
+      (issuanceClient.getStatusList as jest.Mock).mockRejectedValue(new Error('connect ECONNREFUSED'));
+      const startedAt = Date.now();
+      const now = jest.spyOn(Date, 'now');
+
+      try {
+        // Expired a minute ago, within the grace period of 15 minutes
+        now.mockReturnValue(startedAt + 6 * 60 * 1000);
+        const withinGrace = await api
+          .post('/api/verifications')
+          .send({ credential: indexedCredential })
+          .expect(200);
+        expect(withinGrace.body.data.verification_status).toBe('valid');
+
+        now.mockReturnValue(startedAt + 21 * 60 * 1000);
+        const pastGrace = await api
+          .post('/api/verifications')
+          .send({ credential: indexedCredential })
+          .expect(200);
+        expect(pastGrace.body.data).toMatchObject({ is_valid: false, verification_status: 'status_unavailable' });
+      } finally {
+        now.mockRestore();
+      }
+    });
+
+    it('should reject status lists signed by another tenant', async () => {
+      publishStatusLists([], [], tenantKeys, tenantKid);
+
+      const response = await api
+        .post('/api/verifications')
+        .send({ credential: indexedCredential })
+        .expect(200);
+
+      expect(response.body.data.verification_status).toBe('invalid');
+    });
+
+    it('should read the status list entry of a JWT credential', async () => {
+      publishStatusLists([42], []);
+      const statusListCredential = `http://issuance/api/status-lists/${statusListId}/revocation`;
+
+      const response = await api
+        .post('/api/verifications/jwt')
+        .set('Content-Type', 'application/jwt')
+        .send(signJwt({
+          iss: 'urn:kube-credential:issuer',
+          sub: credentialData.holder_name,
+          nbf: Math.floor(new Date(credentialData.issued_date).getTime() / 1000),
+          exp: Math.floor(new Date(credentialData.expiry_date).getTime() / 1000),
+          jti: `urn:uuid:${credentialData.id}`,
+          vc: {
+            '@context': ['https://www.w3.org/ns/credentials/v2'],
+            id: `urn:uuid:${credentialData.id}`,
+            type: ['VerifiableCredential', 'LicenseCredential'],
+            issuer: { id: 'urn:kube-credential:issuer', name: credentialData.issuer },
+            validFrom: credentialData.issued_date,
+            validUntil: credentialData.expiry_date,
+            credentialSubject: { name: credentialData.holder_name, credentialType: credentialData.credential_type },
+            credentialStatus: [{
+              id: `${statusListCredential}#42`,
+              type: 'BitstringStatusListEntry',
+              statusPurpose: 'revocation',
+              statusListIndex: '42',
+              statusListCredential
+            }]
+          }
+        }))
+        .expect(200);
+
+      expect(response.body.data.verification_status).toBe('revoked');
+      expect(issuanceClient.getStatusList).toHaveBeenCalledWith(statusListId, 'revocation');
+    });
+  });
+
+  describe('Authentication', () => {
+    const credentialId = '550e8400-e29b-41d4-a716-446655440030';
+
+    it('should require the verifier role to verify credentials', async () => {
+      (issuanceClient.getCredential as jest.Mock).mockResolvedValue(null);
+
+      await request(app)
+        .get(`/api/verifications/check/${credentialId}`)
+        .expect(401);
+
+      const keyResponse = await request(app)
+        .post('/api/api-keys')
+        .set('X-Admin-Key', 'test-admin-key')
+        .send({ name: 'issuer-key', roles: ['issuer'] })
+        .expect(201);
+
+      const forbidden = await request(app)
+        .get(`/api/verifications/check/${credentialId}`)
+        .set('X-API-Key', keyResponse.body.data.key)
+        .expect(403);
+      expect(forbidden.body.message).toBe('Requires the verifier role');
+
+      const verifierResponse = await request(app)
+        .post('/api/api-keys')
+        .set('X-Admin-Key', 'test-admin-key')
+        .send({ name: 'verifier-key', roles: ['verifier'] })
+        .expect(201);
+      const verifierKey = verifierResponse.body.data.key;
+
+      await request(app)
+        .get(`/api/verifications/check/${credentialId}`)
+        .set('Authorization', `Bearer ${verifierKey}`)
+        .expect(200);
+
+      await request(app)
+        .get('/api/verifications')
+        .set('Authorization', `Bearer ${verifierKey}`)
+        .expect(403);
+    });
+
+    it('should manage API keys through the admin endpoints only', async () => {
+      await api
+        .get('/api/api-keys')
+        .expect(403);
+
+      const keyResponse = await request(app)
+        .post('/api/api-keys')
+        .set('X-Admin-Key', 'test-admin-key')
+        .send({ name: 'auditor-key', roles: ['auditor'] })
+        .expect(201);
+      const auditor = keyResponse.body.data;
+
+      await request(app)
+        .get('/api/verifications')
+        .set('X-API-Key', auditor.key)
+        .expect(200);
+
+      await request(app)
+        .post(`/api/api-keys/${auditor.id}/revoke`)
+        .set('X-Admin-Key', 'test-admin-key')
+        .expect(200);
+
+      await request(app)
+        .get('/api/verifications')
+        .set('X-API-Key', auditor.key)
+        .expect(401);
+    });
+
+    describe('with identity provider access tokens', () => {
+      // Mock OIDC provider publishing its signing key on a local JWKS endpoint
+      const idpKeys = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+      let jwksServer: http.Server;
+
+      const signAccessToken = (claims: object, options: jwt.SignOptions = {}, privateKey = idpKeys.privateKey) =>
+        jwt.sign(claims, privateKey, {
+          algorithm: 'RS256',
+          keyid: 'idp-key-1',
+          issuer: 'http://idp.test/realms/kube-credential',
+          audience: 'kube-credential',
+          expiresIn: '5m',
+          ...options
+        });
+
+      beforeAll(async () => {
+        jwksServer = http.createServer((_req, res) => {
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify({
+            keys: [{ ...idpKeys.publicKey.export({ format: 'jwk' }), kid: 'idp-key-1', use: 'sig', alg: 'RS256' }]
+          }));
+        });
+        await new Promise<void>(resolve => jwksServer.listen(0, '127.0.0.1', resolve));
+
+        process.env.OIDC_JWKS_URI = `http://127.0.0.1:${(jwksServer.address() as AddressInfo).port}/jwks`;
+        process.env.OIDC_ISSUER = 'http://idp.test/realms/kube-credential';
+        process.env.OIDC_AUDIENCE = 'kube-credential';
+        process.env.OIDC_ROLES_CLAIM = 'realm_access.roles';
+      });
+
+      afterAll(async () => {
+        delete process.env.OIDC_JWKS_URI;
+        delete process.env.OIDC_ISSUER;
+        delete process.env.OIDC_AUDIENCE;
+        delete process.env.OIDC_ROLES_CLAIM;
+        oidcKeyCache.clear();
+        await new Promise(resolve => jwksServer.close(resolve));
+      });
+
+      it('should accept access tokens signed by the identity provider', async () => {
+        (issuanceClient.getCredential as jest.Mock).mockResolvedValue(null);
+        const token = signAccessToken({ sub: 'user-1', realm_access: { roles: ['verifier'] } });
+
+        await request(app)
+          .get(`/api/verifications/check/${credentialId}`)
+          .set('Authorization', `Bearer ${token}`)
+          .expect(200);
+
+        await request(app)
+          .get('/api/verifications')
+          .set('Authorization', `Bearer ${token}`)
+          .expect(403);
+      });
+
+      it('should reject access tokens with the wrong signer, issuer or audience', async () => {
+        const claims = { sub: 'user-1', realm_access: { roles: ['verifier'] } };
+        const otherKeys = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+        for (const token of [
+          signAccessToken(claims, {}, otherKeys.privateKey),
+          signAccessToken(claims, { keyid: 'unknown-key' }),
+          signAccessToken(claims, { issuer: 'http://other-idp.test' }),
+          signAccessToken(claims, { audience: 'other-client' }),
+          signAccessToken(claims, { expiresIn: -60 })
+        ]) {
+          const response = await request(app)
+            .get(`/api/verifications/check/${credentialId}`)
+            .set('Authorization', `Bearer ${token}`)
+            .expect(401);
+          expect(response.body.message).toBe('Invalid bearer token');
+        }
+      });
+
+      it('should reject tokens the identity provider did not sign', async () => {
+        const token = jwt.sign({ sub: 'verifier-app', roles: ['admin'], tenant: 'acme' }, 'any-secret', { expiresIn: '5m' });
+
+        const response = await request(app)
+          .get(`/api/verifications/check/${credentialId}`)
+          .set('Authorization', `Bearer ${token}`)
+          .expect(401);
+        expect(response.body.message).toBe('Invalid bearer token');
+      });
+    });
+  });
+
+  describe('GET /health', () => {
+    it('should return healthy status with service checks', async () => {
+      // Mock issuance service health check
+      (issuanceClient.healthCheck as jest.Mock).mockResolvedValue(true);
+
+      const response = await api
+        .get('/health')
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.status).toBe('healthy');
+      expect(response.body.data.database).toBe('connected');
+      expect(response.body.data.issuance_service).toBe('reachable');
+      expect(response.body.worker_id).toBe('test-verification-worker-1');
+    });
+
+    it('should report unhealthy when issuance service is down', async () => {
+      // Mock issuance service health check failure
+      (issuanceClient.healthCheck as jest.Mock).mockResolvedValue(false);
+
+      const response = await api
+        .get('/health')
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.issuance_service).toBe('unreachable');
+    });
+  });
+
+  describe('Tracing', () => {
+    it('should continue the caller\'s trace and export request and database spans', async () => {
+      const traceId = crypto.randomBytes(16).toString('hex');
+      const callerSpanId = crypto.randomBytes(8).toString('hex');
+      const credentialData = {
+        id: '550e8400-e29b-41d4-a716-446655440098',
+        holder_name: 'Traced User',
+        issuer: 'Kube Credential Authority',
+        issued_date: '2024-01-01T00:00:00.000Z',
+        credential_type: 'certificate',
+        expiry_date: '2099-01-01T00:00:00.000Z',
+        signature_algorithm: 'Ed25519',
+        kid: issuerKid,
+        worker_id: 'issuer-worker-1'
+      };
+      (issuanceClient.getCredential as jest.Mock).mockResolvedValue(null);
+
+      await api
+        .post('/api/verifications')
+        .set('traceparent', `00-${traceId}-${callerSpanId}-01`)
+        .send({
+          credential: {
+            ...credentialData,
+            signature: signCredential(credentialData),
+            created_at: '2024-01-01T00:00:00.000Z',
+            updated_at: '2024-01-01T00:00:00.000Z'
+          }
+        })
+        .expect(200);
+      await flushTracing();
+
+      const spans = exportedSpans.filter(span => span.traceId === traceId);
+      const serverSpan = spans.find(span => span.name === 'POST /api/verifications');
+
+      expect(serverSpan).toBeDefined();
+      expect(serverSpan.parentSpanId).toBe(callerSpanId);
+
+      const insertSpan = spans.find(span => span.attributes.some(
+        (attribute: any) => attribute.key === 'db.query.text' && attribute.value.stringValue.startsWith('INSERT INTO verifications')
+      ));
+      expect(insertSpan).toBeDefined();
+      expect(insertSpan.parentSpanId).toBe(serverSpan.spanId);
+    });
+
+    it('should send the trace context to issuance service in a client span', async () => {
+      const traceparents: (string | undefined)[] = [];
+      const issuanceServer = http.createServer((req, res) => {
+        traceparents.push(req.headers.traceparent as string | undefined);
+        res.statusCode = req.url === '/api/credentials/missing' ? 404 : 200;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ success: true, data: { id: 'traced-credential' } }));
+      });
+      await new Promise<void>(resolve => issuanceServer.listen(0, '127.0.0.1', resolve));
+      process.env.ISSUANCE_SERVICE_URL = `http://127.0.0.1:${(issuanceServer.address() as AddressInfo).port}`;
+
+      try {
+        const { IssuanceServiceClient } = jest.requireActual('../utils/issuanceClient');
+        const client = new IssuanceServiceClient();
+
+        const parentSpanId = await withSpan('verify', {}, async (span) => {
+          await client.getCredential('traced-credential');
+          await expect(client.getCredential('missing')).resolves.toBeNull();
+          return span.spanContext().spanId;
+        });
+        await flushTracing();
+
+        const clientSpans = exportedSpans.filter(span => span.name === 'issuance-service get_credential' && span.parentSpanId === parentSpanId);
+        expect(clientSpans).toHaveLength(2);
+        expect(traceparents).toEqual([
+          `00-${clientSpans[0].traceId}-${clientSpans[0].spanId}-01`,
+          `00-${clientSpans[1].traceId}-${clientSpans[1].spanId}-01`
+        ]);
+        expect(clientSpans[1].attributes).toContainEqual({ key: 'http.response.status_code', value: { intValue: 404 } });
+        expect(clientSpans[1].status.code).not.toBe(2);
+      } finally {
+        delete process.env.ISSUANCE_SERVICE_URL;
+        await new Promise(resolve => issuanceServer.close(resolve));
+      }
+    });
+  });
+
+  describe('GET /metrics', () => {
+    it('should expose request, verification, database and runtime metrics labelled with the worker ID', async () => {
+      const credentialData = {
+        id: '550e8400-e29b-41d4-a716-446655440099',
+        holder_name: 'Metrics User',
+        issuer: 'Kube Credential Authority',
+        issued_date: '2024-01-01T00:00:00.000Z',
+        credential_type: 'certificate',
+        expiry_date: '2099-01-01T00:00:00.000Z',
+        signature_algorithm: 'Ed25519',
+        kid: issuerKid,
+        worker_id: 'issuer-worker-1'
+      };
+      (issuanceClient.getCredential as jest.Mock).mockResolvedValue(null);
+
+      await api
+        .post('/api/verifications')
+        .send({
+          credential: {
+            ...credentialData,
+            signature: signCredential(credentialData),
+            created_at: '2024-01-01T00:00:00.000Z',
+            updated_at: '2024-01-01T00:00:00.000Z'
+          }
+        })
+        .expect(200);
+      await api.get('/api/verifications/missing-verification').expect(404);
+
+      const response = await request(app)
+        .get('/metrics')
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('text/plain');
+      expect(response.text).toMatch(
+        /http_requests_total\{method="POST",route="\/api\/verifications",status_code="200",worker_id="test-verification-worker-1"\} \d+/
+      );
+      expect(response.text).toMatch(
+        /http_requests_total\{method="GET",route="\/api\/verifications\/:id",status_code="404",worker_id="test-verification-worker-1"\} \d+/
+      );
+      expect(response.text).toMatch(/verifications_total\{verification_status="not_found",worker_id="test-verification-worker-1"\} \d+/);
+      expect(response.text).toMatch(/db_query_duration_seconds_count\{worker_id="test-verification-worker-1",operation="insert"\} \d+/);
+      expect(response.text).toMatch(/nodejs_heap_size_used_bytes\{worker_id="test-verification-worker-1"\}/);
     });
   });
 });
@@ -0,0 +1,59 @@
+import fs from 'fs';
+import { Database } from '../config/database';
+import { Migrator } from '../config/migrator';
+import { migrations } from '../migrations';
+import { MigrationHelpers } from '../migrations/helpers';
+
+describe('Migrator', () => {
+  const testDbPath = './data/test-migrations.db';
+  let db: Database;
+
+  beforeEach(async () => {
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+
+    db = new Database({ client: 'sqlite', dbPath: testDbPath });
+    await db.connect();
+  });
+
+  afterEach(async () => {
+    await db.close();
+
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+  });
+
+  it('should upgrade a database created before migrations without losing data', async () => {
+    await migrations[0]!.up(db);
+    await db.run(
+      `INSERT INTO verifications (id, credential_id, is_valid, is_expired, verification_status, verified_by, verified_at, created_at)
+       VALUES ('legacy-id', 'credential-id', 1, 0, 'valid', 'worker-1', '2024-01-01T00:00:00.000Z', '2024-01-01T00:00:00.000Z')`
+    );
+
+    const migrator = new Migrator(db, migrations);
+
+    expect(await migrator.migrate()).toHaveLength(migrations.length);
+    expect(await MigrationHelpers.hasColumn(db, 'verifications', 'disclosed_claims')).toBe(true);
+    expect(await db.get('SELECT * FROM verifications WHERE id = ?', ['legacy-id'])).toMatchObject({
+      verification_status: 'valid',
+      revocation_reason: null,
+      tenant_id: 'default'
+    });
+  });
+
+  it('should revert and reapply migrations', async () => {
+    const migrator = new Migrator(db, migrations);
+    await migrator.migrate();
+
+    await migrator.rollback(8);
+
+    expect((await migrator.status()).map(migration => migration.applied_at !== null)).toEqual([true, false, false, false, false, false, false, false, false]);
+    expect(await MigrationHelpers.hasColumn(db, 'verifications', 'revoked_at')).toBe(false);
+    expect(await MigrationHelpers.hasColumn(db, 'verifications', 'tenant_id')).toBe(false);
+
+    expect(await migrator.migrate()).toHaveLength(8);
+    expect(await MigrationHelpers.hasColumn(db, 'verifications', 'revoked_at')).toBe(true);
+  });
+});
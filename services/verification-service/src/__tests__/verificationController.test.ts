@@ -1,5 +1,6 @@
 import request from 'supertest';
 import { createApp } from '../app';
+import { ApiKeyModel } from '../models/ApiKey';
 import { VerificationModel } from '../models/Verification';
 import { issuanceClient } from '../utils/issuanceClient';
 
@@ -18,18 +19,33 @@ jest.mock('../config/database', () => ({
 // Mock the VerificationModel
 jest.mock('../models/Verification');
 
+// Skip schema migrations against the mocked database
+jest.mock('../config/migrator');
+
 // Mock the issuanceClient
 jest.mock('../utils/issuanceClient');
 
+// Requests are sent with an API key that the mocked model resolves to a verifier
+jest.mock('../models/ApiKey');
+
+// Audit log entries are not stored against the mocked database
+jest.mock('../models/AuditLog');
+
 describe('Verification Controller', () => {
   let app: any;
+  let api: any;
 
   beforeAll(async () => {
     app = await createApp();
+    api = request.agent(app).set('X-API-Key', 'test-key');
   });
 
   beforeEach(() => {
     jest.clearAllMocks();
+    (ApiKeyModel.findByKey as jest.Mock).mockResolvedValue({ id: 'test-key-id', roles: ['verifier', 'auditor'], tenant_id: 'default' });
+    (issuanceClient.getCredentialTypes as jest.Mock).mockResolvedValue([
+      { name: 'certificate', display_name: 'Certificate', default_validity_days: 365, is_active: true }
+    ]);
   });
 
   describe('POST /api/verifications', () => {
@@ -41,6 +57,8 @@ describe('Verification Controller', () => {
       credential_type: 'certificate',
       expiry_date: '2025-01-01T00:00:00.000Z',
       signature: 'test-signature',
+      signature_algorithm: 'Ed25519',
+      kid: 'test-kid',
       worker_id: 'worker-1',
       created_at: '2024-01-01T00:00:00.000Z',
       updated_at: '2024-01-01T00:00:00.000Z'
@@ -62,7 +80,7 @@ describe('Verification Controller', () => {
 
       (VerificationModel.verifyCredential as jest.Mock).mockResolvedValue(mockVerificationResult);
 
-      const response = await request(app)
+      const response = await api
         .post('/api/verifications')
         .send({
           credential: mockCredential
@@ -75,7 +93,7 @@ describe('Verification Controller', () => {
     });
 
     it('should validate credential format', async () => {
-      const response = await request(app)
+      const response = await api
         .post('/api/verifications')
         .send({
           credential: {
@@ -90,7 +108,7 @@ describe('Verification Controller', () => {
     });
 
     it('should handle missing credential in request', async () => {
-      const response = await request(app)
+      const response = await api
         .post('/api/verifications')
         .send({});
 
@@ -111,7 +129,7 @@ describe('Verification Controller', () => {
 
       (VerificationModel.findById as jest.Mock).mockResolvedValue(mockVerification);
 
-      const response = await request(app)
+      const response = await api
         .get('/api/verifications/verification-id');
 
       expect(response.status).toBe(200);
@@ -122,7 +140,7 @@ describe('Verification Controller', () => {
     it('should return 404 for non-existent verification', async () => {
       (VerificationModel.findById as jest.Mock).mockResolvedValue(null);
 
-      const response = await request(app)
+      const response = await api
         .get('/api/verifications/non-existent');
 
       expect(response.status).toBe(404);
@@ -136,7 +154,7 @@ describe('Verification Controller', () => {
       (VerificationModel.count as jest.Mock).mockResolvedValue(3);
       (issuanceClient.healthCheck as jest.Mock).mockResolvedValue(true);
 
-      const response = await request(app)
+      const response = await api
         .get('/health');
 
       expect(response.status).toBe(200);
@@ -148,7 +166,7 @@ describe('Verification Controller', () => {
     it('should report unhealthy status when database is down', async () => {
       (VerificationModel.count as jest.Mock).mockRejectedValue(new Error('Database error'));
 
-      const response = await request(app)
+      const response = await api
         .get('/health');
 
       expect(response.status).toBe(503);
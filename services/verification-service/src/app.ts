@@ -3,17 +3,30 @@ import cors from 'cors';
 import helmet from 'helmet';
 import dotenv from 'dotenv';
 import { database } from './config/database';
+import { migrator } from './config/migrator';
+import { AuditLogModel } from './models/AuditLog';
 import { logger } from './utils/logger';
+import { initMetrics } from './utils/metrics';
+import { initTracing, shutdownTracing } from './utils/tracing';
+import { webhookDispatcher } from './utils/webhookDispatcher';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
+import { recordRequestMetrics } from './middleware/metrics';
 import { createRateLimiter } from './middleware/rateLimiter';
+import { traceRequests } from './middleware/tracing';
 import verificationRoutes from './routes/verifications';
 import healthRoutes from './routes/health';
+import metricsRoutes from './routes/metrics';
+import apiKeyRoutes from './routes/apiKeys';
+import auditRoutes from './routes/audit';
+import webhookRoutes from './routes/webhooks';
 
 // Load environment variables
 dotenv.config();
 
 export const createApp = async (): Promise<express.Application> => {
   const app = express();
+  initMetrics();
+  initTracing();
 
   // Security middleware
   app.use(helmet({
@@ -34,9 +47,13 @@ export const createApp = async (): Promise<express.Application> => {
       : ['http://localhost:3000', 'http://localhost:3001'],
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization']
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Admin-Key', 'X-API-Key', 'X-Tenant-ID', 'traceparent', 'tracestate']
   }));
 
+  // Request metrics, and the endpoint Prometheus scrapes, ahead of the rate limit
+  app.use(recordRequestMetrics);
+  app.use('/metrics', metricsRoutes);
+
   // Rate limiting
   app.use(createRateLimiter());
 
@@ -44,6 +61,9 @@ export const createApp = async (): Promise<express.Application> => {
   app.use(express.json({ limit: '10mb' }));
   app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
+  // Tracing
+  app.use(traceRequests);
+
   // Request logging middleware
   app.use((req, res, next) => {
     logger.info(`${req.method} ${req.path}`, {
@@ -58,14 +78,25 @@ export const createApp = async (): Promise<express.Application> => {
   try {
     await database.connect();
     logger.info('Database connected successfully');
+
+    // Bring the schema up to date, unless migrations are run separately with the CLI
+    if (process.env.MIGRATIONS_AUTO_RUN !== 'false') {
+      await migrator.migrate();
+    }
   } catch (error) {
     logger.error('Failed to connect to database:', error);
     throw error;
   }
 
+  // Sign the head of an audit log written before heads were signed
+  await AuditLogModel.ensureAnchored();
+
   // Routes
   app.use('/health', healthRoutes);
   app.use('/api/verifications', verificationRoutes);
+  app.use('/api/api-keys', apiKeyRoutes);
+  app.use('/api/webhooks', webhookRoutes);
+  app.use('/api/audit', auditRoutes);
 
   // Root endpoint
   app.get('/', (req, res) => {
@@ -91,11 +122,13 @@ export const createApp = async (): Promise<express.Application> => {
 export const setupGracefulShutdown = (server: any) => {
   const shutdown = async (signal: string) => {
     logger.info(`Received ${signal}, shutting down gracefully`);
+    webhookDispatcher.stop();
     
     server.close(async () => {
       logger.info('HTTP server closed');
       
       try {
+        await shutdownTracing();
         await database.close();
         logger.info('Database connection closed');
         process.exit(0);
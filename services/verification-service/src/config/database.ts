@@ -1,15 +1,94 @@
-import sqlite3 from 'sqlite3';
 import path from 'path';
 import fs from 'fs';
+import { SpanKind, trace } from '@opentelemetry/api';
+import { ATTR_DB_OPERATION_NAME, ATTR_DB_QUERY_TEXT, ATTR_DB_SYSTEM_NAME } from '@opentelemetry/semantic-conventions';
+import { DatabaseClient, DatabaseDriver, QueryRunner, RunResult } from '../types';
 import { logger } from '../utils/logger';
+import { dbQueryDuration } from '../utils/metrics';
+import { withSpan } from '../utils/tracing';
+import { PostgresDriver } from './drivers/postgresDriver';
+import { SqliteDriver } from './drivers/sqliteDriver';
+
+export interface DatabaseOptions {
+  client?: string;
+  dbPath?: string;
+  connectionString?: string;
+  poolMax?: number;
+}
+
+const DATABASE_CLIENTS: DatabaseClient[] = ['sqlite', 'postgres'];
+const TIMED_OPERATIONS = ['select', 'insert', 'update', 'delete'];
+
+// Values of the db.system.name span attribute
+const DATABASE_SYSTEMS: Record<DatabaseClient, string> = {
+  sqlite: 'sqlite',
+  postgres: 'postgresql'
+};
+
+/**
+ * Run a query and observe how long it took under its statement type. Queries
+ * made while handling a traced request get a span of their own, background
+ * work does not start traces.
+ */
+const observeQuery = async <T>(client: DatabaseClient, query: string, execute: () => Promise<T>): Promise<T> => {
+  const keyword = query.trim().split(/\s+/, 1)[0]!.toLowerCase();
+  const operation = TIMED_OPERATIONS.includes(keyword) ? keyword : 'other';
+  const endTimer = dbQueryDuration.startTimer({ operation });
+
+  try {
+    if (!trace.getActiveSpan()) {
+      return await execute();
+    }
 
-export class Database {
-  private db: sqlite3.Database | null = null;
+    return await withSpan(operation === 'other' ? DATABASE_SYSTEMS[client] : operation.toUpperCase(), {
+      kind: SpanKind.CLIENT,
+      attributes: {
+        [ATTR_DB_SYSTEM_NAME]: DATABASE_SYSTEMS[client],
+        [ATTR_DB_OPERATION_NAME]: keyword.toUpperCase(),
+        [ATTR_DB_QUERY_TEXT]: query.trim()
+      }
+    }, execute);
+  } finally {
+    endTimer();
+  }
+};
+
+/**
+ * Runner whose queries are observed like the ones of the database itself
+ */
+const observedRunner = (client: DatabaseClient, runner: QueryRunner): QueryRunner => ({
+  run: (query, params = []) => observeQuery(client, query, () => runner.run(query, params)),
+  get: (query, params = []) => observeQuery(client, query, () => runner.get(query, params)),
+  all: (query, params = []) => observeQuery(client, query, () => runner.all(query, params)),
+  getColumnNames: (table) => runner.getColumnNames(table)
+});
+
+/**
+ * Storage used by the models, backed by a SQLite file per pod or by a
+ * PostgreSQL database shared between replicas, as selected by DB_CLIENT
+ */
+export class Database implements QueryRunner {
+  private driver: DatabaseDriver | null = null;
+  private client: DatabaseClient;
   private dbPath: string;
+  private connectionString: string;
+  private poolMax: number;
+
+  constructor(options: DatabaseOptions = {}) {
+    const client = options.client || process.env.DB_CLIENT || 'sqlite';
+
+    if (!DATABASE_CLIENTS.includes(client as DatabaseClient)) {
+      throw new Error(`Unsupported database client '${client}', expected one of: ${DATABASE_CLIENTS.join(', ')}`);
+    }
 
-  constructor() {
-    this.dbPath = process.env.DB_PATH || './data/verifications.db';
-    this.ensureDataDirectory();
+    this.client = client as DatabaseClient;
+    this.dbPath = options.dbPath || process.env.DB_PATH || './data/verifications.db';
+    this.connectionString = options.connectionString || process.env.DATABASE_URL || '';
+    this.poolMax = options.poolMax || parseInt(process.env.DB_POOL_MAX || '10');
+
+    if (this.client === 'sqlite') {
+      this.ensureDataDirectory();
+    }
   }
 
   private ensureDataDirectory(): void {
@@ -21,128 +100,72 @@ export class Database {
   }
 
   async connect(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      this.db = new sqlite3.Database(this.dbPath, (err) => {
-        if (err) {
-          logger.error('Error connecting to database:', err);
-          reject(err);
-        } else {
-          logger.info(`Connected to SQLite database at ${this.dbPath}`);
-          this.initializeTables().then(resolve).catch(reject);
-        }
-      });
-    });
-  }
+    if (this.client === 'postgres' && !this.connectionString) {
+      throw new Error('DATABASE_URL is required when DB_CLIENT is postgres');
+    }
 
-  private async initializeTables(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (!this.db) {
-        reject(new Error('Database not connected'));
-        return;
-      }
+    const driver = this.client === 'postgres'
+      ? new PostgresDriver(this.connectionString, this.poolMax)
+      : new SqliteDriver(this.dbPath);
 
-      const createTableQuery = `
-        CREATE TABLE IF NOT EXISTS verifications (
-          id TEXT PRIMARY KEY,
-          credential_id TEXT NOT NULL,
-          is_valid BOOLEAN NOT NULL,
-          is_expired BOOLEAN NOT NULL,
-          verification_status TEXT NOT NULL,
-          verified_by TEXT NOT NULL,
-          verified_at TEXT NOT NULL,
-          issuer_worker_id TEXT,
-          issued_date TEXT,
-          created_at TEXT NOT NULL
-        )
-      `;
-
-      this.db.run(createTableQuery, (err) => {
-        if (err) {
-          logger.error('Error creating verifications table:', err);
-          reject(err);
-        } else {
-          logger.info('Verifications table initialized successfully');
-          resolve();
-        }
-      });
-    });
+    await driver.connect();
+    this.driver = driver;
   }
 
-  async run(query: string, params: any[] = []): Promise<sqlite3.RunResult> {
-    return new Promise((resolve, reject) => {
-      if (!this.db) {
-        reject(new Error('Database not connected'));
-        return;
-      }
-
-      this.db.run(query, params, function(err) {
-        if (err) {
-          reject(err);
-        } else {
-          resolve(this);
-        }
-      });
-    });
+  async run(query: string, params: any[] = []): Promise<RunResult> {
+    return observeQuery(this.client, query, () => this.getDriver().run(query, params));
   }
 
   async get<T>(query: string, params: any[] = []): Promise<T | undefined> {
-    return new Promise((resolve, reject) => {
-      if (!this.db) {
-        reject(new Error('Database not connected'));
-        return;
-      }
-
-      this.db.get(query, params, (err, row) => {
-        if (err) {
-          reject(err);
-        } else {
-          resolve(row as T);
-        }
-      });
-    });
+    return observeQuery(this.client, query, () => this.getDriver().get<T>(query, params));
   }
 
   async all<T>(query: string, params: any[] = []): Promise<T[]> {
-    return new Promise((resolve, reject) => {
-      if (!this.db) {
-        reject(new Error('Database not connected'));
-        return;
-      }
+    return observeQuery(this.client, query, () => this.getDriver().all<T>(query, params));
+  }
+
+  async getColumnNames(table: string): Promise<string[]> {
+    return this.getDriver().getColumnNames(table);
+  }
 
-      this.db.all(query, params, (err, rows) => {
-        if (err) {
-          reject(err);
-        } else {
-          resolve(rows as T[]);
-        }
-      });
-    });
+  /**
+   * Run an action inside a transaction, committing when it resolves and
+   * rolling back when it throws. Queries must go through the given runner.
+   */
+  async transaction<T>(action: (runner: QueryRunner) => Promise<T>): Promise<T> {
+    return this.getDriver().transaction(runner => action(observedRunner(this.client, runner)));
   }
 
   async close(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (!this.db) {
-        resolve();
-        return;
-      }
+    if (!this.driver) {
+      return;
+    }
 
-      this.db.close((err) => {
-        if (err) {
-          logger.error('Error closing database:', err);
-          reject(err);
-        } else {
-          logger.info('Database connection closed');
-          this.db = null;
-          resolve();
-        }
-      });
-    });
+    try {
+      await this.driver.close();
+      logger.info('Database connection closed');
+      this.driver = null;
+    } catch (error) {
+      logger.error('Error closing database:', error);
+      throw error;
+    }
   }
 
   isConnected(): boolean {
-    return this.db !== null;
+    return this.driver !== null;
+  }
+
+  getClient(): DatabaseClient {
+    return this.client;
+  }
+
+  private getDriver(): DatabaseDriver {
+    if (!this.driver) {
+      throw new Error('Database not connected');
+    }
+
+    return this.driver;
   }
 }
 
 export const database = new Database();
-
@@ -0,0 +1,126 @@
+import { Pool, PoolClient, types } from 'pg';
+import { DatabaseClient, DatabaseDriver, QueryRunner, RunResult } from '../../types';
+import { logger } from '../../utils/logger';
+
+// Return COUNT(*) and other BIGINT values as numbers, as SQLite does
+types.setTypeParser(types.builtins.INT8, (value: string) => parseInt(value));
+
+/**
+ * Translate ? placeholders to PostgreSQL's numbered $1, $2, ... parameters
+ */
+const toPostgresQuery = (query: string): string => {
+  let index = 0;
+  return query.replace(/\?/g, () => `$${++index}`);
+};
+
+const createRunner = (client: Pool | PoolClient): QueryRunner => ({
+  run: async (query, params = []) => {
+    const result = await client.query(toPostgresQuery(query), params);
+    return { changes: result.rowCount || 0 };
+  },
+  get: async <T>(query: string, params: any[] = []) => {
+    const result = await client.query(toPostgresQuery(query), params);
+    return result.rows[0] as T | undefined;
+  },
+  all: async <T>(query: string, params: any[] = []) => {
+    const result = await client.query(toPostgresQuery(query), params);
+    return result.rows as T[];
+  },
+  getColumnNames: async (table) => {
+    const result = await client.query<{ column_name: string }>(
+      'SELECT column_name FROM information_schema.columns WHERE table_schema = current_schema() AND table_name = $1',
+      [table]
+    );
+    return result.rows.map(row => row.column_name);
+  }
+});
+
+export class PostgresDriver implements DatabaseDriver {
+  readonly client: DatabaseClient = 'postgres';
+  private pool: Pool | null = null;
+  private runner: QueryRunner | null = null;
+  private connectionString: string;
+  private poolMax: number;
+
+  constructor(connectionString: string, poolMax: number) {
+    this.connectionString = connectionString;
+    this.poolMax = poolMax;
+  }
+
+  async connect(): Promise<void> {
+    const pool = new Pool({ connectionString: this.connectionString, max: this.poolMax });
+
+    // Idle clients can lose their connection, which must not crash the process
+    pool.on('error', (err) => {
+      logger.error('Unexpected error on idle PostgreSQL client:', err);
+    });
+
+    try {
+      const client = await pool.connect();
+      client.release();
+    } catch (error) {
+      logger.error('Error connecting to database:', error);
+      await pool.end();
+      throw error;
+    }
+
+    this.pool = pool;
+    this.runner = createRunner(pool);
+    logger.info(`Connected to PostgreSQL with a pool of up to ${this.poolMax} connections`);
+  }
+
+  async run(query: string, params: any[] = []): Promise<RunResult> {
+    return this.getRunner().run(query, params);
+  }
+
+  async get<T>(query: string, params: any[] = []): Promise<T | undefined> {
+    return this.getRunner().get<T>(query, params);
+  }
+
+  async all<T>(query: string, params: any[] = []): Promise<T[]> {
+    return this.getRunner().all<T>(query, params);
+  }
+
+  async getColumnNames(table: string): Promise<string[]> {
+    return this.getRunner().getColumnNames(table);
+  }
+
+  /**
+   * Run an action inside a transaction on a connection checked out of the pool
+   */
+  async transaction<T>(action: (runner: QueryRunner) => Promise<T>): Promise<T> {
+    if (!this.pool) {
+      throw new Error('Database not connected');
+    }
+
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      const result = await action(createRunner(client));
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.pool) {
+      await this.pool.end();
+      this.pool = null;
+      this.runner = null;
+    }
+  }
+
+  private getRunner(): QueryRunner {
+    if (!this.runner) {
+      throw new Error('Database not connected');
+    }
+
+    return this.runner;
+  }
+}
@@ -0,0 +1,165 @@
+import sqlite3 from 'sqlite3';
+import { DatabaseClient, DatabaseDriver, QueryRunner, RunResult } from '../../types';
+import { logger } from '../../utils/logger';
+
+export class SqliteDriver implements DatabaseDriver {
+  readonly client: DatabaseClient = 'sqlite';
+  private db: sqlite3.Database | null = null;
+  private dbPath: string;
+  private activeTransaction: Promise<unknown> | null = null;
+
+  constructor(dbPath: string) {
+    this.dbPath = dbPath;
+  }
+
+  async connect(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db = new sqlite3.Database(this.dbPath, (err) => {
+        if (err) {
+          logger.error('Error connecting to database:', err);
+          reject(err);
+        } else {
+          logger.info(`Connected to SQLite database at ${this.dbPath}`);
+          resolve();
+        }
+      });
+    });
+  }
+
+  async run(query: string, params: any[] = []): Promise<RunResult> {
+    return this.whenIdle(() => this.execute(query, params));
+  }
+
+  async get<T>(query: string, params: any[] = []): Promise<T | undefined> {
+    return this.whenIdle(() => this.queryOne<T>(query, params));
+  }
+
+  async all<T>(query: string, params: any[] = []): Promise<T[]> {
+    return this.whenIdle(() => this.queryAll<T>(query, params));
+  }
+
+  async getColumnNames(table: string): Promise<string[]> {
+    return this.whenIdle(() => this.listColumns(table));
+  }
+
+  /**
+   * Run an action inside a transaction. SQLite has a single connection, so
+   * other queries wait until the transaction has finished instead of joining it.
+   */
+  async transaction<T>(action: (runner: QueryRunner) => Promise<T>): Promise<T> {
+    const runner: QueryRunner = {
+      run: (query, params = []) => this.execute(query, params),
+      get: (query, params = []) => this.queryOne(query, params),
+      all: (query, params = []) => this.queryAll(query, params),
+      getColumnNames: (table) => this.listColumns(table)
+    };
+
+    return this.whenIdle(() => {
+      const transaction = (async () => {
+        try {
+          await this.execute('BEGIN');
+
+          try {
+            const result = await action(runner);
+            await this.execute('COMMIT');
+            return result;
+          } catch (error) {
+            await this.execute('ROLLBACK');
+            throw error;
+          }
+        } finally {
+          this.activeTransaction = null;
+        }
+      })();
+
+      this.activeTransaction = transaction;
+      return transaction;
+    });
+  }
+
+  async close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        resolve();
+        return;
+      }
+
+      this.db.close((err) => {
+        if (err) {
+          reject(err);
+        } else {
+          this.db = null;
+          resolve();
+        }
+      });
+    });
+  }
+
+  /**
+   * Start a query once no transaction is open. The query is started right
+   * after the check, so a transaction cannot begin in between.
+   */
+  private async whenIdle<T>(start: () => Promise<T>): Promise<T> {
+    while (this.activeTransaction) {
+      await this.activeTransaction.catch((): void => undefined);
+    }
+
+    return start();
+  }
+
+  private async execute(query: string, params: any[] = []): Promise<RunResult> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not connected'));
+        return;
+      }
+
+      this.db.run(query, params, function(err) {
+        if (err) {
+          reject(err);
+        } else {
+          resolve({ changes: this.changes });
+        }
+      });
+    });
+  }
+
+  private async queryOne<T>(query: string, params: any[] = []): Promise<T | undefined> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not connected'));
+        return;
+      }
+
+      this.db.get(query, params, (err, row) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(row as T);
+        }
+      });
+    });
+  }
+
+  private async queryAll<T>(query: string, params: any[] = []): Promise<T[]> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not connected'));
+        return;
+      }
+
+      this.db.all(query, params, (err, rows) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(rows as T[]);
+        }
+      });
+    });
+  }
+
+  private async listColumns(table: string): Promise<string[]> {
+    const columns = await this.queryAll<{ name: string }>(`PRAGMA table_info(${table})`);
+    return columns.map(({ name }) => name);
+  }
+}
@@ -0,0 +1,128 @@
+import { Request, Response } from 'express';
+import Joi from 'joi';
+import { ApiKeyModel } from '../models/ApiKey';
+import { ApiResponse, CreateApiKeyRequest } from '../types';
+import { API_KEY_ROLES } from '../middleware/auth';
+import { AppError, asyncHandler } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+const apiKeySchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).required(),
+  roles: Joi.array()
+    .items(Joi.string().valid(...API_KEY_ROLES))
+    .min(1)
+    .unique()
+    .required()
+    .messages({
+      'any.only': `Roles must be among: ${API_KEY_ROLES.join(', ')}`
+    })
+});
+
+export class ApiKeyController {
+  /**
+   * List the API keys of the caller's tenant without their hashes
+   */
+  static listApiKeys = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const workerId = process.env.WORKER_ID || 'unknown-worker';
+
+    try {
+      const apiKeys = await ApiKeyModel.findAll(res.locals.principal.tenant_id);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'API keys retrieved successfully',
+        data: {
+          api_keys: apiKeys.map(apiKey => ApiKeyModel.toPublicView(apiKey))
+        },
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving API keys:', error);
+      throw new AppError('Failed to retrieve API keys', 500);
+    }
+  });
+
+  /**
+   * Create an API key with the given roles in the caller's tenant.
+   * The key is only returned in this response.
+   */
+  static createApiKey = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const workerId = process.env.WORKER_ID || 'unknown-worker';
+
+    // Validate request body
+    const { error, value } = apiKeySchema.validate(req.body, { abortEarly: false, stripUnknown: true });
+
+    if (error) {
+      const response: ApiResponse = {
+        success: false,
+        message: `Validation error: ${error.details.map(d => d.message).join(', ')}`,
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    try {
+      const { apiKey, key } = await ApiKeyModel.create(value as CreateApiKeyRequest, res.locals.principal.tenant_id);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'API key created successfully, store the key now as it cannot be shown again',
+        data: {
+          ...ApiKeyModel.toPublicView(apiKey),
+          key
+        },
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error creating API key:', error);
+      throw new AppError('Failed to create API key', 500);
+    }
+  });
+
+  /**
+   * Revoke an API key
+   */
+  static revokeApiKey = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const workerId = process.env.WORKER_ID || 'unknown-worker';
+    const { id } = req.params;
+
+    if (!id) {
+      throw new AppError('API key ID is required', 400);
+    }
+
+    const apiKey = await ApiKeyModel.findById(id);
+
+    if (!apiKey || apiKey.tenant_id !== res.locals.principal.tenant_id) {
+      throw new AppError('API key not found', 404);
+    }
+
+    if (apiKey.revoked_at) {
+      throw new AppError('API key is already revoked', 409);
+    }
+
+    try {
+      const revokedKey = await ApiKeyModel.revoke(id);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'API key revoked successfully',
+        data: revokedKey && ApiKeyModel.toPublicView(revokedKey),
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error revoking API key:', error);
+      throw new AppError('Failed to revoke API key', 500);
+    }
+  });
+}
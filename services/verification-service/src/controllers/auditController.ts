@@ -0,0 +1,92 @@
+import { Request, Response } from 'express';
+import Joi from 'joi';
+import { AuditLogModel } from '../models/AuditLog';
+import { ApiResponse, AuditLogQuery } from '../types';
+import { AppError, asyncHandler } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+const auditQuerySchema = Joi.object({
+  action: Joi.string().max(100),
+  actor_id: Joi.string().max(200),
+  resource_id: Joi.string().max(200),
+  from: Joi.string().isoDate(),
+  to: Joi.string().isoDate(),
+  limit: Joi.number().integer().min(1).max(500).default(50),
+  offset: Joi.number().integer().min(0).default(0)
+});
+
+export class AuditController {
+  /**
+   * List the audit log entries of the caller's tenant, newest first, filtered by
+   * action, actor, resource and a from/to time range
+   */
+  static listEntries = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const workerId = process.env.WORKER_ID || 'unknown-worker';
+
+    const { error, value } = auditQuerySchema.validate(req.query, { abortEarly: false, stripUnknown: true });
+
+    if (error) {
+      const response: ApiResponse = {
+        success: false,
+        message: `Validation error: ${error.details.map(d => d.message).join(', ')}`,
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const query: AuditLogQuery = value;
+
+    try {
+      const entries = await AuditLogModel.findAll(res.locals.principal.tenant_id, query);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Audit log entries retrieved successfully',
+        data: {
+          entries,
+          pagination: {
+            limit: query.limit,
+            offset: query.offset
+          }
+        },
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving audit log entries:', error);
+      throw new AppError('Failed to retrieve audit log entries', 500);
+    }
+  });
+
+  /**
+   * Check the integrity of the whole audit log chain
+   */
+  static verifyChain = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const workerId = process.env.WORKER_ID || 'unknown-worker';
+
+    try {
+      const verification = await AuditLogModel.verifyChain();
+
+      if (!verification.valid) {
+        logger.warn('Audit log chain is broken', verification);
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        message: verification.valid ? 'Audit log chain is intact' : 'Audit log chain is broken',
+        data: verification,
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error verifying audit log:', error);
+      throw new AppError('Failed to verify audit log', 500);
+    }
+  });
+}
@@ -1,43 +1,146 @@
 import { Request, Response } from 'express';
 import Joi from 'joi';
 import { VerificationModel } from '../models/Verification';
-import { ApiResponse, VerificationRequest, Credential } from '../types';
+import {
+  ApiResponse,
+  VerificationRequest,
+  VerificationResult,
+  VerificationStatus,
+  Credential,
+  VerifiableCredential,
+  JwtCredentialPayload
+} from '../types';
 import { AppError, asyncHandler } from '../middleware/errorHandler';
+import { ConcurrencyUtils } from '../utils/concurrency';
 import { issuanceClient } from '../utils/issuanceClient';
+import { credentialTypeCache } from '../utils/credentialTypeCache';
+import { CryptoUtils } from '../utils/crypto';
 import { logger } from '../utils/logger';
+import { SD_HASH_ALGORITHM, SdJwtUtils } from '../utils/sdJwt';
+import { VC_CONTEXT, VC_PROOF_TYPE, VerifiableCredentialUtils } from '../utils/verifiableCredential';
 
 // Validation schema for credential verification
 const credentialSchema = Joi.object({
   id: Joi.string().uuid().required(),
   holder_name: Joi.string().min(2).max(100).required(),
   issuer: Joi.string().required(),
+  tenant_id: Joi.string(),
+  previous_credential_id: Joi.string().uuid().allow(null),
+  superseded_by: Joi.string().uuid().allow(null),
+  superseded_at: Joi.string().isoDate().allow(null),
+  status_list_id: Joi.string().uuid().allow(null),
+  status_list_index: Joi.number().integer().min(0).allow(null),
   issued_date: Joi.string().isoDate().required(),
-  credential_type: Joi.string().valid('certificate', 'license', 'badge', 'diploma', 'permit', 'qualification').required(),
+  credential_type: Joi.string().required(),
   expiry_date: Joi.string().isoDate().required(),
   signature: Joi.string().required(),
+  signature_algorithm: Joi.string().valid('Ed25519').required(),
+  kid: Joi.string().required(),
   worker_id: Joi.string().required(),
+  attributes: Joi.object().unknown(true).default({}),
   created_at: Joi.string().isoDate().required(),
   updated_at: Joi.string().isoDate().required()
 });
 
+const credentialIdSchema = Joi.string().uuid().required().label('credential_id');
+
 const verificationRequestSchema = Joi.object({
   credential: credentialSchema.required()
 });
 
+// Validation schema for the status list entries of a credential
+const credentialStatusSchema = Joi.array().items(Joi.object({
+  type: Joi.string().valid('BitstringStatusListEntry').required(),
+  statusPurpose: Joi.string().required(),
+  statusListIndex: Joi.string().pattern(/^\d+$/).required(),
+  statusListCredential: Joi.string().uri().required()
+}).unknown(true));
+
+// Validation schema for W3C verifiable credentials exported by issuance service
+const verifiableCredentialSchema = Joi.object({
+  '@context': Joi.array().items(Joi.string()).has(Joi.string().valid(VC_CONTEXT)).required(),
+  id: Joi.string().pattern(/^urn:uuid:/).required(),
+  type: Joi.array().items(Joi.string()).has(Joi.string().valid('VerifiableCredential')).required(),
+  issuer: Joi.object({
+    id: Joi.string().required(),
+    name: Joi.string().required()
+  }).required(),
+  validFrom: Joi.string().isoDate().required(),
+  validUntil: Joi.string().isoDate().required(),
+  credentialSubject: Joi.object({
+    name: Joi.string().required(),
+    credentialType: Joi.string().required(),
+    attributes: Joi.object().unknown(true)
+  }).required(),
+  credentialStatus: credentialStatusSchema,
+  proof: Joi.object({
+    type: Joi.string().valid(VC_PROOF_TYPE).required(),
+    created: Joi.string().isoDate().required(),
+    verificationMethod: Joi.string().pattern(/#.+$/).required(),
+    proofPurpose: Joi.string().valid('assertionMethod').required(),
+    proofValue: Joi.string().required(),
+    workerId: Joi.string().required()
+  }).required()
+}).unknown(true);
+
+// Validation schema for the claims of a JWT credential
+const jwtPayloadSchema = Joi.object({
+  iss: Joi.string().required(),
+  sub: Joi.string().required(),
+  nbf: Joi.number().integer().required(),
+  exp: Joi.number().integer().required(),
+  jti: Joi.string().pattern(/^urn:uuid:/).required(),
+  vc: Joi.object({
+    issuer: Joi.object({
+      name: Joi.string().required()
+    }).unknown(true).required(),
+    validFrom: Joi.string().isoDate().required(),
+    validUntil: Joi.string().isoDate().required(),
+    credentialSubject: Joi.object({
+      name: Joi.string().required(),
+      credentialType: Joi.string().required()
+    }).unknown(true).required(),
+    credentialStatus: credentialStatusSchema
+  }).unknown(true).required()
+}).unknown(true);
+
+// Validation schema for the claims of an SD-JWT credential once its disclosures are resolved
+const sdJwtPayloadSchema = Joi.object({
+  iss: Joi.string().required(),
+  nbf: Joi.number().integer().required(),
+  exp: Joi.number().integer().required(),
+  jti: Joi.string().pattern(/^urn:uuid:/).required(),
+  _sd_alg: Joi.string().valid(SD_HASH_ALGORITHM).required(),
+  vc: Joi.object({
+    issuer: Joi.object({
+      name: Joi.string().required()
+    }).unknown(true).required(),
+    validFrom: Joi.string().isoDate().required(),
+    validUntil: Joi.string().isoDate().required(),
+    credentialSubject: Joi.object({
+      name: Joi.string(),
+      credentialType: Joi.string().required(),
+      attributes: Joi.object().unknown(true)
+    }).unknown(true).required(),
+    credentialStatus: credentialStatusSchema
+  }).unknown(true).required()
+}).unknown(true);
+
+const COMPACT_JWS_PATTERN = /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/;
+const SD_JWT_PATTERN = /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+~([A-Za-z0-9_-]+~)*$/;
+
 export class VerificationController {
   /**
-   * Verify a credential
+   * Verify a credential, given either as { credential } or as a W3C verifiable credential
    */
   static verifyCredential = asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const workerId = process.env.WORKER_ID || `worker-${Math.floor(Math.random() * 1000)}`;
-    
-    // Validate request body
-    const { error, value } = verificationRequestSchema.validate(req.body);
-    
-    if (error) {
+    const { credential, error } = await VerificationController.readCredential(req.body);
+
+    if (!credential) {
       const response: ApiResponse = {
         success: false,
-        message: `Validation error: ${error.details.map(d => d.message).join(', ')}`,
+        message: `Validation error: ${error}`,
         worker_id: workerId,
         timestamp: new Date().toISOString()
       };
@@ -45,27 +148,15 @@ export class VerificationController {
       return;
     }
 
-    const verificationRequest: VerificationRequest = value;
-    const credential: Credential = verificationRequest.credential;
-
     try {
       // Perform verification
-      const verificationResult = await VerificationModel.verifyCredential(credential);
+      const verificationResult = await VerificationModel.verifyCredential(credential, res.locals.principal.tenant_id);
+      res.locals.auditResourceId = verificationResult.credential_id;
 
       const response: ApiResponse = {
         success: true,
         message: `Credential verification completed by ${workerId}`,
-        data: {
-          verification_id: verificationResult.id,
-          credential_id: verificationResult.credential_id,
-          is_valid: verificationResult.is_valid,
-          is_expired: verificationResult.is_expired,
-          verification_status: verificationResult.verification_status,
-          verified_by: verificationResult.verified_by,
-          verified_at: verificationResult.verified_at,
-          issuer_worker_id: verificationResult.issuer_worker_id,
-          issued_date: verificationResult.issued_date
-        },
+        data: VerificationController.toVerificationData(verificationResult),
         worker_id: workerId,
         timestamp: new Date().toISOString()
       };
@@ -86,7 +177,266 @@ export class VerificationController {
   });
 
   /**
-   * Get verification by ID
+   * Verify a credential given only its ID, from the URL or as { credential_id },
+   * by checking the credential stored by issuance service
+   */
+  static verifyCredentialById = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const workerId = process.env.WORKER_ID || `worker-${Math.floor(Math.random() * 1000)}`;
+    const credentialId = req.params.credentialId ?? req.body?.credential_id;
+
+    const { error } = credentialIdSchema.validate(credentialId);
+
+    if (error) {
+      const response: ApiResponse = {
+        success: false,
+        message: `Validation error: ${error.details.map(d => d.message).join(', ')}`,
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    try {
+      const verificationResult = await VerificationModel.verifyCredentialById(credentialId, res.locals.principal.tenant_id);
+      res.locals.auditResourceId = verificationResult.credential_id;
+
+      const response: ApiResponse = {
+        success: true,
+        message: `Credential verification completed by ${workerId}`,
+        data: VerificationController.toVerificationData(verificationResult),
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+
+      logger.info(`Credential verification by ID completed`, {
+        credentialId,
+        verificationId: verificationResult.id,
+        isValid: verificationResult.is_valid,
+        status: verificationResult.verification_status,
+        workerId
+      });
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error verifying credential by ID:', error);
+      throw new AppError('Failed to verify credential', 500);
+    }
+  });
+
+  /**
+   * Verify a batch of credentials, each given as { credential } or as a W3C
+   * verifiable credential. Up to VERIFICATION_BATCH_CONCURRENCY credentials are
+   * checked against the issuance service at a time, and each verification is
+   * stored as with single verifications.
+   */
+  static verifyCredentialBatch = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const workerId = process.env.WORKER_ID || `worker-${Math.floor(Math.random() * 1000)}`;
+    const maxBatchSize = parseInt(process.env.VERIFICATION_BATCH_MAX_SIZE || '100');
+    const concurrency = parseInt(process.env.VERIFICATION_BATCH_CONCURRENCY || '5');
+
+    if (!Array.isArray(req.body) || req.body.length === 0 || req.body.length > maxBatchSize) {
+      const response: ApiResponse = {
+        success: false,
+        message: `Validation error: Request body must be an array of 1 to ${maxBatchSize} credentials`,
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const results = await ConcurrencyUtils.mapWithLimit(req.body as unknown[], concurrency, async (item, index) => {
+      try {
+        // An unavailable type registry fails this item rather than the whole batch
+        const { credential, error } = await VerificationController.readCredential(item);
+
+        if (!credential) {
+          return { index, errors: [error] };
+        }
+
+        const verificationResult = await VerificationModel.verifyCredential(credential, res.locals.principal.tenant_id);
+        return { index, verification: VerificationController.toVerificationData(verificationResult) };
+      } catch (verificationError) {
+        if (verificationError instanceof AppError) {
+          return { index, errors: [verificationError.message] };
+        }
+
+        logger.error(`Error verifying credential at index ${index} in batch:`, verificationError);
+        return { index, errors: ['Failed to verify credential'] };
+      }
+    });
+
+    const byStatus: Partial<Record<VerificationStatus, number>> = {};
+
+    for (const { verification } of results) {
+      if (verification) {
+        byStatus[verification.verification_status] = (byStatus[verification.verification_status] || 0) + 1;
+      }
+    }
+
+    const verified = results.filter(result => result.verification).length;
+    const summary = {
+      total: results.length,
+      verified,
+      rejected: results.length - verified,
+      by_status: byStatus
+    };
+
+    const response: ApiResponse = {
+      success: true,
+      message: `Verified ${verified} of ${results.length} credentials by ${workerId}`,
+      data: { summary, results },
+      worker_id: workerId,
+      timestamp: new Date().toISOString()
+    };
+
+    logger.info('Credential batch verification completed', { total: summary.total, verified, ...byStatus, workerId });
+
+    res.json(response);
+  });
+
+  /**
+   * Verify a credential encoded as a compact JWT, sent as the raw request
+   * body (application/jwt) or as { jwt }
+   */
+  static verifyJwtCredential = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const workerId = process.env.WORKER_ID || `worker-${Math.floor(Math.random() * 1000)}`;
+    const jwt = typeof req.body === 'string' ? req.body.trim() : req.body?.jwt;
+
+    let validationError: string | undefined;
+
+    if (typeof jwt !== 'string' || !COMPACT_JWS_PATTERN.test(jwt)) {
+      validationError = 'Request must contain a compact JWT';
+    } else {
+      try {
+        const { payload } = CryptoUtils.decodeJwt<JwtCredentialPayload>(jwt);
+        const { error } = jwtPayloadSchema.validate(payload);
+        const credentialType = payload.vc?.credentialSubject?.credentialType;
+
+        if (error) {
+          validationError = error.details.map(d => d.message).join(', ');
+        } else if (!(await VerificationController.isAcceptedType(credentialType))) {
+          validationError = `Unknown credential type '${credentialType}'`;
+        }
+      } catch (error) {
+        if (error instanceof AppError) {
+          throw error;
+        }
+        validationError = 'JWT is not properly encoded';
+      }
+    }
+
+    if (validationError) {
+      const response: ApiResponse = {
+        success: false,
+        message: `Validation error: ${validationError}`,
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    try {
+      const verificationResult = await VerificationModel.verifyJwtCredential(jwt, res.locals.principal.tenant_id);
+      res.locals.auditResourceId = verificationResult.credential_id;
+
+      const response: ApiResponse = {
+        success: true,
+        message: `Credential verification completed by ${workerId}`,
+        data: VerificationController.toVerificationData(verificationResult),
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+
+      logger.info(`JWT credential verification completed`, {
+        credentialId: verificationResult.credential_id,
+        verificationId: verificationResult.id,
+        isValid: verificationResult.is_valid,
+        status: verificationResult.verification_status,
+        workerId
+      });
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error verifying JWT credential:', error);
+      throw new AppError('Failed to verify credential', 500);
+    }
+  });
+
+  /**
+   * Verify an SD-JWT presentation holding the disclosures the holder chose
+   * to reveal, sent as the raw request body (application/sd-jwt) or as { sd_jwt }
+   */
+  static verifySdJwtCredential = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const workerId = process.env.WORKER_ID || `worker-${Math.floor(Math.random() * 1000)}`;
+    const sdJwt = typeof req.body === 'string' ? req.body.trim() : req.body?.sd_jwt;
+
+    let validationError: string | undefined;
+
+    if (typeof sdJwt !== 'string' || !SD_JWT_PATTERN.test(sdJwt)) {
+      validationError = 'Request must contain an SD-JWT presentation';
+    } else {
+      try {
+        const { payload } = SdJwtUtils.decodePresentation(sdJwt);
+        const { error } = sdJwtPayloadSchema.validate(payload);
+        const credentialType = payload.vc?.credentialSubject?.credentialType;
+
+        if (error) {
+          validationError = error.details.map(d => d.message).join(', ');
+        } else if (!(await VerificationController.isAcceptedType(credentialType))) {
+          validationError = `Unknown credential type '${credentialType}'`;
+        }
+      } catch (error) {
+        if (error instanceof AppError) {
+          throw error;
+        }
+        validationError = error instanceof Error ? error.message : 'SD-JWT is not properly encoded';
+      }
+    }
+
+    if (validationError) {
+      const response: ApiResponse = {
+        success: false,
+        message: `Validation error: ${validationError}`,
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    try {
+      const verificationResult = await VerificationModel.verifySdJwtCredential(sdJwt, res.locals.principal.tenant_id);
+      res.locals.auditResourceId = verificationResult.credential_id;
+
+      const response: ApiResponse = {
+        success: true,
+        message: `Credential verification completed by ${workerId}`,
+        data: VerificationController.toVerificationData(verificationResult),
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+
+      logger.info(`SD-JWT credential verification completed`, {
+        credentialId: verificationResult.credential_id,
+        verificationId: verificationResult.id,
+        isValid: verificationResult.is_valid,
+        status: verificationResult.verification_status,
+        disclosedClaims: verificationResult.disclosed_claims,
+        workerId
+      });
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error verifying SD-JWT credential:', error);
+      throw new AppError('Failed to verify credential', 500);
+    }
+  });
+
+  /**
+   * Get verification of the caller's tenant by ID
    */
   static getVerification = asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const workerId = process.env.WORKER_ID || 'unknown-worker';
@@ -97,7 +447,7 @@ export class VerificationController {
     }
 
     try {
-      const verification = await VerificationModel.findById(id);
+      const verification = await VerificationModel.findById(id, res.locals.principal.tenant_id);
 
       if (!verification) {
         const response: ApiResponse = {
@@ -126,7 +476,7 @@ export class VerificationController {
   });
 
   /**
-   * Get verifications by credential ID
+   * Get the verifications of the caller's tenant by credential ID
    */
   static getVerificationsByCredentialId = asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const workerId = process.env.WORKER_ID || 'unknown-worker';
@@ -137,7 +487,7 @@ export class VerificationController {
     }
 
     try {
-      const verifications = await VerificationModel.findByCredentialId(credentialId);
+      const verifications = await VerificationModel.findByCredentialId(credentialId, res.locals.principal.tenant_id);
 
       const response: ApiResponse = {
         success: true,
@@ -159,18 +509,19 @@ export class VerificationController {
   });
 
   /**
-   * Get all verifications with pagination
+   * Get the verifications of the caller's tenant with pagination
    */
   static getAllVerifications = asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const workerId = process.env.WORKER_ID || 'unknown-worker';
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
     const offset = (page - 1) * limit;
+    const tenantId: string = res.locals.principal.tenant_id;
 
     try {
       const [verifications, total] = await Promise.all([
-        VerificationModel.findAll(limit, offset),
-        VerificationModel.count()
+        VerificationModel.findAll(tenantId, limit, offset),
+        VerificationModel.count(tenantId)
       ]);
 
       const response: ApiResponse = {
@@ -245,5 +596,72 @@ export class VerificationController {
       res.status(503).json(response);
     }
   });
-}
 
+  /**
+   * Read a credential sent as { credential } or as a W3C verifiable credential,
+   * or describe why it cannot be verified
+   */
+  private static async readCredential(body: unknown): Promise<{ credential?: Credential; error?: string }> {
+    let request = body;
+
+    if (VerifiableCredentialUtils.isVerifiableCredential(body)) {
+      const { error, value } = verifiableCredentialSchema.validate(body);
+
+      if (error) {
+        return { error: error.details.map(d => d.message).join(', ') };
+      }
+
+      request = { credential: VerifiableCredentialUtils.fromVerifiableCredential(value as VerifiableCredential) };
+    }
+
+    const { error, value } = verificationRequestSchema.validate(request);
+
+    if (error) {
+      return { error: error.details.map(d => d.message).join(', ') };
+    }
+
+    const { credential } = value as VerificationRequest;
+
+    if (!(await VerificationController.isAcceptedType(credential.credential_type))) {
+      return { error: `Unknown credential type '${credential.credential_type}'` };
+    }
+
+    return { credential };
+  }
+
+  /**
+   * Check a credential type against the issuance registry. When the registry
+   * cannot be loaded the credential is not verified, rather than verified
+   * without the type check.
+   */
+  private static async isAcceptedType(credentialType: string): Promise<boolean> {
+    try {
+      return await credentialTypeCache.isAcceptedType(credentialType);
+    } catch (error) {
+      logger.error('Credential type registry unavailable', { error: (error as Error).message });
+      throw new AppError('Credential type registry is unavailable, try again later', 503);
+    }
+  }
+
+  /**
+   * Shape a verification result for the verify endpoints
+   */
+  private static toVerificationData(verificationResult: VerificationResult) {
+    return {
+      verification_id: verificationResult.id,
+      credential_id: verificationResult.credential_id,
+      is_valid: verificationResult.is_valid,
+      is_expired: verificationResult.is_expired,
+      verification_status: verificationResult.verification_status,
+      verified_by: verificationResult.verified_by,
+      verified_at: verificationResult.verified_at,
+      issuer_worker_id: verificationResult.issuer_worker_id,
+      issued_date: verificationResult.issued_date,
+      revocation_reason: verificationResult.revocation_reason,
+      revoked_at: verificationResult.revoked_at,
+      superseded_by: verificationResult.superseded_by,
+      superseded_at: verificationResult.superseded_at,
+      disclosed_claims: verificationResult.disclosed_claims
+    };
+  }
+}
@@ -0,0 +1,223 @@
+import { Request, Response } from 'express';
+import Joi from 'joi';
+import { WebhookDeliveryModel } from '../models/WebhookDelivery';
+import { WebhookSubscriptionModel } from '../models/WebhookSubscription';
+import { ApiResponse, CreateWebhookSubscriptionRequest, WebhookDeliveryStatus, WebhookEventType } from '../types';
+import { AppError, asyncHandler } from '../middleware/errorHandler';
+import { webhookDispatcher } from '../utils/webhookDispatcher';
+import { checkWebhookUrl } from '../utils/webhookUrl';
+import { logger } from '../utils/logger';
+
+const WEBHOOK_EVENTS: WebhookEventType[] = ['verification.completed'];
+
+const WEBHOOK_DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'succeeded', 'dead'];
+
+const webhookSubscriptionSchema = Joi.object({
+  url: Joi.string().uri({ scheme: ['http', 'https'] }).required(),
+  events: Joi.array()
+    .items(Joi.string().valid(...WEBHOOK_EVENTS))
+    .min(1)
+    .unique()
+    .required()
+    .messages({
+      'any.only': `Events must be among: ${WEBHOOK_EVENTS.join(', ')}`
+    })
+});
+
+export class WebhookController {
+  /**
+   * List the webhook subscriptions of the caller's tenant without their secrets
+   */
+  static listSubscriptions = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const workerId = process.env.WORKER_ID || 'unknown-worker';
+
+    try {
+      const subscriptions = await WebhookSubscriptionModel.findAll(res.locals.principal.tenant_id);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Webhook subscriptions retrieved successfully',
+        data: {
+          subscriptions: subscriptions.map(subscription => WebhookSubscriptionModel.toPublicView(subscription))
+        },
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving webhook subscriptions:', error);
+      throw new AppError('Failed to retrieve webhook subscriptions', 500);
+    }
+  });
+
+  /**
+   * Subscribe an endpoint to events of the caller's tenant. The signing
+   * secret is only returned in this response.
+   */
+  static createSubscription = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const workerId = process.env.WORKER_ID || 'unknown-worker';
+
+    // Validate request body
+    const { error, value } = webhookSubscriptionSchema.validate(req.body, { abortEarly: false, stripUnknown: true });
+
+    if (error) {
+      const response: ApiResponse = {
+        success: false,
+        message: `Validation error: ${error.details.map(d => d.message).join(', ')}`,
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const urlError = await checkWebhookUrl(value.url);
+
+    if (urlError) {
+      const response: ApiResponse = {
+        success: false,
+        message: `Webhook URL is not allowed: ${urlError}`,
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    try {
+      const subscription = await WebhookSubscriptionModel.create(
+        value as CreateWebhookSubscriptionRequest,
+        res.locals.principal.tenant_id
+      );
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Webhook subscription created successfully, store the secret now as it cannot be shown again',
+        data: subscription,
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error creating webhook subscription:', error);
+      throw new AppError('Failed to create webhook subscription', 500);
+    }
+  });
+
+  /**
+   * Delete a webhook subscription and its deliveries
+   */
+  static deleteSubscription = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const workerId = process.env.WORKER_ID || 'unknown-worker';
+    const { id } = req.params;
+
+    if (!id) {
+      throw new AppError('Webhook subscription ID is required', 400);
+    }
+
+    const subscription = await WebhookSubscriptionModel.findById(id);
+
+    if (!subscription || subscription.tenant_id !== res.locals.principal.tenant_id) {
+      throw new AppError('Webhook subscription not found', 404);
+    }
+
+    try {
+      await WebhookSubscriptionModel.delete(id);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Webhook subscription deleted successfully',
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error deleting webhook subscription:', error);
+      throw new AppError('Failed to delete webhook subscription', 500);
+    }
+  });
+
+  /**
+   * List the webhook deliveries of the caller's tenant, newest first. With
+   * status=dead this is the dead-letter list of deliveries that ran out of retries.
+   */
+  static listDeliveries = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const workerId = process.env.WORKER_ID || 'unknown-worker';
+    const status = req.query.status as string | undefined;
+    const limit = parseInt(req.query.limit as string) || 50;
+    const offset = parseInt(req.query.offset as string) || 0;
+
+    if (status && !WEBHOOK_DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) {
+      throw new AppError(`Status must be one of: ${WEBHOOK_DELIVERY_STATUSES.join(', ')}`, 400);
+    }
+
+    try {
+      const deliveries = await WebhookDeliveryModel.findAll(
+        res.locals.principal.tenant_id,
+        status as WebhookDeliveryStatus | undefined,
+        limit,
+        offset
+      );
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Webhook deliveries retrieved successfully',
+        data: {
+          deliveries: deliveries.map(delivery => WebhookDeliveryModel.toPublicView(delivery)),
+          pagination: {
+            limit,
+            offset
+          }
+        },
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving webhook deliveries:', error);
+      throw new AppError('Failed to retrieve webhook deliveries', 500);
+    }
+  });
+
+  /**
+   * Send a delivery again right away, whatever its status. A failed attempt
+   * starts a new retry schedule, so a dead delivery is retried again.
+   */
+  static redeliverDelivery = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const workerId = process.env.WORKER_ID || 'unknown-worker';
+    const { id } = req.params;
+
+    if (!id) {
+      throw new AppError('Webhook delivery ID is required', 400);
+    }
+
+    const delivery = await WebhookDeliveryModel.findById(id);
+
+    if (!delivery || delivery.tenant_id !== res.locals.principal.tenant_id) {
+      throw new AppError('Webhook delivery not found', 404);
+    }
+
+    try {
+      const redelivered = await webhookDispatcher.deliver({ ...delivery, attempts: 0 });
+
+      const response: ApiResponse = {
+        success: true,
+        message: redelivered.status === 'succeeded'
+          ? 'Webhook delivered successfully'
+          : 'Webhook delivery failed and will be retried',
+        data: WebhookDeliveryModel.toPublicView(redelivered),
+        worker_id: workerId,
+        timestamp: new Date().toISOString()
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error redelivering webhook:', error);
+      throw new AppError('Failed to redeliver webhook', 500);
+    }
+  });
+}
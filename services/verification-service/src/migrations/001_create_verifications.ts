@@ -0,0 +1,30 @@
+import { Migration } from '../types';
+
+// Schema of the verifications table before migrations were introduced
+const migration: Migration = {
+  version: 1,
+  name: 'create_verifications',
+
+  async up(db) {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS verifications (
+        id TEXT PRIMARY KEY,
+        credential_id TEXT NOT NULL,
+        is_valid BOOLEAN NOT NULL,
+        is_expired BOOLEAN NOT NULL,
+        verification_status TEXT NOT NULL,
+        verified_by TEXT NOT NULL,
+        verified_at TEXT NOT NULL,
+        issuer_worker_id TEXT,
+        issued_date TEXT,
+        created_at TEXT NOT NULL
+      )
+    `);
+  },
+
+  async down(db) {
+    await db.run('DROP TABLE IF EXISTS verifications');
+  }
+};
+
+export default migration;
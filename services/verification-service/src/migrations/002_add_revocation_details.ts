@@ -0,0 +1,19 @@
+import { Migration } from '../types';
+import { MigrationHelpers } from './helpers';
+
+const migration: Migration = {
+  version: 2,
+  name: 'add_revocation_details',
+
+  async up(db) {
+    await MigrationHelpers.addColumn(db, 'verifications', 'revocation_reason', 'TEXT');
+    await MigrationHelpers.addColumn(db, 'verifications', 'revoked_at', 'TEXT');
+  },
+
+  async down(db) {
+    await MigrationHelpers.dropColumn(db, 'verifications', 'revoked_at');
+    await MigrationHelpers.dropColumn(db, 'verifications', 'revocation_reason');
+  }
+};
+
+export default migration;
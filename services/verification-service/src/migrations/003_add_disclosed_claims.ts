@@ -0,0 +1,18 @@
+import { Migration } from '../types';
+import { MigrationHelpers } from './helpers';
+
+// Claims disclosed by SD-JWT presentations, stored as a JSON array
+const migration: Migration = {
+  version: 3,
+  name: 'add_disclosed_claims',
+
+  async up(db) {
+    await MigrationHelpers.addColumn(db, 'verifications', 'disclosed_claims', 'TEXT');
+  },
+
+  async down(db) {
+    await MigrationHelpers.dropColumn(db, 'verifications', 'disclosed_claims');
+  }
+};
+
+export default migration;
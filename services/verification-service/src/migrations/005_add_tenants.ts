@@ -0,0 +1,24 @@
+import { Migration } from '../types';
+import { MigrationHelpers } from './helpers';
+
+const TENANT_TABLES = ['verifications', 'api_keys'];
+
+// Existing verifications and API keys belong to the default tenant of issuance service
+const migration: Migration = {
+  version: 5,
+  name: 'add_tenants',
+
+  async up(db) {
+    for (const table of TENANT_TABLES) {
+      await MigrationHelpers.addColumn(db, table, 'tenant_id', "TEXT NOT NULL DEFAULT 'default'");
+    }
+  },
+
+  async down(db) {
+    for (const table of TENANT_TABLES) {
+      await MigrationHelpers.dropColumn(db, table, 'tenant_id');
+    }
+  }
+};
+
+export default migration;
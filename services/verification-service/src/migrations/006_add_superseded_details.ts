@@ -0,0 +1,19 @@
+import { Migration } from '../types';
+import { MigrationHelpers } from './helpers';
+
+const migration: Migration = {
+  version: 6,
+  name: 'add_superseded_details',
+
+  async up(db) {
+    await MigrationHelpers.addColumn(db, 'verifications', 'superseded_by', 'TEXT');
+    await MigrationHelpers.addColumn(db, 'verifications', 'superseded_at', 'TEXT');
+  },
+
+  async down(db) {
+    await MigrationHelpers.dropColumn(db, 'verifications', 'superseded_at');
+    await MigrationHelpers.dropColumn(db, 'verifications', 'superseded_by');
+  }
+};
+
+export default migration;
@@ -0,0 +1,24 @@
+import { Migration } from '../types';
+import createVerifications from './001_create_verifications';
+import addRevocationDetails from './002_add_revocation_details';
+import addDisclosedClaims from './003_add_disclosed_claims';
+import createApiKeys from './004_create_api_keys';
+import addTenants from './005_add_tenants';
+import addSupersededDetails from './006_add_superseded_details';
+import createWebhooks from './007_create_webhooks';
+import createAuditLog from './008_create_audit_log';
+import createAuditLogAnchors from './009_create_audit_log_anchors';
+
+// All migrations in version order. New migrations are added at the end and
+// never change once released, since deployed databases have already run them.
+export const migrations: Migration[] = [
+  createVerifications,
+  addRevocationDetails,
+  addDisclosedClaims,
+  createApiKeys,
+  addTenants,
+  addSupersededDetails,
+  createWebhooks,
+  createAuditLog,
+  createAuditLogAnchors
+];
@@ -1,52 +1,263 @@
 import { v4 as uuidv4 } from 'uuid';
 import { database } from '../config/database';
-import { VerificationResult, Credential, DatabaseVerification } from '../types';
+import {
+  VerificationResult,
+  VerificationStatus,
+  Credential,
+  CredentialAttributes,
+  DatabaseVerification,
+  DisclosedCredentialClaims,
+  IssuedCredential,
+  JwtCredentialPayload
+} from '../types';
+import { DEFAULT_TENANT_ID } from '../middleware/auth';
 import { CryptoUtils } from '../utils/crypto';
 import { issuanceClient } from '../utils/issuanceClient';
+import { issuerKeyCache } from '../utils/issuerKeyCache';
 import { logger } from '../utils/logger';
+import { verificationsTotal } from '../utils/metrics';
+import { SdJwtUtils } from '../utils/sdJwt';
+import { StatusList, StatusListCache, statusListCache } from '../utils/statusListCache';
+import { VerifiableCredentialUtils } from '../utils/verifiableCredential';
+import { webhookDispatcher } from '../utils/webhookDispatcher';
+
+// Fields a JWT credential attests, compared against the issued credential
+const JWT_COMPARED_FIELDS: (keyof Credential)[] = [
+  'id', 'holder_name', 'issuer', 'issued_date', 'credential_type', 'expiry_date', 'attributes'
+];
+
+// A JSON credential must additionally carry the exact signature issued for it
+const CREDENTIAL_COMPARED_FIELDS: (keyof Credential)[] = [
+  ...JWT_COMPARED_FIELDS, 'signature', 'signature_algorithm', 'kid'
+];
+
+// Fields an SD-JWT credential always discloses, the holder name and attributes are optional
+const SD_JWT_COMPARED_FIELDS: (keyof Credential)[] = [
+  'id', 'issuer', 'issued_date', 'credential_type', 'expiry_date', 'attributes'
+];
 
 export class VerificationModel {
   /**
-   * Verify a credential
+   * Verify a credential for a verifier of the given tenant
+   */
+  static async verifyCredential(credential: Credential, tenantId: string): Promise<VerificationResult> {
+    return this.runVerification(credential, tenantId, CREDENTIAL_COMPARED_FIELDS, async () => {
+      // Verify the signature with the issuer key named by the credential's kid
+      const issuerKey = await issuerKeyCache.getKey(credential.kid);
+      return issuerKey !== null && CryptoUtils.verifyCredentialSignature(credential, issuerKey.publicKey)
+        ? issuerKey.tenant
+        : null;
+    });
+  }
+
+  /**
+   * Verify a credential encoded as a compact JWT
    */
-  static async verifyCredential(credential: Credential): Promise<VerificationResult> {
+  static async verifyJwtCredential(jwt: string, tenantId: string): Promise<VerificationResult> {
+    const { header, payload } = CryptoUtils.decodeJwt<JwtCredentialPayload>(jwt);
+    const claims = VerifiableCredentialUtils.fromJwtPayload(payload);
+
+    return this.runVerification(claims, tenantId, JWT_COMPARED_FIELDS, async () => {
+      const issuerKey = await issuerKeyCache.getKey(header.kid);
+      return issuerKey !== null && CryptoUtils.verifyJwtSignature(jwt, issuerKey.publicKey) ? issuerKey.tenant : null;
+    });
+  }
+
+  /**
+   * Verify an SD-JWT presentation, comparing only the claims it discloses
+   * and recording which ones those were
+   */
+  static async verifySdJwtCredential(sdJwt: string, tenantId: string): Promise<VerificationResult> {
+    const { jwt, header, payload } = SdJwtUtils.decodePresentation(sdJwt);
+    const claims = VerifiableCredentialUtils.fromSdJwtPayload(payload);
+
+    const disclosedClaims = [
+      ...(claims.holder_name !== undefined ? ['holder_name'] : []),
+      ...Object.keys(claims.attributes || {}).map(name => `attributes.${name}`)
+    ];
+    const comparedFields: (keyof Credential)[] = claims.holder_name !== undefined
+      ? [...SD_JWT_COMPARED_FIELDS, 'holder_name']
+      : SD_JWT_COMPARED_FIELDS;
+
+    return this.runVerification(claims, tenantId, comparedFields, async () => {
+      const issuerKey = await issuerKeyCache.getKey(header.kid);
+      return issuerKey !== null && CryptoUtils.verifyJwtSignature(jwt, issuerKey.publicKey) ? issuerKey.tenant : null;
+    }, disclosedClaims);
+  }
+
+  /**
+   * Verify a credential given only its ID, using the credential stored by
+   * issuance service: its signature is checked against the issuer key set,
+   * then its revocation and expiry as for any other credential
+   */
+  static async verifyCredentialById(credentialId: string, tenantId: string): Promise<VerificationResult> {
+    let issuedCredential: IssuedCredential | null | undefined;
+
+    const findIssuedCredential = async () => {
+      if (issuedCredential === undefined) {
+        issuedCredential = await issuanceClient.getCredential(credentialId);
+      }
+      return issuedCredential;
+    };
+
+    return this.runVerification({ id: credentialId }, tenantId, [], async () => {
+      const credential = await findIssuedCredential();
+
+      // An unknown ID has no signature to check and is reported as not found
+      if (!credential) {
+        return DEFAULT_TENANT_ID;
+      }
+
+      const issuerKey = await issuerKeyCache.getKey(credential.kid);
+      return issuerKey !== null && CryptoUtils.verifyCredentialSignature(credential, issuerKey.publicKey)
+        ? issuerKey.tenant
+        : null;
+    }, undefined, findIssuedCredential);
+  }
+
+  /**
+   * Look up a credential whose bit is set in a status list, for the revocation
+   * or renewal details that the list does not carry. Only such credentials are
+   * looked up, and their status stands when the lookup fails.
+   */
+  private static async findStatusDetails(
+    credentialId: string,
+    findIssuedCredential: () => Promise<IssuedCredential | null>
+  ): Promise<IssuedCredential | null> {
+    try {
+      return await findIssuedCredential();
+    } catch (error) {
+      logger.warn(`Failed to look up the status details of credential: ${credentialId}`, { error: (error as Error).message });
+      return null;
+    }
+  }
+
+  /**
+   * Check the signature, then the revocation, supersession and expiry of the
+   * credential, recording the outcome for the verifier's tenant. verifySignature
+   * returns the tenant of the key that made the signature, or null when it does
+   * not verify; that tenant must be the one that issued the credential.
+   *
+   * A credential with a status list index is trusted as signed and its status is
+   * read from the cached status lists of its issuer; it is only looked up once
+   * it is revoked or superseded, for the details. Other credentials are looked
+   * up in issuance service and their fields compared; when the disclosed claims
+   * are given, only the disclosed attributes are compared.
+   */
+  private static async runVerification(
+    credential: Pick<DisclosedCredentialClaims, 'id'> & Partial<DisclosedCredentialClaims & Pick<Credential, 'worker_id'>>,
+    tenantId: string,
+    comparedFields: (keyof Credential)[],
+    verifySignature: () => Promise<string | null>,
+    disclosedClaims?: string[],
+    findIssuedCredential: () => Promise<IssuedCredential | null> = () => issuanceClient.getCredential(credential.id)
+  ): Promise<VerificationResult> {
     const now = new Date().toISOString();
     const workerId = process.env.WORKER_ID || `worker-${Math.floor(Math.random() * 1000)}`;
     
-    let verificationStatus: 'valid' | 'invalid' | 'expired' | 'not_found' | 'signature_mismatch' = 'invalid';
+    let verificationStatus: VerificationStatus = 'invalid';
     let isValid = false;
     let isExpired = false;
     let issuerWorkerId: string | undefined;
     let issuedDate: string | undefined;
+    let revocationReason: string | undefined;
+    let revokedAt: string | undefined;
+    let supersededBy: string | undefined;
+    let supersededAt: string | undefined;
+    const { status_list_id: statusListId, status_list_index: statusListIndex } = credential;
 
     try {
-      // First, verify the signature
-      const signatureValid = CryptoUtils.verifyCredentialSignature(credential);
+      const signerTenant = await verifySignature();
       
-      if (!signatureValid) {
+      if (signerTenant === null) {
         verificationStatus = 'signature_mismatch';
         logger.warn(`Signature verification failed for credential: ${credential.id}`);
+      } else if (statusListId && typeof statusListIndex === 'number') {
+        let statusLists: [StatusList, StatusList] | null = null;
+
+        try {
+          statusLists = await Promise.all([
+            statusListCache.getList(statusListId, 'revocation'),
+            statusListCache.getList(statusListId, 'supersession')
+          ]);
+        } catch (error) {
+          logger.error(`Status list ${statusListId} is unavailable:`, error);
+        }
+
+        const [revocationList, supersessionList] = statusLists || [];
+
+        if (!revocationList || !supersessionList) {
+          verificationStatus = 'status_unavailable';
+        } else if (revocationList.tenant !== signerTenant || supersessionList.tenant !== signerTenant) {
+          verificationStatus = 'invalid';
+          logger.warn(`Status list was signed with a key of another tenant: ${credential.id}`, { signerTenant });
+        } else {
+          isExpired = new Date(credential.expiry_date!) < new Date();
+          issuerWorkerId = credential.worker_id;
+          issuedDate = credential.issued_date;
+
+          if (StatusListCache.isSet(revocationList, statusListIndex)) {
+            verificationStatus = 'revoked';
+            const revocation = (await this.findStatusDetails(credential.id, findIssuedCredential))?.revocation;
+            revocationReason = revocation?.reason;
+            revokedAt = revocation?.revoked_at;
+            logger.info(`Credential is revoked: ${credential.id}`, { statusListId, reason: revocationReason });
+          } else if (StatusListCache.isSet(supersessionList, statusListIndex)) {
+            verificationStatus = 'superseded';
+            const issuedCredential = await this.findStatusDetails(credential.id, findIssuedCredential);
+            supersededBy = issuedCredential?.superseded_by || undefined;
+            supersededAt = issuedCredential?.superseded_at || undefined;
+            logger.info(`Credential is superseded: ${credential.id}`, { statusListId, supersededBy });
+          } else if (isExpired) {
+            verificationStatus = 'expired';
+            logger.info(`Credential is expired: ${credential.id}`);
+          } else {
+            verificationStatus = 'valid';
+            isValid = true;
+            logger.info(`Credential verified successfully: ${credential.id}`);
+          }
+        }
       } else {
         // Check if credential exists in issuance service
-        const issuedCredential = await issuanceClient.getCredential(credential.id);
+        const issuedCredential = await findIssuedCredential();
         
         if (!issuedCredential) {
           verificationStatus = 'not_found';
           logger.warn(`Credential not found in issuance service: ${credential.id}`);
         } else {
           // Verify all fields match
-          const fieldsMatch = this.compareCredentials(credential, issuedCredential);
+          const fieldsMatch = this.compareCredentials(
+            credential,
+            issuedCredential,
+            comparedFields,
+            disclosedClaims !== undefined
+          );
           
           if (!fieldsMatch) {
             verificationStatus = 'invalid';
             logger.warn(`Credential fields do not match issued credential: ${credential.id}`);
+          } else if ((issuedCredential.tenant_id || DEFAULT_TENANT_ID) !== signerTenant) {
+            // A tenant's key must not vouch for credentials issued by another tenant
+            verificationStatus = 'invalid';
+            logger.warn(`Credential was signed with a key of another tenant: ${credential.id}`, { signerTenant });
           } else {
             // Check if expired
-            isExpired = new Date(credential.expiry_date) < new Date();
+            isExpired = new Date(issuedCredential.expiry_date) < new Date();
             issuerWorkerId = issuedCredential.worker_id;
             issuedDate = issuedCredential.issued_date;
             
-            if (isExpired) {
+            if (issuedCredential.revocation) {
+              verificationStatus = 'revoked';
+              revocationReason = issuedCredential.revocation.reason;
+              revokedAt = issuedCredential.revocation.revoked_at;
+              logger.info(`Credential is revoked: ${credential.id}`, { reason: revocationReason });
+            } else if (issuedCredential.superseded_by) {
+              // Renewed credentials are replaced by their renewal, which is reported alongside
+              verificationStatus = 'superseded';
+              supersededBy = issuedCredential.superseded_by;
+              supersededAt = issuedCredential.superseded_at || undefined;
+              logger.info(`Credential is superseded: ${credential.id}`, { supersededBy });
+            } else if (isExpired) {
               verificationStatus = 'expired';
               logger.info(`Credential is expired: ${credential.id}`);
             } else {
@@ -73,27 +284,55 @@ export class VerificationModel {
       verified_at: now,
       ...(issuerWorkerId && { issuer_worker_id: issuerWorkerId }),
       ...(issuedDate && { issued_date: issuedDate }),
+      ...(revocationReason && { revocation_reason: revocationReason }),
+      ...(revokedAt && { revoked_at: revokedAt }),
+      ...(supersededBy && { superseded_by: supersededBy }),
+      ...(supersededAt && { superseded_at: supersededAt }),
+      ...(disclosedClaims && { disclosed_claims: disclosedClaims }),
+      tenant_id: tenantId,
       created_at: now
     };
 
     // Save verification record to database
     await this.saveVerification(verification);
+    verificationsTotal.inc({ verification_status: verification.verification_status });
+    await webhookDispatcher.emit('verification.completed', tenantId, verification);
 
     return verification;
   }
 
   /**
-   * Compare two credentials for equality
+   * Compare the given fields of two credentials for equality
+   */
+  private static compareCredentials(
+    credential1: Partial<Credential>,
+    credential2: Credential,
+    fields: (keyof Credential)[],
+    partialAttributes: boolean = false
+  ): boolean {
+    return fields.every(field =>
+      field === 'attributes'
+        ? this.compareAttributes(credential1.attributes, credential2.attributes, partialAttributes)
+        : credential1[field] === credential2[field]
+    );
+  }
+
+  /**
+   * Compare attributes field by field, treating missing attributes as empty.
+   * A partial comparison only checks the attributes present in the first set.
    */
-  private static compareCredentials(credential1: Credential, credential2: Credential): boolean {
-    return (
-      credential1.id === credential2.id &&
-      credential1.holder_name === credential2.holder_name &&
-      credential1.issuer === credential2.issuer &&
-      credential1.issued_date === credential2.issued_date &&
-      credential1.credential_type === credential2.credential_type &&
-      credential1.expiry_date === credential2.expiry_date &&
-      credential1.signature === credential2.signature
+  private static compareAttributes(
+    attributes1: CredentialAttributes = {},
+    attributes2: CredentialAttributes = {},
+    partial: boolean = false
+  ): boolean {
+    const names = new Set(partial
+      ? Object.keys(attributes1)
+      : [...Object.keys(attributes1), ...Object.keys(attributes2)]);
+
+    return [...names].every(name =>
+      JSON.stringify(CryptoUtils.canonicalize(attributes1[name])) ===
+      JSON.stringify(CryptoUtils.canonicalize(attributes2[name]))
     );
   }
 
@@ -104,8 +343,9 @@ export class VerificationModel {
     const insertQuery = `
       INSERT INTO verifications (
         id, credential_id, is_valid, is_expired, verification_status,
-        verified_by, verified_at, issuer_worker_id, issued_date, created_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        verified_by, verified_at, issuer_worker_id, issued_date,
+        revocation_reason, revoked_at, superseded_by, superseded_at, disclosed_claims, tenant_id, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
 
     const params = [
@@ -118,6 +358,12 @@ export class VerificationModel {
       verification.verified_at,
       verification.issuer_worker_id,
       verification.issued_date,
+      verification.revocation_reason,
+      verification.revoked_at,
+      verification.superseded_by,
+      verification.superseded_at,
+      verification.disclosed_claims && JSON.stringify(verification.disclosed_claims),
+      verification.tenant_id,
       verification.created_at
     ];
 
@@ -131,22 +377,18 @@ export class VerificationModel {
   }
 
   /**
-   * Get verification by ID
+   * Get verification of a tenant by ID
    */
-  static async findById(id: string): Promise<VerificationResult | null> {
+  static async findById(id: string, tenantId: string): Promise<VerificationResult | null> {
     try {
-      const query = 'SELECT * FROM verifications WHERE id = ?';
-      const result = await database.get<DatabaseVerification>(query, [id]);
+      const query = 'SELECT * FROM verifications WHERE id = ? AND tenant_id = ?';
+      const result = await database.get<DatabaseVerification>(query, [id, tenantId]);
       
       if (!result) {
         return null;
       }
 
-      return {
-        ...result,
-        is_valid: Boolean(result.is_valid),
-        is_expired: Boolean(result.is_expired)
-      } as VerificationResult;
+      return this.fromDatabase(result);
     } catch (error) {
       logger.error('Error finding verification by ID:', error);
       throw new Error('Failed to find verification');
@@ -154,18 +396,14 @@ export class VerificationModel {
   }
 
   /**
-   * Get verifications by credential ID
+   * Get verifications of a tenant by credential ID
    */
-  static async findByCredentialId(credentialId: string): Promise<VerificationResult[]> {
+  static async findByCredentialId(credentialId: string, tenantId: string): Promise<VerificationResult[]> {
     try {
-      const query = 'SELECT * FROM verifications WHERE credential_id = ? ORDER BY created_at DESC';
-      const results = await database.all<DatabaseVerification>(query, [credentialId]);
+      const query = 'SELECT * FROM verifications WHERE credential_id = ? AND tenant_id = ? ORDER BY created_at DESC';
+      const results = await database.all<DatabaseVerification>(query, [credentialId, tenantId]);
       
-      return results.map(result => ({
-        ...result,
-        is_valid: Boolean(result.is_valid),
-        is_expired: Boolean(result.is_expired)
-      })) as VerificationResult[];
+      return results.map(result => this.fromDatabase(result));
     } catch (error) {
       logger.error('Error finding verifications by credential ID:', error);
       throw new Error('Failed to find verifications');
@@ -173,18 +411,14 @@ export class VerificationModel {
   }
 
   /**
-   * Get all verifications with pagination
+   * Get the verifications of a tenant with pagination
    */
-  static async findAll(limit: number = 50, offset: number = 0): Promise<VerificationResult[]> {
+  static async findAll(tenantId: string, limit: number = 50, offset: number = 0): Promise<VerificationResult[]> {
     try {
-      const query = 'SELECT * FROM verifications ORDER BY created_at DESC LIMIT ? OFFSET ?';
-      const results = await database.all<DatabaseVerification>(query, [limit, offset]);
+      const query = 'SELECT * FROM verifications WHERE tenant_id = ? ORDER BY created_at DESC LIMIT ? OFFSET ?';
+      const results = await database.all<DatabaseVerification>(query, [tenantId, limit, offset]);
       
-      return results.map(result => ({
-        ...result,
-        is_valid: Boolean(result.is_valid),
-        is_expired: Boolean(result.is_expired)
-      })) as VerificationResult[];
+      return results.map(result => this.fromDatabase(result));
     } catch (error) {
       logger.error('Error finding all verifications:', error);
       throw new Error('Failed to retrieve verifications');
@@ -192,12 +426,13 @@ export class VerificationModel {
   }
 
   /**
-   * Get verifications count
+   * Get verifications count, of one tenant when given
    */
-  static async count(): Promise<number> {
+  static async count(tenantId?: string): Promise<number> {
     try {
-      const query = 'SELECT COUNT(*) as count FROM verifications';
-      const result = await database.get<{ count: number }>(query);
+      const result = tenantId
+        ? await database.get<{ count: number }>('SELECT COUNT(*) as count FROM verifications WHERE tenant_id = ?', [tenantId])
+        : await database.get<{ count: number }>('SELECT COUNT(*) as count FROM verifications');
       
       return result?.count || 0;
     } catch (error) {
@@ -205,5 +440,15 @@ export class VerificationModel {
       throw new Error('Failed to count verifications');
     }
   }
-}
 
+  private static fromDatabase(row: DatabaseVerification): VerificationResult {
+    const { disclosed_claims: disclosedClaims, ...verification } = row;
+
+    return {
+      ...verification,
+      is_valid: Boolean(row.is_valid),
+      is_expired: Boolean(row.is_expired),
+      ...(disclosedClaims && { disclosed_claims: JSON.parse(disclosedClaims) })
+    } as VerificationResult;
+  }
+}
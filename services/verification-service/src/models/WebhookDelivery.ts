@@ -0,0 +1,172 @@
+import { v4 as uuidv4 } from 'uuid';
+import { database } from '../config/database';
+import { WebhookDelivery, WebhookDeliveryStatus, WebhookEvent, WebhookSubscription } from '../types';
+import { logger } from '../utils/logger';
+
+export class WebhookDeliveryModel {
+  /**
+   * Queue an event for each subscription to it, due right away
+   */
+  static async createForEvent(event: WebhookEvent, subscriptions: WebhookSubscription[]): Promise<WebhookDelivery[]> {
+    const payload = JSON.stringify(event);
+
+    const deliveries = subscriptions.map((subscription): WebhookDelivery => ({
+      id: uuidv4(),
+      subscription_id: subscription.id,
+      tenant_id: event.tenant_id,
+      event_id: event.id,
+      event_type: event.type,
+      payload,
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: event.created_at,
+      last_attempt_at: null,
+      last_response_status: null,
+      last_error: null,
+      created_at: event.created_at,
+      updated_at: event.created_at
+    }));
+
+    const insertQuery = `
+      INSERT INTO webhook_deliveries (
+        id, subscription_id, tenant_id, event_id, event_type, payload, status, attempts,
+        next_attempt_at, last_attempt_at, last_response_status, last_error, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    try {
+      await database.transaction(async (runner) => {
+        for (const delivery of deliveries) {
+          await runner.run(insertQuery, [
+            delivery.id,
+            delivery.subscription_id,
+            delivery.tenant_id,
+            delivery.event_id,
+            delivery.event_type,
+            delivery.payload,
+            delivery.status,
+            delivery.attempts,
+            delivery.next_attempt_at,
+            delivery.last_attempt_at,
+            delivery.last_response_status,
+            delivery.last_error,
+            delivery.created_at,
+            delivery.updated_at
+          ]);
+        }
+      });
+      logger.info(`Queued ${deliveries.length} webhook deliveries for ${event.type}`, { eventId: event.id });
+      return deliveries;
+    } catch (error) {
+      logger.error('Error queueing webhook deliveries:', error);
+      throw new Error('Failed to queue webhook deliveries');
+    }
+  }
+
+  /**
+   * Find delivery by ID
+   */
+  static async findById(id: string): Promise<WebhookDelivery | null> {
+    try {
+      const result = await database.get<WebhookDelivery>('SELECT * FROM webhook_deliveries WHERE id = ?', [id]);
+
+      return result || null;
+    } catch (error) {
+      logger.error('Error finding webhook delivery:', error);
+      throw new Error('Failed to find webhook delivery');
+    }
+  }
+
+  /**
+   * Get the deliveries of a tenant, newest first, optionally only those with a status
+   */
+  static async findAll(
+    tenantId: string,
+    status?: WebhookDeliveryStatus,
+    limit: number = 50,
+    offset: number = 0
+  ): Promise<WebhookDelivery[]> {
+    const query = status
+      ? 'SELECT * FROM webhook_deliveries WHERE tenant_id = ? AND status = ? ORDER BY created_at DESC LIMIT ? OFFSET ?'
+      : 'SELECT * FROM webhook_deliveries WHERE tenant_id = ? ORDER BY created_at DESC LIMIT ? OFFSET ?';
+
+    try {
+      return await database.all<WebhookDelivery>(query, status ? [tenantId, status, limit, offset] : [tenantId, limit, offset]);
+    } catch (error) {
+      logger.error('Error finding webhook deliveries:', error);
+      throw new Error('Failed to retrieve webhook deliveries');
+    }
+  }
+
+  /**
+   * Get pending deliveries whose next attempt is due, oldest first
+   */
+  static async findDue(limit: number): Promise<WebhookDelivery[]> {
+    try {
+      return await database.all<WebhookDelivery>(
+        "SELECT * FROM webhook_deliveries WHERE status = 'pending' AND next_attempt_at <= ? ORDER BY next_attempt_at LIMIT ?",
+        [new Date().toISOString(), limit]
+      );
+    } catch (error) {
+      logger.error('Error finding due webhook deliveries:', error);
+      throw new Error('Failed to retrieve webhook deliveries');
+    }
+  }
+
+  /**
+   * Take a due delivery for one attempt by moving its next attempt to leaseUntil, so
+   * other workers skip it. Returns false when another worker took it first. Should the
+   * attempt never be recorded, the delivery is due again once the lease has passed.
+   */
+  static async claim(delivery: WebhookDelivery, leaseUntil: string): Promise<boolean> {
+    try {
+      const result = await database.run(
+        "UPDATE webhook_deliveries SET next_attempt_at = ? WHERE id = ? AND status = 'pending' AND next_attempt_at = ?",
+        [leaseUntil, delivery.id, delivery.next_attempt_at]
+      );
+
+      return result.changes === 1;
+    } catch (error) {
+      logger.error('Error claiming webhook delivery:', error);
+      throw new Error('Failed to claim webhook delivery');
+    }
+  }
+
+  /**
+   * Store the outcome of a delivery attempt
+   */
+  static async saveAttempt(delivery: WebhookDelivery): Promise<void> {
+    const updateQuery = `
+      UPDATE webhook_deliveries SET
+        status = ?, attempts = ?, next_attempt_at = ?, last_attempt_at = ?,
+        last_response_status = ?, last_error = ?, updated_at = ?
+      WHERE id = ?
+    `;
+
+    try {
+      await database.run(updateQuery, [
+        delivery.status,
+        delivery.attempts,
+        delivery.next_attempt_at,
+        delivery.last_attempt_at,
+        delivery.last_response_status,
+        delivery.last_error,
+        delivery.updated_at,
+        delivery.id
+      ]);
+    } catch (error) {
+      logger.error('Error saving webhook delivery attempt:', error);
+      throw new Error('Failed to save webhook delivery attempt');
+    }
+  }
+
+  /**
+   * Delivery with its payload parsed, as listed by the admin endpoints
+   */
+  static toPublicView(delivery: WebhookDelivery): Omit<WebhookDelivery, 'payload'> & { payload: WebhookEvent } {
+    return {
+      ...delivery,
+      payload: JSON.parse(delivery.payload)
+    };
+  }
+}
@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { ApiKeyController } from '../controllers/apiKeyController';
+import { audit } from '../middleware/audit';
+import { requireAdmin } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * @route   GET /api/api-keys
+ * @desc    List API keys
+ * @access  Admin
+ */
+router.get('/', audit('api_key.list'), requireAdmin, ApiKeyController.listApiKeys);
+
+/**
+ * @route   POST /api/api-keys
+ * @desc    Create an API key with a set of roles
+ * @access  Admin
+ */
+router.post('/', audit('api_key.create'), requireAdmin, ApiKeyController.createApiKey);
+
+/**
+ * @route   POST /api/api-keys/:id/revoke
+ * @desc    Revoke an API key
+ * @access  Admin
+ */
+router.post('/:id/revoke', audit('api_key.revoke'), requireAdmin, ApiKeyController.revokeApiKey);
+
+export default router;
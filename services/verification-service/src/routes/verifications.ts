@@ -1,35 +1,84 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { VerificationController } from '../controllers/verificationController';
+import { audit } from '../middleware/audit';
+import { requireRole } from '../middleware/auth';
 
 const router = Router();
 
 /**
  * @route   POST /api/verifications
  * @desc    Verify a credential
- * @access  Public
+ * @access  Verifier
  */
-router.post('/', VerificationController.verifyCredential);
+router.post('/', audit('verification.verify'), requireRole('verifier'), VerificationController.verifyCredential);
+
+/**
+ * @route   POST /api/verifications/batch
+ * @desc    Verify a batch of credentials
+ * @access  Verifier
+ */
+router.post('/batch', audit('verification.verify_batch'), requireRole('verifier'), VerificationController.verifyCredentialBatch);
+
+/**
+ * @route   GET /api/verifications/check/:credentialId
+ * @desc    Verify a credential by ID, without the credential itself
+ * @access  Verifier
+ */
+router.get('/check/:credentialId', audit('verification.check'), requireRole('verifier'), VerificationController.verifyCredentialById);
+
+/**
+ * @route   POST /api/verifications/check
+ * @desc    Verify a credential by the ID given as { credential_id }
+ * @access  Verifier
+ */
+router.post('/check', audit('verification.check'), requireRole('verifier'), VerificationController.verifyCredentialById);
+
+/**
+ * @route   POST /api/verifications/jwt
+ * @desc    Verify a credential encoded as a compact JWT
+ * @access  Verifier
+ */
+router.post(
+  '/jwt',
+  audit('verification.verify_jwt'),
+  requireRole('verifier'),
+  express.text({ type: ['application/jwt', 'text/plain'] }),
+  VerificationController.verifyJwtCredential
+);
+
+/**
+ * @route   POST /api/verifications/sd-jwt
+ * @desc    Verify an SD-JWT presentation with a subset of its disclosures
+ * @access  Verifier
+ */
+router.post(
+  '/sd-jwt',
+  audit('verification.verify_sd_jwt'),
+  requireRole('verifier'),
+  express.text({ type: ['application/sd-jwt', 'text/plain'] }),
+  VerificationController.verifySdJwtCredential
+);
 
 /**
  * @route   GET /api/verifications/:id
  * @desc    Get verification by ID
- * @access  Public
+ * @access  Verifier, Auditor
  */
-router.get('/:id', VerificationController.getVerification);
+router.get('/:id', audit('verification.read'), requireRole('verifier', 'auditor'), VerificationController.getVerification);
 
 /**
  * @route   GET /api/verifications/credential/:credentialId
  * @desc    Get verifications by credential ID
- * @access  Public
+ * @access  Verifier, Auditor
  */
-router.get('/credential/:credentialId', VerificationController.getVerificationsByCredentialId);
+router.get('/credential/:credentialId', audit('verification.list_by_credential'), requireRole('verifier', 'auditor'), VerificationController.getVerificationsByCredentialId);
 
 /**
  * @route   GET /api/verifications
  * @desc    Get all verifications with pagination
- * @access  Public
+ * @access  Auditor
  */
-router.get('/', VerificationController.getAllVerifications);
+router.get('/', audit('verification.list'), requireRole('auditor'), VerificationController.getAllVerifications);
 
 export default router;
 
@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import { WebhookController } from '../controllers/webhookController';
+import { audit } from '../middleware/audit';
+import { requireAdmin } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * @route   GET /api/webhooks
+ * @desc    List webhook subscriptions
+ * @access  Admin
+ */
+router.get('/', audit('webhook.list'), requireAdmin, WebhookController.listSubscriptions);
+
+/**
+ * @route   POST /api/webhooks
+ * @desc    Subscribe an endpoint to verification events
+ * @access  Admin
+ */
+router.post('/', audit('webhook.create'), requireAdmin, WebhookController.createSubscription);
+
+/**
+ * @route   GET /api/webhooks/deliveries
+ * @desc    List webhook deliveries, status=dead for the dead-letter list
+ * @access  Admin
+ */
+router.get('/deliveries', audit('webhook_delivery.list'), requireAdmin, WebhookController.listDeliveries);
+
+/**
+ * @route   POST /api/webhooks/deliveries/:id/redeliver
+ * @desc    Send a webhook delivery again
+ * @access  Admin
+ */
+router.post('/deliveries/:id/redeliver', audit('webhook_delivery.redeliver'), requireAdmin, WebhookController.redeliverDelivery);
+
+/**
+ * @route   DELETE /api/webhooks/:id
+ * @desc    Delete a webhook subscription
+ * @access  Admin
+ */
+router.delete('/:id', audit('webhook.delete'), requireAdmin, WebhookController.deleteSubscription);
+
+export default router;
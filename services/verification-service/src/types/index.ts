@@ -2,15 +2,146 @@ export interface Credential {
   id: string;
   holder_name: string;
   issuer: string;
+  // Tenant that issued the credential, absent for credentials issued before tenants existed
+  tenant_id?: string;
+  // Credential this one renews, and the renewal that replaced it
+  previous_credential_id?: string | null;
+  superseded_by?: string | null;
+  superseded_at?: string | null;
+  // Position in a status list of the issuer, absent for credentials issued before status lists existed
+  status_list_id?: string | null;
+  status_list_index?: number | null;
   issued_date: string;
   credential_type: string;
   expiry_date: string;
   signature: string;
+  signature_algorithm: string;
+  kid: string;
   worker_id: string;
+  attributes?: CredentialAttributes;
   created_at: string;
   updated_at: string;
 }
 
+export type CredentialAttributes = Record<string, unknown>;
+
+export interface CredentialRevocation {
+  reason: string;
+  revoked_at: string;
+}
+
+export interface IssuedCredential extends Credential {
+  revocation?: CredentialRevocation | null;
+}
+
+export type VerificationStatus =
+  | 'valid'
+  | 'invalid'
+  | 'expired'
+  | 'revoked'
+  | 'superseded'
+  | 'not_found'
+  | 'signature_mismatch'
+  // The status lists of the credential could not be fetched
+  | 'status_unavailable';
+
+// What a set bit means in a status list published by issuance service
+export type StatusPurpose = 'revocation' | 'supersession';
+
+export interface CredentialStatus {
+  id: string;
+  type: 'BitstringStatusListEntry';
+  statusPurpose: StatusPurpose;
+  statusListIndex: string;
+  statusListCredential: string;
+}
+
+export interface VerifiableCredential {
+  '@context': string[];
+  id: string;
+  type: string[];
+  issuer: {
+    id: string;
+    name: string;
+  };
+  validFrom: string;
+  validUntil: string;
+  credentialSubject: {
+    name: string;
+    credentialType: string;
+    attributes?: CredentialAttributes;
+  };
+  credentialStatus?: CredentialStatus[];
+  proof: {
+    type: string;
+    created: string;
+    verificationMethod: string;
+    proofPurpose: string;
+    proofValue: string;
+    workerId: string;
+  };
+}
+
+export interface JwtHeader {
+  alg: string;
+  typ?: string;
+  kid: string;
+}
+
+export interface JwtCredentialPayload {
+  iss: string;
+  sub: string;
+  nbf: number;
+  exp: number;
+  iat?: number;
+  jti: string;
+  vc: Omit<VerifiableCredential, 'proof'>;
+}
+
+// Payload of an SD-JWT credential after the presented disclosures are resolved
+export interface SdJwtCredentialPayload extends Omit<JwtCredentialPayload, 'sub' | 'vc'> {
+  _sd_alg: string;
+  vc: Omit<VerifiableCredential, 'proof' | 'credentialSubject'> & {
+    credentialSubject: {
+      name?: string;
+      credentialType: string;
+      attributes?: CredentialAttributes;
+    };
+  };
+}
+
+export type CredentialClaims = Pick<
+  Credential,
+  | 'id'
+  | 'holder_name'
+  | 'issuer'
+  | 'issued_date'
+  | 'credential_type'
+  | 'expiry_date'
+  | 'attributes'
+  | 'status_list_id'
+  | 'status_list_index'
+>;
+
+// Claims of an SD-JWT presentation, where the holder name may be withheld
+export type DisclosedCredentialClaims = Omit<CredentialClaims, 'holder_name'> & Partial<Pick<CredentialClaims, 'holder_name'>>;
+
+// JWT claims of a status list, with the BitstringStatusListCredential in the vc claim
+export interface StatusListCredentialPayload {
+  iss: string;
+  iat: number;
+  exp: number;
+  vc: {
+    id: string;
+    type: string[];
+    credentialSubject: {
+      type: string;
+      statusPurpose: string;
+      encodedList: string;
+    };
+  };
+}
+
 export interface VerificationRequest {
   credential: Credential;
 }
@@ -20,11 +151,18 @@ export interface VerificationResult {
   credential_id: string;
   is_valid: boolean;
   is_expired: boolean;
-  verification_status: 'valid' | 'invalid' | 'expired' | 'not_found' | 'signature_mismatch';
+  verification_status: VerificationStatus;
   verified_by: string;
   verified_at: string;
   issuer_worker_id?: string;
   issued_date?: string;
+  revocation_reason?: string;
+  revoked_at?: string;
+  superseded_by?: string;
+  superseded_at?: string;
+  disclosed_claims?: string[];
+  // Tenant of the verifier that requested the verification
+  tenant_id: string;
   created_at: string;
 }
 
@@ -46,9 +184,208 @@ export interface DatabaseVerification {
   verified_at: string;
   issuer_worker_id?: string;
   issued_date?: string;
+  revocation_reason?: string;
+  revoked_at?: string;
+  superseded_by?: string;
+  superseded_at?: string;
+  disclosed_claims?: string | null;
+  tenant_id: string;
   created_at: string;
 }
 
+export interface CredentialType {
+  name: string;
+  display_name: string;
+  default_validity_days: number;
+  is_active: boolean;
+}
+
+export interface PublicJwk {
+  kty: string;
+  crv: string;
+  x: string;
+  kid: string;
+  alg?: string;
+  use?: string;
+  // Tenant whose credentials the key signs, absent from issuers without tenants
+  tenant?: string;
+}
+
+export interface JsonWebKeySet {
+  keys: PublicJwk[];
+}
+
+export type Role = 'issuer' | 'verifier' | 'auditor' | 'admin';
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  key_prefix: string;
+  key_hash: string;
+  roles: Role[];
+  tenant_id: string;
+  created_at: string;
+  revoked_at: string | null;
+}
+
+export interface DatabaseApiKey extends Omit<ApiKey, 'roles'> {
+  roles: string;
+}
+
+export interface CreateApiKeyRequest {
+  name: string;
+  roles: Role[];
+}
+
+// The caller of a request, from an API key, a bearer token or the admin key
+export interface Principal {
+  id: string;
+  type: 'api_key' | 'bearer_token' | 'admin_key';
+  roles: Role[];
+  tenant_id: string;
+}
+
+// An entry of the append-only audit log. Entries are numbered without gaps and each
+// holds the hash of the entry before it, so a removed or changed entry breaks the chain.
+export interface AuditLogEntry {
+  id: string;
+  sequence: number;
+  tenant_id: string;
+  action: string;
+  actor_id: string | null;
+  actor_type: Principal['type'] | 'anonymous';
+  resource_id: string | null;
+  worker_id: string;
+  method: string;
+  path: string;
+  status_code: number;
+  ip: string | null;
+  user_agent: string | null;
+  created_at: string;
+  previous_hash: string;
+  hash: string;
+}
+
+export type NewAuditLogEntry = Omit<AuditLogEntry, 'id' | 'sequence' | 'created_at' | 'previous_hash' | 'hash'>;
+
+export interface AuditLogQuery {
+  action?: string;
+  actor_id?: string;
+  resource_id?: string;
+  from?: string;
+  to?: string;
+  limit: number;
+  offset: number;
+}
+
+// Head of the audit log when an entry was appended, signed with the key in
+// AUDIT_SIGNING_KEY. Kept in its own table, one row per entry.
+export interface AuditLogAnchor {
+  sequence: number;
+  hash: string;
+  kid: string;
+  // Compact JWS over the sequence and hash
+  signed_head: string;
+  created_at: string;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  entries_checked: number;
+  head: { sequence: number; hash: string } | null;
+  // Latest signed head, which can be published to detect a log rewritten together with its anchors
+  anchor: AuditLogAnchor | null;
+  first_invalid_sequence?: number;
+  error?: string;
+}
+
+export type WebhookEventType = 'verification.completed';
+
+// An endpoint of a tenant that is sent the events it subscribes to
+export interface WebhookSubscription {
+  id: string;
+  tenant_id: string;
+  url: string;
+  events: WebhookEventType[];
+  // Key of the HMAC-SHA256 signature of each delivery
+  secret: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DatabaseWebhookSubscription extends Omit<WebhookSubscription, 'events'> {
+  events: string;
+}
+
+export interface CreateWebhookSubscriptionRequest {
+  url: string;
+  events: WebhookEventType[];
+}
+
+// Body of a webhook request
+export interface WebhookEvent<T = unknown> {
+  id: string;
+  type: WebhookEventType;
+  tenant_id: string;
+  created_at: string;
+  data: T;
+}
+
+// Deliveries are retried while pending and end up in the dead-letter list when attempts run out
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'dead';
+
+export interface WebhookDelivery {
+  id: string;
+  subscription_id: string;
+  tenant_id: string;
+  event_id: string;
+  event_type: WebhookEventType;
+  // Serialized WebhookEvent, sent unchanged on every attempt
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_attempt_at: string | null;
+  last_response_status: number | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type DatabaseClient = 'sqlite' | 'postgres';
+
+export interface RunResult {
+  changes: number;
+}
+
+// Queries are written with ? placeholders, which each driver translates to its own syntax
+export interface QueryRunner {
+  run(query: string, params?: any[]): Promise<RunResult>;
+  get<T>(query: string, params?: any[]): Promise<T | undefined>;
+  all<T>(query: string, params?: any[]): Promise<T[]>;
+  getColumnNames(table: string): Promise<string[]>;
+}
+
+export interface DatabaseDriver extends QueryRunner {
+  readonly client: DatabaseClient;
+  connect(): Promise<void>;
+  close(): Promise<void>;
+  transaction<T>(action: (runner: QueryRunner) => Promise<T>): Promise<T>;
+}
+
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: QueryRunner): Promise<void>;
+  down(db: QueryRunner): Promise<void>;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied_at: string | null;
+}
+
 export interface HealthCheck {
   status: 'healthy' | 'unhealthy';
   timestamp: string;
@@ -0,0 +1,25 @@
+export class ConcurrencyUtils {
+  /**
+   * Map items with an async function, running at most `limit` calls at a time.
+   * Results are returned in the order of the items.
+   */
+  static async mapWithLimit<T, R>(
+    items: T[],
+    limit: number,
+    mapper: (item: T, index: number) => Promise<R>
+  ): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+
+    const worker = async (): Promise<void> => {
+      while (next < items.length) {
+        const index = next++;
+        results[index] = await mapper(items[index] as T, index);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+
+    return results;
+  }
+}
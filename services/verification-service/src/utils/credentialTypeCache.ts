@@ -0,0 +1,71 @@
+import { issuanceClient } from './issuanceClient';
+import { logger } from './logger';
+
+export class CredentialTypeCache {
+  private typeNames = new Set<string>();
+  private fetchedAt = 0;
+  private pendingRefresh: Promise<void> | null = null;
+  private ttlMs: number;
+  private minRefreshIntervalMs: number;
+
+  constructor() {
+    this.ttlMs = parseInt(process.env.CREDENTIAL_TYPES_CACHE_TTL_MS || '300000'); // 5 minutes
+    this.minRefreshIntervalMs = parseInt(process.env.CREDENTIAL_TYPES_MIN_REFRESH_INTERVAL_MS || '30000');
+  }
+
+  /**
+   * Check a credential type against the issuance registry. Inactive types are
+   * accepted because credentials issued before deactivation stay verifiable.
+   * Throws when the registry cannot be loaded and no earlier copy is cached,
+   * so that unchecked types are never accepted.
+   */
+  async isAcceptedType(name: string): Promise<boolean> {
+    const age = Date.now() - this.fetchedAt;
+
+    if (age > this.ttlMs || (!this.typeNames.has(name) && age > this.minRefreshIntervalMs)) {
+      await this.refresh();
+    }
+
+    return this.typeNames.has(name);
+  }
+
+  /**
+   * Fetch the type registry from issuance service, sharing one request between concurrent callers
+   */
+  async refresh(): Promise<void> {
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.fetchTypes().finally(() => {
+        this.pendingRefresh = null;
+      });
+    }
+
+    return this.pendingRefresh;
+  }
+
+  /**
+   * Drop all cached types
+   */
+  clear(): void {
+    this.typeNames.clear();
+    this.fetchedAt = 0;
+  }
+
+  private async fetchTypes(): Promise<void> {
+    try {
+      const credentialTypes = await issuanceClient.getCredentialTypes();
+
+      this.typeNames = new Set(credentialTypes.map(credentialType => credentialType.name));
+      this.fetchedAt = Date.now();
+      logger.info(`Credential type registry refreshed with ${this.typeNames.size} types`);
+    } catch (error) {
+      if (this.typeNames.size === 0) {
+        throw error;
+      }
+
+      // Keep using the previous registry until issuance service is reachable again
+      logger.warn('Failed to refresh credential type registry, using cached types', { error: (error as Error).message });
+    }
+  }
+}
+
+export const credentialTypeCache = new CredentialTypeCache();
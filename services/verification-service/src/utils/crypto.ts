@@ -1,42 +1,128 @@
 import crypto from 'crypto';
-import { Credential } from '../types';
+import { Credential, JwtHeader } from '../types';
+
+export const SIGNATURE_ALGORITHM = 'Ed25519';
 
 export class CryptoUtils {
   /**
-   * Generate a secure signature for a credential
+   * Build the canonical payload that is covered by the signature
    */
-  static generateCredentialSignature(credential: Omit<Credential, 'signature' | 'created_at' | 'updated_at'>): string {
-    const data = JSON.stringify({
+  static getSigningPayload(credential: Omit<Credential, 'signature' | 'created_at' | 'updated_at'>): string {
+    return JSON.stringify({
       id: credential.id,
       holder_name: credential.holder_name,
       issuer: credential.issuer,
       issued_date: credential.issued_date,
       credential_type: credential.credential_type,
       expiry_date: credential.expiry_date,
-      worker_id: credential.worker_id
+      worker_id: credential.worker_id,
+      signature_algorithm: credential.signature_algorithm,
+      kid: credential.kid,
+      // Left out when empty so signatures made before attributes existed stay valid
+      ...(credential.attributes && Object.keys(credential.attributes).length > 0 && {
+        attributes: this.canonicalize(credential.attributes)
+      }),
+      // Left out for credentials issued before status lists existed
+      ...(credential.status_list_id && {
+        status_list_id: credential.status_list_id,
+        status_list_index: credential.status_list_index
+      })
     });
-    
-    return crypto
-      .createHash('sha256')
-      .update(data + (process.env.JWT_SECRET || 'default-secret'))
-      .digest('hex');
   }
 
   /**
-   * Verify a credential signature
+   * Sort object keys recursively so equal values always serialize the same way
    */
-  static verifyCredentialSignature(credential: Credential): boolean {
-    const expectedSignature = this.generateCredentialSignature({
-      id: credential.id,
-      holder_name: credential.holder_name,
-      issuer: credential.issuer,
-      issued_date: credential.issued_date,
-      credential_type: credential.credential_type,
-      expiry_date: credential.expiry_date,
-      worker_id: credential.worker_id
-    });
-    
-    return expectedSignature === credential.signature;
+  static canonicalize(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map(item => this.canonicalize(item));
+    }
+
+    if (value !== null && typeof value === 'object') {
+      return Object.keys(value as Record<string, unknown>)
+        .sort()
+        .reduce<Record<string, unknown>>((sorted, key) => {
+          sorted[key] = this.canonicalize((value as Record<string, unknown>)[key]);
+          return sorted;
+        }, {});
+    }
+
+    return value;
+  }
+
+  /**
+   * Verify a credential signature against the issuer public key named by its kid
+   */
+  static verifyCredentialSignature(credential: Credential, publicKey: crypto.KeyObject): boolean {
+    if (credential.signature_algorithm !== SIGNATURE_ALGORITHM) {
+      return false;
+    }
+
+    try {
+      return crypto.verify(
+        null,
+        Buffer.from(this.getSigningPayload(credential)),
+        publicKey,
+        Buffer.from(credential.signature, 'base64url')
+      );
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Decode the header and payload of a compact JWS without verifying it
+   */
+  static decodeJwt<T = any>(token: string): { header: JwtHeader; payload: T } {
+    const [header = '', payload = ''] = token.split('.');
+
+    return {
+      header: JSON.parse(Buffer.from(header, 'base64url').toString()),
+      payload: JSON.parse(Buffer.from(payload, 'base64url').toString())
+    };
+  }
+
+  /**
+   * Verify the EdDSA signature of a compact JWS
+   */
+  static verifyJwtSignature(token: string, publicKey: crypto.KeyObject): boolean {
+    const [header = '', payload = '', signature = ''] = token.split('.');
+
+    try {
+      if (this.decodeJwt(token).header.alg !== 'EdDSA') {
+        return false;
+      }
+
+      return crypto.verify(
+        null,
+        Buffer.from(`${header}.${payload}`),
+        publicKey,
+        Buffer.from(signature, 'base64url')
+      );
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Sign a payload as a compact EdDSA JWS, naming the signing key in the header
+   */
+  static signJwt(payload: object, privateKey: crypto.KeyObject, kid: string, typ: string = 'JWT'): string {
+    const header = Buffer.from(JSON.stringify({ alg: 'EdDSA', typ, kid })).toString('base64url');
+    const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    const signature = crypto.sign(null, Buffer.from(`${header}.${body}`), privateKey).toString('base64url');
+
+    return `${header}.${body}.${signature}`;
+  }
+
+  /**
+   * Compute the RFC 7638 JWK thumbprint of a public key
+   */
+  static computeKeyId(publicKey: crypto.KeyObject): string {
+    const jwk = publicKey.export({ format: 'jwk' });
+    const canonical = JSON.stringify({ crv: jwk.crv, kty: jwk.kty, x: jwk.x });
+
+    return crypto.createHash('sha256').update(canonical).digest('base64url');
   }
 
   /**
@@ -46,6 +132,19 @@ export class CryptoUtils {
     return crypto.randomBytes(16).toString('hex');
   }
 
+  /**
+   * Sign a webhook payload with the secret of its subscription, over the
+   * timestamp and the body so that a captured delivery cannot be replayed later
+   */
+  static generateWebhookSignature(secret: string, timestamp: string, body: string): string {
+    const signature = crypto
+      .createHmac('sha256', secret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+
+    return `sha256=${signature}`;
+  }
+
   /**
    * Hash sensitive data
    */
@@ -56,4 +155,3 @@ export class CryptoUtils {
       .digest('hex');
   }
 }
-
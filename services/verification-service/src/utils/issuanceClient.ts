@@ -1,6 +1,15 @@
+import { SpanKind, SpanStatusCode, context, propagation, trace } from '@opentelemetry/api';
+import {
+  ATTR_HTTP_REQUEST_METHOD,
+  ATTR_HTTP_RESPONSE_STATUS_CODE,
+  ATTR_SERVER_ADDRESS,
+  ATTR_URL_FULL
+} from '@opentelemetry/semantic-conventions';
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
 import { logger } from './logger';
-import { Credential } from '../types';
+import { issuanceClientErrorsTotal, issuanceClientRequestDuration } from './metrics';
+import { tracer } from './tracing';
+import { CredentialType, IssuedCredential, JsonWebKeySet, StatusPurpose } from '../types';
 
 export class IssuanceServiceClient {
   private client: AxiosInstance;
@@ -20,6 +29,14 @@ export class IssuanceServiceClient {
     this.client.interceptors.request.use(
       (config) => {
         logger.info(`Making request to issuance service: ${config.method?.toUpperCase()} ${config.url}`);
+
+        // Continue the trace in the issuance service
+        trace.getActiveSpan()?.setAttributes({
+          [ATTR_HTTP_REQUEST_METHOD]: config.method?.toUpperCase() || 'GET',
+          [ATTR_URL_FULL]: `${this.baseURL}${config.url}`
+        });
+        propagation.inject(context.active(), config.headers);
+
         return config;
       },
       (error) => {
@@ -48,12 +65,12 @@ export class IssuanceServiceClient {
   /**
    * Get credential by ID from issuance service
    */
-  async getCredential(credentialId: string): Promise<Credential | null> {
+  async getCredential(credentialId: string): Promise<IssuedCredential | null> {
     try {
-      const response: AxiosResponse = await this.client.get(`/api/credentials/${credentialId}`);
+      const response: AxiosResponse = await this.track('get_credential', () => this.client.get(`/api/credentials/${credentialId}`));
       
       if (response.data.success && response.data.data) {
-        return response.data.data as Credential;
+        return response.data.data as IssuedCredential;
       }
       
       return null;
@@ -73,12 +90,73 @@ export class IssuanceServiceClient {
     }
   }
 
+  /**
+   * Get the published signing key set from issuance service
+   */
+  async getJwks(): Promise<JsonWebKeySet> {
+    try {
+      const response: AxiosResponse = await this.track('get_jwks', () => this.client.get('/.well-known/keys'));
+      return response.data as JsonWebKeySet;
+    } catch (error: any) {
+      logger.error('Error fetching key set from issuance service:', {
+        error: error.message,
+        status: error.response?.status
+      });
+
+      throw new Error(`Failed to fetch key set from issuance service: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get a whole status list for one status purpose from issuance service, as a signed JWT
+   */
+  async getStatusList(listId: string, purpose: StatusPurpose): Promise<string> {
+    try {
+      const response: AxiosResponse<string> = await this.track('get_status_list', () =>
+        this.client.get<string>(`/api/status-lists/${listId}/${purpose}`, { responseType: 'text' })
+      );
+      return response.data;
+    } catch (error: any) {
+      logger.error('Error fetching status list from issuance service:', {
+        listId,
+        purpose,
+        error: error.message,
+        status: error.response?.status
+      });
+
+      throw new Error(`Failed to fetch status list from issuance service: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get the registered credential types of every tenant, including inactive ones, from issuance service.
+   * Listing every tenant's types requires the issuance admin key (ISSUANCE_ADMIN_API_KEY).
+   */
+  async getCredentialTypes(): Promise<CredentialType[]> {
+    try {
+      const response: AxiosResponse = await this.track(
+        'get_credential_types',
+        () => this.client.get('/api/credential-types?include_inactive=true&all_tenants=true', {
+          headers: { 'X-Admin-Key': process.env.ISSUANCE_ADMIN_API_KEY || '' }
+        })
+      );
+      return response.data.data.credential_types as CredentialType[];
+    } catch (error: any) {
+      logger.error('Error fetching credential types from issuance service:', {
+        error: error.message,
+        status: error.response?.status
+      });
+
+      throw new Error(`Failed to fetch credential types from issuance service: ${error.message}`);
+    }
+  }
+
   /**
    * Health check for issuance service
    */
   async healthCheck(): Promise<boolean> {
     try {
-      const response: AxiosResponse = await this.client.get('/health');
+      const response: AxiosResponse = await this.track('health_check', () => this.client.get('/health'));
       return response.data.success === true;
     } catch (error: any) {
       logger.error('Issuance service health check failed:', error.message);
@@ -91,14 +169,53 @@ export class IssuanceServiceClient {
    */
   async getServiceInfo(): Promise<any> {
     try {
-      const response: AxiosResponse = await this.client.get('/');
+      const response: AxiosResponse = await this.track('get_service_info', () => this.client.get('/'));
       return response.data;
     } catch (error: any) {
       logger.error('Error getting issuance service info:', error.message);
       throw error;
     }
   }
+
+  /**
+   * Send a request in a client span and observe its latency under the operation
+   * name. Failed calls are counted as errors, apart from 404 responses, which
+   * are an answer.
+   */
+  private async track<T extends AxiosResponse>(operation: string, request: () => Promise<T>): Promise<T> {
+    const endTimer = issuanceClientRequestDuration.startTimer({ operation });
+
+    return tracer.startActiveSpan(`issuance-service ${operation}`, {
+      kind: SpanKind.CLIENT,
+      attributes: { [ATTR_SERVER_ADDRESS]: new URL(this.baseURL).hostname }
+    }, async (span) => {
+      try {
+        const response = await request();
+        span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, response.status);
+        endTimer({ outcome: 'success' });
+        return response;
+      } catch (error: any) {
+        const status: number | undefined = error.response?.status;
+
+        if (status) {
+          span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, status);
+        }
+
+        if (status === 404) {
+          endTimer({ outcome: 'not_found' });
+        } else {
+          endTimer({ outcome: 'error' });
+          issuanceClientErrorsTotal.inc({ operation, status: status ? String(status) : 'network' });
+          span.recordException(error);
+          span.setStatus({ code: SpanStatusCode.ERROR, message: error.message });
+        }
+
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+  }
 }
 
 export const issuanceClient = new IssuanceServiceClient();
-
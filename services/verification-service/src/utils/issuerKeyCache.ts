@@ -0,0 +1,104 @@
+import crypto from 'crypto';
+import { DEFAULT_TENANT_ID } from '../middleware/auth';
+import { issuanceClient } from './issuanceClient';
+import { logger } from './logger';
+
+export interface IssuerKey {
+  publicKey: crypto.KeyObject;
+  // Tenant whose credentials the key signs, keys published without one sign for the default tenant
+  tenant: string;
+}
+
+export class IssuerKeyCache {
+  private keys = new Map<string, IssuerKey>();
+  private fetchedAt = 0;
+  private pendingRefresh: Promise<void> | null = null;
+  private ttlMs: number;
+  private minRefreshIntervalMs: number;
+
+  constructor() {
+    this.ttlMs = parseInt(process.env.JWKS_CACHE_TTL_MS || '300000'); // 5 minutes
+    this.minRefreshIntervalMs = parseInt(process.env.JWKS_MIN_REFRESH_INTERVAL_MS || '30000');
+  }
+
+  /**
+   * Get the issuer public key for a key ID with the tenant it signs for, refreshing
+   * the key set when it is stale or when an unknown key ID shows up after a rotation
+   */
+  async getKey(kid: string): Promise<IssuerKey | null> {
+    const age = Date.now() - this.fetchedAt;
+
+    if (age > this.ttlMs || (!this.keys.has(kid) && age > this.minRefreshIntervalMs)) {
+      await this.refresh();
+    }
+
+    return this.keys.get(kid) || null;
+  }
+
+  /**
+   * Check whether a tenant has keys in the issuer key set, refreshing the key
+   * set when it is stale or when an unknown tenant shows up after being created
+   */
+  async hasTenant(tenant: string): Promise<boolean> {
+    const age = Date.now() - this.fetchedAt;
+    const isKnown = (): boolean => [...this.keys.values()].some(key => key.tenant === tenant);
+
+    if (age > this.ttlMs || (!isKnown() && age > this.minRefreshIntervalMs)) {
+      await this.refresh();
+    }
+
+    return isKnown();
+  }
+
+  /**
+   * Fetch the key set from issuance service, sharing one request between concurrent callers
+   */
+  async refresh(): Promise<void> {
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.fetchKeys().finally(() => {
+        this.pendingRefresh = null;
+      });
+    }
+
+    return this.pendingRefresh;
+  }
+
+  /**
+   * Drop all cached keys
+   */
+  clear(): void {
+    this.keys.clear();
+    this.fetchedAt = 0;
+  }
+
+  private async fetchKeys(): Promise<void> {
+    try {
+      const jwks = await issuanceClient.getJwks();
+      const keys = new Map<string, IssuerKey>();
+
+      for (const jwk of jwks.keys || []) {
+        if (jwk.kty !== 'OKP' || jwk.crv !== 'Ed25519') {
+          continue;
+        }
+
+        keys.set(jwk.kid, {
+          publicKey: crypto.createPublicKey({ key: { kty: jwk.kty, crv: jwk.crv, x: jwk.x }, format: 'jwk' }),
+          tenant: jwk.tenant || DEFAULT_TENANT_ID
+        });
+      }
+
+      this.keys = keys;
+      this.fetchedAt = Date.now();
+      logger.info(`Issuer key set refreshed with ${keys.size} keys`);
+    } catch (error) {
+      if (this.keys.size === 0) {
+        throw error;
+      }
+
+      // Keep serving the previous key set until issuance service is reachable again
+      logger.warn('Failed to refresh issuer key set, using cached keys', { error: (error as Error).message });
+    }
+  }
+}
+
+export const issuerKeyCache = new IssuerKeyCache();
@@ -0,0 +1,67 @@
+import client from 'prom-client';
+
+/**
+ * Prometheus metrics of this worker, served at GET /metrics
+ */
+export const metricsRegistry = new client.Registry();
+
+export const httpRequestsTotal = new client.Counter({
+  name: 'http_requests_total',
+  help: 'HTTP requests by method, route and response status',
+  labelNames: ['method', 'route', 'status_code'] as const,
+  registers: [metricsRegistry]
+});
+
+export const httpRequestDuration = new client.Histogram({
+  name: 'http_request_duration_seconds',
+  help: 'HTTP request latency by method, route and response status',
+  labelNames: ['method', 'route', 'status_code'] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  registers: [metricsRegistry]
+});
+
+export const dbQueryDuration = new client.Histogram({
+  name: 'db_query_duration_seconds',
+  help: 'Database query time by statement type',
+  labelNames: ['operation'] as const,
+  buckets: [0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1],
+  registers: [metricsRegistry]
+});
+
+export const verificationsTotal = new client.Counter({
+  name: 'verifications_total',
+  help: 'Verifications by verification status',
+  labelNames: ['verification_status'] as const,
+  registers: [metricsRegistry]
+});
+
+export const issuanceClientRequestDuration = new client.Histogram({
+  name: 'issuance_client_request_duration_seconds',
+  help: 'Latency of calls to the issuance service by operation and outcome',
+  labelNames: ['operation', 'outcome'] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  registers: [metricsRegistry]
+});
+
+export const issuanceClientErrorsTotal = new client.Counter({
+  name: 'issuance_client_errors_total',
+  help: 'Failed calls to the issuance service by operation and response status, network when there was none',
+  labelNames: ['operation', 'status'] as const,
+  registers: [metricsRegistry]
+});
+
+let initialized = false;
+
+/**
+ * Label every metric with the worker ID and start collecting the Node.js
+ * runtime metrics. Called once the environment is loaded.
+ */
+export const initMetrics = (): void => {
+  if (initialized) {
+    return;
+  }
+
+  metricsRegistry.setDefaultLabels({ worker_id: process.env.WORKER_ID || 'unknown-worker' });
+  client.collectDefaultMetrics({ register: metricsRegistry });
+  initialized = true;
+};
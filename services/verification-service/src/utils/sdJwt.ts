@@ -0,0 +1,127 @@
+import crypto from 'crypto';
+import { JwtHeader, SdJwtCredentialPayload } from '../types';
+import { CryptoUtils } from './crypto';
+
+export const SD_HASH_ALGORITHM = 'sha-256';
+
+export class SdJwtUtils {
+  /**
+   * Split an SD-JWT presentation into the issuer-signed JWT and the
+   * disclosures the holder chose to present. Key binding JWTs are not
+   * supported, so the presentation has to end with '~'.
+   */
+  static parse(sdJwt: string): { jwt: string; disclosures: string[] } {
+    const [jwt = '', ...disclosures] = sdJwt.split('~');
+
+    if (disclosures.pop() !== '') {
+      throw new Error('SD-JWT presentation must end with ~');
+    }
+
+    return { jwt, disclosures };
+  }
+
+  /**
+   * SHA-256 digest of a disclosure as listed in an _sd array
+   */
+  static hashDisclosure(disclosure: string): string {
+    return crypto.createHash('sha256').update(disclosure).digest('base64url');
+  }
+
+  /**
+   * Decode a presentation, putting the disclosed claims back into the issuer JWT payload
+   */
+  static decodePresentation(sdJwt: string): { jwt: string; header: JwtHeader; payload: SdJwtCredentialPayload } {
+    const { jwt, disclosures } = this.parse(sdJwt);
+    let decoded: { header: JwtHeader; payload: object };
+
+    try {
+      decoded = CryptoUtils.decodeJwt<object>(jwt);
+    } catch (error) {
+      throw new Error('SD-JWT is not properly encoded');
+    }
+
+    return {
+      jwt,
+      header: decoded.header,
+      payload: this.resolveDisclosures<SdJwtCredentialPayload>(decoded.payload, disclosures)
+    };
+  }
+
+  /**
+   * Replace the digests in _sd arrays with the claims of the matching
+   * disclosures. Claims that were not disclosed are left out, and a
+   * disclosure whose digest the issuer did not sign is rejected.
+   */
+  static resolveDisclosures<T>(payload: object, disclosures: string[]): T {
+    const claims = new Map<string, [string, unknown]>();
+
+    for (const disclosure of disclosures) {
+      let decoded: unknown;
+
+      try {
+        decoded = JSON.parse(Buffer.from(disclosure, 'base64url').toString());
+      } catch (error) {
+        throw new Error('Disclosure is not properly encoded');
+      }
+
+      if (!Array.isArray(decoded) || decoded.length !== 3 || typeof decoded[1] !== 'string') {
+        throw new Error('Disclosure must be an array of salt, claim name and value');
+      }
+
+      const digest = this.hashDisclosure(disclosure);
+
+      if (claims.has(digest)) {
+        throw new Error(`Claim '${decoded[1]}' is disclosed more than once`);
+      }
+
+      claims.set(digest, [decoded[1], decoded[2]]);
+    }
+
+    const resolved = this.resolveObject(payload, claims);
+
+    // Every resolved claim is removed from the map, so anything left was not signed
+    const [unreferenced] = claims.values();
+
+    if (unreferenced) {
+      throw new Error(`Disclosure of claim '${unreferenced[0]}' is not part of the credential`);
+    }
+
+    return resolved as T;
+  }
+
+  private static resolveObject(value: unknown, claims: Map<string, [string, unknown]>): unknown {
+    if (Array.isArray(value)) {
+      return value.map(item => this.resolveObject(item, claims));
+    }
+
+    if (value === null || typeof value !== 'object') {
+      return value;
+    }
+
+    const { _sd: digests, ...fields } = value as Record<string, unknown>;
+    const resolved: Record<string, unknown> = {};
+
+    for (const [name, field] of Object.entries(fields)) {
+      resolved[name] = this.resolveObject(field, claims);
+    }
+
+    for (const digest of Array.isArray(digests) ? digests : []) {
+      const claim = claims.get(digest);
+
+      if (!claim) {
+        continue;
+      }
+
+      const [name, claimValue] = claim;
+
+      if (name in resolved) {
+        throw new Error(`Claim '${name}' is disclosed more than once`);
+      }
+
+      resolved[name] = this.resolveObject(claimValue, claims);
+      claims.delete(digest);
+    }
+
+    return resolved;
+  }
+}
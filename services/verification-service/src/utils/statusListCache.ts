@@ -0,0 +1,123 @@
+import zlib from 'zlib';
+import { StatusListCredentialPayload, StatusPurpose } from '../types';
+import { CryptoUtils } from './crypto';
+import { issuanceClient } from './issuanceClient';
+import { issuerKeyCache } from './issuerKeyCache';
+import { logger } from './logger';
+
+export interface StatusList {
+  bits: Buffer;
+  // Tenant whose key signed the list
+  tenant: string;
+  // When the issuer wants the list fetched again, in milliseconds
+  expiresAt: number;
+}
+
+export class StatusListCache {
+  private lists = new Map<string, StatusList>();
+  private pendingRefreshes = new Map<string, Promise<StatusList>>();
+
+  /**
+   * Get a status list for one status purpose, fetching it again once it expires.
+   * Whole lists are downloaded, so issuance service does not learn which
+   * credential is being verified.
+   */
+  async getList(listId: string, purpose: StatusPurpose): Promise<StatusList> {
+    const cached = this.lists.get(`${listId}/${purpose}`);
+
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached;
+    }
+
+    return this.refresh(listId, purpose);
+  }
+
+  /**
+   * Fetch a status list from issuance service, sharing one request between concurrent callers
+   */
+  async refresh(listId: string, purpose: StatusPurpose): Promise<StatusList> {
+    const key = `${listId}/${purpose}`;
+    let pendingRefresh = this.pendingRefreshes.get(key);
+
+    if (!pendingRefresh) {
+      pendingRefresh = this.fetchList(listId, purpose).finally(() => {
+        this.pendingRefreshes.delete(key);
+      });
+      this.pendingRefreshes.set(key, pendingRefresh);
+    }
+
+    return pendingRefresh;
+  }
+
+  /**
+   * Whether the bit of an index is set, index 0 being the most significant bit of the first byte
+   */
+  static isSet(statusList: StatusList, index: number): boolean {
+    const byte = statusList.bits[Math.floor(index / 8)];
+
+    if (byte === undefined) {
+      throw new Error(`Status list index ${index} is out of range`);
+    }
+
+    return ((byte >> (7 - (index % 8))) & 1) === 1;
+  }
+
+  /**
+   * Drop all cached lists
+   */
+  clear(): void {
+    this.lists.clear();
+  }
+
+  private async fetchList(listId: string, purpose: StatusPurpose): Promise<StatusList> {
+    const key = `${listId}/${purpose}`;
+
+    try {
+      const jwt = await issuanceClient.getStatusList(listId, purpose);
+      const { header, payload } = CryptoUtils.decodeJwt<StatusListCredentialPayload>(jwt);
+      const issuerKey = await issuerKeyCache.getKey(header.kid);
+
+      if (!issuerKey || !CryptoUtils.verifyJwtSignature(jwt, issuerKey.publicKey)) {
+        throw new Error(`Status list ${key} is not signed with an issuer key`);
+      }
+
+      const { id, credentialSubject } = payload.vc;
+
+      if (!id.endsWith(`/${key}`) || credentialSubject.statusPurpose !== purpose) {
+        throw new Error(`Status list ${key} does not match the requested list`);
+      }
+
+      // The list is a multibase base64url ('u' prefix) encoding of the GZIP-compressed bitstring
+      if (!credentialSubject.encodedList.startsWith('u')) {
+        throw new Error(`Status list ${key} is not base64url encoded`);
+      }
+
+      const statusList: StatusList = {
+        bits: zlib.gunzipSync(Buffer.from(credentialSubject.encodedList.slice(1), 'base64url')),
+        tenant: issuerKey.tenant,
+        expiresAt: payload.exp * 1000
+      };
+
+      this.lists.set(key, statusList);
+      logger.info(`Status list ${key} refreshed`, { tenant: statusList.tenant });
+      return statusList;
+    } catch (error) {
+      const cached = this.lists.get(key);
+
+      // Keep serving the previous list while issuance service is unreachable, but not
+      // for long past its expiry, since credentials revoked meanwhile would still pass
+      if (!cached || cached.expiresAt + this.getGracePeriodMs() <= Date.now()) {
+        throw error;
+      }
+
+      logger.warn(`Failed to refresh status list ${key}, using cached list`, { error: (error as Error).message });
+      return cached;
+    }
+  }
+
+  private getGracePeriodMs(): number {
+    return parseInt(process.env.STATUS_LIST_GRACE_PERIOD_MS || '900000');
+  }
+}
+
+export const statusListCache = new StatusListCache();
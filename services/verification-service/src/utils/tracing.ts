@@ -0,0 +1,76 @@
+import { Span, SpanOptions, SpanStatusCode, context, propagation, trace } from '@opentelemetry/api';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import { BatchSpanProcessor, NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import { ATTR_SERVICE_NAME, ATTR_SERVICE_VERSION } from '@opentelemetry/semantic-conventions';
+import { logger } from './logger';
+
+const SERVICE_NAME = 'verification-service';
+
+export const tracer = trace.getTracer(SERVICE_NAME);
+
+let provider: NodeTracerProvider | null = null;
+
+/**
+ * Export spans over OTLP/HTTP to OTEL_EXPORTER_OTLP_ENDPOINT and take part in
+ * W3C trace context propagation. Tracing stays off when no endpoint is set.
+ * Called once the environment is loaded.
+ */
+export const initTracing = (): void => {
+  const endpoint = process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT || process.env.OTEL_EXPORTER_OTLP_ENDPOINT;
+
+  if (provider || !endpoint) {
+    return;
+  }
+
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({
+      [ATTR_SERVICE_NAME]: process.env.OTEL_SERVICE_NAME || SERVICE_NAME,
+      [ATTR_SERVICE_VERSION]: '1.0.0',
+      'service.instance.id': process.env.WORKER_ID || 'unknown-worker'
+    }),
+    spanProcessors: [new BatchSpanProcessor(new OTLPTraceExporter())]
+  });
+  provider.register();
+
+  logger.info('Tracing enabled', { endpoint });
+};
+
+/**
+ * Export the spans that are still buffered
+ */
+export const flushTracing = async (): Promise<void> => {
+  await provider?.forceFlush();
+};
+
+/**
+ * Export the buffered spans and stop tracing, on shutdown
+ */
+export const shutdownTracing = async (): Promise<void> => {
+  if (!provider) {
+    return;
+  }
+
+  await provider.shutdown();
+  trace.disable();
+  context.disable();
+  propagation.disable();
+  provider = null;
+};
+
+/**
+ * Run an action in a new span that is the active one while it runs. A thrown
+ * error is recorded on the span before it is passed on.
+ */
+export const withSpan = <T>(name: string, options: SpanOptions, action: (span: Span) => Promise<T>): Promise<T> =>
+  tracer.startActiveSpan(name, options, async (span) => {
+    try {
+      return await action(span);
+    } catch (error) {
+      span.recordException(error instanceof Error ? error : String(error));
+      span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : String(error) });
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
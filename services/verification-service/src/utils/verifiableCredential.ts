@@ -0,0 +1,98 @@
+import {
+  Credential,
+  CredentialClaims,
+  CredentialStatus,
+  DisclosedCredentialClaims,
+  JwtCredentialPayload,
+  SdJwtCredentialPayload,
+  VerifiableCredential
+} from '../types';
+import { SIGNATURE_ALGORITHM } from './crypto';
+
+export const VC_CONTEXT = 'https://www.w3.org/ns/credentials/v2';
+export const VC_PROOF_TYPE = 'KubeCredentialEd25519Signature';
+
+export class VerifiableCredentialUtils {
+  /**
+   * Check whether a request body is a W3C verifiable credential rather than a { credential } body
+   */
+  static isVerifiableCredential(body: any): boolean {
+    return !!body && typeof body === 'object' && '@context' in body;
+  }
+
+  /**
+   * Map a W3C VC document issued by issuance service back to the flat
+   * credential shape that the signature was computed over
+   */
+  static fromVerifiableCredential(vc: VerifiableCredential): Credential {
+    const { proof } = vc;
+
+    return {
+      id: vc.id.replace(/^urn:uuid:/, ''),
+      holder_name: vc.credentialSubject.name,
+      issuer: vc.issuer.name,
+      issued_date: vc.validFrom,
+      credential_type: vc.credentialSubject.credentialType,
+      expiry_date: vc.validUntil,
+      signature: proof.proofValue,
+      signature_algorithm: SIGNATURE_ALGORITHM,
+      kid: proof.verificationMethod.substring(proof.verificationMethod.lastIndexOf('#') + 1),
+      worker_id: proof.workerId,
+      attributes: vc.credentialSubject.attributes || {},
+      ...this.fromCredentialStatus(vc.credentialStatus),
+      created_at: proof.created,
+      updated_at: proof.created
+    };
+  }
+
+  /**
+   * Map the claims of a JWT credential to the credential fields it attests
+   */
+  static fromJwtPayload(payload: JwtCredentialPayload): CredentialClaims {
+    const { vc } = payload;
+
+    return {
+      id: payload.jti.replace(/^urn:uuid:/, ''),
+      holder_name: vc.credentialSubject.name,
+      issuer: vc.issuer.name,
+      issued_date: vc.validFrom,
+      credential_type: vc.credentialSubject.credentialType,
+      expiry_date: vc.validUntil,
+      attributes: vc.credentialSubject.attributes || {},
+      ...this.fromCredentialStatus(vc.credentialStatus)
+    };
+  }
+
+  /**
+   * Map the resolved claims of an SD-JWT credential to the credential fields
+   * it attests, leaving out the holder name and attributes that were not disclosed
+   */
+  static fromSdJwtPayload(payload: SdJwtCredentialPayload): DisclosedCredentialClaims {
+    const { vc } = payload;
+
+    return {
+      id: payload.jti.replace(/^urn:uuid:/, ''),
+      ...(vc.credentialSubject.name !== undefined && { holder_name: vc.credentialSubject.name }),
+      issuer: vc.issuer.name,
+      issued_date: vc.validFrom,
+      credential_type: vc.credentialSubject.credentialType,
+      expiry_date: vc.validUntil,
+      attributes: vc.credentialSubject.attributes || {},
+      ...this.fromCredentialStatus(vc.credentialStatus)
+    };
+  }
+
+  /**
+   * Status list ID and index of a credential from its credentialStatus entries.
+   * Every status purpose uses the same index of the same list, published at
+   * <base URL>/<list ID>/<purpose>, so the revocation entry is enough.
+   */
+  static fromCredentialStatus(
+    credentialStatus: CredentialStatus[] = []
+  ): Pick<Credential, 'status_list_id' | 'status_list_index'> {
+    const entry = credentialStatus.find(status => status.statusPurpose === 'revocation');
+    const listId = entry && /\/([^/]+)\/revocation$/.exec(entry.statusListCredential)?.[1];
+
+    return entry && listId ? { status_list_id: listId, status_list_index: parseInt(entry.statusListIndex) } : {};
+  }
+}
@@ -0,0 +1,173 @@
+import { v4 as uuidv4 } from 'uuid';
+import { WebhookDeliveryModel } from '../models/WebhookDelivery';
+import { WebhookSubscriptionModel } from '../models/WebhookSubscription';
+import { WebhookDelivery, WebhookEvent, WebhookEventType } from '../types';
+import { CryptoUtils } from './crypto';
+import { logger } from './logger';
+import { checkWebhookUrl } from './webhookUrl';
+
+const BATCH_SIZE = 50;
+
+export class WebhookDispatcher {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private pendingRun: Promise<void> | null = null;
+
+  /**
+   * Queue an event for the subscriptions of a tenant to it. Failures are logged
+   * and never fail the operation that raised the event.
+   */
+  async emit(type: WebhookEventType, tenantId: string, data: object): Promise<void> {
+    try {
+      const subscriptions = await WebhookSubscriptionModel.findByEvent(tenantId, type);
+
+      if (subscriptions.length === 0) {
+        return;
+      }
+
+      const event: WebhookEvent = {
+        id: uuidv4(),
+        type,
+        tenant_id: tenantId,
+        created_at: new Date().toISOString(),
+        data
+      };
+
+      await WebhookDeliveryModel.createForEvent(event, subscriptions);
+
+      // Send right away instead of waiting for the next poll
+      if (this.timer) {
+        void this.processDue();
+      }
+    } catch (error) {
+      logger.error(`Error raising webhook event ${type}:`, error);
+    }
+  }
+
+  /**
+   * Poll for due deliveries every WEBHOOK_POLL_INTERVAL_MS
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const intervalMs = parseInt(process.env.WEBHOOK_POLL_INTERVAL_MS || '5000');
+    this.timer = setInterval(() => void this.processDue(), intervalMs);
+    this.timer.unref();
+    logger.info('Webhook dispatcher started', { intervalMs });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Send the deliveries that are due. Runs never overlap, a caller during a run shares it.
+   */
+  async processDue(): Promise<void> {
+    if (!this.pendingRun) {
+      this.pendingRun = this.run().finally(() => {
+        this.pendingRun = null;
+      });
+    }
+
+    return this.pendingRun;
+  }
+
+  /**
+   * Send a delivery once and store the outcome. A 2xx response completes it,
+   * anything else is retried with exponential backoff from WEBHOOK_RETRY_BASE_MS
+   * until WEBHOOK_MAX_ATTEMPTS attempts have failed, after which it is dead.
+   */
+  async deliver(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    const subscription = await WebhookSubscriptionModel.findById(delivery.subscription_id);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+
+    if (!subscription) {
+      error = 'Subscription no longer exists';
+    } else {
+      // Checked again on every attempt, since the host may resolve elsewhere by now
+      error = await checkWebhookUrl(subscription.url);
+    }
+
+    if (subscription && error === null) {
+      try {
+        const response = await fetch(subscription.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Webhook-Id': delivery.event_id,
+            'X-Webhook-Event': delivery.event_type,
+            'X-Webhook-Timestamp': timestamp,
+            'X-Webhook-Signature': CryptoUtils.generateWebhookSignature(subscription.secret, timestamp, delivery.payload)
+          },
+          body: delivery.payload,
+          // A redirect could lead to an internal address, so it counts as a failure
+          redirect: 'manual',
+          signal: AbortSignal.timeout(this.getTimeoutMs())
+        });
+
+        responseStatus = response.status;
+        if (!response.ok) {
+          error = `Endpoint responded with status ${response.status}`;
+        }
+      } catch (requestError) {
+        error = requestError instanceof Error ? requestError.message : String(requestError);
+      }
+    }
+
+    const now = new Date();
+    const attempts = delivery.attempts + 1;
+    const exhausted = attempts >= parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8');
+    const retryBaseMs = parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '30000');
+
+    const updated: WebhookDelivery = {
+      ...delivery,
+      status: error === null ? 'succeeded' : exhausted ? 'dead' : 'pending',
+      attempts,
+      next_attempt_at: error === null || exhausted
+        ? null
+        : new Date(now.getTime() + retryBaseMs * 2 ** (attempts - 1)).toISOString(),
+      last_attempt_at: now.toISOString(),
+      last_response_status: responseStatus,
+      last_error: error,
+      updated_at: now.toISOString()
+    };
+
+    await WebhookDeliveryModel.saveAttempt(updated);
+
+    if (updated.status === 'dead') {
+      logger.warn(`Webhook delivery ${delivery.id} failed ${attempts} times and is dead`, { error });
+    } else if (error) {
+      logger.warn(`Webhook delivery ${delivery.id} failed, retrying at ${updated.next_attempt_at}`, { error });
+    }
+
+    return updated;
+  }
+
+  private async run(): Promise<void> {
+    try {
+      // Held past the request timeout, so a worker that stops mid-attempt leaves the delivery due again
+      const leaseUntil = new Date(Date.now() + this.getTimeoutMs() + 60000).toISOString();
+
+      for (const delivery of await WebhookDeliveryModel.findDue(BATCH_SIZE)) {
+        if (await WebhookDeliveryModel.claim(delivery, leaseUntil)) {
+          await this.deliver(delivery);
+        }
+      }
+    } catch (error) {
+      logger.error('Error processing webhook deliveries:', error);
+    }
+  }
+
+  private getTimeoutMs(): number {
+    return parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000');
+  }
+}
+
+export const webhookDispatcher = new WebhookDispatcher();
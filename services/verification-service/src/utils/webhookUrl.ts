@@ -0,0 +1,75 @@
+import dns from 'dns';
+import net from 'net';
+
+// Loopback, private, link-local (including cloud metadata at 169.254.169.254),
+// shared, reserved and multicast ranges, which webhooks are never sent to.
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges.
+const blockedAddresses = new net.BlockList();
+
+for (const [address, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+] as const) {
+  blockedAddresses.addSubnet(address, prefix, 'ipv4');
+}
+
+for (const [address, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+] as const) {
+  blockedAddresses.addSubnet(address, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is a public unicast address
+ */
+export const isPublicAddress = (address: string): boolean => {
+  const family = net.isIP(address);
+
+  return family !== 0 && !blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+/**
+ * Check that the host of a webhook URL only resolves to public addresses, so
+ * that tenants cannot make the service call internal endpoints. Hosts listed
+ * in WEBHOOK_ALLOWED_HOSTS (comma-separated) are not checked. Returns why the
+ * URL may not be used, or null when it may.
+ */
+export const checkWebhookUrl = async (url: string): Promise<string | null> => {
+  const host = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+  const allowedHosts = (process.env.WEBHOOK_ALLOWED_HOSTS || '')
+    .split(',')
+    .map(allowedHost => allowedHost.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (allowedHosts.includes(host)) {
+    return null;
+  }
+
+  let addresses: string[];
+  try {
+    addresses = net.isIP(host)
+      ? [host]
+      : (await dns.promises.lookup(host, { all: true, verbatim: true })).map(({ address }) => address);
+  } catch (error) {
+    return `Host ${host} could not be resolved`;
+  }
+
+  if (!addresses.every(isPublicAddress)) {
+    return `Host ${host} resolves to a loopback, private or link-local address`;
+  }
+
+  return null;
+};